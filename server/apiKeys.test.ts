@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { createApiKey, findActiveApiKey, hasApiKeyScope, listApiKeys, looksLikeApiKey, revokeApiKey } from "./apiKeys";
+import { memoryDocuments, resetMemoryDb } from "./fixtures/memoryDb";
+
+vi.mock("./db", () => import("./fixtures/memoryDb"));
+
+beforeEach(() => resetMemoryDb());
+afterEach(() => vi.useRealTimers());
+
+describe("API key scopes", () => {
+  it("limits keys to their scopes and leaves signed-in users alone", () => {
+    expect(hasApiKeyScope({ scopes: ["read", "export"] }, "export")).toBe(true);
+    expect(hasApiKeyScope({ scopes: ["read"] }, "write")).toBe(false);
+    expect(hasApiKeyScope(undefined, "write")).toBe(true);
+  });
+
+  it("needs a name and a non-empty list of known scopes", async () => {
+    await expect(createApiKey({ name: " ", scopes: ["read"] }, "admin")).rejects.toThrow("name is required");
+    await expect(createApiKey({ name: "Sync", scopes: [] }, "admin")).rejects.toThrow("scopes must be a non-empty list of read, write, export");
+    await expect(createApiKey({ name: "Sync", scopes: ["read", "admin"] }, "admin")).rejects.toThrow("scopes must be");
+    const { apiKey } = await createApiKey({ name: "Sync", scopes: ["read", "write", "read"] }, "admin");
+    expect(apiKey.scopes).toEqual(["read", "write"]);
+  });
+
+  it("hands out the key once and stores only its hash", async () => {
+    const { apiKey, key } = await createApiKey({ name: "Sync", scopes: ["read"] }, "admin");
+    expect(looksLikeApiKey(key)).toBe(true);
+    expect(key.startsWith(apiKey.prefix)).toBe(true);
+    expect(JSON.stringify(memoryDocuments("api_keys"))).not.toContain(key);
+    expect(await listApiKeys()).toEqual([apiKey]);
+  });
+});
+
+describe("API key expiry and revocation", () => {
+  it("rejects expiry dates that are not dates or not in the future", async () => {
+    await expect(createApiKey({ name: "Sync", scopes: ["read"], expiresAt: "soon" }, "admin")).rejects.toThrow("expiresAt must be an ISO date");
+    await expect(createApiKey({ name: "Sync", scopes: ["read"], expiresAt: 1 }, "admin")).rejects.toThrow("expiresAt must be an ISO date");
+    await expect(createApiKey({ name: "Sync", scopes: ["read"], expiresAt: "2000-01-01" }, "admin")).rejects.toThrow(
+      "expiresAt must be in the future"
+    );
+  });
+
+  it("accepts a key until it expires and records when it was used", async () => {
+    vi.useFakeTimers({ now: new Date("2030-01-01T00:00:00.000Z") });
+    const { key } = await createApiKey({ name: "Sync", scopes: ["read"], expiresAt: "2030-01-02T00:00:00.000Z" }, "admin");
+    vi.setSystemTime(new Date("2030-01-01T12:00:00.000Z"));
+    expect(await findActiveApiKey(key)).toMatchObject({ name: "Sync", lastUsedAt: "2030-01-01T12:00:00.000Z" });
+    vi.setSystemTime(new Date("2030-01-02T00:00:00.000Z"));
+    expect(await findActiveApiKey(key)).toBeNull();
+  });
+
+  it("stops accepting a revoked key", async () => {
+    const { apiKey, key } = await createApiKey({ name: "Sync", scopes: ["read"] }, "admin");
+    expect(await findActiveApiKey(key)).not.toBeNull();
+    expect(await revokeApiKey(apiKey.id)).toBe(true);
+    expect(await revokeApiKey(apiKey.id)).toBe(false);
+    expect(await findActiveApiKey(key)).toBeNull();
+    expect(await findActiveApiKey("sar_unknown")).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { getDb } from "./db";
+
+export type ApiKeyScope = "read" | "write" | "export";
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ["read", "write", "export"];
+
+// Every key starts with this so it can be told apart from a JWT in the Authorization header.
+const KEY_PREFIX = "sar_";
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  /** The first characters of the key, shown in the App so admins can tell keys apart. */
+  prefix: string;
+  keyHash: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
+}
+
+export type PublicApiKey = Omit<ApiKey, "keyHash">;
+
+export class ApiKeyError extends Error {}
+
+type ApiKeyDocument = ApiKey & { _id?: unknown };
+
+async function apiKeysCollection() {
+  const db = await getDb();
+  return db.collection<ApiKeyDocument>("api_keys");
+}
+
+function hashKey(key: string): string {
+  return createHash("sha256").update(key).digest("hex");
+}
+
+function toPublicApiKey(apiKey: ApiKey): PublicApiKey {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    prefix: apiKey.prefix,
+    scopes: apiKey.scopes,
+    createdBy: apiKey.createdBy,
+    createdAt: apiKey.createdAt,
+    expiresAt: apiKey.expiresAt,
+    lastUsedAt: apiKey.lastUsedAt,
+    revokedAt: apiKey.revokedAt
+  };
+}
+
+/** Keys only reach the routes their scopes cover; signed-in people are not limited by scope. */
+export function hasApiKeyScope(apiKey: Pick<ApiKey, "scopes"> | undefined, scope: ApiKeyScope): boolean {
+  return !apiKey || apiKey.scopes.includes(scope);
+}
+
+export function looksLikeApiKey(token: string): boolean {
+  return token.startsWith(KEY_PREFIX);
+}
+
+export async function ensureApiKeyIndexes(): Promise<void> {
+  const collection = await apiKeysCollection();
+  await collection.createIndex({ id: 1 }, { unique: true });
+  await collection.createIndex({ keyHash: 1 }, { unique: true });
+}
+
+export async function listApiKeys(): Promise<PublicApiKey[]> {
+  const collection = await apiKeysCollection();
+  const keys = await collection.find({}, { projection: { _id: 0 } }).sort({ createdAt: -1 }).toArray();
+  return keys.map(toPublicApiKey);
+}
+
+/** Creates a key and returns it in full. This is the only time the plain key is available. */
+export async function createApiKey(
+  input: { name?: unknown; scopes?: unknown; expiresAt?: unknown },
+  createdBy: string
+): Promise<{ apiKey: PublicApiKey; key: string }> {
+  const name = typeof input.name === "string" ? input.name.trim() : "";
+  if (!name) throw new ApiKeyError("name is required");
+  if (
+    !Array.isArray(input.scopes) ||
+    input.scopes.length === 0 ||
+    input.scopes.some((scope) => !API_KEY_SCOPES.includes(scope as ApiKeyScope))
+  ) {
+    throw new ApiKeyError(`scopes must be a non-empty list of ${API_KEY_SCOPES.join(", ")}`);
+  }
+  let expiresAt: string | null = null;
+  if (input.expiresAt !== undefined && input.expiresAt !== null && input.expiresAt !== "") {
+    const expiry = typeof input.expiresAt === "string" ? new Date(input.expiresAt) : new Date(Number.NaN);
+    if (Number.isNaN(expiry.getTime())) throw new ApiKeyError("expiresAt must be an ISO date");
+    if (expiry.getTime() <= Date.now()) throw new ApiKeyError("expiresAt must be in the future");
+    expiresAt = expiry.toISOString();
+  }
+
+  const key = `${KEY_PREFIX}${randomBytes(24).toString("base64url")}`;
+  const apiKey: ApiKey = {
+    id: randomUUID(),
+    name,
+    prefix: key.slice(0, KEY_PREFIX.length + 6),
+    keyHash: hashKey(key),
+    scopes: [...new Set(input.scopes as ApiKeyScope[])],
+    createdBy,
+    createdAt: new Date().toISOString(),
+    expiresAt,
+    lastUsedAt: null,
+    revokedAt: null
+  };
+  const collection = await apiKeysCollection();
+  await collection.insertOne({ ...apiKey });
+  return { apiKey: toPublicApiKey(apiKey), key };
+}
+
+/** Looks up an unrevoked, unexpired key and records that it was used. */
+export async function findActiveApiKey(key: string): Promise<PublicApiKey | null> {
+  const collection = await apiKeysCollection();
+  const now = new Date().toISOString();
+  const apiKey = await collection.findOneAndUpdate(
+    { keyHash: hashKey(key), revokedAt: null, $or: [{ expiresAt: null }, { expiresAt: { $gt: now } }] },
+    { $set: { lastUsedAt: now } },
+    { projection: { _id: 0 }, returnDocument: "after" }
+  );
+  return apiKey ? toPublicApiKey(apiKey) : null;
+}
+
+/** Returns false when there was no unrevoked key with that id. */
+export async function revokeApiKey(id: string): Promise<boolean> {
+  const collection = await apiKeysCollection();
+  const result = await collection.updateOne({ id, revokedAt: null }, { $set: { revokedAt: new Date().toISOString() } });
+  return result.modifiedCount > 0;
+}
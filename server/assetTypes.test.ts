@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { AssetTypeError, attributeColumns, ensureAssetTypes, findAssetType, listAssetTypes, saveAssetType } from "./assetTypes";
+import { resetMemoryDb } from "./fixtures/memoryDb";
+import type { Asset, AssetTypeSchema } from "./types";
+
+vi.mock("./db", () => import("./fixtures/memoryDb"));
+
+beforeEach(() => resetMemoryDb());
+
+describe("saveAssetType", () => {
+  it("fills in defaults and finds the schema by type ignoring case", async () => {
+    const attributes = [
+      { name: "flowRate", dataType: "number", allowedValues: [" 10 ", "10", "16"] },
+      { name: "material", label: " Material ", dataType: "text", required: true }
+    ];
+    const saved = await saveAssetType(" Pump ", { attributes }, "admin");
+    expect(saved.attributes).toEqual([
+      { name: "flowRate", label: "flowRate", dataType: "number", required: false, allowedValues: ["10", "16"] },
+      { name: "material", label: "Material", dataType: "text", required: true, allowedValues: [] }
+    ]);
+    expect(await findAssetType("PUMP")).toEqual(saved);
+    await saveAssetType("pump", { attributes: [] }, "admin");
+    expect((await listAssetTypes()).map((schema) => [schema.type, schema.attributes.length])).toEqual([["pump", 0]]);
+  });
+
+  it("rejects definitions that cannot be checked", async () => {
+    const save = (attributes: unknown) => saveAssetType("Pump", { attributes }, "admin");
+    await expect(save("flowRate")).rejects.toThrow("attributes must be a list");
+    await expect(save([null])).rejects.toThrow("attributes[0] must be an object");
+    await expect(save([{ name: "1st", dataType: "text" }])).rejects.toThrow("attributes[0].name must start with a letter");
+    await expect(save([{ name: "Region", dataType: "text" }])).rejects.toThrow("Region is a built-in asset field and cannot be an attribute name");
+    await expect(save([{ name: "size", dataType: "integer" }])).rejects.toThrow("size.dataType must be one of text, number, date, boolean");
+    await expect(save([{ name: "size", dataType: "boolean", allowedValues: ["yes"] }])).rejects.toThrow(
+      "size.allowedValues only apply to text and number attributes"
+    );
+    await expect(save([{ name: "size", dataType: "number", allowedValues: ["big"] }])).rejects.toThrow("size.allowedValues must all be numbers");
+    await expect(save([{ name: "size", dataType: "text" }, { name: "Size", dataType: "number" }])).rejects.toThrow(
+      "Attribute size is defined more than once"
+    );
+    await expect(save([{ name: "size", dataType: "text", required: "yes" }])).rejects.toBeInstanceOf(AssetTypeError);
+  });
+
+  it("seeds the example schemas only into an empty registry", async () => {
+    await ensureAssetTypes();
+    expect((await listAssetTypes()).map((schema) => schema.type)).toEqual(["Depot", "Land Parcel", "Reserve"]);
+    await saveAssetType("Depot", { attributes: [] }, "admin");
+    await ensureAssetTypes();
+    expect((await findAssetType("depot"))?.attributes).toEqual([]);
+  });
+});
+
+describe("attributeColumns", () => {
+  const schema = (type: string, attributes: Pick<AssetTypeSchema["attributes"][number], "name" | "label" | "dataType">[]): AssetTypeSchema => ({
+    type,
+    attributes: attributes.map((attribute) => ({ ...attribute, required: false, allowedValues: [] })),
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    updatedBy: "admin"
+  });
+  const asset = (type: string, attributes: Asset["attributes"] = {}): Asset => ({
+    id: type,
+    name: type,
+    region: "NSW",
+    type,
+    status: "Active",
+    latitude: null,
+    longitude: null,
+    version: 1,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    attributes
+  });
+
+  it("lists the columns of the types in use, then names only found on the records", () => {
+    const schemas = [
+      schema("Pump", [{ name: "size", label: "Size", dataType: "number" }, { name: "material", label: "Material", dataType: "text" }]),
+      schema("Tank", [{ name: "size", label: "Size", dataType: "text" }]),
+      schema("Valve", [{ name: "turns", label: "Turns", dataType: "number" }])
+    ];
+    expect(attributeColumns([asset("pump"), asset("Tank", { legacyCode: "X" })], schemas)).toEqual([
+      { name: "size", label: "Size", dataType: "text" },
+      { name: "material", label: "Material", dataType: "text" },
+      { name: "legacyCode", label: "legacyCode", dataType: "text" }
+    ]);
+  });
+});
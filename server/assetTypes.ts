@@ -0,0 +1,183 @@
+import { getDb } from "./db";
+import { ATTRIBUTE_NAME_PATTERN } from "./validation";
+import type { Asset, AssetTypeSchema, AttributeDataType, AttributeDefinition } from "./types";
+
+export const ATTRIBUTE_DATA_TYPES: AttributeDataType[] = ["text", "number", "date", "boolean"];
+
+// Attribute names share export columns with these, so they cannot be reused (compared ignoring case).
+const RESERVED_ATTRIBUTE_NAMES = [
+  "id",
+  "name",
+  "region",
+  "type",
+  "status",
+  "latitude",
+  "longitude",
+  "geometry",
+  "version",
+  "createdAt",
+  "updatedAt",
+  "archivedAt",
+  "archivedBy",
+  "aliases",
+  "attributes",
+  "easting",
+  "northing",
+  "crs"
+].map((name) => name.toLowerCase());
+
+export class AssetTypeError extends Error {}
+
+type AssetTypeDocument = AssetTypeSchema & { key: string; _id?: unknown };
+
+/** A column for one attribute name across the exported assets. */
+export interface AttributeColumn {
+  name: string;
+  label: string;
+  /** Text when types disagree on the data type of a shared name. */
+  dataType: AttributeDataType;
+}
+
+function attribute(
+  name: string,
+  label: string,
+  dataType: AttributeDataType,
+  required = false,
+  allowedValues: string[] = []
+): AttributeDefinition {
+  return { name, label, dataType, required, allowedValues };
+}
+
+const SEED_SCHEMAS: Pick<AssetTypeSchema, "type" | "attributes">[] = [
+  {
+    type: "Reserve",
+    attributes: [
+      attribute("reserveNumber", "Reserve number", "text", true),
+      attribute("gazettalDate", "Gazettal date", "date"),
+      attribute("purpose", "Purpose", "text", false, ["Public recreation", "Environmental protection", "Future public requirements"])
+    ]
+  },
+  {
+    type: "Depot",
+    attributes: [attribute("floorArea", "Floor area (m²)", "number"), attribute("custodian", "Custodian", "text", true)]
+  },
+  {
+    type: "Land Parcel",
+    attributes: [attribute("lotDp", "Lot/DP", "text", true), attribute("tenure", "Tenure", "text", false, ["Crown", "Freehold", "Leasehold"])]
+  }
+];
+
+function typeKey(type: string): string {
+  return type.trim().toLowerCase();
+}
+
+async function assetTypesCollection() {
+  const db = await getDb();
+  return db.collection<AssetTypeDocument>("asset_types");
+}
+
+/** Seeds the Reserve, Depot and Land Parcel schemas into an empty registry. */
+export async function ensureAssetTypes(): Promise<void> {
+  const collection = await assetTypesCollection();
+  await collection.createIndex({ key: 1 }, { unique: true });
+  if ((await collection.countDocuments()) > 0) return;
+  const now = new Date().toISOString();
+  await collection.insertMany(
+    SEED_SCHEMAS.map((schema) => ({ ...schema, key: typeKey(schema.type), updatedAt: now, updatedBy: "system" }))
+  );
+}
+
+export async function listAssetTypes(): Promise<AssetTypeSchema[]> {
+  const collection = await assetTypesCollection();
+  return collection.find({}, { projection: { _id: 0, key: 0 } }).sort({ key: 1 }).toArray();
+}
+
+export async function findAssetType(type: string): Promise<AssetTypeSchema | null> {
+  const collection = await assetTypesCollection();
+  return collection.findOne({ key: typeKey(type) }, { projection: { _id: 0, key: 0 } });
+}
+
+function parseDefinition(input: unknown, index: number): AttributeDefinition {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new AssetTypeError(`attributes[${index}] must be an object`);
+  }
+  const { name, label, dataType, required, allowedValues } = input as Record<string, unknown>;
+  if (typeof name !== "string" || !ATTRIBUTE_NAME_PATTERN.test(name)) {
+    throw new AssetTypeError(`attributes[${index}].name must start with a letter and use only letters, digits and _`);
+  }
+  if (RESERVED_ATTRIBUTE_NAMES.includes(name.toLowerCase())) {
+    throw new AssetTypeError(`${name} is a built-in asset field and cannot be an attribute name`);
+  }
+  if (label !== undefined && typeof label !== "string") throw new AssetTypeError(`${name}.label must be a string`);
+  if (!ATTRIBUTE_DATA_TYPES.includes(dataType as AttributeDataType)) {
+    throw new AssetTypeError(`${name}.dataType must be one of ${ATTRIBUTE_DATA_TYPES.join(", ")}`);
+  }
+  if (required !== undefined && typeof required !== "boolean") throw new AssetTypeError(`${name}.required must be true or false`);
+  const allowed = allowedValues ?? [];
+  if (!Array.isArray(allowed) || allowed.some((value) => typeof value !== "string" || !value.trim())) {
+    throw new AssetTypeError(`${name}.allowedValues must be a list of non-empty strings`);
+  }
+  const values = [...new Set(allowed.map((value: string) => value.trim()))];
+  if (values.length > 0 && dataType !== "text" && dataType !== "number") {
+    throw new AssetTypeError(`${name}.allowedValues only apply to text and number attributes`);
+  }
+  if (dataType === "number" && values.some((value) => !Number.isFinite(Number(value)))) {
+    throw new AssetTypeError(`${name}.allowedValues must all be numbers`);
+  }
+  return {
+    name,
+    label: typeof label === "string" && label.trim() ? label.trim() : name,
+    dataType: dataType as AttributeDataType,
+    required: required ?? false,
+    allowedValues: values
+  };
+}
+
+/**
+ * Creates or replaces the schema for a type. Existing assets keep their
+ * values; they are checked against the new schema the next time they are saved.
+ */
+export async function saveAssetType(type: string, input: { attributes?: unknown }, updatedBy: string): Promise<AssetTypeSchema> {
+  const name = type.trim();
+  if (!name) throw new AssetTypeError("type is required");
+  if (!Array.isArray(input.attributes)) throw new AssetTypeError("attributes must be a list");
+  const attributes = input.attributes.map(parseDefinition);
+  const names = attributes.map((definition) => definition.name.toLowerCase());
+  const repeated = names.find((value, index) => names.indexOf(value) !== index);
+  if (repeated) throw new AssetTypeError(`Attribute ${repeated} is defined more than once`);
+
+  const schema: AssetTypeSchema = { type: name, attributes, updatedAt: new Date().toISOString(), updatedBy };
+  const collection = await assetTypesCollection();
+  await collection.replaceOne({ key: typeKey(name) }, { ...schema, key: typeKey(name) }, { upsert: true });
+  return schema;
+}
+
+/** Returns false when the type had no schema. Values already on assets are left in place. */
+export async function deleteAssetType(type: string): Promise<boolean> {
+  const collection = await assetTypesCollection();
+  const result = await collection.deleteOne({ key: typeKey(type) });
+  return result.deletedCount > 0;
+}
+
+/**
+ * The attribute columns for an export: those of the schemas used by the
+ * records in schema order, then any names only found on the records.
+ */
+export function attributeColumns(records: Asset[], schemas: AssetTypeSchema[]): AttributeColumn[] {
+  const usedTypes = new Set(records.map((asset) => typeKey(asset.type)));
+  const columns = new Map<string, AttributeColumn>();
+  schemas
+    .filter((schema) => usedTypes.has(typeKey(schema.type)))
+    .flatMap((schema) => schema.attributes)
+    .forEach(({ name, label, dataType }) => {
+      const existing = columns.get(name);
+      if (!existing) columns.set(name, { name, label, dataType });
+      else if (existing.dataType !== dataType) existing.dataType = "text";
+    });
+  records.forEach((asset) => {
+    Object.keys(asset.attributes ?? {}).forEach((name) => {
+      if (!columns.has(name)) columns.set(name, { name, label: name, dataType: "text" });
+    });
+  });
+  return [...columns.values()];
+}
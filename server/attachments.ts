@@ -0,0 +1,186 @@
+import type { Readable } from "node:stream";
+import { GridFSBucket, ObjectId } from "mongodb";
+import { getDb } from "./db";
+import { createThumbnail, THUMBNAIL_CONTENT_TYPE } from "./thumbnails";
+import type { AssetAttachment } from "./types";
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+// Photos, PDFs, plain text and Office documents. Nothing a browser would run as script (HTML, SVG).
+export const ATTACHMENT_CONTENT_TYPES = [
+  "image/jpeg",
+  "image/png",
+  "image/gif",
+  "image/webp",
+  "application/pdf",
+  "text/plain",
+  "text/csv",
+  "application/msword",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  "application/vnd.ms-excel",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+];
+
+// Images and PDFs must start the way their type says, so a renamed file is not stored under the wrong type.
+const FILE_SIGNATURES: Record<string, (data: Buffer) => boolean> = {
+  "image/jpeg": (data) => data[0] === 0xff && data[1] === 0xd8 && data[2] === 0xff,
+  "image/png": (data) => data.toString("latin1", 0, 8) === "\x89PNG\r\n\x1a\n",
+  "image/gif": (data) => ["GIF87a", "GIF89a"].includes(data.toString("latin1", 0, 6)),
+  "image/webp": (data) => data.toString("latin1", 0, 4) === "RIFF" && data.toString("latin1", 8, 12) === "WEBP",
+  "application/pdf": (data) => data.toString("latin1", 0, 5) === "%PDF-"
+};
+
+const MAX_FILENAME_LENGTH = 200;
+
+export class AttachmentError extends Error {}
+
+type AttachmentMetadata = Pick<AssetAttachment, "assetId" | "contentType" | "hasThumbnail" | "uploadedBy" | "uploadedAt">;
+
+interface AttachmentFile {
+  _id: ObjectId;
+  filename: string;
+  length: number;
+  metadata?: AttachmentMetadata;
+}
+
+// Originals and their PNG thumbnails live in separate buckets under the same ObjectId.
+async function attachmentBuckets() {
+  const db = await getDb();
+  return {
+    files: new GridFSBucket(db, { bucketName: "attachments" }),
+    thumbnails: new GridFSBucket(db, { bucketName: "attachment_thumbnails" }),
+    fileDocuments: db.collection<AttachmentFile>("attachments.files")
+  };
+}
+
+function toAttachment(file: AttachmentFile): AssetAttachment {
+  const metadata = file.metadata as AttachmentMetadata;
+  return {
+    id: file._id.toHexString(),
+    assetId: metadata.assetId,
+    filename: file.filename,
+    contentType: metadata.contentType,
+    size: file.length,
+    hasThumbnail: metadata.hasThumbnail,
+    uploadedBy: metadata.uploadedBy,
+    uploadedAt: metadata.uploadedAt
+  };
+}
+
+// Unknown or malformed ids simply match nothing.
+function toObjectId(id: string): ObjectId | null {
+  return /^[0-9a-f]{24}$/i.test(id) ? new ObjectId(id) : null;
+}
+
+function writeFile(bucket: GridFSBucket, id: ObjectId, filename: string, data: Buffer, metadata?: object): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const stream = bucket.openUploadStreamWithId(id, filename, { metadata });
+    stream.once("finish", () => resolve());
+    stream.once("error", reject);
+    stream.end(data);
+  });
+}
+
+export async function ensureAttachmentIndexes(): Promise<void> {
+  const { fileDocuments } = await attachmentBuckets();
+  await fileDocuments.createIndex({ "metadata.assetId": 1, "metadata.uploadedAt": -1 });
+}
+
+/** Newest first. */
+export async function listAttachments(assetId: string): Promise<AssetAttachment[]> {
+  const { fileDocuments } = await attachmentBuckets();
+  const files = await fileDocuments.find({ "metadata.assetId": assetId }).sort({ "metadata.uploadedAt": -1 }).toArray();
+  return files.map(toAttachment);
+}
+
+export async function findAttachment(assetId: string, attachmentId: string): Promise<AssetAttachment | null> {
+  const id = toObjectId(attachmentId);
+  if (!id) return null;
+  const { fileDocuments } = await attachmentBuckets();
+  const file = await fileDocuments.findOne({ _id: id, "metadata.assetId": assetId });
+  return file ? toAttachment(file) : null;
+}
+
+/**
+ * Stores an uploaded file against the asset. The caller checks the size
+ * limit before reading the body; the type must be one of
+ * ATTACHMENT_CONTENT_TYPES and match the file's contents.
+ */
+export async function saveAttachment(
+  assetId: string,
+  upload: { filename?: unknown; contentType?: unknown; data: Buffer },
+  uploadedBy: string
+): Promise<AssetAttachment> {
+  // Browsers may send a full client path; only the last part is kept.
+  const filename = typeof upload.filename === "string" ? (upload.filename.split(/[\\/]/).pop() ?? "").trim() : "";
+  if (!filename) throw new AttachmentError("filename is required");
+  if (filename.length > MAX_FILENAME_LENGTH || /[\u0000-\u001f]/.test(filename)) {
+    throw new AttachmentError(`filename must be at most ${MAX_FILENAME_LENGTH} printable characters`);
+  }
+  const contentType = typeof upload.contentType === "string" ? upload.contentType.split(";")[0].trim().toLowerCase() : "";
+  if (!ATTACHMENT_CONTENT_TYPES.includes(contentType)) {
+    throw new AttachmentError(`${contentType || "This file type"} cannot be attached; use a photo, PDF, text or Office document`);
+  }
+  if (upload.data.length === 0) throw new AttachmentError("The file is empty");
+  if (FILE_SIGNATURES[contentType] && !FILE_SIGNATURES[contentType](upload.data)) {
+    throw new AttachmentError(`The file contents are not ${contentType}`);
+  }
+
+  const thumbnail = await createThumbnail(upload.data, contentType);
+  const id = new ObjectId();
+  const metadata: AttachmentMetadata = {
+    assetId,
+    contentType,
+    hasThumbnail: thumbnail !== null,
+    uploadedBy,
+    uploadedAt: new Date().toISOString()
+  };
+  const { files, thumbnails } = await attachmentBuckets();
+  if (thumbnail) await writeFile(thumbnails, id, `${filename}.png`, thumbnail);
+  await writeFile(files, id, filename, upload.data, metadata);
+  return toAttachment({ _id: id, filename, length: upload.data.length, metadata });
+}
+
+export async function openAttachment(attachment: AssetAttachment): Promise<Readable> {
+  const { files } = await attachmentBuckets();
+  return files.openDownloadStream(new ObjectId(attachment.id));
+}
+
+export async function openThumbnail(attachment: AssetAttachment): Promise<{ stream: Readable; contentType: string } | null> {
+  if (!attachment.hasThumbnail) return null;
+  const { thumbnails } = await attachmentBuckets();
+  return { stream: thumbnails.openDownloadStream(new ObjectId(attachment.id)), contentType: THUMBNAIL_CONTENT_TYPE };
+}
+
+/** Returns false when the asset has no attachment with that id. */
+export async function deleteAttachment(assetId: string, attachmentId: string): Promise<boolean> {
+  const attachment = await findAttachment(assetId, attachmentId);
+  if (!attachment) return false;
+  const { files, thumbnails } = await attachmentBuckets();
+  await files.delete(new ObjectId(attachment.id));
+  if (attachment.hasThumbnail) await thumbnails.delete(new ObjectId(attachment.id));
+  return true;
+}
+
+/** Removes every attachment of a purged asset. */
+export async function deleteAssetAttachments(assetId: string): Promise<void> {
+  const attachments = await listAttachments(assetId);
+  for (const attachment of attachments) {
+    await deleteAttachment(assetId, attachment.id);
+  }
+}
+
+/** Hands the attachments of merged-away assets to the survivor. */
+export async function moveAttachments(fromAssetIds: string[], toAssetId: string): Promise<void> {
+  const { fileDocuments } = await attachmentBuckets();
+  await fileDocuments.updateMany({ "metadata.assetId": { $in: fromAssetIds } }, { $set: { "metadata.assetId": toAssetId } });
+}
+
+/** Empties both buckets, for a reset of the working dataset. */
+export async function deleteAllAttachments(): Promise<void> {
+  const db = await getDb();
+  for (const bucketName of ["attachments", "attachment_thumbnails"]) {
+    await db.collection(`${bucketName}.files`).deleteMany({});
+    await db.collection(`${bucketName}.chunks`).deleteMany({});
+  }
+}
@@ -1,51 +1,33 @@
 import bcrypt from "bcryptjs";
 import jwt from "jsonwebtoken";
+import { findUser, toPublicUser } from "./users";
+import type { PublicUser, UserRole } from "./users";
 
-export type UserRole = "admin" | "user";
-
-interface DemoUser {
-  username: string;
-  displayName: string;
-  role: UserRole;
-  passwordHash: string;
-}
+export type { UserRole } from "./users";
 
 const JWT_SECRET = process.env.JWT_SECRET ?? "spatial-asset-register-dev-secret";
 
-// Passwords:
-// admin -> adminPassword
-// user  -> userPassword
-const demoUsers: DemoUser[] = [
-  {
-    username: "admin",
-    displayName: "Maggie Huang",
-    role: "admin",
-    passwordHash: "$2a$10$hyohvuGo3defjGNCe9pece1jeu9SZpRGa4hjdZGWLyiI6emzlAEza"
-  },
-  {
-    username: "user",
-    displayName: "Guest User",
-    role: "user",
-    passwordHash: "$2a$10$r9tviMXsCNzYouRuAStFSOFJrWVBRwQf1iuvm5viS33Pd4Rr2ls1."
-  }
-];
+// Access tokens are short-lived; clients renew them with the session's refresh token.
+export const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
 
-export async function validateCredentials(username: string, password: string): Promise<{ username: string; displayName: string; role: UserRole } | null> {
-  const account = demoUsers.find((u) => u.username === username);
-  if (!account) return null;
+export async function validateCredentials(username: string, password: string): Promise<PublicUser | null> {
+  const account = await findUser(username.trim().toLowerCase());
+  if (!account || account.disabled) return null;
   const ok = await bcrypt.compare(password, account.passwordHash);
   if (!ok) return null;
-  return { username: account.username, displayName: account.displayName, role: account.role };
+  return toPublicUser(account);
 }
 
-export function issueToken(username: string, role: UserRole): string {
-  return jwt.sign({ sub: username, role }, JWT_SECRET, { expiresIn: "8h" });
+export function issueToken(username: string, role: UserRole, sessionId: string): string {
+  return jwt.sign({ sub: username, role, sid: sessionId }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL_SECONDS });
 }
 
-export function verifyToken(token: string): { username: string; role: UserRole } | null {
+export function verifyToken(token: string): { username: string; role: UserRole; sessionId: string } | null {
   try {
-    const payload = jwt.verify(token, JWT_SECRET) as { sub: string; role: UserRole };
-    return { username: payload.sub, role: payload.role };
+    const payload = jwt.verify(token, JWT_SECRET) as { sub: string; role: UserRole; sid?: string };
+    // Tokens from before sessions existed have no sid and cannot be revoked, so they are refused.
+    if (!payload.sid) return null;
+    return { username: payload.sub, role: payload.role, sessionId: payload.sid };
   } catch {
     return null;
   }
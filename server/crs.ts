@@ -0,0 +1,71 @@
+import type { Position } from "geojson";
+import { fromMga, gda2020ToGda94, gda94ToGda2020, toMga } from "../shared/geodesy";
+import { InvalidFilterError } from "./filters";
+import type { AssetGeometry } from "./types";
+
+// Coordinate reference systems offered on exports and read back on import. Stored coordinates are WGS 84,
+// which is taken as equal to GDA2020 (they agree to a few centimetres in Australia).
+
+export interface ExportCrs {
+  code: string;
+  name: string;
+  datum: "WGS84" | "GDA2020" | "GDA94";
+  /** MGA zone for projected systems (easting/northing); absent for latitude/longitude. */
+  zone?: number;
+}
+
+export const EXPORT_CRS: ExportCrs[] = [
+  { code: "EPSG:4326", name: "WGS 84", datum: "WGS84" },
+  { code: "EPSG:7844", name: "GDA2020", datum: "GDA2020" },
+  { code: "EPSG:7855", name: "GDA2020 / MGA zone 55", datum: "GDA2020", zone: 55 },
+  { code: "EPSG:7856", name: "GDA2020 / MGA zone 56", datum: "GDA2020", zone: 56 },
+  { code: "EPSG:4283", name: "GDA94", datum: "GDA94" },
+  { code: "EPSG:28355", name: "GDA94 / MGA zone 55", datum: "GDA94", zone: 55 },
+  { code: "EPSG:28356", name: "GDA94 / MGA zone 56", datum: "GDA94", zone: 56 }
+];
+
+export const DEFAULT_EXPORT_CRS = EXPORT_CRS[0];
+
+/** Accepts `EPSG:7856` or just `7856`; a missing value is WGS 84. */
+export function parseExportCrs(value: string | undefined): ExportCrs {
+  if (!value) return DEFAULT_EXPORT_CRS;
+  const code = /^\d+$/.test(value.trim()) ? `EPSG:${value.trim()}` : value.trim().toUpperCase();
+  const crs = EXPORT_CRS.find((item) => item.code === code);
+  if (!crs) throw new InvalidFilterError(`crs must be one of ${EXPORT_CRS.map((item) => item.code).join(", ")}`);
+  return crs;
+}
+
+/** A stored (WGS 84) longitude/latitude in the export CRS: [lon, lat] or [easting, northing]. */
+export function transformPosition(position: Position, crs: ExportCrs): Position {
+  const datumPosition = crs.datum === "GDA94" ? gda2020ToGda94(position) : position;
+  if (crs.zone) {
+    const [easting, northing] = toMga(datumPosition, crs.zone);
+    return [Math.round(easting * 1000) / 1000, Math.round(northing * 1000) / 1000];
+  }
+  return [Math.round(datumPosition[0] * 1e8) / 1e8, Math.round(datumPosition[1] * 1e8) / 1e8];
+}
+
+/**
+ * The inverse of transformPosition, for imported files: a position in `crs` as the stored WGS 84
+ * [lon, lat], rounded to 1e-8 degrees (about a millimetre) so an MGA round trip lands back on it.
+ */
+export function toStoredPosition(position: Position, crs: ExportCrs): Position {
+  const lonLat = crs.zone ? fromMga(position, crs.zone) : position;
+  const [lon, lat] = crs.datum === "GDA94" ? gda94ToGda2020(lonLat) : lonLat;
+  return [Math.round(lon * 1e8) / 1e8, Math.round(lat * 1e8) / 1e8];
+}
+
+export function transformGeometry(geometry: AssetGeometry, crs: ExportCrs): AssetGeometry {
+  if (crs === DEFAULT_EXPORT_CRS) return geometry;
+  const ring = (positions: Position[]) => positions.map((position) => transformPosition(position, crs));
+  switch (geometry.type) {
+    case "Point":
+      return { type: "Point", coordinates: transformPosition(geometry.coordinates, crs) };
+    case "LineString":
+      return { type: "LineString", coordinates: ring(geometry.coordinates) };
+    case "Polygon":
+      return { type: "Polygon", coordinates: geometry.coordinates.map(ring) };
+    case "MultiPolygon":
+      return { type: "MultiPolygon", coordinates: geometry.coordinates.map((polygon) => polygon.map(ring)) };
+  }
+}
@@ -9,6 +9,20 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -32.9072,
     longitude: 151.7921,
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [
+          [151.7891, -32.9087],
+          [151.7951, -32.9087],
+          [151.7951, -32.9057],
+          [151.7891, -32.9057],
+          [151.7891, -32.9087],
+        ],
+      ],
+    },
+    attributes: { reserveNumber: "R82701", gazettalDate: "1968-03-15", purpose: "Public recreation" },
+    version: 1,
     createdAt: "2026-02-17T10:00:00.000Z",
     updatedAt: "2026-02-17T10:00:00.000Z",
   },
@@ -20,6 +34,8 @@ export const seedAssets: Asset[] = [
     status: "Inactive",
     latitude: -32.732,
     longitude: 151.553,
+    attributes: { floorArea: 1250, custodian: "Hunter Operations" },
+    version: 1,
     createdAt: "2026-02-17T10:00:00.000Z",
     updatedAt: "2026-02-17T10:00:00.000Z",
   },
@@ -31,6 +47,20 @@ export const seedAssets: Asset[] = [
     status: "Planned",
     latitude: -32.99,
     longitude: 151.68,
+    geometry: {
+      type: "Polygon",
+      coordinates: [
+        [
+          [151.678, -32.992],
+          [151.682, -32.992],
+          [151.682, -32.988],
+          [151.678, -32.988],
+          [151.678, -32.992],
+        ],
+      ],
+    },
+    attributes: { lotDp: "Lot 15 DP 1034567", tenure: "Crown" },
+    version: 1,
     createdAt: "2026-02-17T10:00:00.000Z",
     updatedAt: "2026-02-17T10:00:00.000Z",
   },
@@ -42,6 +72,8 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: null,
     longitude: null,
+    attributes: {},
+    version: 1,
     createdAt: "2026-02-17T10:00:00.000Z",
     updatedAt: "2026-02-17T10:00:00.000Z",
   },
@@ -53,6 +85,8 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -32.865,
     longitude: 151.682,
+    attributes: { reserveNumber: "R91544", gazettalDate: "1981-11-06", purpose: "Environmental protection" },
+    version: 1,
     createdAt: "2026-02-17T10:00:00.000Z",
     updatedAt: "2026-02-17T10:00:00.000Z",
   },
@@ -64,6 +98,8 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -32.865,
     longitude: 151.682,
+    attributes: { reserveNumber: "R56120" },
+    version: 1,
     createdAt: "2026-02-17T10:00:00.000Z",
     updatedAt: "2026-02-17T10:00:00.000Z",
   },
@@ -75,6 +111,16 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -32.9015,
     longitude: 151.6642,
+    geometry: {
+      type: "LineString",
+      coordinates: [
+        [151.6592, -32.8995],
+        [151.6642, -32.9015],
+        [151.6692, -32.9035],
+      ],
+    },
+    attributes: { lotDp: "Lot 2 DP 755247", tenure: "Crown" },
+    version: 1,
     createdAt: "2026-02-17T09:00:00.000Z",
     updatedAt: "2026-02-17T09:00:00.000Z",
   },
@@ -86,6 +132,8 @@ export const seedAssets: Asset[] = [
     status: "Planned",
     latitude: -32.9469,
     longitude: 151.7585,
+    attributes: { reserveNumber: "R62033", gazettalDate: "1930-07-04", purpose: "Public recreation" },
+    version: 1,
     createdAt: "2026-02-17T09:30:00.000Z",
     updatedAt: "2026-02-17T09:30:00.000Z",
   },
@@ -97,6 +145,16 @@ export const seedAssets: Asset[] = [
     status: "Inactive",
     latitude: -32.8329,
     longitude: 151.3554,
+    geometry: {
+      type: "LineString",
+      coordinates: [
+        [151.3494, -32.8309],
+        [151.3554, -32.8329],
+        [151.3614, -32.8349],
+      ],
+    },
+    attributes: { lotDp: "Lot 101 DP 1172830", tenure: "Leasehold" },
+    version: 1,
     createdAt: "2026-02-17T10:00:00.000Z",
     updatedAt: "2026-02-17T10:00:00.000Z",
   },
@@ -108,6 +166,8 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -33.0362,
     longitude: 151.6558,
+    attributes: { floorArea: 480, custodian: "Lake Macquarie Works" },
+    version: 1,
     createdAt: "2026-02-17T10:30:00.000Z",
     updatedAt: "2026-02-17T10:30:00.000Z",
   },
@@ -119,6 +179,8 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -32.9288,
     longitude: 151.6426,
+    attributes: { reserveNumber: "R75510", purpose: "Public recreation" },
+    version: 1,
     createdAt: "2026-02-17T11:00:00.000Z",
     updatedAt: "2026-02-17T11:00:00.000Z",
   },
@@ -130,6 +192,8 @@ export const seedAssets: Asset[] = [
     status: "Planned",
     latitude: -32.8172,
     longitude: 151.4793,
+    attributes: { floorArea: 2100, custodian: "Cessnock Operations" },
+    version: 1,
     createdAt: "2026-02-17T11:30:00.000Z",
     updatedAt: "2026-02-17T11:30:00.000Z",
   },
@@ -141,6 +205,8 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -32.9009,
     longitude: 151.6923,
+    attributes: { lotDp: "Lot 3 DP 258114", tenure: "Freehold" },
+    version: 1,
     createdAt: "2026-02-17T12:00:00.000Z",
     updatedAt: "2026-02-17T12:00:00.000Z",
   },
@@ -152,6 +218,8 @@ export const seedAssets: Asset[] = [
     status: "Inactive",
     latitude: -32.7437,
     longitude: 152.0643,
+    attributes: { reserveNumber: "R88002", gazettalDate: "1999-02-19", purpose: "Environmental protection" },
+    version: 1,
     createdAt: "2026-02-17T12:30:00.000Z",
     updatedAt: "2026-02-17T12:30:00.000Z",
   },
@@ -163,6 +231,8 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -32.9735,
     longitude: 151.6968,
+    attributes: { lotDp: "Lot 8 DP 1200345" },
+    version: 1,
     createdAt: "2026-02-17T13:00:00.000Z",
     updatedAt: "2026-02-17T13:00:00.000Z",
   },
@@ -174,6 +244,8 @@ export const seedAssets: Asset[] = [
     status: "Active",
     latitude: -32.7615,
     longitude: 151.7451,
+    attributes: { floorArea: 860, custodian: "Port Stephens Works" },
+    version: 1,
     createdAt: "2026-02-17T13:30:00.000Z",
     updatedAt: "2026-02-17T13:30:00.000Z",
   },
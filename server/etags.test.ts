@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { assetEtag, checkIfMatchHeader } from "./etags";
+import type { Asset } from "./types";
+
+const asset: Asset = {
+  id: "A1",
+  name: "Pump 1",
+  region: "NSW",
+  type: "Pump",
+  status: "Active",
+  latitude: -33.5,
+  longitude: 151.25,
+  version: 7,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-02T00:00:00.000Z"
+};
+
+describe("If-Match", () => {
+  it("uses the quoted version as the ETag", () => {
+    expect(assetEtag(asset)).toBe('"7"');
+  });
+
+  it("requires the header (428)", () => {
+    expect(checkIfMatchHeader(undefined, asset)).toBe("missing");
+    expect(checkIfMatchHeader("", asset)).toBe("missing");
+  });
+
+  it("accepts the current version, weak or in a list, and *", () => {
+    expect(checkIfMatchHeader('"7"', asset)).toBe("ok");
+    expect(checkIfMatchHeader('W/"7"', asset)).toBe("ok");
+    expect(checkIfMatchHeader('"5", "7"', asset)).toBe("ok");
+    expect(checkIfMatchHeader("*", asset)).toBe("ok");
+  });
+
+  it("reports an older or unquoted version as stale (412)", () => {
+    expect(checkIfMatchHeader('"6"', asset)).toBe("stale");
+    expect(checkIfMatchHeader("7", asset)).toBe("stale");
+  });
+});
@@ -0,0 +1,17 @@
+import type { Asset } from "./types";
+
+/** An asset's ETag is its version, which every write increments. */
+export function assetEtag(asset: Asset): string {
+  return `"${asset.version}"`;
+}
+
+/**
+ * Reads an `If-Match` header against the stored asset: `missing` when there
+ * is none (428), `stale` when no tag matches its version (412). Weak tags and
+ * `*` are accepted.
+ */
+export function checkIfMatchHeader(header: string | undefined, existing: Asset): "ok" | "missing" | "stale" {
+  if (!header) return "missing";
+  const tags = header.split(",").map((tag) => tag.trim().replace(/^W\//, ""));
+  return tags.includes("*") || tags.includes(assetEtag(existing)) ? "ok" : "stale";
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { toGpx, toKml } from "./exports";
+import type { Asset } from "./types";
+
+const asset = (id: string, overrides: Partial<Asset> = {}): Asset => ({
+  id,
+  name: `Asset ${id}`,
+  region: "NSW",
+  type: "Reserve",
+  status: "Active",
+  latitude: -33.5,
+  longitude: 151.25,
+  version: 1,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-02T00:00:00.000Z",
+  ...overrides
+});
+
+// Everything between tags, so a stray control character or unescaped markup shows up.
+const textContent = (xml: string) => xml.replace(/<[^>]*>/g, "");
+
+const exterior = [[150, -34], [151, -34], [151, -33], [150, -33], [150, -34]];
+const hole = [[150.25, -33.75], [150.25, -33.25], [150.75, -33.25], [150.75, -33.75], [150.25, -33.75]];
+
+describe("toKml", () => {
+  it("writes a styled placemark per located asset with its attributes in the balloon", () => {
+    const kml = toKml(
+      [
+        asset("A1", { attributes: { reserveNumber: "R123" } }),
+        asset("A2", { status: "Planned", geometry: { type: "Polygon", coordinates: [exterior, hole] } }),
+        asset("A3", { latitude: null, longitude: null })
+      ],
+      [{ name: "reserveNumber", label: "Reserve number", dataType: "text" }]
+    );
+    expect(kml.match(/<Placemark>/g)).toHaveLength(2);
+    expect(kml).toContain('<Style id="status-Planned">');
+    expect(kml).toContain(
+      '<Data name="reserveNumber"><displayName>Reserve number</displayName><value>R123</value></Data></ExtendedData><Point><coordinates>151.25,-33.5</coordinates></Point>'
+    );
+    expect(kml).toContain("<styleUrl>#status-Planned</styleUrl>");
+    expect(kml).toContain(
+      "<outerBoundaryIs><LinearRing><coordinates>150,-34 151,-34 151,-33 150,-33 150,-34</coordinates></LinearRing></outerBoundaryIs><innerBoundaryIs>"
+    );
+  });
+
+  it("escapes markup and drops characters XML does not allow", () => {
+    const kml = toKml([asset("A1", { name: "Pump <1> & \"2\"\u0001\u001f", attributes: { note: "tab\tok\u000bgone" } })], [
+      { name: "note", label: "Note\u0008", dataType: "text" }
+    ]);
+    expect(kml).toContain("<name>Pump &lt;1&gt; &amp; &quot;2&quot;</name>");
+    expect(kml).toContain("<displayName>Note</displayName><value>tab\tokgone</value>");
+    // eslint-disable-next-line no-control-regex
+    expect(textContent(kml)).not.toMatch(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/);
+  });
+});
+
+describe("toGpx", () => {
+  it("writes points as waypoints before tracks, and polygons as their closed outer ring", () => {
+    const gpx = toGpx([
+      asset("L1", { geometry: { type: "LineString", coordinates: [[150, -34], [151, -33]] } }),
+      asset("P1", { attributes: { reserveNumber: "R123" } }),
+      asset("G1", { geometry: { type: "Polygon", coordinates: [exterior, hole] } })
+    ]);
+    expect(gpx.indexOf("<wpt")).toBeLessThan(gpx.indexOf("<trk>"));
+    expect(gpx).toContain(
+      '<wpt lat="-33.5" lon="151.25"><name>Asset P1</name><desc>P1: Reserve, NSW, Active; reserveNumber: R123</desc><type>Reserve</type></wpt>'
+    );
+    expect(gpx).toContain('<trkseg><trkpt lat="-34" lon="150"/><trkpt lat="-33" lon="151"/></trkseg>');
+    const polygonTrack = gpx.slice(gpx.indexOf("<name>Asset G1</name>"));
+    expect(polygonTrack.match(/<trkpt /g)).toHaveLength(exterior.length);
+  });
+
+  it("drops characters XML does not allow from names and descriptions", () => {
+    const gpx = toGpx([asset("P1", { name: "Bore\u0002 3", attributes: { note: "a\u0000b" } })]);
+    expect(gpx).toContain("<name>Bore 3</name><desc>P1: Reserve, NSW, Active; note: ab</desc>");
+  });
+});
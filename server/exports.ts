@@ -0,0 +1,212 @@
+import type { Position } from "geojson";
+import type { AttributeColumn } from "./assetTypes";
+import { assetGeometry } from "./geometry";
+import type { Asset, AssetGeometry, AssetStatus, QaIssue } from "./types";
+import { createWorkbook } from "./xlsx";
+import type { CellValue } from "./xlsx";
+import { escapeXml } from "./xml";
+
+// Same colours as statusColor in the App, as KML aabbggrr.
+const KML_STATUS_COLOURS: Record<AssetStatus, string> = {
+  Active: "77aa00",
+  Planned: "129cf3",
+  Inactive: "a6a595"
+};
+
+const BALLOON_FIELDS = ["id", "name", "region", "type", "status", "createdAt", "updatedAt"] as const;
+
+type Located = { asset: Asset; geometry: AssetGeometry };
+
+function located(records: Asset[]): Located[] {
+  return records.flatMap((asset) => {
+    const geometry = assetGeometry(asset);
+    return geometry ? [{ asset, geometry }] : [];
+  });
+}
+
+function kmlCoordinates(positions: Position[]): string {
+  return `<coordinates>${positions.map(([lon, lat]) => `${lon},${lat}`).join(" ")}</coordinates>`;
+}
+
+function kmlPolygon(rings: Position[][]): string {
+  const [outer, ...holes] = rings;
+  return [
+    "<Polygon>",
+    `<outerBoundaryIs><LinearRing>${kmlCoordinates(outer)}</LinearRing></outerBoundaryIs>`,
+    ...holes.map((hole) => `<innerBoundaryIs><LinearRing>${kmlCoordinates(hole)}</LinearRing></innerBoundaryIs>`),
+    "</Polygon>"
+  ].join("");
+}
+
+function kmlGeometry(geometry: AssetGeometry): string {
+  switch (geometry.type) {
+    case "Point":
+      return `<Point>${kmlCoordinates([geometry.coordinates])}</Point>`;
+    case "LineString":
+      return `<LineString><tessellate>1</tessellate>${kmlCoordinates(geometry.coordinates)}</LineString>`;
+    case "Polygon":
+      return kmlPolygon(geometry.coordinates);
+    case "MultiPolygon":
+      return `<MultiGeometry>${geometry.coordinates.map(kmlPolygon).join("")}</MultiGeometry>`;
+  }
+}
+
+function kmlStyle(status: AssetStatus): string {
+  const colour = KML_STATUS_COLOURS[status];
+  return [
+    `<Style id="status-${status}">`,
+    `<IconStyle><color>ff${colour}</color></IconStyle>`,
+    `<LineStyle><color>ff${colour}</color><width>3</width></LineStyle>`,
+    `<PolyStyle><color>66${colour}</color></PolyStyle>`,
+    "</Style>"
+  ].join("");
+}
+
+/** A KML document with one placemark per located asset, styled by status; attributes appear in the balloon. */
+export function toKml(records: Asset[], columns: AttributeColumn[]): string {
+  const placemarks = located(records).map(({ asset, geometry }) =>
+    [
+      "<Placemark>",
+      `<name>${escapeXml(asset.name)}</name>`,
+      `<styleUrl>#status-${escapeXml(asset.status)}</styleUrl>`,
+      "<ExtendedData>",
+      ...BALLOON_FIELDS.map((field) => `<Data name="${field}"><value>${escapeXml(asset[field])}</value></Data>`),
+      ...columns
+        .filter((column) => asset.attributes?.[column.name] !== undefined)
+        .map(
+          (column) =>
+            `<Data name="${escapeXml(column.name)}"><displayName>${escapeXml(column.label)}</displayName><value>${escapeXml(asset.attributes?.[column.name])}</value></Data>`
+        ),
+      "</ExtendedData>",
+      kmlGeometry(geometry),
+      "</Placemark>"
+    ].join("")
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    "<Document>",
+    "<name>Spatial Asset Register</name>",
+    ...(Object.keys(KML_STATUS_COLOURS) as AssetStatus[]).map(kmlStyle),
+    ...placemarks,
+    "</Document>",
+    "</kml>"
+  ].join("\n");
+}
+
+function gpxDescription(asset: Asset): string {
+  const attributes = Object.entries(asset.attributes ?? {}).map(([name, value]) => `${name}: ${value}`);
+  return [`${asset.id}: ${asset.type}, ${asset.region}, ${asset.status}`, ...attributes].join("; ");
+}
+
+function gpxSegment(positions: Position[]): string {
+  return `<trkseg>${positions.map(([lon, lat]) => `<trkpt lat="${lat}" lon="${lon}"/>`).join("")}</trkseg>`;
+}
+
+/**
+ * GPX 1.1. Points become waypoints and lines become tracks. GPX has no
+ * polygons, so each polygon's outer ring is written as a closed track.
+ */
+export function toGpx(records: Asset[]): string {
+  const waypoints: string[] = [];
+  const tracks: string[] = [];
+  located(records).forEach(({ asset, geometry }) => {
+    const details = `<name>${escapeXml(asset.name)}</name><desc>${escapeXml(gpxDescription(asset))}</desc><type>${escapeXml(asset.type)}</type>`;
+    if (geometry.type === "Point") {
+      const [lon, lat] = geometry.coordinates;
+      waypoints.push(`<wpt lat="${lat}" lon="${lon}">${details}</wpt>`);
+      return;
+    }
+    const segments =
+      geometry.type === "LineString"
+        ? [geometry.coordinates]
+        : geometry.type === "Polygon"
+          ? [geometry.coordinates[0]]
+          : geometry.coordinates.map((polygon) => polygon[0]);
+    tracks.push(`<trk>${details}${segments.map(gpxSegment).join("")}</trk>`);
+  });
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<gpx version="1.1" creator="Spatial Asset Register" xmlns="http://www.topografix.com/GPX/1/1">',
+    // Waypoints must come before tracks in GPX 1.1.
+    ...waypoints,
+    ...tracks,
+    "</gpx>"
+  ].join("\n");
+}
+
+function countBy(records: Asset[], key: "region" | "type" | "status"): CellValue[][] {
+  const counts = new Map<string, number>();
+  records.forEach((asset) => {
+    const value = asset[key] || "(empty)";
+    counts.set(value, (counts.get(value) ?? 0) + 1);
+  });
+  return [...counts].sort(([a], [b]) => a.localeCompare(b)).map(([value, count]) => [key, value, count]);
+}
+
+/** Assets, QA Issues and Summary sheets for one filtered set of assets. Attribute columns follow the core ones. */
+export function toWorkbook(records: Asset[], issues: QaIssue[], columns: AttributeColumn[]): Buffer {
+  const names = new Map(records.map((asset) => [asset.id, asset.name]));
+  return createWorkbook([
+    {
+      name: "Assets",
+      columns: [
+        { header: "ID", width: 10 },
+        { header: "Name", width: 32 },
+        { header: "Region", width: 16 },
+        { header: "Type", width: 16 },
+        { header: "Status", width: 10 },
+        { header: "Latitude", width: 12 },
+        { header: "Longitude", width: 12 },
+        { header: "Geometry", width: 12 },
+        { header: "Created (UTC)", width: 18 },
+        { header: "Updated (UTC)", width: 18 },
+        ...columns.map((column) => ({ header: column.label, width: 16 }))
+      ],
+      rows: records.map((asset) => [
+        asset.id,
+        asset.name,
+        asset.region,
+        asset.type,
+        asset.status,
+        asset.latitude,
+        asset.longitude,
+        assetGeometry(asset)?.type ?? null,
+        new Date(asset.createdAt),
+        new Date(asset.updatedAt),
+        // Dates stay as YYYY-MM-DD text; they have no time zone to put on a spreadsheet date.
+        ...columns.map((column) => asset.attributes?.[column.name] ?? null)
+      ])
+    },
+    {
+      name: "QA Issues",
+      columns: [
+        { header: "Asset ID", width: 10 },
+        { header: "Asset Name", width: 32 },
+        { header: "Rule", width: 24 },
+        { header: "Severity", width: 10 },
+        { header: "Status", width: 10 },
+        { header: "Assignee", width: 14 },
+        { header: "Message", width: 60 }
+      ],
+      rows: issues.map((issue) => [
+        issue.assetId,
+        names.get(issue.assetId) ?? null,
+        issue.code,
+        issue.severity,
+        issue.status,
+        issue.assignee,
+        issue.message
+      ])
+    },
+    {
+      name: "Summary",
+      columns: [
+        { header: "Group", width: 10 },
+        { header: "Value", width: 24 },
+        { header: "Assets", width: 10 }
+      ],
+      rows: [["all", "All assets", records.length], ...countBy(records, "region"), ...countBy(records, "type"), ...countBy(records, "status")]
+    }
+  ]);
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertArchivedOption,
+  buildMongoFilter,
+  buildSpatialFilter,
+  DEFAULT_PAGE_SIZE,
+  InvalidFilterError,
+  MAX_PAGE_SIZE,
+  parseAssetPaging,
+  parseSpatialFilter,
+  readQueryStrings
+} from "./filters";
+
+type GeoIntersects = { geometry: { $geoIntersects: { $geometry: { coordinates: number[][][] } } } };
+
+describe("bbox filter", () => {
+  it("matches a regional box against the geometry, with vertices along the parallels", () => {
+    const [filter] = buildSpatialFilter(parseSpatialFilter({ bbox: "150,-34,152,-33" }));
+    const [ring] = (filter as GeoIntersects).geometry.$geoIntersects.$geometry.coordinates;
+    expect(ring[0]).toEqual([150, -34]);
+    expect(ring[ring.length - 1]).toEqual(ring[0]);
+    expect(ring).toContainEqual([150.5, -34]);
+    expect(ring).toContainEqual([151.5, -33]);
+    const keys = ring.map(([lon, lat]) => `${lon},${lat}`);
+    expect(new Set(keys.slice(0, -1)).size).toBe(ring.length - 1);
+  });
+
+  it("falls back to a coordinate range for the whole world", () => {
+    expect(buildSpatialFilter(parseSpatialFilter({ bbox: "-180,-90,180,90" }))).toEqual([
+      { longitude: { $gte: -180, $lte: 180 }, latitude: { $gte: -90, $lte: 90 } }
+    ]);
+  });
+
+  it("falls back to a coordinate range for boxes wider than a quarter of the globe or touching a pole", () => {
+    for (const bbox of ["0,-10,100,10", "10,-60,20,40", "10,80,20,90"]) {
+      const [filter] = buildSpatialFilter(parseSpatialFilter({ bbox }));
+      expect(filter).toHaveProperty("longitude");
+    }
+  });
+
+  it("rejects boxes outside the valid range", () => {
+    expect(() => parseSpatialFilter({ bbox: "-190,-10,10,10" })).toThrow(InvalidFilterError);
+    expect(() => parseSpatialFilter({ bbox: "10,10,0,20" })).toThrow(InvalidFilterError);
+  });
+});
+
+describe("within filter", () => {
+  it("rejects a self-intersecting polygon", () => {
+    const bowTie = { type: "Polygon", coordinates: [[[0, 0], [1, 1], [1, 0], [0, 1], [0, 0]]] };
+    expect(() => parseSpatialFilter({}, bowTie)).toThrow(InvalidFilterError);
+  });
+});
+
+describe("readQueryStrings", () => {
+  it("rejects repeated and nested parameters", () => {
+    expect(readQueryStrings({ search: "dam", region: undefined })).toEqual({ search: "dam" });
+    expect(() => readQueryStrings({ bbox: ["1", "2"] })).toThrow(InvalidFilterError);
+    expect(() => readQueryStrings({ search: { $ne: "" } })).toThrow(InvalidFilterError);
+  });
+});
+
+describe("buildMongoFilter", () => {
+  it("matches search, region, type and status literally rather than as patterns", () => {
+    const { $and: [search, region, type, status] } = buildMongoFilter({ search: "(a+)+$", region: "(", type: "a.b", status: "[x" }) as {
+      $and: { [field: string]: { $regex?: string; $in?: RegExp[] } }[];
+    };
+    expect(new RegExp(search.name.$regex!, "i").test("Pump (a+)+$ 2")).toBe(true);
+    expect(new RegExp(search.name.$regex!, "i").test("aaaa")).toBe(false);
+    expect(region.region.$in![0].test("(")).toBe(true);
+    expect(type.type.$in![0].test("A.B")).toBe(true);
+    expect(type.type.$in![0].test("axb")).toBe(false);
+    expect(status.status.$in![0].test("[X")).toBe(true);
+  });
+});
+
+describe("archived assets", () => {
+  it("hides archived assets unless includeArchived asks for them", () => {
+    expect(buildMongoFilter({})).toEqual({ $and: [{ archivedAt: null }] });
+    expect(buildMongoFilter({ includeArchived: "false" })).toEqual({ $and: [{ archivedAt: null }] });
+    expect(buildMongoFilter({ includeArchived: "true" })).toEqual({});
+    expect(buildMongoFilter({ includeArchived: "only", region: "NSW" })).toEqual({
+      $and: [{ region: { $in: [/^nsw$/i] } }, { archivedAt: { $ne: null } }]
+    });
+  });
+
+  it("rejects other includeArchived values", () => {
+    expect(() => assertArchivedOption({ includeArchived: "only" })).not.toThrow();
+    expect(() => assertArchivedOption({ includeArchived: "yes" })).toThrow("includeArchived must be true, false or only");
+  });
+});
+
+describe("parseAssetPaging", () => {
+  it("bounds a listing that gives no limit", () => {
+    expect(parseAssetPaging({})).toEqual({ limit: DEFAULT_PAGE_SIZE, offset: 0, sort: { field: "name", direction: 1 } });
+    expect(parseAssetPaging({ page: "3" }).offset).toBe(2 * DEFAULT_PAGE_SIZE);
+  });
+
+  it("accepts limits up to the maximum page size", () => {
+    expect(parseAssetPaging({ limit: String(MAX_PAGE_SIZE), sort: "updatedAt:desc" })).toMatchObject({ limit: MAX_PAGE_SIZE, sort: { direction: -1 } });
+    expect(() => parseAssetPaging({ limit: String(MAX_PAGE_SIZE + 1) })).toThrow(InvalidFilterError);
+    expect(() => parseAssetPaging({ limit: "0" })).toThrow(InvalidFilterError);
+  });
+});
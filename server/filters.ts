@@ -0,0 +1,287 @@
+import type { MultiPolygon, Polygon } from "geojson";
+import { isAssetGeometry } from "./geometry";
+import { ATTRIBUTE_NAME_PATTERN } from "./validation";
+
+export type AssetQuery = Record<string, string | undefined>;
+
+export class InvalidFilterError extends Error {}
+
+// Boxes up to this many degrees across are matched against the stored geometry. Wider ones (a
+// zoomed-out world view) are matched on the latitude/longitude columns instead: MongoDB treats
+// polygon edges as great circles and a polygon may not span a hemisphere.
+const MAX_GEO_BBOX_DEGREES = 90;
+// Extra vertices along the top and bottom edges, so the box follows the parallels rather than bowing towards the pole.
+const BBOX_EDGE_STEP_DEGREES = 0.5;
+
+// IUGG mean earth radius, to turn metres into the radians $centerSphere expects.
+const EARTH_RADIUS_METRES = 6371008.8;
+
+export interface SpatialFilter {
+  bbox?: [number, number, number, number];
+  near?: { longitude: number; latitude: number; radius: number };
+  within?: Polygon | MultiPolygon;
+}
+
+function parseNumbers(raw: string, expected: number, name: string): number[] {
+  const values = raw.split(",").map((part) => Number(part.trim()));
+  if (values.length !== expected || values.some((value) => !Number.isFinite(value))) {
+    throw new InvalidFilterError(`${name} must be ${expected} comma separated numbers`);
+  }
+  return values;
+}
+
+function assertLonLat(longitude: number, latitude: number, name: string): void {
+  if (longitude < -180 || longitude > 180 || latitude < -90 || latitude > 90) {
+    throw new InvalidFilterError(`${name} is outside the valid longitude/latitude range`);
+  }
+}
+
+/**
+ * Reads `bbox`, `near`/`radius` from the query string and an optional
+ * `within` polygon (from a POSTed body) into a validated spatial filter.
+ */
+export function parseSpatialFilter(query: AssetQuery, within?: unknown): SpatialFilter {
+  const spatial: SpatialFilter = {};
+
+  if (query.bbox) {
+    const [minLon, minLat, maxLon, maxLat] = parseNumbers(query.bbox, 4, "bbox");
+    assertLonLat(minLon, minLat, "bbox");
+    assertLonLat(maxLon, maxLat, "bbox");
+    if (minLon >= maxLon || minLat >= maxLat) {
+      throw new InvalidFilterError("bbox must be minLon,minLat,maxLon,maxLat");
+    }
+    spatial.bbox = [minLon, minLat, maxLon, maxLat];
+  }
+
+  if (query.near || query.radius) {
+    if (!query.near || !query.radius) {
+      throw new InvalidFilterError("near and radius must be supplied together");
+    }
+    const [longitude, latitude] = parseNumbers(query.near, 2, "near");
+    assertLonLat(longitude, latitude, "near");
+    const radius = Number(query.radius);
+    if (!Number.isFinite(radius) || radius <= 0) {
+      throw new InvalidFilterError("radius must be a positive number of metres");
+    }
+    spatial.near = { longitude, latitude, radius };
+  }
+
+  if (within !== undefined && within !== null) {
+    const geometry = (within as { geometry?: unknown }).geometry ?? within;
+    if (
+      !isAssetGeometry(geometry) ||
+      (geometry.type !== "Polygon" && geometry.type !== "MultiPolygon")
+    ) {
+      throw new InvalidFilterError("within must be a GeoJSON Polygon or MultiPolygon");
+    }
+    spatial.within = geometry;
+  }
+
+  return spatial;
+}
+
+function edgeLongitudes(from: number, to: number): number[] {
+  const steps = Math.max(1, Math.ceil(Math.abs(to - from) / BBOX_EDGE_STEP_DEGREES));
+  return Array.from({ length: steps + 1 }, (_, i) => from + ((to - from) * i) / steps);
+}
+
+/**
+ * A box reaching a pole would repeat the pole as a vertex, and one wider or taller than
+ * MAX_GEO_BBOX_DEGREES cannot be drawn with great-circle edges; both fall back to a range
+ * query on the representative point.
+ */
+function buildBboxFilter([minLon, minLat, maxLon, maxLat]: [number, number, number, number]): Record<string, unknown> {
+  if (
+    maxLon - minLon > MAX_GEO_BBOX_DEGREES ||
+    maxLat - minLat > MAX_GEO_BBOX_DEGREES ||
+    minLat <= -90 ||
+    maxLat >= 90
+  ) {
+    return { longitude: { $gte: minLon, $lte: maxLon }, latitude: { $gte: minLat, $lte: maxLat } };
+  }
+  const ring = [
+    ...edgeLongitudes(minLon, maxLon).map((lon) => [lon, minLat]),
+    ...edgeLongitudes(maxLon, minLon).map((lon) => [lon, maxLat]),
+    [minLon, minLat]
+  ];
+  return { geometry: { $geoIntersects: { $geometry: { type: "Polygon", coordinates: [ring] } } } };
+}
+
+export function buildSpatialFilter(spatial: SpatialFilter): Record<string, unknown>[] {
+  const filters: Record<string, unknown>[] = [];
+  if (spatial.bbox) filters.push(buildBboxFilter(spatial.bbox));
+  if (spatial.near) {
+    const { longitude, latitude, radius } = spatial.near;
+    filters.push({
+      geometry: { $geoWithin: { $centerSphere: [[longitude, latitude], radius / EARTH_RADIUS_METRES] } }
+    });
+  }
+  if (spatial.within) {
+    filters.push({ geometry: { $geoWithin: { $geometry: spatial.within } } });
+  }
+  return filters;
+}
+
+/**
+ * Query-string values as plain strings. Express reads a repeated parameter as an array
+ * (and `a[b]=c` as an object), which the filters cannot use.
+ */
+export function readQueryStrings(raw: Record<string, unknown>): AssetQuery {
+  const query: AssetQuery = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (typeof value !== "string") throw new InvalidFilterError(`${key} may only be given once`);
+    query[key] = value;
+  });
+  return query;
+}
+
+/**
+ * Archived assets are hidden unless `includeArchived=true` (everything) or
+ * `includeArchived=only` (the recycle bin).
+ */
+export function assertArchivedOption(query: AssetQuery): void {
+  if (query.includeArchived && !["true", "false", "only"].includes(query.includeArchived)) {
+    throw new InvalidFilterError("includeArchived must be true, false or only");
+  }
+}
+
+export function buildArchivedFilter(query: AssetQuery): Record<string, unknown> | null {
+  if (query.includeArchived === "true") return null;
+  if (query.includeArchived === "only") return { archivedAt: { $ne: null } };
+  return { archivedAt: null };
+}
+
+export const ATTRIBUTE_FILTER_PREFIX = "attr.";
+
+// Attribute names follow the schema naming rule, so they are safe to use as a Mongo field path.
+export function assertAttributeFilters(query: AssetQuery): void {
+  Object.keys(query)
+    .filter((key) => key.startsWith(ATTRIBUTE_FILTER_PREFIX))
+    .forEach((key) => {
+      if (!ATTRIBUTE_NAME_PATTERN.test(key.slice(ATTRIBUTE_FILTER_PREFIX.length))) {
+        throw new InvalidFilterError(`${key} is not a valid attribute filter`);
+      }
+    });
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * `attr.<name>=a,b` matches assets whose attribute equals any of the values:
+ * text ignoring case, and numbers or true/false by value.
+ */
+function buildAttributeFilters(query: AssetQuery): Record<string, unknown>[] {
+  return Object.entries(query)
+    .filter(([key, value]) => key.startsWith(ATTRIBUTE_FILTER_PREFIX) && value)
+    .map(([key, value]) => {
+      const options = (value ?? "").split(",").map((part) => part.trim()).filter(Boolean);
+      const matches: unknown[] = options.map((option) => new RegExp(`^${escapeRegExp(option)}$`, "i"));
+      options.forEach((option) => {
+        if (Number.isFinite(Number(option))) matches.push(Number(option));
+        if (option.toLowerCase() === "true" || option.toLowerCase() === "false") matches.push(option.toLowerCase() === "true");
+      });
+      return { [`attributes.${key.slice(ATTRIBUTE_FILTER_PREFIX.length)}`]: { $in: matches } };
+    });
+}
+
+export function buildMongoFilter(query: AssetQuery, spatial: SpatialFilter = {}) {
+  const search = (query.search ?? "").toLowerCase();
+  const regions = (query.region ?? "").toLowerCase().split(",").filter(Boolean);
+  const types = (query.type ?? "").toLowerCase().split(",").filter(Boolean);
+  const statuses = (query.status ?? "").toLowerCase().split(",").filter(Boolean);
+  // Values are matched literally; the query string is never read as a pattern.
+  const exactly = (values: string[]) => ({ $in: values.map((x) => new RegExp(`^${escapeRegExp(x)}$`, "i")) });
+
+  const filters: Record<string, unknown>[] = [];
+  if (search) filters.push({ name: { $regex: escapeRegExp(search), $options: "i" } });
+  if (regions.length > 0) filters.push({ region: exactly(regions) });
+  if (types.length > 0) filters.push({ type: exactly(types) });
+  if (statuses.length > 0) filters.push({ status: exactly(statuses) });
+  filters.push(...buildAttributeFilters(query));
+  filters.push(...buildSpatialFilter(spatial));
+  const archived = buildArchivedFilter(query);
+  if (archived) filters.push(archived);
+  return filters.length > 0 ? { $and: filters } : {};
+}
+
+export const SORTABLE_FIELDS = [
+  "id",
+  "name",
+  "region",
+  "type",
+  "status",
+  "latitude",
+  "longitude",
+  "createdAt",
+  "updatedAt"
+] as const;
+
+export type SortField = (typeof SORTABLE_FIELDS)[number];
+
+/** Page size when the request gives no `limit`, so a listing is always bounded. */
+export const DEFAULT_PAGE_SIZE = 100;
+// Large enough for the map to load every marker it draws individually in one page.
+export const MAX_PAGE_SIZE = 2000;
+
+export interface AssetPaging {
+  limit: number;
+  offset: number;
+  sort: { field: SortField; direction: 1 | -1 };
+}
+
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")) as { offset?: unknown };
+    if (typeof offset === "number" && Number.isInteger(offset) && offset >= 0) return offset;
+  } catch {
+    // fall through to the error below
+  }
+  throw new InvalidFilterError("cursor is not valid");
+}
+
+/**
+ * Reads `sort=field:asc|desc`, `limit` (default DEFAULT_PAGE_SIZE) and either
+ * an opaque `cursor` or a 1-based `page`.
+ */
+export function parseAssetPaging(query: AssetQuery): AssetPaging {
+  const [field = "name", direction = "asc"] = (query.sort ?? "").split(":").filter(Boolean);
+  if (!(SORTABLE_FIELDS as readonly string[]).includes(field)) {
+    throw new InvalidFilterError(`sort field must be one of ${SORTABLE_FIELDS.join(", ")}`);
+  }
+  if (direction !== "asc" && direction !== "desc") {
+    throw new InvalidFilterError("sort direction must be asc or desc");
+  }
+  const paging: AssetPaging = {
+    limit: DEFAULT_PAGE_SIZE,
+    offset: 0,
+    sort: { field: field as SortField, direction: direction === "asc" ? 1 : -1 }
+  };
+
+  if (query.limit) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      throw new InvalidFilterError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+    }
+    paging.limit = limit;
+  }
+  if (query.cursor && query.page) {
+    throw new InvalidFilterError("Use either cursor or page, not both");
+  }
+  if (query.cursor) {
+    paging.offset = decodeCursor(query.cursor);
+  } else if (query.page) {
+    const page = Number(query.page);
+    if (!Number.isInteger(page) || page < 1) {
+      throw new InvalidFilterError("page must be a positive integer");
+    }
+    paging.offset = (page - 1) * paging.limit;
+  }
+  return paging;
+}
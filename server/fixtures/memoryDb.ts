@@ -0,0 +1,181 @@
+// An in-memory stand-in for getDb, for tests of modules that keep their state in Mongo. It covers
+// the query and update operators those modules use, not Mongo as a whole. Use it with
+// `vi.mock("./db", () => import("./fixtures/memoryDb"))` and call resetMemoryDb between tests.
+
+type Doc = Record<string, unknown>;
+type Filter = Record<string, unknown>;
+type Update = { $set?: Doc; $setOnInsert?: Doc; $unset?: Doc; $inc?: Record<string, number> };
+
+const collections = new Map<string, Doc[]>();
+
+const clone = <T>(value: T): T => structuredClone(value);
+
+function valueAt(doc: Doc, path: string): unknown {
+  return path.split(".").reduce<unknown>((value, key) => (value && typeof value === "object" ? (value as Doc)[key] : undefined), doc);
+}
+
+function equals(actual: unknown, expected: unknown): boolean {
+  if (expected === null) return actual === null || actual === undefined;
+  if (Array.isArray(actual) && !Array.isArray(expected)) return actual.some((item) => equals(item, expected));
+  return JSON.stringify(actual) === JSON.stringify(expected);
+}
+
+const compare = (left: unknown, right: unknown) => ((left as number) < (right as number) ? -1 : (left as number) > (right as number) ? 1 : 0);
+
+function matchesOperators(actual: unknown, operators: Doc): boolean {
+  return Object.entries(operators).every(([operator, expected]) => {
+    switch (operator) {
+      case "$in":
+        return (expected as unknown[]).some((item) => equals(actual, item));
+      case "$nin":
+        return !(expected as unknown[]).some((item) => equals(actual, item));
+      case "$ne":
+        return !equals(actual, expected);
+      case "$exists":
+        return (actual !== undefined) === expected;
+      case "$lt":
+        return actual !== undefined && actual !== null && compare(actual, expected) < 0;
+      case "$lte":
+        return actual !== undefined && actual !== null && compare(actual, expected) <= 0;
+      case "$gt":
+        return actual !== undefined && actual !== null && compare(actual, expected) > 0;
+      case "$gte":
+        return actual !== undefined && actual !== null && compare(actual, expected) >= 0;
+      default:
+        throw new Error(`memoryDb does not support ${operator}`);
+    }
+  });
+}
+
+function matches(doc: Doc, filter: Filter): boolean {
+  return Object.entries(filter).every(([key, expected]) => {
+    if (key === "$and") return (expected as Filter[]).every((part) => matches(doc, part));
+    if (key === "$or") return (expected as Filter[]).some((part) => matches(doc, part));
+    const actual = valueAt(doc, key);
+    const isOperators =
+      expected && typeof expected === "object" && !Array.isArray(expected) && Object.keys(expected).some((name) => name.startsWith("$"));
+    return isOperators ? matchesOperators(actual, expected as Doc) : equals(actual, expected);
+  });
+}
+
+function applyUpdate(doc: Doc, update: Update): void {
+  Object.entries(update.$set ?? {}).forEach(([key, value]) => (doc[key] = clone(value)));
+  Object.keys(update.$unset ?? {}).forEach((key) => delete doc[key]);
+  Object.entries(update.$inc ?? {}).forEach(([key, value]) => (doc[key] = ((doc[key] as number) ?? 0) + value));
+}
+
+// Only exclusions are applied; an inclusion projection returns the whole document.
+function project(doc: Doc, projection: Record<string, 0 | 1> = {}): Doc {
+  const copy = clone(doc);
+  Object.entries(projection).forEach(([key, include]) => include === 0 && delete copy[key]);
+  return copy;
+}
+
+// Sorting sees the whole document, as in Mongo; the projection applies to what is returned.
+function cursor(docs: Doc[], projection?: Record<string, 0 | 1>) {
+  let results = docs;
+  const chain = {
+    sort(spec: Record<string, 1 | -1>) {
+      results = [...results].sort((a, b) => {
+        for (const [field, direction] of Object.entries(spec)) {
+          const order = compare(valueAt(a, field), valueAt(b, field));
+          if (order !== 0) return order * direction;
+        }
+        return 0;
+      });
+      return chain;
+    },
+    skip(count: number) {
+      results = results.slice(count);
+      return chain;
+    },
+    limit(count: number) {
+      if (count > 0) results = results.slice(0, count);
+      return chain;
+    },
+    async toArray() {
+      return results.map((doc) => project(doc, projection));
+    }
+  };
+  return chain;
+}
+
+function memoryCollection(name: string) {
+  if (!collections.has(name)) collections.set(name, []);
+  const docs = () => collections.get(name)!;
+  const upsert = (filter: Filter, doc: Doc) => {
+    const plain = Object.fromEntries(Object.entries(filter).filter(([key, value]) => !key.startsWith("$") && typeof value !== "object"));
+    docs().push({ ...plain, ...doc });
+  };
+  return {
+    async createIndex() {
+      return "index";
+    },
+    find(filter: Filter = {}, options: { projection?: Record<string, 0 | 1> } = {}) {
+      return cursor(docs().filter((doc) => matches(doc, filter)), options.projection);
+    },
+    async findOne(filter: Filter = {}, options: { projection?: Record<string, 0 | 1> } = {}) {
+      const doc = docs().find((item) => matches(item, filter));
+      return doc ? project(doc, options.projection) : null;
+    },
+    async countDocuments(filter: Filter = {}) {
+      return docs().filter((doc) => matches(doc, filter)).length;
+    },
+    async insertOne(doc: Doc) {
+      docs().push(clone(doc));
+      return { acknowledged: true };
+    },
+    async insertMany(items: Doc[]) {
+      items.forEach((doc) => docs().push(clone(doc)));
+      return { acknowledged: true, insertedCount: items.length };
+    },
+    async updateOne(filter: Filter, update: Update, options: { upsert?: boolean } = {}) {
+      const doc = docs().find((item) => matches(item, filter));
+      if (doc) applyUpdate(doc, update);
+      else if (options.upsert) upsert(filter, clone({ ...update.$setOnInsert, ...update.$set }));
+      return { matchedCount: doc ? 1 : 0, modifiedCount: doc ? 1 : 0 };
+    },
+    async updateMany(filter: Filter, update: Update) {
+      const matched = docs().filter((doc) => matches(doc, filter));
+      matched.forEach((doc) => applyUpdate(doc, update));
+      return { matchedCount: matched.length, modifiedCount: matched.length };
+    },
+    async replaceOne(filter: Filter, replacement: Doc, options: { upsert?: boolean } = {}) {
+      const index = docs().findIndex((item) => matches(item, filter));
+      if (index >= 0) docs()[index] = clone(replacement);
+      else if (options.upsert) upsert(filter, clone(replacement));
+      return { matchedCount: index >= 0 ? 1 : 0, modifiedCount: index >= 0 ? 1 : 0 };
+    },
+    async findOneAndUpdate(filter: Filter, update: Update, options: { returnDocument?: "before" | "after" } = {}) {
+      const doc = docs().find((item) => matches(item, filter));
+      if (!doc) return null;
+      const before = clone(doc);
+      applyUpdate(doc, update);
+      return options.returnDocument === "after" ? clone(doc) : before;
+    },
+    async deleteOne(filter: Filter) {
+      const index = docs().findIndex((item) => matches(item, filter));
+      if (index >= 0) docs().splice(index, 1);
+      return { deletedCount: index >= 0 ? 1 : 0 };
+    },
+    async deleteMany(filter: Filter = {}) {
+      const kept = docs().filter((doc) => !matches(doc, filter));
+      const deletedCount = docs().length - kept.length;
+      collections.set(name, kept);
+      return { deletedCount };
+    }
+  };
+}
+
+/** The documents stored in a collection, for checking what a module wrote. */
+export function memoryDocuments(name: string): Doc[] {
+  return collections.get(name) ?? [];
+}
+
+export function resetMemoryDb(): void {
+  collections.clear();
+}
+
+export async function getDb() {
+  return { collection: memoryCollection };
+}
@@ -0,0 +1,52 @@
+import { crc32, inflateRawSync } from "node:zlib";
+import { expect } from "vitest";
+
+export interface ZipFile {
+  name: string;
+  data: Buffer;
+  time: number;
+  day: number;
+}
+
+// Reads a zip the way an unzip tool would, from the end of central directory record back to each
+// local header, checking that the two copies of every header agree and that each CRC matches
+// zlib's own CRC-32 of the inflated data.
+export function readZip(zip: Buffer): ZipFile[] {
+  const end = zip.length - 22;
+  expect(zip.readUInt32LE(end)).toBe(0x06054b50);
+  const count = zip.readUInt16LE(end + 10);
+  expect(zip.readUInt16LE(end + 8)).toBe(count);
+  const centralSize = zip.readUInt32LE(end + 12);
+  const centralOffset = zip.readUInt32LE(end + 16);
+  expect(centralOffset + centralSize).toBe(end);
+
+  const files: ZipFile[] = [];
+  let offset = centralOffset;
+  for (let i = 0; i < count; i += 1) {
+    expect(zip.readUInt32LE(offset)).toBe(0x02014b50);
+    const method = zip.readUInt16LE(offset + 10);
+    const crc = zip.readUInt32LE(offset + 16);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const size = zip.readUInt32LE(offset + 24);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localOffset = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+    expect(method).toBe(8);
+
+    expect(zip.readUInt32LE(localOffset)).toBe(0x04034b50);
+    expect(zip.subarray(localOffset + 6, localOffset + 26)).toEqual(zip.subarray(offset + 8, offset + 28));
+    const localNameLength = zip.readUInt16LE(localOffset + 26);
+    const dataStart = localOffset + 30 + localNameLength + zip.readUInt16LE(localOffset + 28);
+    expect(zip.toString("utf8", localOffset + 30, localOffset + 30 + localNameLength)).toBe(name);
+
+    const data = inflateRawSync(zip.subarray(dataStart, dataStart + compressedSize));
+    expect(data.length).toBe(size);
+    expect(crc32(data)).toBe(crc);
+    files.push({ name, data, time: zip.readUInt16LE(offset + 12), day: zip.readUInt16LE(offset + 14) });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  expect(offset).toBe(end);
+  return files;
+}
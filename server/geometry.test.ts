@@ -0,0 +1,36 @@
+import { describe, expect, it } from "vitest";
+import { isAssetGeometry } from "./geometry";
+
+const square = [[150, -34], [151, -34], [151, -33], [150, -33], [150, -34]];
+const hole = [[150.2, -33.8], [150.2, -33.2], [150.8, -33.2], [150.8, -33.8], [150.2, -33.8]];
+
+describe("isAssetGeometry", () => {
+  it("accepts points, lines, polygons with holes and multipolygons", () => {
+    expect(isAssetGeometry({ type: "Point", coordinates: [151, -33] })).toBe(true);
+    expect(isAssetGeometry({ type: "LineString", coordinates: [[150, -34], [151, -33], [150, -33], [151, -34]] })).toBe(true);
+    expect(isAssetGeometry({ type: "Polygon", coordinates: [square, hole] })).toBe(true);
+    expect(isAssetGeometry({ type: "MultiPolygon", coordinates: [[square], [square.map(([x, y]) => [x + 2, y])]] })).toBe(true);
+  });
+
+  it("rejects consecutive duplicate vertices", () => {
+    const ring = [square[0], square[1], square[1], square[2], square[3], square[0]];
+    expect(isAssetGeometry({ type: "Polygon", coordinates: [ring] })).toBe(false);
+    expect(isAssetGeometry({ type: "LineString", coordinates: [[150, -34], [150, -34], [151, -33]] })).toBe(false);
+  });
+
+  it("rejects self-intersecting and self-touching rings", () => {
+    const bowTie = [[0, 0], [1, 1], [1, 0], [0, 1], [0, 0]];
+    const touching = [[0, 0], [2, 0], [2, 2], [1, 0], [0, 2], [0, 0]];
+    const spike = [[0, 0], [2, 0], [3, 0], [2, 0], [2, 2], [0, 0]];
+    for (const ring of [bowTie, touching, spike]) {
+      expect(isAssetGeometry({ type: "Polygon", coordinates: [ring] })).toBe(false);
+    }
+  });
+
+  it("rejects holes outside the outer ring or crossing it", () => {
+    const outside = hole.map(([x, y]) => [x + 5, y]);
+    const crossing = hole.map(([x, y]) => [x + 0.5, y]);
+    expect(isAssetGeometry({ type: "Polygon", coordinates: [square, outside] })).toBe(false);
+    expect(isAssetGeometry({ type: "Polygon", coordinates: [square, crossing] })).toBe(false);
+  });
+});
@@ -0,0 +1,207 @@
+import type { Position } from "geojson";
+import type { Asset, AssetGeometry } from "./types";
+
+const GEOMETRY_TYPES = ["Point", "LineString", "Polygon", "MultiPolygon"];
+
+function isPosition(value: unknown): value is Position {
+  if (!Array.isArray(value) || value.length < 2) return false;
+  const [lon, lat] = value as unknown[];
+  return (
+    typeof lon === "number" &&
+    typeof lat === "number" &&
+    lon >= -180 &&
+    lon <= 180 &&
+    lat >= -90 &&
+    lat <= 90
+  );
+}
+
+function isLinearRing(value: unknown): value is Position[] {
+  if (!Array.isArray(value) || value.length < 4 || !value.every(isPosition)) return false;
+  const first = value[0];
+  const last = value[value.length - 1];
+  return first[0] === last[0] && first[1] === last[1];
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+function hasRepeatedVertex(line: Position[]): boolean {
+  return line.some((position, i) => i > 0 && samePosition(position, line[i - 1]));
+}
+
+function orientation(a: Position, b: Position, c: Position): number {
+  return Math.sign((b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]));
+}
+
+function withinSegmentBox(a: Position, b: Position, p: Position): boolean {
+  return (
+    Math.min(a[0], b[0]) <= p[0] &&
+    p[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= p[1] &&
+    p[1] <= Math.max(a[1], b[1])
+  );
+}
+
+// Touching counts as intersecting, since a ring that touches itself is not simple either.
+function segmentsIntersect(a: Position, b: Position, c: Position, d: Position): boolean {
+  const o1 = orientation(a, b, c);
+  const o2 = orientation(a, b, d);
+  const o3 = orientation(c, d, a);
+  const o4 = orientation(c, d, b);
+  if (o1 !== o2 && o3 !== o4) return true;
+  return (
+    (o1 === 0 && withinSegmentBox(a, b, c)) ||
+    (o2 === 0 && withinSegmentBox(a, b, d)) ||
+    (o3 === 0 && withinSegmentBox(c, d, a)) ||
+    (o4 === 0 && withinSegmentBox(c, d, b))
+  );
+}
+
+/** No edge crosses or touches another, apart from neighbours sharing a vertex, and no edge doubles back. */
+function isSimpleRing(ring: Position[]): boolean {
+  const edges = ring.length - 1;
+  for (let i = 0; i < edges; i += 1) {
+    const [a, b, c] = [ring[i], ring[i + 1], ring[(i + 2) % edges]];
+    const backtracks = (c[0] - b[0]) * (a[0] - b[0]) + (c[1] - b[1]) * (a[1] - b[1]) > 0;
+    if (orientation(a, b, c) === 0 && backtracks) return false;
+    for (let j = i + 2; j < edges; j += 1) {
+      if (i === 0 && j === edges - 1) continue;
+      if (segmentsIntersect(ring[i], ring[i + 1], ring[j], ring[j + 1])) return false;
+    }
+  }
+  return true;
+}
+
+function ringsIntersect(first: Position[], second: Position[]): boolean {
+  for (let i = 0; i < first.length - 1; i += 1) {
+    for (let j = 0; j < second.length - 1; j += 1) {
+      if (segmentsIntersect(first[i], first[i + 1], second[j], second[j + 1])) return true;
+    }
+  }
+  return false;
+}
+
+function containsPosition(ring: Position[], [x, y]: Position): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 2; i < ring.length - 1; j = i, i += 1) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+}
+
+// What MongoDB's 2dsphere index insists on: simple rings without repeated vertices, and holes
+// inside the outer ring that touch neither it nor each other. Anything else cannot be indexed.
+function isPolygonRings(value: unknown): value is Position[][] {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(isLinearRing)) return false;
+  const rings = value as Position[][];
+  if (rings.some((ring) => hasRepeatedVertex(ring) || !isSimpleRing(ring))) return false;
+  const [outer, ...holes] = rings;
+  if (holes.some((hole) => !containsPosition(outer, hole[0]))) return false;
+  return rings.every((ring, i) => rings.slice(i + 1).every((other) => !ringsIntersect(ring, other)));
+}
+
+export function isAssetGeometry(value: unknown): value is AssetGeometry {
+  if (!value || typeof value !== "object") return false;
+  const { type, coordinates } = value as { type?: unknown; coordinates?: unknown };
+  if (typeof type !== "string" || !GEOMETRY_TYPES.includes(type)) return false;
+  if (type === "Point") return isPosition(coordinates);
+  if (type === "LineString") {
+    return (
+      Array.isArray(coordinates) &&
+      coordinates.length >= 2 &&
+      coordinates.every(isPosition) &&
+      !hasRepeatedVertex(coordinates as Position[])
+    );
+  }
+  if (type === "Polygon") return isPolygonRings(coordinates);
+  return Array.isArray(coordinates) && coordinates.length > 0 && coordinates.every(isPolygonRings);
+}
+
+/** Signed planar area of a closed ring; positive when the ring runs counter-clockwise. */
+export function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i += 1) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+function ringCentroid(ring: Position[]): Position {
+  const area = ringArea(ring);
+  if (area === 0) {
+    const vertices = ring.slice(0, -1);
+    const lon = vertices.reduce((sum, p) => sum + p[0], 0) / vertices.length;
+    const lat = vertices.reduce((sum, p) => sum + p[1], 0) / vertices.length;
+    return [lon, lat];
+  }
+  let cx = 0;
+  let cy = 0;
+  for (let i = 0; i < ring.length - 1; i += 1) {
+    const cross = ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    cx += (ring[i][0] + ring[i + 1][0]) * cross;
+    cy += (ring[i][1] + ring[i + 1][1]) * cross;
+  }
+  return [cx / (6 * area), cy / (6 * area)];
+}
+
+function lineMidpoint(line: Position[]): Position {
+  const segments = line.slice(1).map((p, i) => Math.hypot(p[0] - line[i][0], p[1] - line[i][1]));
+  const half = segments.reduce((sum, length) => sum + length, 0) / 2;
+  let travelled = 0;
+  for (let i = 0; i < segments.length; i += 1) {
+    if (travelled + segments[i] >= half && segments[i] > 0) {
+      const t = (half - travelled) / segments[i];
+      return [
+        line[i][0] + (line[i + 1][0] - line[i][0]) * t,
+        line[i][1] + (line[i + 1][1] - line[i][1]) * t
+      ];
+    }
+    travelled += segments[i];
+  }
+  return line[0];
+}
+
+/**
+ * Point used for the flat latitude/longitude columns, the table and the
+ * coordinate-based QA checks: the line midpoint or the outer ring centroid of
+ * the largest polygon.
+ */
+export function representativePoint(geometry: AssetGeometry): Position {
+  if (geometry.type === "Point") return geometry.coordinates;
+  if (geometry.type === "LineString") return lineMidpoint(geometry.coordinates);
+  if (geometry.type === "Polygon") return ringCentroid(geometry.coordinates[0]);
+  const largest = [...geometry.coordinates].sort(
+    (a, b) => Math.abs(ringArea(b[0])) - Math.abs(ringArea(a[0]))
+  )[0];
+  return ringCentroid(largest[0]);
+}
+
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+/**
+ * Keeps `geometry` and the latitude/longitude columns consistent. Point assets
+ * are driven by latitude/longitude; lines and polygons drive the coordinates.
+ */
+export function normalizeAssetGeometry<T extends Asset>(asset: T): T {
+  const geometry = asset.geometry;
+  if (geometry && geometry.type !== "Point") {
+    const [lon, lat] = representativePoint(geometry);
+    return { ...asset, latitude: roundCoordinate(lat), longitude: roundCoordinate(lon) };
+  }
+  if (asset.latitude === null || asset.longitude === null) {
+    return { ...asset, geometry: null };
+  }
+  return { ...asset, geometry: { type: "Point", coordinates: [asset.longitude, asset.latitude] } };
+}
+
+export function assetGeometry(asset: Asset): AssetGeometry | null {
+  if (asset.geometry) return asset.geometry;
+  if (asset.latitude === null || asset.longitude === null) return null;
+  return { type: "Point", coordinates: [asset.longitude, asset.latitude] };
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { diffAssets, trackedValues } from "./history";
+import type { Asset } from "./types";
+
+const asset = (overrides: Partial<Asset> = {}): Asset => ({
+  id: "A1",
+  name: "Pump 1",
+  region: "NSW",
+  type: "Pump",
+  status: "Active",
+  latitude: -33.5,
+  longitude: 151.25,
+  version: 1,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-02T00:00:00.000Z",
+  ...overrides
+});
+
+describe("diffAssets", () => {
+  it("lists only the tracked fields that changed, ignoring version and timestamps", () => {
+    const before = asset({ attributes: { flowRate: 3 } });
+    const after = asset({ status: "Inactive", attributes: { flowRate: 4 }, version: 2, updatedAt: "2024-03-01T00:00:00.000Z" });
+    expect(diffAssets(before, after)).toEqual([
+      { field: "status", from: "Active", to: "Inactive" },
+      { field: "attributes", from: { flowRate: 3 }, to: { flowRate: 4 } }
+    ]);
+  });
+
+  it("treats a missing field and null as the same value", () => {
+    expect(diffAssets(asset(), asset({ geometry: null, archivedAt: null, mergedInto: null }))).toEqual([]);
+  });
+
+  it("diffs a creation from nothing and an archive as bookkeeping", () => {
+    const created = diffAssets(null, asset());
+    expect(created.map((change) => change.field)).toEqual(["name", "region", "type", "status", "latitude", "longitude"]);
+    expect(created[0]).toEqual({ field: "name", from: null, to: "Pump 1" });
+    expect(diffAssets(asset(), asset({ archivedAt: "2024-03-01T00:00:00.000Z" }))).toEqual([
+      { field: "archivedAt", from: null, to: "2024-03-01T00:00:00.000Z" }
+    ]);
+  });
+});
+
+describe("trackedValues", () => {
+  it("takes the fields a revert restores and leaves out bookkeeping", () => {
+    const snapshot = asset({ aliases: ["OLD-1"], archivedAt: "2024-03-01T00:00:00.000Z", version: 5 });
+    expect(trackedValues(snapshot)).toEqual({
+      name: "Pump 1",
+      region: "NSW",
+      type: "Pump",
+      status: "Active",
+      latitude: -33.5,
+      longitude: 151.25,
+      geometry: null,
+      attributes: {}
+    });
+  });
+});
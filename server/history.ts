@@ -0,0 +1,36 @@
+import type { Asset, AssetChange } from "./types";
+
+// Fields compared when recording a change. id and timestamps are bookkeeping.
+export const TRACKED_FIELDS = ["name", "region", "type", "status", "latitude", "longitude", "geometry", "attributes"] as const;
+
+export type TrackedField = (typeof TRACKED_FIELDS)[number];
+
+// Archiving and merge bookkeeping show up in the diff but are never undone by a revert.
+const DIFFED_FIELDS = [...TRACKED_FIELDS, "archivedAt", "aliases", "mergedInto"] as const;
+
+function sameValue(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+}
+
+/** Field-level differences between two versions; either side may be absent. */
+export function diffAssets(before: Asset | null, after: Asset | null): AssetChange[] {
+  return DIFFED_FIELDS.filter((field) => !sameValue(before?.[field], after?.[field])).map((field) => ({
+    field,
+    from: before?.[field] ?? null,
+    to: after?.[field] ?? null
+  }));
+}
+
+/** The tracked fields of a stored snapshot, ready to $set back onto an asset. */
+export function trackedValues(snapshot: Asset): Pick<Asset, TrackedField> {
+  return {
+    name: snapshot.name,
+    region: snapshot.region,
+    type: snapshot.type,
+    status: snapshot.status,
+    latitude: snapshot.latitude,
+    longitude: snapshot.longitude,
+    geometry: snapshot.geometry ?? null,
+    attributes: snapshot.attributes ?? {}
+  };
+}
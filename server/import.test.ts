@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { parseImportContent, planImport } from "./import";
+import type { Asset, AssetTypeSchema } from "./types";
+
+const plan = (format: "csv" | "geojson", content: string) => planImport(parseImportContent(format, content), new Map(), [], () => true);
+
+describe("import coordinate systems", () => {
+  it("converts MGA eastings and northings back to WGS 84", () => {
+    const csv = "name,region,type,status,easting,northing,crs\nFlinders Peak,VIC,Trig,Active,273741.297,5796489.777,EPSG:7855\n";
+    const [row] = plan("csv", csv);
+    expect(row.result.action).toBe("create");
+    expect(row.record?.longitude).toBeCloseTo(144.4248679, 6);
+    expect(row.record?.latitude).toBeCloseTo(-37.9510334, 6);
+  });
+
+  it("shifts GDA94 latitude/longitude onto GDA2020", () => {
+    const csv = "name,region,type,status,latitude,longitude,crs\nSydney,NSW,Trig,Active,-33.8688,151.2093,EPSG:4283\n";
+    const [row] = plan("csv", csv);
+    expect(row.record?.latitude).toBeGreaterThan(-33.8688);
+    expect(row.record?.longitude).toBeGreaterThan(151.2093);
+  });
+
+  it("rejects a row whose crs it cannot convert instead of reading it as WGS 84", () => {
+    const csv = "name,region,type,status,latitude,longitude,crs\nSomewhere,NSW,Trig,Active,-33.8,151.2,EPSG:3857\n";
+    const [row] = plan("csv", csv);
+    expect(row.result.action).toBe("reject");
+    expect(row.result.reasons[0]).toMatch(/^crs EPSG:3857 is not one of/);
+  });
+
+  it("reads the GeoJSON crs member for points and polygons", () => {
+    const ring = [[273741.297, 5796489.777], [273841.297, 5796489.777], [273841.297, 5796589.777], [273741.297, 5796489.777]];
+    const collection = {
+      type: "FeatureCollection",
+      crs: { type: "name", properties: { name: "urn:ogc:def:crs:EPSG::7855" } },
+      features: [
+        { type: "Feature", properties: { name: "Peak", region: "VIC", type: "Trig", status: "Active" }, geometry: { type: "Point", coordinates: ring[0] } },
+        { type: "Feature", properties: { name: "Reserve", region: "VIC", type: "Park", status: "Active" }, geometry: { type: "Polygon", coordinates: [ring] } }
+      ]
+    };
+    const [point, polygon] = plan("geojson", JSON.stringify(collection));
+    expect(point.record?.longitude).toBeCloseTo(144.4248679, 6);
+    expect(polygon.result.action).toBe("create");
+    const [[first]] = (polygon.record?.geometry as { coordinates: number[][][] }).coordinates;
+    expect(first[0]).toBeCloseTo(144.4248679, 6);
+    expect(first[1]).toBeCloseTo(-37.9510334, 6);
+  });
+});
+
+describe("import attributes", () => {
+  const schema = (type: string, name: string): AssetTypeSchema => ({
+    type,
+    attributes: [{ name, label: name, dataType: "text", required: true, allowedValues: [] }],
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    updatedBy: "system"
+  });
+  const schemas = [schema("Reserve", "reserveNumber"), schema("Depot", "custodian")];
+  const reserve: Asset = {
+    id: "A1",
+    name: "Hill Reserve",
+    region: "NSW",
+    type: "Reserve",
+    status: "Active",
+    latitude: -33.8,
+    longitude: 151.2,
+    version: 3,
+    createdAt: "2024-01-01T00:00:00.000Z",
+    updatedAt: "2024-01-02T00:00:00.000Z",
+    attributes: { reserveNumber: "R123" }
+  };
+  const planUpdate = (csv: string) => planImport(parseImportContent("csv", csv), new Map([["A1", reserve]]), schemas, () => true);
+
+  it("checks stored attributes against the new type when a row changes type without attribute columns", () => {
+    const [row] = planUpdate("id,name,region,type,status,latitude,longitude,version\nA1,Hill Reserve,NSW,Depot,Active,-33.8,151.2,3\n");
+    expect(row.result.action).toBe("reject");
+    expect(row.result.reasons).toEqual(["attributes.reserveNumber is not an attribute of Depot", "attributes.custodian is required for Depot"]);
+  });
+
+  it("keeps stored attributes on an update that leaves the type alone", () => {
+    const [row] = planUpdate("id,name,region,type,status,latitude,longitude,version\nA1,Renamed,NSW,Reserve,Active,-33.8,151.2,3\n");
+    expect(row.result.action).toBe("update");
+    expect(row.record?.attributes).toEqual({ reserveNumber: "R123" });
+  });
+
+  it("accepts a type change that brings the new type's attribute columns", () => {
+    const [row] = planUpdate("id,name,region,type,status,latitude,longitude,version,custodian\nA1,Hill Depot,NSW,Depot,Active,-33.8,151.2,3,Parks\n");
+    expect(row.result.action).toBe("update");
+    expect(row.record?.attributes).toEqual({ custodian: "Parks" });
+  });
+});
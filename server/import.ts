@@ -0,0 +1,326 @@
+import { DEFAULT_EXPORT_CRS, EXPORT_CRS, parseExportCrs, toStoredPosition } from "./crs";
+import type { ExportCrs } from "./crs";
+import { InvalidFilterError } from "./filters";
+import { validateAssetPayload, validateAttributes } from "./validation";
+import type { Asset, AssetTypeSchema, ImportReport, ImportRowResult } from "./types";
+
+export type ImportFormat = "csv" | "geojson";
+
+export class ImportParseError extends Error {}
+
+/** Asset fields read from one CSV row or GeoJSON feature, before validation. */
+export interface ImportCandidate {
+  row: number;
+  id: string;
+  name: string;
+  region: string;
+  type: string;
+  status: string;
+  latitude: string | number | null;
+  longitude: string | number | null;
+  /** Set instead of latitude/longitude when `crs` is an MGA grid. */
+  easting: string | number | null;
+  northing: string | number | null;
+  geometry?: unknown;
+  /** The system the coordinates and geometry are in, as an export wrote it ("" for WGS 84). */
+  crs: string;
+  /** The `version` and `updatedAt` the row was exported with, when it carries them ("" otherwise). */
+  version: string;
+  updatedAt: string;
+  /** Every other column or property, some of which may be custom attributes of the type. */
+  extra: Record<string, unknown>;
+}
+
+// Columns an export writes that are not asset fields or attributes.
+const CORE_COLUMNS = ["id", "name", "region", "type", "status", "latitude", "longitude", "easting", "northing", "createdAt", "updatedAt", "version", "crs", "aliases"];
+
+function extraFields(entries: [string, unknown][]): Record<string, unknown> {
+  return Object.fromEntries(entries.filter(([key]) => !CORE_COLUMNS.includes(key)));
+}
+
+/** `id` is set for updates only; created assets always get a new server-generated id. */
+export type ImportRecord = Omit<Asset, "id" | "version" | "createdAt" | "updatedAt"> & { id: string | null };
+
+export interface PlannedImportRow {
+  result: ImportRowResult;
+  record: ImportRecord | null;
+}
+
+/** RFC 4180 style parsing: quoted fields may contain commas, quotes ("") and newlines. */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i += 1) {
+    const char = input[i];
+    if (quoted) {
+      if (char === "\"" && input[i + 1] === "\"") {
+        field += "\"";
+        i += 1;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === "\"") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) throw new ImportParseError("CSV has an unterminated quoted field");
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim() !== ""));
+}
+
+function csvCandidates(content: string): ImportCandidate[] {
+  const [headerRow, ...rows] = parseCsv(content);
+  if (!headerRow) throw new ImportParseError("CSV is empty");
+  const headers = headerRow.map((header) => header.trim());
+  // An export to an MGA grid writes easting/northing in place of latitude/longitude.
+  const coordinateColumns = headers.includes("easting") || headers.includes("northing") ? ["easting", "northing"] : ["latitude", "longitude"];
+  const missing = ["name", "region", "type", "status", ...coordinateColumns].filter((column) => !headers.includes(column));
+  if (missing.length > 0) {
+    throw new ImportParseError(`CSV is missing columns: ${missing.join(", ")}`);
+  }
+  return rows.map((cells, index) => {
+    const value = (column: string) => {
+      const position = headers.indexOf(column);
+      return position === -1 ? "" : (cells[position] ?? "").trim();
+    };
+    return {
+      row: index + 2,
+      id: value("id"),
+      name: value("name"),
+      region: value("region"),
+      type: value("type"),
+      status: value("status"),
+      latitude: value("latitude"),
+      longitude: value("longitude"),
+      easting: value("easting"),
+      northing: value("northing"),
+      crs: value("crs"),
+      version: value("version"),
+      updatedAt: value("updatedAt"),
+      extra: extraFields(headers.map((header) => [header, value(header)]))
+    };
+  });
+}
+
+// The 2008-style `crs` member the GeoJSON export writes, e.g. urn:ogc:def:crs:EPSG::7856, as "EPSG:7856".
+function geoJsonCrs(name: unknown): string {
+  if (name === undefined || name === null) return "";
+  const text = String(name).trim();
+  if (/^urn:ogc:def:crs:OGC:[\d.]*:CRS84$/i.test(text)) return "";
+  const match = /^urn:ogc:def:crs:EPSG:[\d.]*:(\d+)$/i.exec(text);
+  return match ? `EPSG:${match[1]}` : text;
+}
+
+function parseCrsOrNull(value: string): ExportCrs | null {
+  try {
+    return parseExportCrs(value);
+  } catch (error) {
+    if (error instanceof InvalidFilterError) return null;
+    throw error;
+  }
+}
+
+function geoJsonCandidates(content: string): ImportCandidate[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new ImportParseError("GeoJSON is not valid JSON");
+  }
+  const collection = parsed as { type?: unknown; features?: unknown; crs?: { properties?: { name?: unknown } } };
+  if (collection.type !== "FeatureCollection" || !Array.isArray(collection.features)) {
+    throw new ImportParseError("GeoJSON must be a FeatureCollection");
+  }
+  const crs = geoJsonCrs(collection.crs?.properties?.name);
+  const projected = crs !== "" && parseCrsOrNull(crs)?.zone !== undefined;
+  return collection.features.map((feature: unknown, index: number) => {
+    const { properties, geometry } = (feature ?? {}) as { properties?: Record<string, unknown> | null; geometry?: unknown };
+    const props = properties ?? {};
+    const text = (key: string) => (props[key] === undefined || props[key] === null ? "" : String(props[key]).trim());
+    const point = geometry as { type?: unknown; coordinates?: unknown } | null | undefined;
+    const coordinates = point?.type === "Point" && Array.isArray(point.coordinates) ? point.coordinates : null;
+    return {
+      row: index + 1,
+      id: text("id"),
+      name: text("name"),
+      region: text("region"),
+      type: text("type"),
+      status: text("status"),
+      latitude: coordinates && !projected ? (coordinates[1] as number) : null,
+      longitude: coordinates && !projected ? (coordinates[0] as number) : null,
+      easting: coordinates && projected ? (coordinates[0] as number) : null,
+      northing: coordinates && projected ? (coordinates[1] as number) : null,
+      geometry: point && point.type !== "Point" ? geometry : undefined,
+      crs,
+      version: text("version"),
+      updatedAt: text("updatedAt"),
+      extra: extraFields(Object.entries(props))
+    };
+  });
+}
+
+export function parseImportContent(format: ImportFormat, content: string): ImportCandidate[] {
+  return format === "csv" ? csvCandidates(content) : geoJsonCandidates(content);
+}
+
+function parseCoordinate(value: string | number | null): number | null {
+  if (value === null || value === "") return null;
+  return typeof value === "number" ? value : Number(value);
+}
+
+// Every position in a not yet validated geometry, converted to stored WGS 84; anything
+// malformed is passed through for validateAssetPayload to report.
+function storedCoordinates(value: unknown, crs: ExportCrs): unknown {
+  if (!Array.isArray(value)) return value;
+  if (value.length >= 2 && value.every((item) => typeof item === "number")) return toStoredPosition(value, crs);
+  return value.map((item) => storedCoordinates(item, crs));
+}
+
+/**
+ * The candidate's location as stored: rows exported in another `crs` (an MGA grid, or
+ * GDA94) are converted back to WGS 84 longitude/latitude. An unknown crs is a problem
+ * rather than being read as WGS 84, which would put the asset in the wrong place.
+ */
+function storedLocation(candidate: ImportCandidate): { latitude: number | null; longitude: number | null; geometry: unknown; problem: string | null } {
+  const crs = candidate.crs ? parseCrsOrNull(candidate.crs) : DEFAULT_EXPORT_CRS;
+  if (!crs) {
+    const codes = EXPORT_CRS.map((item) => item.code).join(", ");
+    return { latitude: null, longitude: null, geometry: undefined, problem: `crs ${candidate.crs} is not one of ${codes}` };
+  }
+  const [x, y] = crs.zone ? [parseCoordinate(candidate.easting), parseCoordinate(candidate.northing)] : [parseCoordinate(candidate.longitude), parseCoordinate(candidate.latitude)];
+  if (crs.zone && (x === null) !== (y === null)) {
+    return { latitude: null, longitude: null, geometry: undefined, problem: `easting and northing must both be set or both be empty for ${crs.code}` };
+  }
+  if (crs.zone && x !== null && y !== null && !(Number.isFinite(x) && Number.isFinite(y))) {
+    return { latitude: null, longitude: null, geometry: undefined, problem: `easting and northing must be numbers for ${crs.code}` };
+  }
+  const position = x !== null && y !== null && crs !== DEFAULT_EXPORT_CRS ? toStoredPosition([x, y], crs) : [x, y];
+  const shape = candidate.geometry as { coordinates?: unknown } | undefined;
+  const geometry =
+    shape && typeof shape === "object" && crs !== DEFAULT_EXPORT_CRS ? { ...shape, coordinates: storedCoordinates(shape.coordinates, crs) } : candidate.geometry;
+  return { longitude: position[0], latitude: position[1], geometry, problem: null };
+}
+
+// An update is held to the same rules as PUT /api/assets/:id: live assets only, within the
+// caller's editing scope, and not changed since the file was exported.
+function updateProblems(candidate: ImportCandidate, previous: Asset, canEdit: (asset: Pick<Asset, "region" | "type">) => boolean): string[] {
+  const reasons: string[] = [];
+  if (previous.archivedAt) reasons.push(`${previous.id} is archived; restore it before importing changes`);
+  const outOfScope = [previous, candidate].find((asset) => !canEdit(asset));
+  if (outOfScope) reasons.push(`${outOfScope.region} / ${outOfScope.type} is outside your editing scope`);
+  if (candidate.version && candidate.version !== String(previous.version)) {
+    reasons.push(`${previous.id} is at version ${previous.version}, not ${candidate.version}; export it again`);
+  } else if (!candidate.version && candidate.updatedAt && candidate.updatedAt !== previous.updatedAt) {
+    reasons.push(`${previous.id} changed after this file was exported (updated ${previous.updatedAt})`);
+  }
+  return reasons;
+}
+
+/**
+ * Sorts each candidate into create, update or reject. Rows with the id (or a
+ * merged-away alias) of an existing asset are updates and rows without an id
+ * are creates; an id the register does not know is rejected rather than
+ * created under that id, and a repeated id within the same file rejects the
+ * later rows. Field checks are the same ones applied to POST /api/assets,
+ * including the type's custom attributes, which are read from the columns or
+ * properties named after them.
+ */
+export function planImport(
+  candidates: ImportCandidate[],
+  existing: Map<string, Asset>,
+  schemas: AssetTypeSchema[],
+  canEdit: (asset: Pick<Asset, "region" | "type">) => boolean
+): PlannedImportRow[] {
+  const seenIds = new Set<string>();
+
+  return candidates.map((candidate) => {
+    const location = storedLocation(candidate);
+    const payload: Record<string, unknown> = {
+      name: candidate.name,
+      region: candidate.region,
+      type: candidate.type,
+      status: candidate.status,
+      latitude: location.latitude,
+      longitude: location.longitude
+    };
+    // CSV rows carry no geometry, so an update keeps the stored line or polygon.
+    if (location.geometry !== undefined) payload.geometry = location.geometry;
+
+    const validation = validateAssetPayload(payload, "create");
+    const reasons = location.problem ? [location.problem] : validation.ok ? [] : validation.errors.map((error) => `${error.field} ${error.message}`);
+
+    // A file without any of the type's attribute columns keeps the stored values on update. As on PUT,
+    // those are checked against the row's type, so a type change cannot carry the old type's attributes.
+    const schema = schemas.find((item) => item.type.toLowerCase() === candidate.type.toLowerCase()) ?? null;
+    const names = (schema?.attributes ?? []).map((definition) => definition.name).filter((name) => name in candidate.extra);
+    const previous = candidate.id ? existing.get(candidate.id) : undefined;
+    const isUpdate = Boolean(previous);
+    const attributes = validateAttributes(
+      schema,
+      candidate.type,
+      names.length > 0 || !previous ? Object.fromEntries(names.map((name) => [name, candidate.extra[name]])) : (previous.attributes ?? {})
+    );
+    if (!attributes.ok) reasons.push(...attributes.errors.map((error) => `${error.field} ${error.message}`));
+
+    if (candidate.id) {
+      if (seenIds.has(candidate.id)) reasons.push(`duplicate id ${candidate.id} in this file`);
+      seenIds.add(candidate.id);
+    }
+    if (previous) {
+      reasons.push(...updateProblems(candidate, previous, canEdit));
+    } else if (candidate.id) {
+      reasons.push(`id ${candidate.id} does not match an existing asset; leave id empty to create one`);
+    } else if (!canEdit(candidate)) {
+      reasons.push(`${candidate.region} / ${candidate.type} is outside your editing scope`);
+    }
+
+    const action = reasons.length > 0 ? "reject" : isUpdate ? "update" : "create";
+    const result: ImportRowResult = {
+      row: candidate.row,
+      id: candidate.id || null,
+      name: candidate.name,
+      action,
+      reasons
+    };
+    if (!validation.ok || action === "reject") return { result, record: null };
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { attributes: _unchecked, ...fields } = validation.value;
+    return {
+      result,
+      record: { ...fields, ...(attributes.ok ? { attributes: attributes.value } : {}), id: previous?.id ?? null }
+    };
+  });
+}
+
+export function summarizeImport(format: ImportFormat, dryRun: boolean, rows: ImportRowResult[]): ImportReport {
+  return {
+    format,
+    dryRun,
+    summary: {
+      created: rows.filter((row) => row.action === "create").length,
+      updated: rows.filter((row) => row.action === "update").length,
+      rejected: rows.filter((row) => row.action === "reject").length
+    },
+    rows
+  };
+}
@@ -1,13 +1,123 @@
 import "dotenv/config";
 import cors from "cors";
 import express from "express";
+import { MongoServerError } from "mongodb";
+import { randomUUID } from "node:crypto";
 import fs from "node:fs";
 import path from "node:path";
+import type { Readable } from "node:stream";
 import { fileURLToPath } from "node:url";
-import { issueToken, validateCredentials, verifyToken } from "./auth";
+import { ACCESS_TOKEN_TTL_SECONDS, issueToken, validateCredentials, verifyToken } from "./auth";
+import type { UserRole } from "./auth";
+import {
+  changeOwnPassword,
+  createUser,
+  deleteUser,
+  ensureSeedUsers,
+  canEditAsset,
+  findUser,
+  listUsers,
+  setPassword,
+  toPublicUser,
+  updateUser,
+  UserAccountError
+} from "./users";
+import type { PublicUser } from "./users";
+import {
+  ApiKeyError,
+  createApiKey,
+  ensureApiKeyIndexes,
+  findActiveApiKey,
+  hasApiKeyScope,
+  listApiKeys,
+  looksLikeApiKey,
+  revokeApiKey
+} from "./apiKeys";
+import type { ApiKeyScope } from "./apiKeys";
+import {
+  createSession,
+  ensureSessionIndexes,
+  isSessionActive,
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  SessionError
+} from "./sessions";
+import {
+  AttachmentError,
+  deleteAllAttachments,
+  deleteAssetAttachments,
+  deleteAttachment,
+  ensureAttachmentIndexes,
+  findAttachment,
+  listAttachments,
+  MAX_ATTACHMENT_BYTES,
+  moveAttachments,
+  openAttachment,
+  openThumbnail,
+  saveAttachment
+} from "./attachments";
+import { AssetTypeError, attributeColumns, deleteAssetType, ensureAssetTypes, findAssetType, listAssetTypes, saveAssetType } from "./assetTypes";
+import type { AttributeColumn } from "./assetTypes";
 import { getDb } from "./db";
 import { seedAssets } from "./data";
-import type { Asset, QaIssue } from "./types";
+import {
+  assertArchivedOption,
+  assertAttributeFilters,
+  buildMongoFilter,
+  encodeCursor,
+  InvalidFilterError,
+  parseAssetPaging,
+  parseSpatialFilter,
+  readQueryStrings
+} from "./filters";
+import type { AssetPaging, AssetQuery, SpatialFilter } from "./filters";
+import { DEFAULT_EXPORT_CRS, parseExportCrs, transformGeometry, transformPosition } from "./crs";
+import type { ExportCrs } from "./crs";
+import { assetEtag, checkIfMatchHeader } from "./etags";
+import { toGpx, toKml, toWorkbook } from "./exports";
+import { assetGeometry, normalizeAssetGeometry } from "./geometry";
+import { diffAssets, trackedValues } from "./history";
+import { ImportParseError, parseImportContent, planImport, summarizeImport } from "./import";
+import type { ImportCandidate, ImportFormat } from "./import";
+import { ensureQaRules, listQaRules, QaRuleError, runQaRules, updateQaRule } from "./qa";
+import { applyIssueStates, ensureQaIssueIndexes, listIssueStates, parseQaIssueId, QaIssueError, updateIssueState } from "./qaIssues";
+import { diffQaRuns, ensureQaRunIndexes, findQaRun, listQaRuns, MAX_RUNS_LISTED, saveQaRun } from "./qaRuns";
+import {
+  createInspection,
+  deleteAllInspections,
+  deleteAssetInspections,
+  deleteInspection,
+  ensureInspectionIndexes,
+  InspectionError,
+  listInspections,
+  moveInspections,
+  overdueInspections,
+  parseAsOf,
+  summarizeInspections,
+  updateInspection
+} from "./inspections";
+import { mergeAssets, MergeError } from "./merge";
+import {
+  collectionDocument,
+  collectionsDocument,
+  CONFORMANCE_CLASSES,
+  featureCollection,
+  landingPage,
+  OGC_COLLECTION_ID,
+  openApiDocument,
+  OPENAPI_TYPE,
+  parseOgcItemsQuery,
+  toOgcFeature
+} from "./ogc";
+import type { OgcItemsRequest } from "./ogc";
+import { encodeAssetTile, MVT_CONTENT_TYPE, parseTileCoordinates, tileBbox } from "./mvt";
+import type { TileCoordinates } from "./mvt";
+import { toShapefileZip } from "./shapefile";
+import { validateAssetPayload, validateAttributes } from "./validation";
+import type { FieldError } from "./validation";
+import type { Asset, AssetHistoryAction, AssetHistoryEntry, AttributeDefinition, AttributeValue, ImportRowResult } from "./types";
 
 const app = express();
 const port = Number(process.env.PORT) || 4000;
@@ -16,27 +126,117 @@ const __dirname = path.dirname(__filename);
 const distDir = path.resolve(__dirname, "../dist");
 const indexHtmlPath = path.join(distDir, "index.html");
 
-app.use(cors());
-app.use(express.json());
+// TRUST_PROXY is the number of proxies in front of the server (e.g. 1 behind one load balancer), true, or the addresses
+// Express accepts. Off when unset, so X-Forwarded-* headers from clients are not believed; behind a
+// proxy it makes req.protocol in OGC API links match what clients used.
+function trustProxySetting(value: string | undefined): boolean | number | string {
+  if (!value) return false;
+  if (/^\d+$/.test(value)) return Number(value);
+  if (value === "true" || value === "false") return value === "true";
+  return value;
+}
+
+app.set("trust proxy", trustProxySetting(process.env.TRUST_PROXY));
+app.use(cors({ exposedHeaders: ["ETag"] }));
+app.use(express.json({ limit: "10mb" }));
+
+type RouteHandler = (req: express.Request, res: express.Response, next: express.NextFunction) => unknown;
+
+// Express 4 ignores the promise an async handler returns, so a rejection would go unhandled and
+// end the process. Every handler registered on `app` below passes its rejection to `next` instead,
+// where the error handler at the end of this file answers it.
+function forwardRejections(handler: RouteHandler): RouteHandler {
+  return (req, res, next) => {
+    const result = handler(req, res, next);
+    if (result instanceof Promise) result.catch(next);
+    return result;
+  };
+}
+
+for (const method of ["get", "post", "put", "patch", "delete"] as const) {
+  const register = app[method].bind(app) as (...args: unknown[]) => unknown;
+  // `app.get(name)` with a single argument reads a setting rather than adding a route.
+  Object.assign(app, {
+    [method]: (...args: unknown[]) =>
+      register(...(args.length > 1 ? args.map((arg) => (typeof arg === "function" ? forwardRejections(arg as RouteHandler) : arg)) : args))
+  });
+}
 
 type AssetDocument = Asset & { _id?: unknown };
+type AssetHistoryDocument = AssetHistoryEntry & { _id?: unknown };
+type AuthenticatedRequest = express.Request & {
+  user?: {
+    username: string;
+    role: UserRole;
+    regions: string[];
+    assetTypes: string[];
+    sessionId: string;
+    /** Set when the caller used an API key; its scopes replace the role checks. */
+    apiKey?: { id: string; scopes: ApiKeyScope[] };
+  };
+};
 
 async function assetsCollection() {
   const db = await getDb();
   return db.collection<AssetDocument>("assets");
 }
 
+async function historyCollection() {
+  const db = await getDb();
+  return db.collection<AssetHistoryDocument>("asset_history");
+}
+
 async function ensureSeedData(): Promise<void> {
   const collection = await assetsCollection();
   const count = await collection.countDocuments();
   if (count === 0) {
-    await collection.insertMany(seedAssets.map((asset) => ({ ...asset })));
+    await collection.insertMany(seedAssets.map((asset) => normalizeAssetGeometry({ ...asset })));
   }
 }
 
-function authenticate(req: express.Request, res: express.Response, next: express.NextFunction): void {
+async function ensureIndexes(): Promise<void> {
+  const collection = await assetsCollection();
+  await collection.createIndex({ id: 1 }, { unique: true });
+  await collection.createIndex({ geometry: "2dsphere" });
+  await collection.createIndex({ aliases: 1 });
+  const history = await historyCollection();
+  await history.createIndex({ assetId: 1, changedAt: -1 });
+}
+
+async function backfillAssetFields(): Promise<void> {
+  const collection = await assetsCollection();
+  await collection.updateMany({ version: { $exists: false } }, { $set: { version: 1 } });
+  await collection.updateMany({ attributes: { $exists: false } }, { $set: { attributes: {} } });
+  const docs = await collection
+    .find({ geometry: { $exists: false }, latitude: { $ne: null }, longitude: { $ne: null } })
+    .toArray();
+  for (const doc of docs) {
+    const { geometry } = normalizeAssetGeometry(stripMongoId(doc));
+    await collection.updateOne({ id: doc.id }, { $set: { geometry } });
+  }
+}
+
+async function authenticate(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
   const authHeader = req.headers.authorization;
   const token = authHeader?.startsWith("Bearer ") ? authHeader.slice(7) : "";
+  const rawApiKey = req.get("x-api-key") ?? (looksLikeApiKey(token) ? token : "");
+  if (rawApiKey) {
+    const apiKey = await findActiveApiKey(rawApiKey);
+    if (!apiKey) {
+      res.status(401).json({ message: "API key is invalid, expired or revoked" });
+      return;
+    }
+    (req as AuthenticatedRequest).user = {
+      username: `api-key:${apiKey.name}`,
+      role: "user",
+      regions: [],
+      assetTypes: [],
+      sessionId: "",
+      apiKey: { id: apiKey.id, scopes: apiKey.scopes }
+    };
+    next();
+    return;
+  }
   if (!token) {
     res.status(401).json({ message: "Missing token" });
     return;
@@ -46,12 +246,44 @@ function authenticate(req: express.Request, res: express.Response, next: express
     res.status(401).json({ message: "Invalid token" });
     return;
   }
-  (req as express.Request & { user?: { username: string; role: "admin" | "user" } }).user = payload;
+  if (!(await isSessionActive(payload.sessionId))) {
+    res.status(401).json({ message: "Session has been signed out" });
+    return;
+  }
+  // Re-read the account so disabling a user or changing their role takes effect immediately.
+  const account = await findUser(payload.username);
+  if (!account || account.disabled) {
+    res.status(401).json({ message: "Account is disabled or no longer exists" });
+    return;
+  }
+  const { username, role, regions, assetTypes } = toPublicUser(account);
+  (req as AuthenticatedRequest).user = { username, role, regions, assetTypes, sessionId: payload.sessionId };
   next();
 }
 
+// Public read routes stay open, but a caller that sends credentials must send valid ones.
+async function optionalAuthenticate(req: express.Request, res: express.Response, next: express.NextFunction): Promise<void> {
+  if (!req.headers.authorization && !req.get("x-api-key")) {
+    next();
+    return;
+  }
+  await authenticate(req, res, next);
+}
+
+/** Rejects API keys that lack `scope`. Signed-in users are governed by their role instead. */
+function requireScope(scope: ApiKeyScope) {
+  return (req: express.Request, res: express.Response, next: express.NextFunction): void => {
+    const apiKey = (req as AuthenticatedRequest).user?.apiKey;
+    if (!hasApiKeyScope(apiKey, scope)) {
+      res.status(403).json({ message: `API key lacks the ${scope} scope` });
+      return;
+    }
+    next();
+  };
+}
+
 function requireAdmin(req: express.Request, res: express.Response, next: express.NextFunction): void {
-  const role = (req as express.Request & { user?: { role: "admin" | "user" } }).user?.role;
+  const role = (req as AuthenticatedRequest).user?.role;
   if (role !== "admin") {
     res.status(403).json({ message: "Admin role required" });
     return;
@@ -59,97 +291,246 @@ function requireAdmin(req: express.Request, res: express.Response, next: express
   next();
 }
 
-function buildMongoFilter(query: Record<string, string | undefined>) {
-  const search = (query.search ?? "").toLowerCase();
-  const regions = (query.region ?? "").toLowerCase().split(",").filter(Boolean);
-  const types = (query.type ?? "").toLowerCase().split(",").filter(Boolean);
-  const statuses = (query.status ?? "").toLowerCase().split(",").filter(Boolean);
+// Bulk import is admin-only for people, but sync scripts run it with a write-scoped API key.
+function requireAdminOrApiKey(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const user = (req as AuthenticatedRequest).user;
+  if (user?.role !== "admin" && !user?.apiKey) {
+    res.status(403).json({ message: "Admin role or an API key is required" });
+    return;
+  }
+  next();
+}
 
-  const filters: Record<string, unknown>[] = [];
-  if (search) filters.push({ name: { $regex: search, $options: "i" } });
-  if (regions.length > 0) {
-    filters.push({ region: { $in: regions.map((x) => new RegExp(`^${x}$`, "i")) } });
+// Write-scoped API keys may change assets like an editor; requireScope("write") runs first.
+function requireEditor(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const user = (req as AuthenticatedRequest).user;
+  if (user?.role !== "admin" && user?.role !== "editor" && !user?.apiKey) {
+    res.status(403).json({ message: "Editor or admin role required" });
+    return;
   }
-  if (types.length > 0) {
-    filters.push({ type: { $in: types.map((x) => new RegExp(`^${x}$`, "i")) } });
+  next();
+}
+
+// Editors may only touch assets in their own regions (and asset types); admins pass every check.
+function isInEditScope(req: express.Request, asset: { region: string; type: string }): boolean {
+  const user = (req as AuthenticatedRequest).user;
+  return Boolean(user && (user.apiKey || canEditAsset(user, asset)));
+}
+
+function checkEditScope(req: express.Request, res: express.Response, asset: { region: string; type: string }): boolean {
+  if (isInEditScope(req, asset)) return true;
+  res.status(403).json({ message: `${asset.region} / ${asset.type} is outside your editing scope` });
+  return false;
+}
+
+interface AssetFilterRequest {
+  query: AssetQuery;
+  spatial: SpatialFilter;
+  paging: AssetPaging;
+}
+
+interface AssetPage {
+  items: Asset[];
+  total: number;
+  nextCursor: string | null;
+}
+
+// Filters come from the query string; POST variants may also send them in the
+// JSON body together with a `within` GeoJSON polygon. A body `attributes` object
+// is the same as `attr.<name>` query parameters.
+function readAssetFilters(req: express.Request, res: express.Response): AssetFilterRequest | null {
+  const body = req.method === "POST" && req.body && typeof req.body === "object" ? (req.body as Record<string, unknown>) : {};
+  const { within, attributes, ...fields } = body;
+  if (attributes && typeof attributes === "object" && !Array.isArray(attributes)) {
+    Object.entries(attributes).forEach(([name, value]) => {
+      fields[`attr.${name}`] = value;
+    });
   }
-  if (statuses.length > 0) {
-    filters.push({ status: { $in: statuses.map((x) => new RegExp(`^${x}$`, "i")) } });
+  try {
+    const query = readQueryStrings(req.query);
+    Object.entries(fields).forEach(([key, value]) => {
+      if (value === undefined || value === null) return;
+      query[key] = Array.isArray(value) ? value.join(",") : String(value);
+    });
+    assertArchivedOption(query);
+    assertAttributeFilters(query);
+    return { query, spatial: parseSpatialFilter(query, within), paging: parseAssetPaging(query) };
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      res.status(400).json({ message: error.message });
+      return null;
+    }
+    throw error;
   }
-  return filters.length > 0 ? { $and: filters } : {};
 }
 
-function stripMongoId(doc: AssetDocument): Asset {
+function stripMongoId<T extends object>(doc: T & { _id?: unknown }): T {
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  const { _id, ...asset } = doc;
-  return asset;
+  const { _id, ...record } = doc;
+  return record as T;
 }
 
-async function filterAssets(query: Record<string, string | undefined>): Promise<Asset[]> {
-  const collection = await assetsCollection();
-  const docs = await collection.find(buildMongoFilter(query)).toArray();
-  return docs.map(stripMongoId);
+function currentUsername(req: express.Request): string {
+  return (req as AuthenticatedRequest).user?.username ?? "unknown";
 }
 
-function runQaChecks(records: Asset[]): QaIssue[] {
-  const issues: QaIssue[] = [];
-  const pointBuckets = new Map<string, string[]>();
-
-  records.forEach((asset) => {
-    if (asset.latitude === null || asset.longitude === null) {
-      issues.push({
-        code: "MISSING_COORDINATES",
-        assetId: asset.id,
-        message: "Latitude/Longitude is missing."
-      });
-    } else {
-      const key = `${asset.latitude},${asset.longitude}`;
-      const list = pointBuckets.get(key) ?? [];
-      list.push(asset.id);
-      pointBuckets.set(key, list);
-    }
+function currentSessionId(req: express.Request): string {
+  return (req as AuthenticatedRequest).user?.sessionId ?? "";
+}
 
-    if (!asset.name || !asset.region || !asset.type || !asset.status) {
-      issues.push({
-        code: "MISSING_FIELDS",
-        assetId: asset.id,
-        message: "One or more required fields are empty."
-      });
-    }
-  });
+function sendValidationErrors(res: express.Response, errors: FieldError[]): void {
+  res.status(400).json({ message: "Validation failed", errors });
+}
 
-  pointBuckets.forEach((ids) => {
-    if (ids.length > 1) {
-      ids.forEach((id) => {
-        issues.push({
-          code: "DUPLICATE_POINT",
-          assetId: id,
-          message: `Shares coordinates with assets: ${ids.filter((x) => x !== id).join(", ")}.`
-        });
-      });
-    }
+// MongoDB codes for a geometry it cannot use: a bad query shape, or a stored shape it cannot index.
+const GEOMETRY_ERROR_CODES = [2, 16755];
+
+function isGeometryError(error: unknown): error is MongoServerError {
+  return error instanceof MongoServerError && GEOMETRY_ERROR_CODES.includes(Number(error.code));
+}
+
+/** Runs an asset write; a geometry the 2dsphere index refuses becomes a field error instead of a 500. */
+async function writeAsset<T>(write: () => Promise<T>): Promise<{ ok: true; value: T } | { ok: false; error: FieldError }> {
+  try {
+    return { ok: true, value: await write() };
+  } catch (error) {
+    if (!isGeometryError(error)) throw error;
+    return { ok: false, error: { field: "geometry", message: `was rejected by the spatial index: ${error.message}` } };
+  }
+}
+
+/** Checks attribute values against the schema for `type`; sends the errors and returns null when they fail. */
+async function readAttributes(
+  res: express.Response,
+  type: string,
+  attributes: Record<string, AttributeValue | null> | undefined
+): Promise<Record<string, AttributeValue> | null> {
+  const result = validateAttributes(await findAssetType(type), type, attributes ?? {});
+  if (!result.ok) {
+    sendValidationErrors(res, result.errors);
+    return null;
+  }
+  return result.value;
+}
+
+async function exportAttributeColumns(records: Asset[]): Promise<AttributeColumn[]> {
+  return attributeColumns(records, await listAssetTypes());
+}
+
+/**
+ * Optimistic concurrency for PUT and DELETE: the client must send the version
+ * it last saw as `If-Match`. Sends 428/412 and returns false when it cannot
+ * proceed; a 412 carries the current server copy.
+ */
+function checkIfMatch(req: express.Request, res: express.Response, existing: Asset): boolean {
+  const result = checkIfMatchHeader(req.headers["if-match"], existing);
+  if (result === "missing") {
+    res.status(428).json({ message: "If-Match header with the asset version is required" });
+    return false;
+  }
+  if (result === "ok") return true;
+  sendStale(res, existing);
+  return false;
+}
+
+function sendStale(res: express.Response, current: Asset): void {
+  res.setHeader("ETag", assetEtag(current));
+  res.status(412).json({ message: "Asset has changed since it was loaded", current });
+}
+
+/** Appends a field-level diff to `asset_history`; updates with no tracked change are skipped. */
+async function recordHistory(
+  action: AssetHistoryAction,
+  changedBy: string,
+  before: Asset | null,
+  after: Asset | null
+): Promise<void> {
+  const changes = diffAssets(before, after);
+  const asset = after ?? before;
+  if (!asset || (action === "update" && changes.length === 0)) return;
+  const collection = await historyCollection();
+  await collection.insertOne({
+    id: randomUUID(),
+    assetId: asset.id,
+    action,
+    changedBy,
+    changedAt: new Date().toISOString(),
+    changes,
+    snapshot: after
   });
+}
 
-  return issues;
+// Case-insensitive ordering for text columns, with id as a stable tie-breaker.
+const sortCollation = { locale: "en", strength: 2 };
+
+function findAssets(collection: Awaited<ReturnType<typeof assetsCollection>>, { query, spatial, paging }: AssetFilterRequest) {
+  const { field, direction } = paging.sort;
+  return collection
+    .find(buildMongoFilter(query, spatial))
+    .collation(sortCollation)
+    .sort(field === "id" ? { id: direction } : { [field]: direction, id: direction });
 }
 
-function toCsv(records: Asset[]): string {
-  const headers = ["id", "name", "region", "type", "status", "latitude", "longitude", "createdAt", "updatedAt"];
-  const rows = records.map((asset) =>
-    [
+async function filterAssets(filters: AssetFilterRequest): Promise<Asset[]> {
+  const collection = await assetsCollection();
+  const docs = await findAssets(collection, filters).toArray();
+  return docs.map(stripMongoId);
+}
+
+async function findAssetPage(filters: AssetFilterRequest): Promise<AssetPage> {
+  const collection = await assetsCollection();
+  const { limit, offset } = filters.paging;
+  const [docs, total] = await Promise.all([
+    findAssets(collection, filters).skip(offset).limit(limit).toArray(),
+    collection.countDocuments(buildMongoFilter(filters.query, filters.spatial))
+  ]);
+  const nextOffset = offset + docs.length;
+  return {
+    items: docs.map(stripMongoId),
+    total,
+    nextCursor: nextOffset < total ? encodeCursor(nextOffset) : null
+  };
+}
+
+// Projected systems write easting/northing in place of latitude/longitude, and any CRS other than
+// WGS 84 adds a trailing `crs` column so the file says what its coordinates are.
+// Attribute columns, named as in the schema, come after updatedAt.
+function toCsv(records: Asset[], crs: ExportCrs, columns: AttributeColumn[]): string {
+  const converted = crs !== DEFAULT_EXPORT_CRS;
+  const coordinateHeaders = crs.zone ? ["easting", "northing"] : ["latitude", "longitude"];
+  const headers = [
+    "id",
+    "name",
+    "region",
+    "type",
+    "status",
+    ...coordinateHeaders,
+    "createdAt",
+    "updatedAt",
+    ...columns.map((column) => column.name),
+    ...(converted ? ["crs"] : [])
+  ];
+  const rows = records.map((asset) => {
+    let coordinates: (number | string)[] = ["", ""];
+    if (asset.latitude !== null && asset.longitude !== null) {
+      const [x, y] = converted ? transformPosition([asset.longitude, asset.latitude], crs) : [asset.longitude, asset.latitude];
+      coordinates = crs.zone ? [x, y] : [y, x];
+    }
+    return [
       asset.id,
       asset.name,
       asset.region,
       asset.type,
       asset.status,
-      asset.latitude ?? "",
-      asset.longitude ?? "",
+      ...coordinates,
       asset.createdAt,
-      asset.updatedAt
+      asset.updatedAt,
+      ...columns.map((column) => asset.attributes?.[column.name] ?? ""),
+      ...(converted ? [crs.code] : [])
     ]
       .map((field) => `"${String(field).replaceAll("\"", "\"\"")}"`)
-      .join(",")
-  );
+      .join(",");
+  });
   return [headers.join(","), ...rows].join("\n");
 }
 
@@ -157,7 +538,8 @@ async function generateUniqueAssetId(): Promise<string> {
   const collection = await assetsCollection();
   for (let attempts = 0; attempts < 10000; attempts += 1) {
     const candidate = `A-${Math.floor(1000 + Math.random() * 9000)}`;
-    const exists = await collection.findOne({ id: candidate }, { projection: { _id: 1 } });
+    // Merged-away ids stay reserved so they keep resolving to the survivor.
+    const exists = await collection.findOne({ $or: [{ id: candidate }, { aliases: candidate }] }, { projection: { _id: 1 } });
     if (!exists) {
       return candidate;
     }
@@ -165,11 +547,43 @@ async function generateUniqueAssetId(): Promise<string> {
   throw new Error("Failed to generate unique asset ID");
 }
 
-app.get("/api/assets", async (req, res) => {
-  const records = await filterAssets(req.query as Record<string, string>);
-  res.json(records);
+async function listAssets(req: express.Request, res: express.Response): Promise<void> {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  res.json(await findAssetPage(filters));
+}
+
+app.get("/api/assets", optionalAuthenticate, requireScope("read"), listAssets);
+app.post("/api/assets/search", optionalAuthenticate, requireScope("read"), listAssets);
+
+// The options for the region and type filters, so clients need not load every asset to list them.
+const DISTINCT_VALUE_FIELDS = ["region", "type"];
+
+app.get("/api/assets/values/:field", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  const { field } = req.params;
+  if (!DISTINCT_VALUE_FIELDS.includes(field)) {
+    res.status(404).json({ message: `Values are listed for ${DISTINCT_VALUE_FIELDS.join(" and ")} only` });
+    return;
+  }
+  const collection = await assetsCollection();
+  const values = await collection.distinct(field, { archivedAt: null });
+  res.json(values.filter((value): value is string => typeof value === "string" && value.trim() !== "").sort((a, b) => a.localeCompare(b)));
 });
 
+// Login and refresh both answer with the token pair plus the profile the client needs for its UI.
+function sessionResponse(account: PublicUser, sessionId: string, refreshToken: string) {
+  return {
+    token: issueToken(account.username, account.role, sessionId),
+    refreshToken,
+    expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+    username: account.username,
+    displayName: account.displayName,
+    role: account.role,
+    regions: account.regions,
+    assetTypes: account.assetTypes
+  };
+}
+
 app.post("/api/auth/login", async (req, res) => {
   const { username, password } = req.body as { username?: string; password?: string };
   if (!username || !password) {
@@ -183,82 +597,1000 @@ app.post("/api/auth/login", async (req, res) => {
     return;
   }
 
-  const token = issueToken(account.username, account.role);
-  res.json({ token, username: account.username, displayName: account.displayName, role: account.role });
+  const { session, refreshToken } = await createSession(account.username, req.get("user-agent") ?? "");
+  res.json(sessionResponse(account, session.id, refreshToken));
+});
+
+app.post("/api/auth/refresh", async (req, res) => {
+  const { refreshToken } = req.body as { refreshToken?: unknown };
+  if (typeof refreshToken !== "string" || !refreshToken) {
+    res.status(400).json({ message: "refreshToken is required" });
+    return;
+  }
+
+  let rotated: Awaited<ReturnType<typeof rotateRefreshToken>>;
+  try {
+    rotated = await rotateRefreshToken(refreshToken);
+  } catch (error) {
+    if (error instanceof SessionError) {
+      res.status(401).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+
+  const account = await findUser(rotated.session.username);
+  if (!account || account.disabled) {
+    await revokeSession(rotated.session.id);
+    res.status(401).json({ message: "Account is disabled or no longer exists" });
+    return;
+  }
+  res.json(sessionResponse(toPublicUser(account), rotated.session.id, rotated.refreshToken));
+});
+
+app.post("/api/auth/logout", authenticate, async (req, res) => {
+  await revokeSession(currentSessionId(req));
+  res.status(204).send();
+});
+
+function sendUserAccountError(res: express.Response, error: unknown): void {
+  if (error instanceof UserAccountError) {
+    res.status(error.status).json({ message: error.message });
+    return;
+  }
+  throw error;
+}
+
+app.post("/api/auth/change-password", authenticate, async (req, res) => {
+  const { currentPassword, newPassword } = req.body as { currentPassword?: unknown; newPassword?: unknown };
+  try {
+    await changeOwnPassword(currentUsername(req), currentPassword, newPassword);
+  } catch (error) {
+    sendUserAccountError(res, error);
+    return;
+  }
+  await revokeUserSessions(currentUsername(req), currentSessionId(req));
+  res.status(204).send();
+});
+
+app.get("/api/users", authenticate, requireAdmin, async (_, res) => {
+  res.json(await listUsers());
+});
+
+app.post("/api/users", authenticate, requireAdmin, async (req, res) => {
+  try {
+    res.status(201).json(await createUser(req.body as Record<string, unknown>));
+  } catch (error) {
+    sendUserAccountError(res, error);
+  }
+});
+
+app.patch("/api/users/:username", authenticate, requireAdmin, async (req, res) => {
+  const { displayName, role, regions, assetTypes, disabled } = req.body as Record<string, unknown>;
+  try {
+    const updated = await updateUser(req.params.username, { displayName, role, regions, assetTypes, disabled });
+    if (updated.disabled) await revokeUserSessions(updated.username);
+    res.json(updated);
+  } catch (error) {
+    sendUserAccountError(res, error);
+  }
 });
 
-app.post("/api/assets", authenticate, requireAdmin, async (req, res) => {
-  const payload = req.body as Omit<Asset, "id" | "createdAt" | "updatedAt">;
+app.delete("/api/users/:username", authenticate, requireAdmin, async (req, res) => {
+  if (req.params.username === currentUsername(req)) {
+    res.status(409).json({ message: "You cannot delete your own account" });
+    return;
+  }
+  try {
+    await deleteUser(req.params.username);
+  } catch (error) {
+    sendUserAccountError(res, error);
+    return;
+  }
+  await revokeUserSessions(req.params.username);
+  res.status(204).send();
+});
+
+app.post("/api/users/:username/reset-password", authenticate, requireAdmin, async (req, res) => {
+  try {
+    await setPassword(req.params.username, (req.body as { password?: unknown }).password);
+  } catch (error) {
+    sendUserAccountError(res, error);
+    return;
+  }
+  await revokeUserSessions(req.params.username);
+  res.status(204).send();
+});
+
+app.get("/api/users/:username/sessions", authenticate, requireAdmin, async (req, res) => {
+  res.json(await listActiveSessions(req.params.username));
+});
+
+app.delete("/api/users/:username/sessions", authenticate, requireAdmin, async (req, res) => {
+  const revoked = await revokeUserSessions(req.params.username);
+  res.json({ revoked });
+});
+
+app.delete("/api/users/:username/sessions/:sessionId", authenticate, requireAdmin, async (req, res) => {
+  if (!(await revokeSession(req.params.sessionId, req.params.username))) {
+    res.status(404).json({ message: "Session not found" });
+    return;
+  }
+  res.status(204).send();
+});
+
+function sendApiKeyError(res: express.Response, error: unknown): void {
+  if (error instanceof ApiKeyError) {
+    res.status(400).json({ message: error.message });
+    return;
+  }
+  throw error;
+}
+
+app.get("/api/api-keys", authenticate, requireAdmin, async (_, res) => {
+  res.json(await listApiKeys());
+});
+
+app.post("/api/api-keys", authenticate, requireAdmin, async (req, res) => {
+  try {
+    res.status(201).json(await createApiKey(req.body as Record<string, unknown>, currentUsername(req)));
+  } catch (error) {
+    sendApiKeyError(res, error);
+  }
+});
+
+app.delete("/api/api-keys/:id", authenticate, requireAdmin, async (req, res) => {
+  if (!(await revokeApiKey(req.params.id))) {
+    res.status(404).json({ message: "API key not found or already revoked" });
+    return;
+  }
+  res.status(204).send();
+});
+
+// Asset type schemas: the custom attributes each type carries. Anyone who can read assets can
+// see them (the form and filters need them); only admins change them.
+app.get("/api/asset-types", optionalAuthenticate, requireScope("read"), async (_, res) => {
+  res.json(await listAssetTypes());
+});
+
+app.put("/api/asset-types/:type", authenticate, requireAdmin, async (req, res) => {
+  const { attributes } = req.body as Record<string, unknown>;
+  try {
+    res.json(await saveAssetType(req.params.type, { attributes }, currentUsername(req)));
+  } catch (error) {
+    if (error instanceof AssetTypeError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+app.delete("/api/asset-types/:type", authenticate, requireAdmin, async (req, res) => {
+  if (!(await deleteAssetType(req.params.type))) {
+    res.status(404).json({ message: "Asset type schema not found" });
+    return;
+  }
+  res.status(204).send();
+});
+
+app.post("/api/assets", authenticate, requireScope("write"), requireEditor, async (req, res) => {
+  const validation = validateAssetPayload(req.body, "create");
+  if (!validation.ok) {
+    sendValidationErrors(res, validation.errors);
+    return;
+  }
+  if (!checkEditScope(req, res, validation.value)) return;
+  const attributes = await readAttributes(res, validation.value.type, validation.value.attributes);
+  if (!attributes) return;
   const id = await generateUniqueAssetId();
   const now = new Date().toISOString();
-  const record: Asset = { ...payload, id, createdAt: now, updatedAt: now };
+  const record: Asset = normalizeAssetGeometry({ ...validation.value, attributes, id, version: 1, createdAt: now, updatedAt: now });
   const collection = await assetsCollection();
-  await collection.insertOne(record);
+  const written = await writeAsset(() => collection.insertOne({ ...record }));
+  if (!written.ok) {
+    sendValidationErrors(res, [written.error]);
+    return;
+  }
+  await recordHistory("create", currentUsername(req), null, record);
+  res.setHeader("ETag", assetEtag(record));
   res.status(201).json(record);
 });
 
-app.put("/api/assets/:id", authenticate, requireAdmin, async (req, res) => {
+app.put("/api/assets/:id", authenticate, requireScope("write"), requireEditor, async (req, res) => {
   const { id } = req.params;
+  const validation = validateAssetPayload(req.body, "update");
+  if (!validation.ok) {
+    sendValidationErrors(res, validation.errors);
+    return;
+  }
   const collection = await assetsCollection();
   const existing = await collection.findOne({ id });
   if (!existing) {
     res.status(404).json({ message: "Asset not found" });
     return;
   }
-  const updated: Asset = {
+  if (existing.archivedAt) {
+    res.status(409).json({ message: "Asset is archived; restore it before editing" });
+    return;
+  }
+  if (!checkEditScope(req, res, existing)) return;
+  if (!checkIfMatch(req, res, existing)) return;
+  // Stored values are checked again too, so a type change or a stricter schema is caught here.
+  const attributes = await readAttributes(
+    res,
+    validation.value.type ?? existing.type,
+    validation.value.attributes ?? existing.attributes
+  );
+  if (!attributes) return;
+  const updated: Asset = normalizeAssetGeometry({
     ...stripMongoId(existing),
-    ...req.body,
+    ...validation.value,
+    attributes,
     id: existing.id,
+    version: existing.version + 1,
     createdAt: existing.createdAt,
+    updatedAt: new Date().toISOString(),
+    archivedAt: existing.archivedAt ?? null,
+    archivedBy: existing.archivedBy ?? null
+  });
+  // Moving an asset to another region or type must stay within scope too.
+  if (!checkEditScope(req, res, updated)) return;
+  const written = await writeAsset(() => collection.updateOne({ id, version: existing.version }, { $set: updated }));
+  if (!written.ok) {
+    sendValidationErrors(res, [written.error]);
+    return;
+  }
+  if (written.value.matchedCount === 0) {
+    await sendCurrentOrMissing(res, id);
+    return;
+  }
+  await recordHistory("update", currentUsername(req), stripMongoId(existing), updated);
+  res.setHeader("ETag", assetEtag(updated));
+  res.json(updated);
+});
+
+// Deleting moves the asset to the recycle bin; only purge removes it for good.
+app.delete("/api/assets/:id", authenticate, requireScope("write"), requireEditor, async (req, res) => {
+  const { id } = req.params;
+  const collection = await assetsCollection();
+  const existing = await collection.findOne({ id, archivedAt: null });
+  if (!existing) {
+    res.status(404).json({ message: "Asset not found" });
+    return;
+  }
+  if (!checkEditScope(req, res, existing)) return;
+  if (!checkIfMatch(req, res, existing)) return;
+  const now = new Date().toISOString();
+  const archived: Asset = {
+    ...stripMongoId(existing),
+    version: existing.version + 1,
+    archivedAt: now,
+    archivedBy: currentUsername(req),
+    updatedAt: now
+  };
+  const result = await collection.updateOne({ id, version: existing.version }, { $set: archived });
+  if (result.matchedCount === 0) {
+    await sendCurrentOrMissing(res, id);
+    return;
+  }
+  await recordHistory("archive", currentUsername(req), stripMongoId(existing), archived);
+  res.status(204).send();
+});
+
+/**
+ * Folds duplicates into the asset in the path. `fields` picks, per attribute,
+ * which asset's value to keep; the duplicates go to the recycle bin with
+ * `mergedInto` set, and their ids become aliases of the survivor.
+ */
+app.post("/api/assets/:id/merge", authenticate, requireScope("write"), requireEditor, async (req, res) => {
+  const { id } = req.params;
+  const { duplicateIds, duplicateVersions = {}, fields = {} } = req.body as {
+    duplicateIds?: unknown;
+    duplicateVersions?: unknown;
+    fields?: unknown;
+  };
+  if (
+    !Array.isArray(duplicateIds) ||
+    duplicateIds.length === 0 ||
+    duplicateIds.some((duplicateId) => typeof duplicateId !== "string" || duplicateId === id)
+  ) {
+    res.status(400).json({ message: "duplicateIds must list one or more other asset ids" });
+    return;
+  }
+  if (!fields || typeof fields !== "object" || Array.isArray(fields)) {
+    res.status(400).json({ message: "fields must be an object" });
+    return;
+  }
+  if (!duplicateVersions || typeof duplicateVersions !== "object" || Array.isArray(duplicateVersions)) {
+    res.status(400).json({ message: "duplicateVersions must map duplicate ids to the versions last seen" });
+    return;
+  }
+  const uniqueIds = [...new Set(duplicateIds as string[])];
+
+  const collection = await assetsCollection();
+  const existing = await collection.findOne({ id });
+  if (!existing) {
+    res.status(404).json({ message: "Asset not found" });
+    return;
+  }
+  const duplicateDocs = await collection.find({ id: { $in: uniqueIds } }).toArray();
+  const missing = uniqueIds.filter((duplicateId) => !duplicateDocs.some((doc) => doc.id === duplicateId));
+  if (missing.length > 0) {
+    res.status(404).json({ message: `Asset not found: ${missing.join(", ")}` });
+    return;
+  }
+  if (existing.archivedAt || duplicateDocs.some((doc) => doc.archivedAt)) {
+    res.status(409).json({ message: "Archived assets cannot be merged; restore them first" });
+    return;
+  }
+  if (!checkEditScope(req, res, existing)) return;
+  if (!duplicateDocs.every((doc) => checkEditScope(req, res, doc))) return;
+  if (!checkIfMatch(req, res, existing)) return;
+  // The duplicates are checked like the survivor when the caller says which versions it saw.
+  const stale = duplicateDocs.find((doc) => {
+    const seen = (duplicateVersions as Record<string, unknown>)[doc.id];
+    return seen !== undefined && seen !== doc.version;
+  });
+  if (stale) {
+    sendStale(res, stripMongoId(stale));
+    return;
+  }
+
+  const survivor = stripMongoId(existing);
+  const duplicates = duplicateDocs.map(stripMongoId);
+  let merged: Asset;
+  try {
+    merged = mergeAssets(survivor, duplicates, fields as Record<string, unknown>, new Date().toISOString());
+  } catch (error) {
+    if (error instanceof MergeError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+  if (!checkEditScope(req, res, merged)) return;
+  // The type and the attributes can come from different assets, so the result is checked like a PUT.
+  const attributes = await readAttributes(res, merged.type, merged.attributes);
+  if (!attributes) return;
+  merged = { ...merged, attributes };
+
+  // Each write is guarded by the version read above. If anything changed in the meantime, the
+  // duplicates already archived are put back and the caller gets the current copy of the one that moved on.
+  const archived: Asset[] = [];
+  const putBack = async () => {
+    for (const duplicate of archived) {
+      const original = duplicates.find((candidate) => candidate.id === duplicate.id);
+      if (original) await collection.replaceOne({ id: duplicate.id, version: duplicate.version }, original);
+    }
+  };
+  for (const duplicate of duplicates) {
+    const archivedDuplicate: Asset = {
+      ...duplicate,
+      // Any aliases it carried have moved to the survivor with its own id.
+      aliases: [],
+      version: duplicate.version + 1,
+      archivedAt: merged.updatedAt,
+      archivedBy: currentUsername(req),
+      mergedInto: id,
+      updatedAt: merged.updatedAt
+    };
+    const result = await collection.updateOne({ id: duplicate.id, version: duplicate.version }, { $set: archivedDuplicate });
+    if (result.matchedCount === 0) {
+      await putBack();
+      await sendCurrentOrMissing(res, duplicate.id);
+      return;
+    }
+    archived.push(archivedDuplicate);
+  }
+  const result = await collection.updateOne({ id, version: existing.version }, { $set: merged });
+  if (result.matchedCount === 0) {
+    await putBack();
+    await sendCurrentOrMissing(res, id);
+    return;
+  }
+  await moveAttachments(uniqueIds, id);
+  await moveInspections(uniqueIds, id);
+  await recordHistory("merge", currentUsername(req), survivor, merged);
+  for (const [index, duplicate] of duplicates.entries()) {
+    await recordHistory("merge", currentUsername(req), duplicate, archived[index]);
+  }
+  res.setHeader("ETag", assetEtag(merged));
+  res.json(merged);
+});
+
+app.post("/api/assets/:id/restore", authenticate, requireAdmin, async (req, res) => {
+  const { id } = req.params;
+  const collection = await assetsCollection();
+  const existing = await collection.findOne({ id, archivedAt: { $ne: null } });
+  if (!existing) {
+    res.status(404).json({ message: "Archived asset not found" });
+    return;
+  }
+  const restored: Asset = {
+    ...stripMongoId(existing),
+    version: existing.version + 1,
+    archivedAt: null,
+    archivedBy: null,
+    mergedInto: null,
     updatedAt: new Date().toISOString()
   };
-  await collection.updateOne({ id }, { $set: updated });
-  res.json(updated);
+  await collection.updateOne({ id }, { $set: restored });
+  await recordHistory("restore", currentUsername(req), stripMongoId(existing), restored);
+  // A restored duplicate takes its id back from the asset it was merged into.
+  if (existing.mergedInto) await releaseAlias(existing.mergedInto, id, currentUsername(req));
+  res.setHeader("ETag", assetEtag(restored));
+  res.json(restored);
 });
 
-app.delete("/api/assets/:id", authenticate, requireAdmin, async (req, res) => {
+app.delete("/api/assets/:id/purge", authenticate, requireAdmin, async (req, res) => {
   const { id } = req.params;
   const collection = await assetsCollection();
-  const result = await collection.deleteOne({ id });
-  if (result.deletedCount === 0) {
+  const existing = await collection.findOne({ id });
+  if (!existing) {
     res.status(404).json({ message: "Asset not found" });
     return;
   }
+  if (!existing.archivedAt) {
+    res.status(409).json({ message: "Only archived assets can be purged" });
+    return;
+  }
+  await collection.deleteOne({ id });
+  await deleteAssetAttachments(id);
+  await deleteAssetInspections(id);
+  await recordHistory("purge", currentUsername(req), stripMongoId(existing), null);
   res.status(204).send();
 });
 
+// Includes the history of any assets merged into this one.
+app.get("/api/assets/:id/history", authenticate, requireScope("read"), async (req, res) => {
+  const asset = await findAssetByIdOrAlias(req.params.id);
+  const assetIds = asset ? [asset.id, ...(asset.aliases ?? [])] : [req.params.id];
+  const history = await historyCollection();
+  const entries = await history.find({ assetId: { $in: assetIds } }).sort({ changedAt: -1 }).toArray();
+  res.json(entries.map(stripMongoId));
+});
+
+app.post("/api/assets/:id/history/:entryId/revert", authenticate, requireAdmin, async (req, res) => {
+  const { id, entryId } = req.params;
+  const history = await historyCollection();
+  const entry = await history.findOne({ id: entryId, assetId: id });
+  if (!entry) {
+    res.status(404).json({ message: "History entry not found" });
+    return;
+  }
+  if (!entry.snapshot) {
+    res.status(400).json({ message: "This version has no stored record to revert to" });
+    return;
+  }
+
+  const collection = await assetsCollection();
+  const existing = await collection.findOne({ id });
+  // A live asset is reverted like any other edit, with If-Match. A purged one has no version to
+  // match and is put back, unless its id has since become the alias of a merged asset.
+  if (existing) {
+    if (existing.archivedAt) {
+      res.status(409).json({ message: "Asset is archived; restore it before reverting" });
+      return;
+    }
+    if (!checkIfMatch(req, res, existing)) return;
+  } else if (await collection.findOne({ aliases: id }, { projection: { _id: 1 } })) {
+    res.status(409).json({ message: `${id} was merged into another asset and cannot be put back` });
+    return;
+  }
+  const now = new Date().toISOString();
+  const reverted: Asset = normalizeAssetGeometry({
+    ...(existing ? stripMongoId(existing) : { ...entry.snapshot, archivedAt: null, archivedBy: null, mergedInto: null }),
+    ...trackedValues(entry.snapshot),
+    id,
+    version: (existing?.version ?? entry.snapshot.version) + 1,
+    updatedAt: now
+  });
+  if (existing) {
+    const result = await collection.updateOne({ id, version: existing.version }, { $set: reverted });
+    if (result.matchedCount === 0) {
+      await sendCurrentOrMissing(res, id);
+      return;
+    }
+  } else {
+    await collection.insertOne({ ...reverted });
+  }
+  await recordHistory("revert", currentUsername(req), existing ? stripMongoId(existing) : null, reverted);
+  res.setHeader("ETag", assetEtag(reverted));
+  res.json(reverted);
+});
+
+// For records kept alongside an asset (attachments, inspections): the asset must exist, be live and be in scope.
+async function findAssetToChange(req: express.Request, res: express.Response, action: string): Promise<Asset | null> {
+  const collection = await assetsCollection();
+  const existing = await collection.findOne({ id: req.params.id });
+  if (!existing) {
+    res.status(404).json({ message: "Asset not found" });
+    return null;
+  }
+  if (existing.archivedAt) {
+    res.status(409).json({ message: `Asset is archived; restore it before ${action}` });
+    return null;
+  }
+  if (!checkEditScope(req, res, existing)) return null;
+  return stripMongoId(existing);
+}
+
+// Rejects an oversized upload from its Content-Length before the body is read.
+function limitAttachmentSize(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  if (Number(req.get("content-length") ?? 0) > MAX_ATTACHMENT_BYTES) {
+    res.status(413).json({ message: `Attachments must be ${MAX_ATTACHMENT_BYTES / 1024 / 1024} MB or smaller` });
+    return;
+  }
+  next();
+}
+
+// A download that fails part way ends the response rather than leaving it open.
+function sendStream(res: express.Response, stream: Readable): void {
+  stream.once("error", () => res.destroy());
+  stream.pipe(res);
+}
+
+// Lists and downloads resolve merged-away ids like GET /api/assets/:id; attachments move to the survivor on merge.
+app.get("/api/assets/:id/attachments", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  const asset = await findAssetByIdOrAlias(req.params.id);
+  if (!asset) {
+    res.status(404).json({ message: "Asset not found" });
+    return;
+  }
+  res.json(await listAttachments(asset.id));
+});
+
+// The body is the file itself, with its type in Content-Type and its name in `?filename=`.
+app.post(
+  "/api/assets/:id/attachments",
+  authenticate,
+  requireScope("write"),
+  requireEditor,
+  limitAttachmentSize,
+  express.raw({ type: () => true, limit: MAX_ATTACHMENT_BYTES }),
+  async (req, res) => {
+    const existing = await findAssetToChange(req, res, "adding attachments");
+    if (!existing) return;
+    try {
+      const attachment = await saveAttachment(
+        existing.id,
+        { filename: req.query.filename, contentType: req.get("content-type"), data: Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0) },
+        currentUsername(req)
+      );
+      res.status(201).json(attachment);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        res.status(400).json({ message: error.message });
+        return;
+      }
+      throw error;
+    }
+  }
+);
+
+app.get("/api/assets/:id/attachments/:attachmentId", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  const asset = await findAssetByIdOrAlias(req.params.id);
+  const attachment = asset ? await findAttachment(asset.id, req.params.attachmentId) : null;
+  if (!attachment) {
+    res.status(404).json({ message: "Attachment not found" });
+    return;
+  }
+  res.attachment(attachment.filename);
+  res.setHeader("Content-Type", attachment.contentType);
+  res.setHeader("Content-Length", attachment.size);
+  res.setHeader("X-Content-Type-Options", "nosniff");
+  sendStream(res, await openAttachment(attachment));
+});
+
+app.get("/api/assets/:id/attachments/:attachmentId/thumbnail", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  const asset = await findAssetByIdOrAlias(req.params.id);
+  const attachment = asset ? await findAttachment(asset.id, req.params.attachmentId) : null;
+  const thumbnail = attachment ? await openThumbnail(attachment) : null;
+  if (!thumbnail) {
+    res.status(404).json({ message: "Thumbnail not found" });
+    return;
+  }
+  res.setHeader("Content-Type", thumbnail.contentType);
+  sendStream(res, thumbnail.stream);
+});
+
+app.delete("/api/assets/:id/attachments/:attachmentId", authenticate, requireScope("write"), requireEditor, async (req, res) => {
+  const existing = await findAssetToChange(req, res, "removing attachments");
+  if (!existing) return;
+  if (!(await deleteAttachment(existing.id, req.params.attachmentId))) {
+    res.status(404).json({ message: "Attachment not found" });
+    return;
+  }
+  res.status(204).send();
+});
+
+function sendInspectionError(res: express.Response, error: unknown): void {
+  if (error instanceof InspectionError) {
+    res.status(400).json({ message: error.message });
+    return;
+  }
+  throw error;
+}
+
+app.get("/api/assets/:id/inspections", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  const asset = await findAssetByIdOrAlias(req.params.id);
+  if (!asset) {
+    res.status(404).json({ message: "Asset not found" });
+    return;
+  }
+  res.json(await listInspections(asset.id));
+});
+
+app.post("/api/assets/:id/inspections", authenticate, requireScope("write"), requireEditor, async (req, res) => {
+  const existing = await findAssetToChange(req, res, "recording inspections");
+  if (!existing) return;
+  try {
+    res.status(201).json(await createInspection(existing.id, req.body, currentUsername(req)));
+  } catch (error) {
+    sendInspectionError(res, error);
+  }
+});
+
+app.put("/api/assets/:id/inspections/:inspectionId", authenticate, requireScope("write"), requireEditor, async (req, res) => {
+  const existing = await findAssetToChange(req, res, "changing inspections");
+  if (!existing) return;
+  try {
+    const inspection = await updateInspection(existing.id, req.params.inspectionId, req.body, currentUsername(req));
+    if (!inspection) {
+      res.status(404).json({ message: "Inspection not found" });
+      return;
+    }
+    res.json(inspection);
+  } catch (error) {
+    sendInspectionError(res, error);
+  }
+});
+
+app.delete("/api/assets/:id/inspections/:inspectionId", authenticate, requireScope("write"), requireEditor, async (req, res) => {
+  const existing = await findAssetToChange(req, res, "changing inspections");
+  if (!existing) return;
+  if (!(await deleteInspection(existing.id, req.params.inspectionId))) {
+    res.status(404).json({ message: "Inspection not found" });
+    return;
+  }
+  res.status(204).send();
+});
+
+// Both reports run over the listing filters. `asOf=YYYY-MM-DD` (default today, UTC) is the date overdue days count to.
+// The latest inspections are for one page of the listing, as the map colours the markers it loaded;
+// the overdue report covers every filtered asset.
+async function readInspectionReport(req: express.Request, res: express.Response, paged: boolean) {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return null;
+  let asOf: string;
+  try {
+    asOf = parseAsOf(filters.query.asOf);
+  } catch (error) {
+    sendInspectionError(res, error);
+    return null;
+  }
+  const records = paged ? (await findAssetPage(filters)).items : await filterAssets(filters);
+  return { records, summaries: await summarizeInspections(records, asOf) };
+}
+
+async function sendInspectionSummaries(req: express.Request, res: express.Response): Promise<void> {
+  const report = await readInspectionReport(req, res, true);
+  if (report) res.json(report.summaries);
+}
+
+async function sendOverdueInspections(req: express.Request, res: express.Response): Promise<void> {
+  const report = await readInspectionReport(req, res, false);
+  if (report) res.json(overdueInspections(report.records, report.summaries));
+}
+
+app.get("/api/inspections/latest", optionalAuthenticate, requireScope("read"), sendInspectionSummaries);
+app.post("/api/inspections/latest", optionalAuthenticate, requireScope("read"), sendInspectionSummaries);
+app.get("/api/inspections/overdue", optionalAuthenticate, requireScope("read"), sendOverdueInspections);
+app.post("/api/inspections/overdue", optionalAuthenticate, requireScope("read"), sendOverdueInspections);
+
+/** Finds an asset by id, falling back to the asset it was merged into rather than the archived duplicate. */
+async function findAssetByIdOrAlias(id: string): Promise<Asset | null> {
+  const collection = await assetsCollection();
+  const doc = (await collection.findOne({ id, mergedInto: null })) ?? (await collection.findOne({ aliases: id }));
+  return doc ? stripMongoId(doc) : null;
+}
+
+async function releaseAlias(survivorId: string, alias: string, changedBy: string): Promise<void> {
+  const collection = await assetsCollection();
+  const survivor = await collection.findOne({ id: survivorId, aliases: alias });
+  if (!survivor) return;
+  const updated: Asset = {
+    ...stripMongoId(survivor),
+    aliases: (survivor.aliases ?? []).filter((candidate) => candidate !== alias),
+    version: survivor.version + 1,
+    updatedAt: new Date().toISOString()
+  };
+  await collection.updateOne({ id: survivorId }, { $set: updated });
+  await recordHistory("update", changedBy, stripMongoId(survivor), updated);
+}
+
+async function sendCurrentOrMissing(res: express.Response, id: string): Promise<void> {
+  const collection = await assetsCollection();
+  const current = await collection.findOne({ id });
+  if (!current) {
+    res.status(404).json({ message: "Asset not found" });
+    return;
+  }
+  sendStale(res, stripMongoId(current));
+}
+
+// A row that passed the dry run but failed to save is reported as rejected with the reason.
+function rejectImportRow(result: ImportRowResult, error: FieldError): void {
+  result.action = "reject";
+  result.reasons.push(`${error.field} ${error.message}`);
+}
+
+app.post("/api/assets/import", authenticate, requireScope("write"), requireAdminOrApiKey, async (req, res) => {
+  const { format, content, dryRun = true } = req.body as { format?: ImportFormat; content?: string; dryRun?: boolean };
+  if (format !== "csv" && format !== "geojson") {
+    res.status(400).json({ message: "format must be csv or geojson" });
+    return;
+  }
+  if (typeof content !== "string" || !content.trim()) {
+    res.status(400).json({ message: "content is required" });
+    return;
+  }
+
+  let candidates: ImportCandidate[];
+  try {
+    candidates = parseImportContent(format, content);
+  } catch (error) {
+    if (error instanceof ImportParseError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+
+  const collection = await assetsCollection();
+  const ids = candidates.map((candidate) => candidate.id).filter(Boolean);
+  const existing = await collection.find({ $or: [{ id: { $in: ids }, mergedInto: null }, { aliases: { $in: ids } }] }).toArray();
+  // Rows carrying a merged-away id update the asset it was merged into.
+  const existingById = new Map(
+    existing.flatMap((doc) => [doc.id, ...(doc.aliases ?? [])].map((id) => [id, stripMongoId(doc)] as const))
+  );
+  const planned = planImport(candidates, existingById, await listAssetTypes(), (asset) => isInEditScope(req, asset));
+
+  if (!dryRun) {
+    const now = new Date().toISOString();
+    for (const { result, record } of planned) {
+      if (!record) continue;
+      const previous = record.id ? existingById.get(record.id) : undefined;
+      if (previous) {
+        const updated = normalizeAssetGeometry({
+          ...previous,
+          ...record,
+          id: previous.id,
+          version: previous.version + 1,
+          updatedAt: now
+        });
+        const written = await writeAsset(() => collection.updateOne({ id: previous.id, version: previous.version }, { $set: updated }));
+        if (!written.ok) {
+          rejectImportRow(result, written.error);
+          continue;
+        }
+        if (written.value.matchedCount === 0) {
+          rejectImportRow(result, { field: "id", message: `${previous.id} changed while the import was running` });
+          continue;
+        }
+        await recordHistory("import", currentUsername(req), previous, updated);
+      } else {
+        const id = await generateUniqueAssetId();
+        const created = normalizeAssetGeometry({ ...record, id, version: 1, createdAt: now, updatedAt: now });
+        const written = await writeAsset(() => collection.insertOne({ ...created }));
+        if (!written.ok) {
+          rejectImportRow(result, written.error);
+          continue;
+        }
+        await recordHistory("import", currentUsername(req), null, created);
+        result.id = id;
+      }
+    }
+  }
+
+  res.json(summarizeImport(format, Boolean(dryRun), planned.map(({ result }) => result)));
+});
+
 app.post("/api/assets/reset", authenticate, requireAdmin, async (_, res) => {
   const collection = await assetsCollection();
   await collection.deleteMany({});
-  await collection.insertMany(seedAssets.map((asset) => ({ ...asset })));
+  await collection.insertMany(seedAssets.map((asset) => normalizeAssetGeometry({ ...asset })));
+  const history = await historyCollection();
+  await history.deleteMany({});
+  await deleteAllAttachments();
+  await deleteAllInspections();
   res.status(200).json({ message: "Working asset dataset reset to seed copy." });
 });
 
-app.get("/api/assets/qa", async (_, res) => {
+// QA runs over the same filters as the listing, so duplicates are only looked for within that set.
+// Waived issues are left out unless `includeWaived=true`.
+async function sendQaIssues(req: express.Request, res: express.Response): Promise<void> {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  const records = await filterAssets(filters);
+  const issues = runQaRules(records, await listQaRules());
+  res.json(await applyIssueStates(issues, records, { includeWaived: filters.query.includeWaived === "true" }));
+}
+
+app.get("/api/assets/qa", optionalAuthenticate, requireScope("read"), sendQaIssues);
+app.post("/api/assets/qa", optionalAuthenticate, requireScope("read"), sendQaIssues);
+
+app.post("/api/qa/runs", authenticate, requireScope("read"), async (req, res) => {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  const records = await filterAssets(filters);
+  // Saved runs count only the issues still needing attention, so waivers show up as a drop in the trend.
+  const issues = await applyIssueStates(runQaRules(records, await listQaRules()), records, { includeWaived: false });
+  const run = await saveQaRun(issues, {
+    ranBy: currentUsername(req),
+    query: filters.query,
+    within: Boolean(filters.spatial.within),
+    assetCount: records.length
+  });
+  res.status(201).json(run);
+});
+
+app.get("/api/qa/runs", authenticate, requireScope("read"), async (req, res) => {
+  const limit = Number(req.query.limit ?? 20);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RUNS_LISTED) {
+    res.status(400).json({ message: `limit must be an integer from 1 to ${MAX_RUNS_LISTED}` });
+    return;
+  }
+  res.json(await listQaRuns(limit));
+});
+
+// Registered before /api/qa/runs/:id so "diff" is not read as a run id.
+app.get("/api/qa/runs/diff", authenticate, requireScope("read"), async (req, res) => {
+  const { from, to } = req.query;
+  if (typeof from !== "string" || typeof to !== "string" || !from || !to) {
+    res.status(400).json({ message: "from and to run ids are required" });
+    return;
+  }
+  const [fromRun, toRun] = await Promise.all([findQaRun(from), findQaRun(to)]);
+  if (!fromRun || !toRun) {
+    res.status(404).json({ message: "QA run not found" });
+    return;
+  }
+  res.json(diffQaRuns(fromRun, toRun));
+});
+
+app.get("/api/qa/runs/:id", authenticate, requireScope("read"), async (req, res) => {
+  const run = await findQaRun(req.params.id);
+  if (!run) {
+    res.status(404).json({ message: "QA run not found" });
+    return;
+  }
+  res.json(run);
+});
+
+app.get("/api/qa/rules", authenticate, requireScope("read"), async (_, res) => {
+  res.json(await listQaRules());
+});
+
+app.patch("/api/qa/rules/:id", authenticate, requireAdmin, async (req, res) => {
+  const { severity, enabled, params } = req.body as Record<string, unknown>;
+  let rule: Awaited<ReturnType<typeof updateQaRule>>;
+  try {
+    rule = await updateQaRule(req.params.id, { severity, enabled, params }, currentUsername(req));
+  } catch (error) {
+    if (error instanceof QaRuleError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+  if (!rule) {
+    res.status(404).json({ message: "QA rule not found" });
+    return;
+  }
+  res.json(rule);
+});
+
+app.get("/api/qa/issues", authenticate, requireScope("read"), async (req, res) => {
+  try {
+    const { status, assignee } = readQueryStrings(req.query);
+    res.json(await listIssueStates({ status, assignee }));
+  } catch (error) {
+    if (error instanceof QaIssueError || error instanceof InvalidFilterError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+});
+
+app.patch("/api/qa/issues/:id", authenticate, requireScope("write"), requireEditor, async (req, res) => {
+  const parsed = parseQaIssueId(req.params.id);
+  if (!parsed) {
+    res.status(404).json({ message: "QA issue not found" });
+    return;
+  }
   const collection = await assetsCollection();
-  const records = (await collection.find({}).toArray()).map(stripMongoId);
-  res.json(runQaChecks(records));
+  const asset = await collection.findOne({ id: parsed.assetId });
+  if (!asset) {
+    res.status(404).json({ message: "Asset not found" });
+    return;
+  }
+  if (!checkEditScope(req, res, asset)) return;
+  const { status, assignee, waiverReason } = req.body as Record<string, unknown>;
+  // A duplicate is waived together with the assets it is found with now, across the whole dataset.
+  let related: Asset[] = [];
+  if (status === "waived") {
+    const active = (await collection.find({ archivedAt: null }).toArray()).map(stripMongoId);
+    const rules = (await listQaRules()).filter((rule) => rule.id === parsed.code);
+    const found = runQaRules(active, rules).find((issue) => issue.id === req.params.id);
+    related = active.filter((record) => found?.relatedAssetIds?.includes(record.id));
+  }
+  try {
+    const state = await updateIssueState(
+      { code: parsed.code, asset: stripMongoId(asset), related },
+      { status, assignee, waiverReason },
+      currentUsername(req)
+    );
+    res.json(state);
+  } catch (error) {
+    if (error instanceof QaIssueError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
 });
 
-app.get("/api/assets/export/csv", async (req, res) => {
-  const csv = toCsv(await filterAssets(req.query as Record<string, string>));
+// The `crs` option of the CSV and GeoJSON exports; answers 400 itself when it is not offered.
+function readExportCrs(filters: AssetFilterRequest, res: express.Response): ExportCrs | null {
+  try {
+    return parseExportCrs(filters.query.crs);
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      res.status(400).json({ message: error.message });
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function sendCsvExport(req: express.Request, res: express.Response): Promise<void> {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  const crs = readExportCrs(filters, res);
+  if (!crs) return;
+  const records = await filterAssets(filters);
+  const csv = toCsv(records, crs, await exportAttributeColumns(records));
   res.setHeader("Content-Type", "text/csv");
   res.setHeader("Content-Disposition", "attachment; filename=assets.csv");
   res.send(csv);
-});
+}
 
-app.get("/api/assets/export/geojson", async (req, res) => {
-  const records = await filterAssets(req.query as Record<string, string>);
+app.get("/api/assets/export/csv", optionalAuthenticate, requireScope("export"), sendCsvExport);
+app.post("/api/assets/export/csv", optionalAuthenticate, requireScope("export"), sendCsvExport);
+
+async function sendGeoJsonExport(req: express.Request, res: express.Response): Promise<void> {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  const crs = readExportCrs(filters, res);
+  if (!crs) return;
+  const records = await filterAssets(filters);
   const geojson = {
     type: "FeatureCollection",
+    // RFC 7946 dropped `crs`, but GDAL, QGIS and ArcGIS still read this 2008-style member.
+    ...(crs !== DEFAULT_EXPORT_CRS
+      ? { crs: { type: "name", properties: { name: `urn:ogc:def:crs:${crs.code.replace(":", "::")}` } } }
+      : {}),
     features: records
-      .filter((asset) => asset.latitude !== null && asset.longitude !== null)
-      .map((asset) => ({
+      .flatMap((asset) => {
+        const geometry = assetGeometry(asset);
+        return geometry ? [{ asset, geometry: transformGeometry(geometry, crs) }] : [];
+      })
+      .map(({ asset, geometry }) => ({
         type: "Feature",
-        geometry: {
-          type: "Point",
-          coordinates: [asset.longitude, asset.latitude]
-        },
+        geometry,
         properties: {
           id: asset.id,
           name: asset.name,
@@ -266,17 +1598,234 @@ app.get("/api/assets/export/geojson", async (req, res) => {
           type: asset.type,
           status: asset.status,
           createdAt: asset.createdAt,
-          updatedAt: asset.updatedAt
+          updatedAt: asset.updatedAt,
+          ...asset.attributes
         }
       }))
   };
   res.setHeader("Content-Type", "application/geo+json");
   res.setHeader("Content-Disposition", "attachment; filename=assets.geojson");
   res.send(JSON.stringify(geojson, null, 2));
+}
+
+app.get("/api/assets/export/geojson", optionalAuthenticate, requireScope("export"), sendGeoJsonExport);
+app.post("/api/assets/export/geojson", optionalAuthenticate, requireScope("export"), sendGeoJsonExport);
+
+async function sendKmlExport(req: express.Request, res: express.Response): Promise<void> {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  const records = await filterAssets(filters);
+  const kml = toKml(records, await exportAttributeColumns(records));
+  res.setHeader("Content-Type", "application/vnd.google-earth.kml+xml");
+  res.setHeader("Content-Disposition", "attachment; filename=assets.kml");
+  res.send(kml);
+}
+
+app.get("/api/assets/export/kml", optionalAuthenticate, requireScope("export"), sendKmlExport);
+app.post("/api/assets/export/kml", optionalAuthenticate, requireScope("export"), sendKmlExport);
+
+async function sendGpxExport(req: express.Request, res: express.Response): Promise<void> {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  const gpx = toGpx(await filterAssets(filters));
+  res.setHeader("Content-Type", "application/gpx+xml");
+  res.setHeader("Content-Disposition", "attachment; filename=assets.gpx");
+  res.send(gpx);
+}
+
+app.get("/api/assets/export/gpx", optionalAuthenticate, requireScope("export"), sendGpxExport);
+app.post("/api/assets/export/gpx", optionalAuthenticate, requireScope("export"), sendGpxExport);
+
+async function sendShapefileExport(req: express.Request, res: express.Response): Promise<void> {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  const records = await filterAssets(filters);
+  const zip = toShapefileZip(records, await exportAttributeColumns(records));
+  res.setHeader("Content-Type", "application/zip");
+  res.setHeader("Content-Disposition", "attachment; filename=assets-shapefile.zip");
+  res.send(zip);
+}
+
+app.get("/api/assets/export/shapefile", optionalAuthenticate, requireScope("export"), sendShapefileExport);
+app.post("/api/assets/export/shapefile", optionalAuthenticate, requireScope("export"), sendShapefileExport);
+
+// The QA Issues sheet matches /api/assets/qa for the same filters, so waived issues are left out.
+async function sendXlsxExport(req: express.Request, res: express.Response): Promise<void> {
+  const filters = readAssetFilters(req, res);
+  if (!filters) return;
+  const records = await filterAssets(filters);
+  const issues = await applyIssueStates(runQaRules(records, await listQaRules()), records, { includeWaived: false });
+  res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+  res.setHeader("Content-Disposition", "attachment; filename=assets.xlsx");
+  res.send(toWorkbook(records, issues, await exportAttributeColumns(records)));
+}
+
+app.get("/api/assets/export/xlsx", optionalAuthenticate, requireScope("export"), sendXlsxExport);
+app.post("/api/assets/export/xlsx", optionalAuthenticate, requireScope("export"), sendXlsxExport);
+
+// OGC API – Features, so QGIS and ArcGIS can connect to the register directly.
+function ogcBaseUrl(req: express.Request): string {
+  return `${req.protocol}://${req.get("host")}/api/ogc`;
+}
+
+// Approximate for lines and polygons, which are represented by their latitude/longitude point.
+async function currentAssetExtent(): Promise<number[] | null> {
+  const collection = await assetsCollection();
+  const [extent] = await collection
+    .aggregate<{ minLon: number; minLat: number; maxLon: number; maxLat: number }>([
+      { $match: { archivedAt: null, latitude: { $ne: null }, longitude: { $ne: null } } },
+      {
+        $group: {
+          _id: null,
+          minLon: { $min: "$longitude" },
+          minLat: { $min: "$latitude" },
+          maxLon: { $max: "$longitude" },
+          maxLat: { $max: "$latitude" }
+        }
+      }
+    ])
+    .toArray();
+  return extent ? [extent.minLon, extent.minLat, extent.maxLon, extent.maxLat] : null;
+}
+
+function checkOgcCollection(req: express.Request, res: express.Response): boolean {
+  if (req.params.collectionId === OGC_COLLECTION_ID) return true;
+  res.status(404).json({ code: "NotFound", description: `Collection ${req.params.collectionId} not found` });
+  return false;
+}
+
+app.get("/api/ogc", optionalAuthenticate, requireScope("read"), (req, res) => {
+  res.json(landingPage(ogcBaseUrl(req)));
+});
+
+// Custom attributes are offered as /items filters by name; a name used by several types is listed once.
+async function ogcAttributes(): Promise<AttributeDefinition[]> {
+  const definitions = (await listAssetTypes()).flatMap((schema) => schema.attributes);
+  return definitions.filter((definition, index) => definitions.findIndex((other) => other.name === definition.name) === index);
+}
+
+app.get("/api/ogc/api", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  res.type(OPENAPI_TYPE).send(JSON.stringify(openApiDocument(ogcBaseUrl(req), await ogcAttributes())));
+});
+
+app.get("/api/ogc/conformance", optionalAuthenticate, requireScope("read"), (_, res) => {
+  res.json({ conformsTo: CONFORMANCE_CLASSES });
+});
+
+app.get("/api/ogc/collections", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  res.json(collectionsDocument(ogcBaseUrl(req), await currentAssetExtent()));
+});
+
+app.get("/api/ogc/collections/:collectionId", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  if (!checkOgcCollection(req, res)) return;
+  res.json(collectionDocument(ogcBaseUrl(req), await currentAssetExtent()));
+});
+
+app.get("/api/ogc/collections/:collectionId/items", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  if (!checkOgcCollection(req, res)) return;
+  const attributeNames = (await ogcAttributes()).map((definition) => definition.name);
+  let request: OgcItemsRequest;
+  try {
+    request = parseOgcItemsQuery(req.query as Record<string, unknown>, attributeNames);
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      res.status(400).json({ code: "InvalidParameterValue", description: error.message });
+      return;
+    }
+    throw error;
+  }
+  const collection = await assetsCollection();
+  const [numberMatched, docs] = await Promise.all([
+    collection.countDocuments(request.filter),
+    collection.find(request.filter).sort({ id: 1 }).skip(request.offset).limit(request.limit).toArray()
+  ]);
+  res.type("application/geo+json").send(
+    JSON.stringify(featureCollection(ogcBaseUrl(req), docs.map(stripMongoId), numberMatched, request))
+  );
+});
+
+app.get("/api/ogc/collections/:collectionId/items/:featureId", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  if (!checkOgcCollection(req, res)) return;
+  const asset = await findAssetByIdOrAlias(req.params.featureId);
+  if (!asset || asset.archivedAt) {
+    res.status(404).json({ code: "NotFound", description: `Feature ${req.params.featureId} not found` });
+    return;
+  }
+  res.type("application/geo+json").send(JSON.stringify(toOgcFeature(ogcBaseUrl(req), asset, true)));
+});
+
+// Vector tiles for the map once there are too many assets to draw one marker each.
+// Takes the listing's search, region, type, status and attribute filters; the tile itself is the spatial filter.
+app.get("/api/tiles/assets/:z/:x/:y.mvt", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  let tile: TileCoordinates;
+  let query: AssetQuery;
+  try {
+    tile = parseTileCoordinates(req.params);
+    query = Object.fromEntries(
+      Object.entries(readQueryStrings(req.query)).filter(
+        ([key]) => ["search", "region", "type", "status"].includes(key) || key.startsWith("attr.")
+      )
+    );
+    assertAttributeFilters(query);
+  } catch (error) {
+    if (error instanceof InvalidFilterError) {
+      res.status(400).json({ message: error.message });
+      return;
+    }
+    throw error;
+  }
+  const collection = await assetsCollection();
+  const docs = await collection.find(buildMongoFilter(query, { bbox: tileBbox(tile) })).toArray();
+  res.setHeader("Content-Type", MVT_CONTENT_TYPE);
+  res.setHeader("Cache-Control", "no-cache");
+  res.send(encodeAssetTile(tile, docs.map(stripMongoId)));
+});
+
+// Registered after the fixed /api/assets/* GET routes so "qa" and "export" are not read as ids.
+// An id that was merged away returns the surviving asset, whose `id` differs from the one requested.
+app.get("/api/assets/:id", optionalAuthenticate, requireScope("read"), async (req, res) => {
+  const asset = await findAssetByIdOrAlias(req.params.id);
+  if (!asset) {
+    res.status(404).json({ message: "Asset not found" });
+    return;
+  }
+  res.setHeader("ETag", assetEtag(asset));
+  res.json(asset);
+});
+
+// Last in the chain: body parser errors keep their status, geometry errors are the caller's, anything else is a 500.
+app.use((error: unknown, _req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.headersSent) {
+    next(error);
+    return;
+  }
+  const status = (error as { status?: unknown }).status;
+  if (typeof status === "number" && status >= 400 && status < 500) {
+    res.status(status).json({ message: (error as Error).message });
+    return;
+  }
+  if (isGeometryError(error)) {
+    res.status(400).json({ message: `The database could not use this geometry: ${error.message}` });
+    return;
+  }
+  // eslint-disable-next-line no-console
+  console.error("Request failed", error);
+  res.status(500).json({ message: "Internal server error" });
 });
 
 async function startServer() {
+  await ensureSeedUsers();
+  await ensureSessionIndexes();
+  await ensureApiKeyIndexes();
+  await ensureQaRules();
+  await ensureQaRunIndexes();
+  await ensureQaIssueIndexes();
+  await ensureAssetTypes();
+  await ensureAttachmentIndexes();
+  await ensureInspectionIndexes();
   await ensureSeedData();
+  await backfillAssetFields();
+  await ensureIndexes();
 
   if (fs.existsSync(indexHtmlPath)) {
     app.use(express.static(distDir));
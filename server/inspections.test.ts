@@ -0,0 +1,88 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetMemoryDb } from "./fixtures/memoryDb";
+import { createInspection, overdueInspections, parseAsOf, summarizeInspection, updateInspection } from "./inspections";
+import type { Asset, Inspection } from "./types";
+
+vi.mock("./db", () => import("./fixtures/memoryDb"));
+
+beforeEach(() => resetMemoryDb());
+
+const inspection = (assetId: string, nextDueOn: string | null): Inspection => ({
+  id: `I-${assetId}`,
+  assetId,
+  inspectedOn: "2024-01-15",
+  inspector: "Sam",
+  condition: 3,
+  notes: "",
+  nextDueOn,
+  recordedBy: "admin",
+  createdAt: "2024-01-15T00:00:00.000Z",
+  updatedAt: "2024-01-15T00:00:00.000Z"
+});
+
+const asset = (id: string, name: string): Asset => ({
+  id,
+  name,
+  region: "NSW",
+  type: "Pump",
+  status: "Active",
+  latitude: null,
+  longitude: null,
+  version: 1,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-01T00:00:00.000Z"
+});
+
+describe("overdue inspections", () => {
+  it("counts calendar days from the next-due date to the as-of date", () => {
+    expect(summarizeInspection(inspection("A1", "2024-03-01"), "2024-03-31").daysOverdue).toBe(30);
+    // 2024 is a leap year.
+    expect(summarizeInspection(inspection("A1", "2024-02-28"), "2024-03-01").daysOverdue).toBe(2);
+    expect(summarizeInspection(inspection("A1", "2024-03-01"), "2024-03-01").daysOverdue).toBe(0);
+    expect(summarizeInspection(inspection("A1", "2024-03-10"), "2024-03-01").daysOverdue).toBe(-9);
+    expect(summarizeInspection(inspection("A1", null), "2024-03-01")).toMatchObject({ nextDueOn: null, daysOverdue: null });
+  });
+
+  it("lists only assets past due, most overdue first and then by name", () => {
+    const asOf = "2024-06-01";
+    const summaries = [
+      summarizeInspection(inspection("A1", "2024-05-30"), asOf),
+      summarizeInspection(inspection("A2", "2024-06-01"), asOf),
+      summarizeInspection(inspection("A3", null), asOf),
+      summarizeInspection(inspection("A4", "2024-04-01"), asOf),
+      summarizeInspection(inspection("A5", "2024-05-30"), asOf),
+      summarizeInspection(inspection("A6", "2024-01-01"), asOf)
+    ];
+    const assets = ["Zeta", "Beta", "Gamma", "Delta", "Alpha"].map((name, i) => asset(`A${i + 1}`, name));
+    expect(overdueInspections(assets, summaries).map((item) => [item.name, item.daysOverdue])).toEqual([
+      ["Delta", 61],
+      ["Alpha", 2],
+      ["Zeta", 2]
+    ]);
+  });
+
+  it("reads asOf as a calendar date", () => {
+    expect(parseAsOf("2024-02-29")).toBe("2024-02-29");
+    expect(() => parseAsOf("2023-02-29")).toThrow("asOf must be a date (YYYY-MM-DD)");
+  });
+});
+
+describe("recording inspections", () => {
+  const input = { inspectedOn: "2024-01-15", inspector: " Sam ", condition: 2, nextDueOn: "2025-01-15" };
+
+  it("stores the trimmed fields and who recorded them", async () => {
+    const created = await createInspection("A1", input, "admin");
+    expect(created).toMatchObject({ assetId: "A1", inspector: "Sam", condition: 2, notes: "", nextDueOn: "2025-01-15", recordedBy: "admin" });
+    const updated = await updateInspection("A1", created.id, { ...input, nextDueOn: "" }, "editor");
+    expect(updated).toMatchObject({ nextDueOn: null, recordedBy: "editor" });
+    expect(await updateInspection("A2", created.id, input, "editor")).toBeNull();
+  });
+
+  it("rejects ratings outside 1 to 5 and next-due dates that are not after the inspection", async () => {
+    await expect(createInspection("A1", { ...input, condition: 6 }, "admin")).rejects.toThrow(
+      "condition must be a rating from 1 (very good) to 5 (very poor)"
+    );
+    await expect(createInspection("A1", { ...input, nextDueOn: "2024-01-15" }, "admin")).rejects.toThrow("nextDueOn must be after inspectedOn");
+    await expect(createInspection("A1", { ...input, inspector: "" }, "admin")).rejects.toThrow("inspector is required");
+  });
+});
@@ -0,0 +1,152 @@
+import { randomUUID } from "node:crypto";
+import { getDb } from "./db";
+import { isCalendarDate } from "./validation";
+import type { Asset, ConditionRating, Inspection, InspectionSummary, OverdueInspection } from "./types";
+
+export const CONDITION_RATINGS: ConditionRating[] = [1, 2, 3, 4, 5];
+
+const MAX_INSPECTOR_LENGTH = 100;
+const MAX_NOTES_LENGTH = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class InspectionError extends Error {}
+
+type InspectionDocument = Inspection & { _id?: unknown };
+
+type InspectionFields = Pick<Inspection, "inspectedOn" | "inspector" | "condition" | "notes" | "nextDueOn">;
+
+async function inspectionsCollection() {
+  const db = await getDb();
+  return db.collection<InspectionDocument>("inspections");
+}
+
+export async function ensureInspectionIndexes(): Promise<void> {
+  const collection = await inspectionsCollection();
+  await collection.createIndex({ id: 1 }, { unique: true });
+  await collection.createIndex({ assetId: 1, inspectedOn: -1 });
+}
+
+function readDate(value: unknown, field: string): string {
+  if (typeof value !== "string" || !isCalendarDate(value.trim())) {
+    throw new InspectionError(`${field} must be a date (YYYY-MM-DD)`);
+  }
+  return value.trim();
+}
+
+function parseInspection(input: unknown): InspectionFields {
+  if (!input || typeof input !== "object" || Array.isArray(input)) throw new InspectionError("Inspection must be an object");
+  const { inspectedOn, inspector, condition, notes, nextDueOn } = input as Record<string, unknown>;
+  const fields: InspectionFields = {
+    inspectedOn: readDate(inspectedOn, "inspectedOn"),
+    inspector: typeof inspector === "string" ? inspector.trim() : "",
+    condition: condition as ConditionRating,
+    notes: typeof notes === "string" ? notes.trim() : "",
+    nextDueOn: nextDueOn === undefined || nextDueOn === null || nextDueOn === "" ? null : readDate(nextDueOn, "nextDueOn")
+  };
+  if (!fields.inspector || fields.inspector.length > MAX_INSPECTOR_LENGTH) {
+    throw new InspectionError(`inspector is required (at most ${MAX_INSPECTOR_LENGTH} characters)`);
+  }
+  if (!CONDITION_RATINGS.includes(fields.condition)) {
+    throw new InspectionError("condition must be a rating from 1 (very good) to 5 (very poor)");
+  }
+  if (notes !== undefined && notes !== null && typeof notes !== "string") throw new InspectionError("notes must be text");
+  if (fields.notes.length > MAX_NOTES_LENGTH) throw new InspectionError(`notes must be at most ${MAX_NOTES_LENGTH} characters`);
+  if (fields.nextDueOn && fields.nextDueOn <= fields.inspectedOn) {
+    throw new InspectionError("nextDueOn must be after inspectedOn");
+  }
+  return fields;
+}
+
+/** `asOf` for the inspection reports; today's date in UTC when not given. */
+export function parseAsOf(value: unknown): string {
+  if (value === undefined || value === "") return new Date().toISOString().slice(0, 10);
+  return readDate(value, "asOf");
+}
+
+/** Most recent inspection first. */
+export async function listInspections(assetId: string): Promise<Inspection[]> {
+  const collection = await inspectionsCollection();
+  return collection.find({ assetId }, { projection: { _id: 0 } }).sort({ inspectedOn: -1, createdAt: -1 }).toArray();
+}
+
+export async function createInspection(assetId: string, input: unknown, recordedBy: string): Promise<Inspection> {
+  const now = new Date().toISOString();
+  const inspection: Inspection = { id: randomUUID(), assetId, ...parseInspection(input), recordedBy, createdAt: now, updatedAt: now };
+  const collection = await inspectionsCollection();
+  await collection.insertOne({ ...inspection });
+  return inspection;
+}
+
+/** Replaces the recorded values; returns null when the asset has no inspection with that id. */
+export async function updateInspection(assetId: string, id: string, input: unknown, recordedBy: string): Promise<Inspection | null> {
+  const fields = parseInspection(input);
+  const collection = await inspectionsCollection();
+  return collection.findOneAndUpdate(
+    { id, assetId },
+    { $set: { ...fields, recordedBy, updatedAt: new Date().toISOString() } },
+    { projection: { _id: 0 }, returnDocument: "after" }
+  );
+}
+
+/** Returns false when the asset has no inspection with that id. */
+export async function deleteInspection(assetId: string, id: string): Promise<boolean> {
+  const collection = await inspectionsCollection();
+  const result = await collection.deleteOne({ id, assetId });
+  return result.deletedCount > 0;
+}
+
+/** Hands the inspections of merged-away assets to the survivor. */
+export async function moveInspections(fromAssetIds: string[], toAssetId: string): Promise<void> {
+  const collection = await inspectionsCollection();
+  await collection.updateMany({ assetId: { $in: fromAssetIds } }, { $set: { assetId: toAssetId } });
+}
+
+/** Removes every inspection of a purged asset. */
+export async function deleteAssetInspections(assetId: string): Promise<void> {
+  const collection = await inspectionsCollection();
+  await collection.deleteMany({ assetId });
+}
+
+/** Empties the collection, for a reset of the working dataset. */
+export async function deleteAllInspections(): Promise<void> {
+  const collection = await inspectionsCollection();
+  await collection.deleteMany({});
+}
+
+/** The latest inspection of each of the assets; assets never inspected are left out. */
+export async function summarizeInspections(assets: Asset[], asOf: string): Promise<InspectionSummary[]> {
+  const collection = await inspectionsCollection();
+  const latest = await collection
+    .aggregate<{ inspection: Inspection }>([
+      { $match: { assetId: { $in: assets.map((asset) => asset.id) } } },
+      { $sort: { inspectedOn: -1, createdAt: -1 } },
+      { $group: { _id: "$assetId", inspection: { $first: "$$ROOT" } } }
+    ])
+    .toArray();
+  return latest.map(({ inspection }) => summarizeInspection(inspection, asOf));
+}
+
+/** An asset's latest inspection as reported on `asOf`, counting whole calendar days past its next-due date. */
+export function summarizeInspection(inspection: Inspection, asOf: string): InspectionSummary {
+  const asOfTime = Date.parse(`${asOf}T00:00:00Z`);
+  return {
+    assetId: inspection.assetId,
+    lastInspectedOn: inspection.inspectedOn,
+    inspector: inspection.inspector,
+    condition: inspection.condition,
+    nextDueOn: inspection.nextDueOn,
+    daysOverdue: inspection.nextDueOn ? Math.round((asOfTime - Date.parse(`${inspection.nextDueOn}T00:00:00Z`)) / DAY_MS) : null
+  };
+}
+
+/** Assets whose latest inspection set a next-due date before `asOf`, most overdue first. */
+export function overdueInspections(assets: Asset[], summaries: InspectionSummary[]): OverdueInspection[] {
+  const byId = new Map(assets.map((asset) => [asset.id, asset]));
+  return summaries
+    .filter((summary): summary is InspectionSummary & { daysOverdue: number } => (summary.daysOverdue ?? 0) > 0)
+    .flatMap((summary) => {
+      const asset = byId.get(summary.assetId);
+      return asset ? [{ ...summary, name: asset.name, region: asset.region, type: asset.type, status: asset.status }] : [];
+    })
+    .sort((a, b) => b.daysOverdue - a.daysOverdue || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { MergeError, mergeAssets } from "./merge";
+import type { Asset } from "./types";
+
+const asset = (id: string, overrides: Partial<Asset> = {}): Asset => ({
+  id,
+  name: `Asset ${id}`,
+  region: "NSW",
+  type: "Pump",
+  status: "Active",
+  latitude: -33.5,
+  longitude: 151.25,
+  version: 3,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-02T00:00:00.000Z",
+  ...overrides
+});
+
+const now = "2024-06-01T00:00:00.000Z";
+
+describe("mergeAssets", () => {
+  it("keeps the survivor's values by default and aliases the merged-away ids", () => {
+    const merged = mergeAssets(asset("A1", { aliases: ["OLD-1"] }), [asset("A2"), asset("A3", { name: "Other" })], {}, now);
+    expect(merged).toMatchObject({ id: "A1", name: "Asset A1", version: 4, updatedAt: now, createdAt: "2024-01-01T00:00:00.000Z" });
+    expect(merged.aliases).toEqual(["A2", "A3", "OLD-1"]);
+  });
+
+  it("carries over aliases the duplicates already had, without aliasing the survivor to itself", () => {
+    const merged = mergeAssets(asset("A1"), [asset("A2", { aliases: ["A1", "B7", "OLD-1"] })], {}, now);
+    expect(merged.aliases).toEqual(["A2", "B7", "OLD-1"]);
+  });
+
+  it("takes each chosen field from the named asset, with location moving as one", () => {
+    const line = { type: "LineString" as const, coordinates: [[150, -34], [151, -33]] };
+    const merged = mergeAssets(
+      asset("A1", { attributes: { flowRate: 3 } }),
+      [asset("A2", { name: "Main pump", status: "Inactive", latitude: null, longitude: null, geometry: line, attributes: { flowRate: 5 } })],
+      { name: "A2", location: "A2", attributes: "A2", status: "A1" },
+      now
+    );
+    expect(merged).toMatchObject({ name: "Main pump", status: "Active", geometry: line, attributes: { flowRate: 5 } });
+    expect([merged.longitude, merged.latitude]).toEqual([150.5, -33.5]);
+  });
+
+  it("rejects unknown fields and sources outside the merge", () => {
+    expect(() => mergeAssets(asset("A1"), [asset("A2")], { colour: "A2" }, now)).toThrow(
+      "Unknown merge field colour; use name, region, type, status, location, attributes"
+    );
+    expect(() => mergeAssets(asset("A1"), [asset("A2")], { name: "A9" }, now)).toThrow(MergeError);
+    expect(() => mergeAssets(asset("A1"), [asset("A2")], { region: 2 }, now)).toThrow("region must name the surviving asset or one of the duplicates");
+  });
+});
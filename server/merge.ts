@@ -0,0 +1,55 @@
+import { normalizeAssetGeometry } from "./geometry";
+import type { Asset } from "./types";
+
+/**
+ * Attributes picked one at a time in a merge; `location` carries latitude, longitude and geometry together,
+ * and `attributes` the whole set of custom attribute values.
+ */
+export const MERGE_FIELDS = ["name", "region", "type", "status", "location", "attributes"] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+export class MergeError extends Error {}
+
+/**
+ * The surviving asset after taking each attribute from the asset named in
+ * `choices` (the survivor by default). Merged-away ids, and any aliases they
+ * already carried, become aliases of the survivor.
+ */
+export function mergeAssets(survivor: Asset, duplicates: Asset[], choices: Record<string, unknown>, now: string): Asset {
+  const sources = new Map([survivor, ...duplicates].map((asset) => [asset.id, asset]));
+  const pick = (field: MergeField): Asset => {
+    const sourceId = choices[field] ?? survivor.id;
+    const source = typeof sourceId === "string" ? sources.get(sourceId) : undefined;
+    if (!source) throw new MergeError(`${field} must name the surviving asset or one of the duplicates`);
+    return source;
+  };
+  Object.keys(choices).forEach((field) => {
+    if (!MERGE_FIELDS.includes(field as MergeField)) {
+      throw new MergeError(`Unknown merge field ${field}; use ${MERGE_FIELDS.join(", ")}`);
+    }
+  });
+
+  const location = pick("location");
+  const aliases = new Set(survivor.aliases ?? []);
+  duplicates.forEach((duplicate) => {
+    aliases.add(duplicate.id);
+    (duplicate.aliases ?? []).forEach((alias) => aliases.add(alias));
+  });
+  aliases.delete(survivor.id);
+
+  return normalizeAssetGeometry({
+    ...survivor,
+    name: pick("name").name,
+    region: pick("region").region,
+    type: pick("type").type,
+    status: pick("status").status,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    geometry: location.geometry ?? null,
+    attributes: pick("attributes").attributes ?? {},
+    aliases: [...aliases].sort(),
+    version: survivor.version + 1,
+    updatedAt: now
+  });
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from "vitest";
+import { decodeTileLayer } from "../src/vectorTiles";
+import { buildSpatialFilter } from "./filters";
+import { encodeAssetTile, MVT_LAYER_NAME, tileBbox } from "./mvt";
+import type { Asset, AssetGeometry } from "./types";
+
+// Round trips through the client's reader, so the two ends of /api/tiles are checked against each other.
+
+const TILE = { z: 12, x: 3776, y: 2457 };
+const EXTENT = 4096;
+
+// Longitude/latitude of a point given in this tile's units; the encoder should land back on it exactly.
+function at(px: number, py: number): [number, number] {
+  const scale = 2 ** TILE.z;
+  const lon = ((TILE.x + px / EXTENT) / scale) * 360 - 180;
+  const n = Math.PI - (2 * Math.PI * (TILE.y + py / EXTENT)) / scale;
+  return [lon, (Math.atan(Math.sinh(n)) * 180) / Math.PI];
+}
+
+function asset(id: string, geometry: AssetGeometry): Asset {
+  const [longitude, latitude] = geometry.type === "Point" ? geometry.coordinates : at(2048, 2048);
+  return {
+    id,
+    name: `Asset ${id}`,
+    region: "Hunter",
+    type: "Reserve",
+    status: "Active",
+    latitude,
+    longitude,
+    geometry,
+    createdAt: "2026-01-01T00:00:00.000Z",
+    updatedAt: "2026-01-01T00:00:00.000Z",
+    version: 1
+  } as Asset;
+}
+
+function decode(assets: Asset[]) {
+  const buffer = encodeAssetTile(TILE, assets);
+  const layer = decodeTileLayer(buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer, MVT_LAYER_NAME);
+  return { extent: layer.extent, features: new Map(layer.features.map((feature) => [feature.properties.id, feature])) };
+}
+
+function signedArea(ring: [number, number][]): number {
+  return ring.reduce((sum, [x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    return sum + x1 * y2 - x2 * y1;
+  }, 0) / 2;
+}
+
+describe("asset vector tiles", () => {
+  it("keeps points on the tile edges and in the buffer, and drops those beyond it", () => {
+    const { extent, features } = decode([
+      asset("west", { type: "Point", coordinates: at(0, 1000) }),
+      asset("east", { type: "Point", coordinates: at(EXTENT, 1000) }),
+      asset("corner", { type: "Point", coordinates: at(EXTENT, EXTENT) }),
+      asset("buffer", { type: "Point", coordinates: at(-40, 300) }),
+      asset("outside", { type: "Point", coordinates: at(-200, 300) })
+    ]);
+    expect(extent).toBe(EXTENT);
+    expect(features.get("west")).toMatchObject({ type: 1, parts: [[[0, 1000]]] });
+    expect(features.get("east")?.parts).toEqual([[[EXTENT, 1000]]]);
+    expect(features.get("corner")?.parts).toEqual([[[EXTENT, EXTENT]]]);
+    expect(features.get("buffer")?.parts).toEqual([[[-40, 300]]]);
+    expect(features.has("outside")).toBe(false);
+    expect(features.get("west")?.properties).toEqual({ id: "west", name: "Asset west", region: "Hunter", type: "Reserve", status: "Active" });
+  });
+
+  it("writes lines crossing an edge with their vertices outside the tile intact", () => {
+    const { features } = decode([asset("line", { type: "LineString", coordinates: [at(-500, 10), at(0, 0), at(2000, 4096), at(4600, 5000)] })]);
+    expect(features.get("line")).toMatchObject({ type: 2, parts: [[[-500, 10], [0, 0], [2000, 4096], [4600, 5000]]] });
+  });
+
+  it("writes polygons across a corner as open rings, exterior clockwise on screen and holes reversed", () => {
+    // Counter-clockwise exterior in longitude/latitude, so the encoder has to rewind both rings.
+    const exterior = [at(3900, 3900), at(3900, 4300), at(4300, 4300), at(4300, 3900), at(3900, 3900)];
+    const hole = [at(4000, 4000), at(4100, 4000), at(4100, 4100), at(4000, 4100), at(4000, 4000)];
+    const { features } = decode([asset("parcel", { type: "Polygon", coordinates: [exterior, hole] })]);
+    const feature = features.get("parcel");
+    expect(feature?.type).toBe(3);
+    const [outer, inner] = feature?.parts ?? [];
+    expect(outer).toHaveLength(4);
+    expect(inner).toHaveLength(4);
+    expect(outer).toEqual(expect.arrayContaining([[3900, 3900], [4300, 4300]]));
+    expect(signedArea(outer)).toBeGreaterThan(0);
+    expect(signedArea(inner)).toBeLessThan(0);
+  });
+
+  it("draws a polygon too small to outline at this zoom as its point", () => {
+    const speck = at(1000.1, 1000.1);
+    const { features } = decode([asset("speck", { type: "Polygon", coordinates: [[speck, at(1000.2, 1000.1), at(1000.2, 1000.2), speck]] })]);
+    expect(features.get("speck")).toMatchObject({ type: 1, parts: [[[2048, 2048]]] });
+  });
+});
+
+describe("tileBbox", () => {
+  it("bounds every tile, falling back to a coordinate range at low zoom", () => {
+    const [world] = buildSpatialFilter({ bbox: tileBbox({ z: 0, x: 0, y: 0 }) });
+    expect(world).toMatchObject({ longitude: { $gte: -180, $lte: 180 } });
+    expect((world as { latitude: { $lte: number } }).latitude.$lte).toBeGreaterThan(85);
+    const [quarter] = buildSpatialFilter({ bbox: tileBbox({ z: 2, x: 3, y: 2 }) });
+    expect(quarter).toHaveProperty("longitude.$gte");
+    expect((quarter as { longitude: { $gte: number } }).longitude.$gte).toBeCloseTo(90 - 90 / 64, 6);
+    expect(buildSpatialFilter({ bbox: tileBbox(TILE) })[0]).toHaveProperty("geometry.$geoIntersects");
+  });
+});
@@ -0,0 +1,241 @@
+import type { Position } from "geojson";
+import { InvalidFilterError } from "./filters";
+import { assetGeometry } from "./geometry";
+import type { Asset, AssetGeometry } from "./types";
+
+// Mapbox Vector Tile 2.1 encoding of assets, one `assets` layer per tile.
+
+export const MVT_CONTENT_TYPE = "application/vnd.mapbox-vector-tile";
+export const MVT_LAYER_NAME = "assets";
+export const MAX_TILE_ZOOM = 22;
+
+const EXTENT = 4096;
+// Features are kept this far (in tile units) past the tile edge so lines and outlines join up across tiles.
+const BUFFER = 64;
+const MAX_MERCATOR_LAT = 85.0511287798;
+const TILE_PROPERTIES = ["id", "name", "region", "type", "status"] as const;
+
+const GEOM_POINT = 1;
+const GEOM_LINESTRING = 2;
+const GEOM_POLYGON = 3;
+
+const CMD_MOVE_TO = 1;
+const CMD_LINE_TO = 2;
+const CMD_CLOSE_PATH = 7;
+
+export interface TileCoordinates {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export function parseTileCoordinates(params: Record<string, string>): TileCoordinates {
+  const [z, x, y] = [params.z, params.x, params.y].map(Number);
+  if (!Number.isInteger(z) || z < 0 || z > MAX_TILE_ZOOM) {
+    throw new InvalidFilterError(`z must be an integer between 0 and ${MAX_TILE_ZOOM}`);
+  }
+  const size = 2 ** z;
+  if (!Number.isInteger(x) || !Number.isInteger(y) || x < 0 || y < 0 || x >= size || y >= size) {
+    throw new InvalidFilterError(`x and y must be integers between 0 and ${size - 1} at zoom ${z}`);
+  }
+  return { z, x, y };
+}
+
+function tileToLon(x: number, z: number): number {
+  return (x / 2 ** z) * 360 - 180;
+}
+
+function tileToLat(y: number, z: number): number {
+  const n = Math.PI - (2 * Math.PI * y) / 2 ** z;
+  return (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+}
+
+/**
+ * The tile's area plus its buffer as minLon,minLat,maxLon,maxLat. Low-zoom tiles are too large
+ * for a $geoIntersects box; buildBboxFilter queries those by longitude/latitude range instead.
+ */
+export function tileBbox({ z, x, y }: TileCoordinates): [number, number, number, number] {
+  const margin = BUFFER / EXTENT;
+  return [
+    Math.max(tileToLon(x - margin, z), -180),
+    Math.max(tileToLat(y + 1 + margin, z), -90),
+    Math.min(tileToLon(x + 1 + margin, z), 180),
+    Math.min(tileToLat(y - margin, z), 90)
+  ];
+}
+
+class ProtobufWriter {
+  private readonly bytes: number[] = [];
+
+  // Arithmetic rather than bitwise, so values past 32 bits (far-off vertices at high zoom) survive.
+  varint(value: number): this {
+    let n = value;
+    while (n >= 0x80) {
+      this.bytes.push((n % 0x80) | 0x80);
+      n = Math.floor(n / 0x80);
+    }
+    this.bytes.push(n);
+    return this;
+  }
+
+  uint(field: number, value: number): this {
+    return this.varint(field * 8).varint(value);
+  }
+
+  bytesField(field: number, data: number[] | Buffer): this {
+    this.varint(field * 8 + 2).varint(data.length);
+    data.forEach((byte) => this.bytes.push(byte));
+    return this;
+  }
+
+  string(field: number, value: string): this {
+    return this.bytesField(field, Buffer.from(value, "utf8"));
+  }
+
+  message(field: number, message: ProtobufWriter): this {
+    return this.bytesField(field, message.bytes);
+  }
+
+  packed(field: number, values: number[]): this {
+    const inner = new ProtobufWriter();
+    values.forEach((value) => inner.varint(value));
+    return this.bytesField(field, inner.bytes);
+  }
+
+  toBuffer(): Buffer {
+    return Buffer.from(this.bytes);
+  }
+}
+
+function zigzag(value: number): number {
+  return value >= 0 ? value * 2 : -value * 2 - 1;
+}
+
+function command(id: number, count: number): number {
+  return id + count * 8;
+}
+
+// Web Mercator projection into the tile's 0..4096 grid, y down.
+function projector({ z, x, y }: TileCoordinates) {
+  const scale = 2 ** z;
+  return ([lon, lat]: Position): [number, number] => {
+    const clamped = (Math.max(Math.min(lat, MAX_MERCATOR_LAT), -MAX_MERCATOR_LAT) * Math.PI) / 180;
+    const worldX = ((lon + 180) / 360) * scale;
+    const worldY = ((1 - Math.log(Math.tan(clamped) + 1 / Math.cos(clamped)) / Math.PI) / 2) * scale;
+    return [Math.round((worldX - x) * EXTENT), Math.round((worldY - y) * EXTENT)];
+  };
+}
+
+type TilePoint = [number, number];
+
+function dedupe(points: TilePoint[]): TilePoint[] {
+  return points.filter((point, i) => i === 0 || point[0] !== points[i - 1][0] || point[1] !== points[i - 1][1]);
+}
+
+// Surveyor's formula in tile space, where y points down; MVT exterior rings are positive.
+function tileRingArea(ring: TilePoint[]): number {
+  let area = 0;
+  ring.forEach(([x1, y1], i) => {
+    const [x2, y2] = ring[(i + 1) % ring.length];
+    area += x1 * y2 - x2 * y1;
+  });
+  return area / 2;
+}
+
+/** Rings without the closing vertex, exterior first, wound the way MVT expects; empty when the outline collapses. */
+function tilePolygon(rings: Position[][], project: (position: Position) => TilePoint): TilePoint[][] {
+  const projected = rings.map((ring) => {
+    const points = dedupe(ring.map(project));
+    if (points.length > 1 && points[0][0] === points[points.length - 1][0] && points[0][1] === points[points.length - 1][1]) {
+      points.pop();
+    }
+    return points;
+  });
+  const valid = projected.filter((ring) => ring.length >= 3 && tileRingArea(ring) !== 0);
+  if (valid.length === 0 || valid[0] !== projected[0]) return [];
+  return valid.map((ring, index) => ((tileRingArea(ring) > 0) === (index === 0) ? ring : [...ring].reverse()));
+}
+
+interface TileGeometry {
+  type: number;
+  parts: TilePoint[][];
+}
+
+/**
+ * Lines and polygons that round away to nothing at this zoom are drawn as
+ * their latitude/longitude point, so small assets stay visible zoomed out.
+ */
+function tileGeometry(asset: Asset, geometry: AssetGeometry, project: (position: Position) => TilePoint): TileGeometry | null {
+  if (geometry.type === "LineString") {
+    const line = dedupe(geometry.coordinates.map(project));
+    if (line.length >= 2) return { type: GEOM_LINESTRING, parts: [line] };
+  } else if (geometry.type === "Polygon" || geometry.type === "MultiPolygon") {
+    const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+    const rings = polygons.flatMap((polygon) => tilePolygon(polygon, project));
+    if (rings.length > 0) return { type: GEOM_POLYGON, parts: rings };
+  } else {
+    return { type: GEOM_POINT, parts: [[project(geometry.coordinates)]] };
+  }
+  if (asset.latitude === null || asset.longitude === null) return null;
+  return { type: GEOM_POINT, parts: [[project([asset.longitude, asset.latitude])]] };
+}
+
+function intersectsTile(parts: TilePoint[][]): boolean {
+  const points = parts.flat();
+  const xs = points.map((point) => point[0]);
+  const ys = points.map((point) => point[1]);
+  return (
+    Math.max(...xs) >= -BUFFER &&
+    Math.min(...xs) <= EXTENT + BUFFER &&
+    Math.max(...ys) >= -BUFFER &&
+    Math.min(...ys) <= EXTENT + BUFFER
+  );
+}
+
+function encodeGeometry({ type, parts }: TileGeometry): number[] {
+  const commands: number[] = [];
+  let cursorX = 0;
+  let cursorY = 0;
+  const moveBy = ([x, y]: TilePoint) => {
+    commands.push(zigzag(x - cursorX), zigzag(y - cursorY));
+    cursorX = x;
+    cursorY = y;
+  };
+  if (type === GEOM_POINT) {
+    commands.push(command(CMD_MOVE_TO, parts.length));
+    parts.forEach((part) => moveBy(part[0]));
+    return commands;
+  }
+  parts.forEach((part) => {
+    commands.push(command(CMD_MOVE_TO, 1));
+    moveBy(part[0]);
+    commands.push(command(CMD_LINE_TO, part.length - 1));
+    part.slice(1).forEach(moveBy);
+    if (type === GEOM_POLYGON) commands.push(command(CMD_CLOSE_PATH, 1));
+  });
+  return commands;
+}
+
+/** One tile of assets with id, name, region, type and status as feature properties. */
+export function encodeAssetTile(tile: TileCoordinates, assets: Asset[]): Buffer {
+  const project = projector(tile);
+  const values = new Map<string, number>();
+  const valueIndex = (value: string) => {
+    if (!values.has(value)) values.set(value, values.size);
+    return values.get(value) as number;
+  };
+
+  const layer = new ProtobufWriter().uint(15, 2).string(1, MVT_LAYER_NAME);
+  assets.forEach((asset) => {
+    const geometry = assetGeometry(asset);
+    const encoded = geometry ? tileGeometry(asset, geometry, project) : null;
+    if (!encoded || !intersectsTile(encoded.parts)) return;
+    const tags = TILE_PROPERTIES.flatMap((key, keyIndex) => [keyIndex, valueIndex(String(asset[key] ?? ""))]);
+    layer.message(2, new ProtobufWriter().packed(2, tags).uint(3, encoded.type).packed(4, encodeGeometry(encoded)));
+  });
+  TILE_PROPERTIES.forEach((key) => layer.string(3, key));
+  values.forEach((_, value) => layer.message(4, new ProtobufWriter().string(1, value)));
+  layer.uint(5, EXTENT);
+
+  return new ProtobufWriter().message(3, layer).toBuffer();
+}
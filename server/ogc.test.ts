@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { InvalidFilterError } from "./filters";
+import { parseOgcItemsQuery } from "./ogc";
+
+describe("OGC API items query", () => {
+  it("accepts a 3D bbox and ignores its heights", () => {
+    const planar = parseOgcItemsQuery({ bbox: "150,-34,152,-33" }, []);
+    const withHeights = parseOgcItemsQuery({ bbox: "150,-34,-10,152,-33,200" }, []);
+    expect(withHeights.filter).toEqual(planar.filter);
+    expect(withHeights.params).toEqual({ bbox: "150,-34,-10,152,-33,200" });
+  });
+
+  it("filters on custom attributes by property name and keeps them in paging links", () => {
+    const request = parseOgcItemsQuery({ reserveNumber: "R123,R456", limit: "5" }, ["reserveNumber"]);
+    expect(JSON.stringify(request.filter)).toContain("attributes.reserveNumber");
+    expect(request.params).toEqual({ reserveNumber: "R123,R456" });
+  });
+
+  it("reads filter values literally, so pattern characters cannot fail the query", () => {
+    // Unescaped, the region built an invalid RegExp and the name a catastrophic one.
+    const request = parseOgcItemsQuery({ region: "(", name: "(a+)+$" }, []);
+    expect(request.filter).toEqual({
+      $and: [{ $and: [{ name: { $regex: "\\(a\\+\\)\\+\\$", $options: "i" } }, { region: { $in: [/^\($/i] } }, { archivedAt: null }] }]
+    });
+  });
+
+  it("still rejects parameters that are neither standard nor attributes", () => {
+    expect(() => parseOgcItemsQuery({ reserveNumber: "R123" }, [])).toThrow(InvalidFilterError);
+    expect(() => parseOgcItemsQuery({ bbox: "1,2,3,4,5" }, [])).toThrow(InvalidFilterError);
+  });
+});
@@ -0,0 +1,262 @@
+import { buildMongoFilter, InvalidFilterError, parseSpatialFilter } from "./filters";
+import type { AssetQuery } from "./filters";
+import { assetGeometry } from "./geometry";
+import type { Asset, AttributeDefinition } from "./types";
+
+// OGC API – Features Part 1 documents for the `assets` collection, served under /api/ogc.
+
+export const OGC_COLLECTION_ID = "assets";
+export const OGC_DEFAULT_LIMIT = 10;
+export const OGC_MAX_LIMIT = 1000;
+
+const CRS84 = "http://www.opengis.net/def/crs/OGC/1.3/CRS84";
+const GEOJSON = "application/geo+json";
+const JSON_TYPE = "application/json";
+export const OPENAPI_TYPE = "application/vnd.oai.openapi+json;version=3.0";
+
+export const CONFORMANCE_CLASSES = [
+  "http://www.opengis.net/spec/ogcapi-features-1/1.0/conf/core",
+  "http://www.opengis.net/spec/ogcapi-features-1/1.0/conf/geojson",
+  "http://www.opengis.net/spec/ogcapi-features-1/1.0/conf/oas30"
+];
+
+// Query parameters accepted on /items, besides the custom attribute names (which features carry as
+// properties); any other parameter is a 400, as the standard asks.
+const ITEM_PARAMS = ["f", "bbox", "bbox-crs", "limit", "offset", "datetime", "name", "region", "type", "status"];
+const FILTER_PARAMS = ["bbox", "datetime", "name", "region", "type", "status"];
+
+interface Link {
+  href: string;
+  rel: string;
+  type: string;
+  title?: string;
+}
+
+export interface OgcItemsRequest {
+  filter: Record<string, unknown>;
+  limit: number;
+  offset: number;
+  /** The filter parameters to carry over into paging links. */
+  params: Record<string, string>;
+}
+
+function withQuery(href: string, params: Record<string, string | number>): string {
+  const query = new URLSearchParams(Object.entries(params).map(([key, value]): [string, string] => [key, String(value)])).toString();
+  return query ? `${href}?${query}` : href;
+}
+
+function parseBound(value: string, name: string): string | null {
+  if (value === ".." || value === "") return null;
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) throw new InvalidFilterError(`${name} must be an RFC 3339 date-time or ..`);
+  return date.toISOString();
+}
+
+// `datetime` is an instant or an interval (`start/end`, either end may be `..`), matched against updatedAt.
+function buildDatetimeFilter(datetime: string): Record<string, unknown> | null {
+  if (!datetime.includes("/")) {
+    const instant = parseBound(datetime, "datetime");
+    return instant ? { updatedAt: instant } : null;
+  }
+  const [start, end, ...rest] = datetime.split("/");
+  if (rest.length > 0) throw new InvalidFilterError("datetime interval must be start/end");
+  const range: Record<string, string> = {};
+  const from = parseBound(start, "datetime start");
+  const to = parseBound(end, "datetime end");
+  if (from) range.$gte = from;
+  if (to) range.$lte = to;
+  return Object.keys(range).length > 0 ? { updatedAt: range } : null;
+}
+
+// A 3D box (minLon,minLat,minZ,maxLon,maxLat,maxZ) is allowed by the standard; assets have no height, so Z is dropped.
+function planarBbox(bbox: string | undefined): string | undefined {
+  const parts = bbox?.split(",");
+  return parts?.length === 6 ? [parts[0], parts[1], parts[3], parts[4]].join(",") : bbox;
+}
+
+/**
+ * Validates the /items query and turns it into a Mongo filter using the same logic as the listing.
+ * `attributeNames` are the custom attributes that may be filtered on, as the listing's `attr.<name>`.
+ */
+export function parseOgcItemsQuery(raw: Record<string, unknown>, attributeNames: string[]): OgcItemsRequest {
+  const query: Record<string, string> = {};
+  Object.entries(raw).forEach(([key, value]) => {
+    if (!ITEM_PARAMS.includes(key) && !attributeNames.includes(key)) throw new InvalidFilterError(`Unknown query parameter ${key}`);
+    if (typeof value !== "string") throw new InvalidFilterError(`${key} may only be given once`);
+    query[key] = value;
+  });
+  if (query.f && query.f !== "json") throw new InvalidFilterError("Only f=json is supported");
+  if (query["bbox-crs"] && query["bbox-crs"] !== CRS84) throw new InvalidFilterError(`bbox-crs must be ${CRS84}`);
+
+  let limit = OGC_DEFAULT_LIMIT;
+  if (query.limit !== undefined) {
+    limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1) throw new InvalidFilterError("limit must be a positive integer");
+    // A limit above the maximum is served at the maximum rather than rejected.
+    limit = Math.min(limit, OGC_MAX_LIMIT);
+  }
+  const offset = Number(query.offset ?? 0);
+  if (!Number.isInteger(offset) || offset < 0) throw new InvalidFilterError("offset must be a non-negative integer");
+
+  const assetQuery: AssetQuery = { search: query.name, region: query.region, type: query.type, status: query.status };
+  const attributeParams = Object.keys(query).filter((key) => !ITEM_PARAMS.includes(key));
+  attributeParams.forEach((name) => (assetQuery[`attr.${name}`] = query[name]));
+  const spatial = parseSpatialFilter({ bbox: planarBbox(query.bbox) });
+  const clauses = [buildMongoFilter(assetQuery, spatial)];
+  const datetime = query.datetime ? buildDatetimeFilter(query.datetime) : null;
+  if (datetime) clauses.push(datetime);
+
+  const params: Record<string, string> = {};
+  [...FILTER_PARAMS, ...attributeParams].forEach((key) => {
+    if (query[key]) params[key] = query[key];
+  });
+  return { filter: { $and: clauses }, limit, offset, params };
+}
+
+export function landingPage(baseUrl: string) {
+  return {
+    title: "Spatial Asset Register",
+    description: "Crown land style spatial assets as OGC API – Features.",
+    links: [
+      { href: baseUrl, rel: "self", type: JSON_TYPE, title: "This document" },
+      { href: `${baseUrl}/api`, rel: "service-desc", type: OPENAPI_TYPE, title: "API definition" },
+      { href: `${baseUrl}/conformance`, rel: "conformance", type: JSON_TYPE, title: "Conformance classes" },
+      { href: `${baseUrl}/collections`, rel: "data", type: JSON_TYPE, title: "Collections" }
+    ]
+  };
+}
+
+export function collectionDocument(baseUrl: string, bbox: number[] | null) {
+  const href = `${baseUrl}/collections/${OGC_COLLECTION_ID}`;
+  return {
+    id: OGC_COLLECTION_ID,
+    title: "Assets",
+    description: "Current (not archived) assets: points, lines and polygons.",
+    itemType: "feature",
+    crs: [CRS84],
+    extent: bbox ? { spatial: { bbox: [bbox], crs: CRS84 } } : undefined,
+    links: [
+      { href, rel: "self", type: JSON_TYPE, title: "This collection" },
+      { href: `${href}/items`, rel: "items", type: GEOJSON, title: "Assets" }
+    ]
+  };
+}
+
+export function collectionsDocument(baseUrl: string, bbox: number[] | null) {
+  return {
+    links: [{ href: `${baseUrl}/collections`, rel: "self", type: JSON_TYPE, title: "This document" }],
+    collections: [collectionDocument(baseUrl, bbox)]
+  };
+}
+
+export function toOgcFeature(baseUrl: string, asset: Asset, withLinks: boolean) {
+  const itemsHref = `${baseUrl}/collections/${OGC_COLLECTION_ID}/items`;
+  return {
+    type: "Feature",
+    id: asset.id,
+    geometry: assetGeometry(asset),
+    properties: {
+      name: asset.name,
+      region: asset.region,
+      type: asset.type,
+      status: asset.status,
+      createdAt: asset.createdAt,
+      updatedAt: asset.updatedAt,
+      ...asset.attributes
+    },
+    links: withLinks
+      ? [
+          { href: `${itemsHref}/${encodeURIComponent(asset.id)}`, rel: "self", type: GEOJSON, title: "This feature" },
+          { href: `${baseUrl}/collections/${OGC_COLLECTION_ID}`, rel: "collection", type: JSON_TYPE, title: "Assets" }
+        ]
+      : undefined
+  };
+}
+
+export function featureCollection(baseUrl: string, assets: Asset[], numberMatched: number, request: OgcItemsRequest) {
+  const itemsHref = `${baseUrl}/collections/${OGC_COLLECTION_ID}/items`;
+  const page = (offset: number) => withQuery(itemsHref, { ...request.params, limit: request.limit, offset });
+  const links: Link[] = [{ href: page(request.offset), rel: "self", type: GEOJSON, title: "This page" }];
+  if (request.offset + assets.length < numberMatched) {
+    links.push({ href: page(request.offset + request.limit), rel: "next", type: GEOJSON, title: "Next page" });
+  }
+  if (request.offset > 0) {
+    links.push({ href: page(Math.max(request.offset - request.limit, 0)), rel: "prev", type: GEOJSON, title: "Previous page" });
+  }
+  links.push({ href: `${baseUrl}/collections/${OGC_COLLECTION_ID}`, rel: "collection", type: JSON_TYPE, title: "Assets" });
+  return {
+    type: "FeatureCollection",
+    timeStamp: new Date().toISOString(),
+    numberMatched,
+    numberReturned: assets.length,
+    features: assets.map((asset) => toOgcFeature(baseUrl, asset, false)),
+    links
+  };
+}
+
+function parameter(name: string, description: string, schema: Record<string, unknown>) {
+  return { name, in: "query", required: false, description, schema, style: "form", explode: false };
+}
+
+/** A compact OpenAPI 3.0 description of the routes above, linked as `service-desc`. */
+export function openApiDocument(baseUrl: string, attributes: AttributeDefinition[]) {
+  const jsonResponse = (description: string, type = JSON_TYPE) => ({
+    description,
+    content: { [type]: { schema: { type: "object" } } }
+  });
+  return {
+    openapi: "3.0.3",
+    info: { title: "Spatial Asset Register – OGC API Features", version: "1.0.0" },
+    servers: [{ url: baseUrl }],
+    paths: {
+      "/": { get: { summary: "Landing page", responses: { "200": jsonResponse("Landing page") } } },
+      "/conformance": { get: { summary: "Conformance classes", responses: { "200": jsonResponse("Conformance") } } },
+      "/collections": { get: { summary: "Collections", responses: { "200": jsonResponse("Collections") } } },
+      "/collections/{collectionId}": {
+        get: {
+          summary: "Collection",
+          parameters: [{ name: "collectionId", in: "path", required: true, schema: { type: "string", enum: [OGC_COLLECTION_ID] } }],
+          responses: { "200": jsonResponse("Collection"), "404": { description: "Unknown collection" } }
+        }
+      },
+      "/collections/{collectionId}/items": {
+        get: {
+          summary: "Features",
+          parameters: [
+            { name: "collectionId", in: "path", required: true, schema: { type: "string", enum: [OGC_COLLECTION_ID] } },
+            parameter("bbox", "minLon,minLat,maxLon,maxLat in CRS84, or with minZ and maxZ (ignored) after each corner's latitude", {
+              type: "array",
+              minItems: 4,
+              maxItems: 6,
+              items: { type: "number" }
+            }),
+            parameter("limit", `Page size; values above ${OGC_MAX_LIMIT} are reduced to it`, {
+              type: "integer",
+              minimum: 1,
+              maximum: OGC_MAX_LIMIT,
+              default: OGC_DEFAULT_LIMIT
+            }),
+            parameter("offset", "Number of features to skip", { type: "integer", minimum: 0, default: 0 }),
+            parameter("datetime", "Instant or interval matched against updatedAt", { type: "string" }),
+            parameter("name", "Name contains (case-insensitive)", { type: "string" }),
+            parameter("region", "Comma separated regions", { type: "string" }),
+            parameter("type", "Comma separated asset types", { type: "string" }),
+            parameter("status", "Comma separated statuses", { type: "string" }),
+            ...attributes.map((attribute) => parameter(attribute.name, `${attribute.label}: comma separated values, any of which matches`, { type: "string" }))
+          ],
+          responses: { "200": jsonResponse("Features", GEOJSON), "400": { description: "Invalid query" } }
+        }
+      },
+      "/collections/{collectionId}/items/{featureId}": {
+        get: {
+          summary: "Feature",
+          parameters: [
+            { name: "collectionId", in: "path", required: true, schema: { type: "string", enum: [OGC_COLLECTION_ID] } },
+            { name: "featureId", in: "path", required: true, schema: { type: "string" } }
+          ],
+          responses: { "200": jsonResponse("Feature", GEOJSON), "404": { description: "Unknown feature" } }
+        }
+      }
+    }
+  };
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetMemoryDb } from "./fixtures/memoryDb";
+import { ensureQaRules, listQaRules, QaRuleError, runQaRules, updateQaRule } from "./qa";
+import type { Asset, QaRule } from "./types";
+
+vi.mock("./db", () => import("./fixtures/memoryDb"));
+
+beforeEach(() => resetMemoryDb());
+
+const asset = (id: string, overrides: Partial<Asset> = {}): Asset => ({
+  id,
+  name: `Asset ${id}`,
+  region: "NSW",
+  type: "Pump",
+  status: "Active",
+  latitude: -33.5,
+  longitude: 151.25,
+  version: 1,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: new Date().toISOString(),
+  ...overrides
+});
+
+async function rules(changes: Partial<Record<QaRule["id"], Partial<QaRule>>> = {}): Promise<QaRule[]> {
+  await ensureQaRules();
+  return (await listQaRules()).map((rule) => ({ ...rule, ...changes[rule.id] }));
+}
+
+describe("runQaRules", () => {
+  it("tags each issue with its rule's configured severity", async () => {
+    const records = [asset("A1", { latitude: null, longitude: null }), asset("A2", { name: "Pump" }), asset("A3", { name: "pump", latitude: -33 })];
+    const issues = runQaRules(records, await rules({ MISSING_COORDINATES: { severity: "warning" } }));
+    expect(issues.map((issue) => [issue.id, issue.severity])).toEqual([
+      ["MISSING_COORDINATES:A1", "warning"],
+      ["DUPLICATE_NAME:A2", "warning"],
+      ["DUPLICATE_NAME:A3", "warning"]
+    ]);
+    expect(issues[1]).toMatchObject({ relatedAssetIds: ["A3"], region: "NSW", type: "Pump", status: "open" });
+  });
+
+  it("skips disabled rules and applies rule params over the defaults", async () => {
+    const records = [asset("A1"), asset("A2", { latitude: -33.50005 }), asset("A3", { status: "Planned", type: "Dam", latitude: -30 })];
+    const configured = await rules({
+      NEAR_DUPLICATE: { enabled: false },
+      TYPE_STATUS_NOT_ALLOWED: { enabled: true, params: { disallowed: [{ type: " dam ", status: "Planned" }] } }
+    });
+    expect(runQaRules(records, configured).map((issue) => issue.id)).toEqual(["TYPE_STATUS_NOT_ALLOWED:A3"]);
+    const near = await rules({ NEAR_DUPLICATE: { params: { distanceMetres: 1 } } });
+    expect(runQaRules(records, near).filter((issue) => issue.code === "NEAR_DUPLICATE")).toEqual([]);
+  });
+
+  it("leaves exact matches to DUPLICATE_POINT and finds near duplicates within the distance", async () => {
+    const records = [asset("A1"), asset("A2"), asset("A3", { latitude: -33.50005 }), asset("A4", { latitude: -34 })];
+    const issues = runQaRules(records, await rules());
+    expect(issues.filter((issue) => issue.code === "DUPLICATE_POINT").map((issue) => issue.assetId)).toEqual(["A1", "A2"]);
+    const near = issues.filter((issue) => issue.code === "NEAR_DUPLICATE");
+    expect(Object.fromEntries(near.map((issue) => [issue.assetId, issue.relatedAssetIds]))).toEqual({ A1: ["A3"], A2: ["A3"], A3: ["A1", "A2"] });
+  });
+
+  it("flags records outside the extent and those not updated within the stale period", async () => {
+    const records = [asset("A1", { longitude: 100 }), asset("A2", { updatedAt: "2000-01-01T00:00:00.000Z" })];
+    const issues = runQaRules(records, await rules({ DUPLICATE_NAME: { enabled: false } }));
+    expect(issues.map((issue) => [issue.id, issue.severity])).toEqual([
+      ["OUTSIDE_EXTENT:A1", "error"],
+      ["STALE_RECORD:A2", "info"]
+    ]);
+  });
+});
+
+describe("updateQaRule", () => {
+  it("changes severity and params, and rejects values a rule cannot use", async () => {
+    await ensureQaRules();
+    const updated = await updateQaRule("NEAR_DUPLICATE", { severity: "error", params: { distanceMetres: 25, extra: 1 } }, "admin");
+    expect(updated).toMatchObject({ severity: "error", params: { distanceMetres: 25 }, updatedBy: "admin" });
+    expect(updated?.params).not.toHaveProperty("extra");
+    await expect(updateQaRule("NEAR_DUPLICATE", { severity: "fatal" }, "admin")).rejects.toThrow("severity must be one of error, warning, info");
+    await expect(updateQaRule("NEAR_DUPLICATE", { params: { distanceMetres: 0 } }, "admin")).rejects.toBeInstanceOf(QaRuleError);
+    await expect(updateQaRule("OUTSIDE_EXTENT", { params: { bbox: [10, 0, 5, 1] } }, "admin")).rejects.toThrow("bbox must be");
+    expect(await updateQaRule("NOT_A_RULE", { enabled: false }, "admin")).toBeNull();
+  });
+});
@@ -0,0 +1,329 @@
+import { getDb } from "./db";
+import type { Asset, QaIssue, QaRule, QaRuleId, QaSeverity } from "./types";
+
+export const QA_SEVERITIES: QaSeverity[] = ["error", "warning", "info"];
+
+const EARTH_RADIUS_METRES = 6371008.8;
+const METRES_PER_DEGREE_LATITUDE = 111320;
+
+export class QaRuleError extends Error {}
+
+type Finding = { assetId: string; message: string; relatedAssetIds?: string[] };
+
+interface QaRuleDefinition {
+  name: string;
+  description: string;
+  severity: QaSeverity;
+  enabled: boolean;
+  params: Record<string, unknown>;
+  /** Throws QaRuleError when `params` cannot be used by `check`. */
+  validateParams(params: Record<string, unknown>): void;
+  check(records: Asset[], params: Record<string, unknown>): Finding[];
+}
+
+type Located = Asset & { latitude: number; longitude: number };
+
+function hasPoint(asset: Asset): asset is Located {
+  return asset.latitude !== null && asset.longitude !== null;
+}
+
+function distanceMetres(a: Located, b: Located): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_METRES * Math.asin(Math.sqrt(h));
+}
+
+// Reports every member of each group that has more than one asset.
+function groupFindings(records: Asset[], keyOf: (asset: Asset) => string | null, describe: (others: string) => string): Finding[] {
+  const groups = new Map<string, string[]>();
+  records.forEach((asset) => {
+    const key = keyOf(asset);
+    if (key === null) return;
+    groups.set(key, [...(groups.get(key) ?? []), asset.id]);
+  });
+  const findings: Finding[] = [];
+  groups.forEach((ids) => {
+    if (ids.length < 2) return;
+    ids.forEach((id) => {
+      const others = ids.filter((other) => other !== id);
+      findings.push({ assetId: id, message: describe(others.join(", ")), relatedAssetIds: others });
+    });
+  });
+  return findings;
+}
+
+function requirePositiveNumber(params: Record<string, unknown>, key: string): void {
+  const value = params[key];
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) {
+    throw new QaRuleError(`${key} must be a positive number`);
+  }
+}
+
+function noParams(): void {}
+
+const RULE_DEFINITIONS: Record<QaRuleId, QaRuleDefinition> = {
+  MISSING_COORDINATES: {
+    name: "Missing coordinates",
+    description: "Latitude or longitude is empty.",
+    severity: "error",
+    enabled: true,
+    params: {},
+    validateParams: noParams,
+    check: (records) =>
+      records.filter((asset) => !hasPoint(asset)).map((asset) => ({ assetId: asset.id, message: "Latitude/Longitude is missing." }))
+  },
+  MISSING_FIELDS: {
+    name: "Missing required fields",
+    description: "Name, region, type or status is empty.",
+    severity: "error",
+    enabled: true,
+    params: {},
+    validateParams: noParams,
+    check: (records) =>
+      records
+        .filter((asset) => !asset.name || !asset.region || !asset.type || !asset.status)
+        .map((asset) => ({ assetId: asset.id, message: "One or more required fields are empty." }))
+  },
+  DUPLICATE_POINT: {
+    name: "Duplicate point",
+    description: "Two or more assets have exactly the same coordinates.",
+    severity: "error",
+    enabled: true,
+    params: {},
+    validateParams: noParams,
+    check: (records) =>
+      groupFindings(
+        records,
+        (asset) => (hasPoint(asset) ? `${asset.latitude},${asset.longitude}` : null),
+        (others) => `Shares coordinates with assets: ${others}.`
+      )
+  },
+  NEAR_DUPLICATE: {
+    name: "Near-duplicate point",
+    description: "Another asset is within the given distance (exact matches are left to Duplicate point).",
+    severity: "warning",
+    enabled: true,
+    params: { distanceMetres: 10 },
+    validateParams: (params) => requirePositiveNumber(params, "distanceMetres"),
+    check: (records, params) => {
+      const limit = params.distanceMetres as number;
+      // Sort by latitude so each point is only compared with the ones in its latitude band.
+      const points = records.filter(hasPoint).sort((a, b) => a.latitude - b.latitude);
+      const band = limit / METRES_PER_DEGREE_LATITUDE;
+      const neighbours = new Map<string, string[]>();
+      for (let i = 0; i < points.length; i += 1) {
+        for (let j = i + 1; j < points.length && points[j].latitude - points[i].latitude <= band; j += 1) {
+          const distance = distanceMetres(points[i], points[j]);
+          if (distance === 0 || distance > limit) continue;
+          neighbours.set(points[i].id, [...(neighbours.get(points[i].id) ?? []), points[j].id]);
+          neighbours.set(points[j].id, [...(neighbours.get(points[j].id) ?? []), points[i].id]);
+        }
+      }
+      return [...neighbours].map(([assetId, ids]) => ({
+        assetId,
+        message: `Within ${limit} m of assets: ${ids.join(", ")}.`,
+        relatedAssetIds: ids
+      }));
+    }
+  },
+  OUTSIDE_EXTENT: {
+    name: "Outside extent",
+    description: "The asset's point lies outside the configured extent (minLon, minLat, maxLon, maxLat).",
+    severity: "error",
+    enabled: true,
+    // New South Wales, not counting Lord Howe Island.
+    params: { bbox: [140.99, -37.51, 153.64, -28.15] },
+    validateParams: (params) => {
+      const bbox = params.bbox;
+      if (
+        !Array.isArray(bbox) ||
+        bbox.length !== 4 ||
+        bbox.some((value) => typeof value !== "number" || !Number.isFinite(value)) ||
+        bbox[0] >= bbox[2] ||
+        bbox[1] >= bbox[3]
+      ) {
+        throw new QaRuleError("bbox must be [minLon, minLat, maxLon, maxLat]");
+      }
+    },
+    check: (records, params) => {
+      const [minLon, minLat, maxLon, maxLat] = params.bbox as number[];
+      return records
+        .filter(hasPoint)
+        .filter((asset) => asset.longitude < minLon || asset.longitude > maxLon || asset.latitude < minLat || asset.latitude > maxLat)
+        .map((asset) => ({ assetId: asset.id, message: "Coordinates are outside the configured extent." }));
+    }
+  },
+  DUPLICATE_NAME: {
+    name: "Duplicate name",
+    description: "Two or more assets share a name.",
+    severity: "warning",
+    enabled: true,
+    params: { caseSensitive: false },
+    validateParams: (params) => {
+      if (typeof params.caseSensitive !== "boolean") throw new QaRuleError("caseSensitive must be true or false");
+    },
+    check: (records, params) =>
+      groupFindings(
+        records,
+        (asset) => {
+          const name = asset.name?.trim();
+          if (!name) return null;
+          return params.caseSensitive ? name : name.toLowerCase();
+        },
+        (others) => `Shares its name with assets: ${others}.`
+      )
+  },
+  STALE_RECORD: {
+    name: "Stale record",
+    description: "The asset has not been updated for the given number of months.",
+    severity: "info",
+    enabled: true,
+    params: { months: 24 },
+    validateParams: (params) => requirePositiveNumber(params, "months"),
+    check: (records, params) => {
+      const cutoff = new Date();
+      cutoff.setMonth(cutoff.getMonth() - (params.months as number));
+      return records
+        .filter((asset) => new Date(asset.updatedAt) < cutoff)
+        .map((asset) => ({ assetId: asset.id, message: `Not updated in over ${params.months} months.` }));
+    }
+  },
+  TYPE_STATUS_NOT_ALLOWED: {
+    name: "Type/status not allowed",
+    description: "The asset's type and status are listed as a combination that should not occur.",
+    severity: "error",
+    enabled: false,
+    params: { disallowed: [] },
+    validateParams: (params) => {
+      const list = params.disallowed;
+      if (
+        !Array.isArray(list) ||
+        list.some(
+          (item) =>
+            !item ||
+            typeof item !== "object" ||
+            typeof (item as { type?: unknown }).type !== "string" ||
+            typeof (item as { status?: unknown }).status !== "string"
+        )
+      ) {
+        throw new QaRuleError('disallowed must be a list of { "type": string, "status": string }');
+      }
+    },
+    check: (records, params) => {
+      const disallowed = params.disallowed as { type: string; status: string }[];
+      return records
+        .filter((asset) =>
+          disallowed.some(
+            (pair) => pair.type.trim().toLowerCase() === asset.type?.trim().toLowerCase() && pair.status === asset.status
+          )
+        )
+        .map((asset) => ({ assetId: asset.id, message: `${asset.type} assets cannot be ${asset.status}.` }));
+    }
+  }
+};
+
+const RULE_IDS = Object.keys(RULE_DEFINITIONS) as QaRuleId[];
+
+type QaRuleDocument = QaRule & { _id?: unknown };
+
+async function qaRulesCollection() {
+  const db = await getDb();
+  return db.collection<QaRuleDocument>("qa_rules");
+}
+
+/** Inserts any rule that is not stored yet, so rules added in a release appear with their defaults. */
+export async function ensureQaRules(): Promise<void> {
+  const collection = await qaRulesCollection();
+  await collection.createIndex({ id: 1 }, { unique: true });
+  for (const id of RULE_IDS) {
+    const { name, description, severity, enabled, params } = RULE_DEFINITIONS[id];
+    await collection.updateOne(
+      { id },
+      { $setOnInsert: { id, name, description, severity, enabled, params, updatedAt: null, updatedBy: null } },
+      { upsert: true }
+    );
+  }
+}
+
+export async function listQaRules(): Promise<QaRule[]> {
+  const collection = await qaRulesCollection();
+  const rules: QaRule[] = await collection.find({ id: { $in: RULE_IDS } }, { projection: { _id: 0 } }).toArray();
+  const order = (rule: QaRule) => RULE_IDS.indexOf(rule.id);
+  return rules.sort((a, b) => order(a) - order(b));
+}
+
+export async function updateQaRule(
+  id: string,
+  changes: { severity?: unknown; enabled?: unknown; params?: unknown },
+  updatedBy: string
+): Promise<QaRule | null> {
+  if (!isQaRuleId(id)) return null;
+  const definition = RULE_DEFINITIONS[id];
+  const update: Partial<QaRule> = {};
+  if (changes.severity !== undefined) {
+    if (!QA_SEVERITIES.includes(changes.severity as QaSeverity)) {
+      throw new QaRuleError(`severity must be one of ${QA_SEVERITIES.join(", ")}`);
+    }
+    update.severity = changes.severity as QaSeverity;
+  }
+  if (changes.enabled !== undefined) {
+    if (typeof changes.enabled !== "boolean") throw new QaRuleError("enabled must be true or false");
+    update.enabled = changes.enabled;
+  }
+  if (changes.params !== undefined) {
+    if (!changes.params || typeof changes.params !== "object" || Array.isArray(changes.params)) {
+      throw new QaRuleError("params must be an object");
+    }
+    // Unknown keys are dropped; missing ones keep their defaults.
+    const params = { ...definition.params };
+    Object.keys(definition.params).forEach((key) => {
+      if (key in (changes.params as object)) params[key] = (changes.params as Record<string, unknown>)[key];
+    });
+    definition.validateParams(params);
+    update.params = params;
+  }
+
+  const collection = await qaRulesCollection();
+  return collection.findOneAndUpdate(
+    { id },
+    { $set: { ...update, updatedAt: new Date().toISOString(), updatedBy } },
+    { projection: { _id: 0 }, returnDocument: "after" }
+  );
+}
+
+export function qaIssueId(code: QaRuleId, assetId: string): string {
+  return `${code}:${assetId}`;
+}
+
+export function isQaRuleId(value: string): value is QaRuleId {
+  return RULE_IDS.includes(value as QaRuleId);
+}
+
+/**
+ * Runs every enabled rule over the records; issues come back grouped by rule
+ * in registry order, all `open` until workflow state is applied.
+ */
+export function runQaRules(records: Asset[], rules: QaRule[]): QaIssue[] {
+  const byId = new Map(records.map((asset) => [asset.id, asset]));
+  return rules
+    .filter((rule) => rule.enabled)
+    .flatMap((rule) =>
+      RULE_DEFINITIONS[rule.id]
+        .check(records, { ...RULE_DEFINITIONS[rule.id].params, ...rule.params })
+        .map((finding) => ({
+          id: qaIssueId(rule.id, finding.assetId),
+          code: rule.id,
+          severity: rule.severity,
+          ...finding,
+          region: byId.get(finding.assetId)?.region ?? "",
+          type: byId.get(finding.assetId)?.type ?? "",
+          status: "open" as const,
+          assignee: null,
+          waiverReason: null
+        }))
+    );
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { mergeIssueStates } from "./qaIssues";
+import type { Asset, QaIssue, QaIssueState } from "./types";
+
+const asset = (id: string, version = 1): Asset => ({
+  id,
+  name: `Asset ${id}`,
+  region: "NSW",
+  type: "Pump",
+  status: "Active",
+  latitude: -33.5,
+  longitude: 151.25,
+  version,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-02T00:00:00.000Z"
+});
+
+const issue = (assetId: string, relatedAssetIds?: string[]): QaIssue => ({
+  id: `DUPLICATE_POINT:${assetId}`,
+  code: "DUPLICATE_POINT",
+  severity: "error",
+  assetId,
+  region: "NSW",
+  type: "Pump",
+  message: "Shares coordinates.",
+  ...(relatedAssetIds ? { relatedAssetIds } : {}),
+  status: "open",
+  assignee: null,
+  waiverReason: null
+});
+
+const state = (assetId: string, changes: Partial<QaIssueState>): QaIssueState => ({
+  id: `DUPLICATE_POINT:${assetId}`,
+  code: "DUPLICATE_POINT",
+  assetId,
+  status: "open",
+  assignee: null,
+  waiverReason: null,
+  assetVersion: 1,
+  updatedBy: "admin",
+  updatedAt: "2024-02-01T00:00:00.000Z",
+  ...changes
+});
+
+const waived = (relatedAssetVersions: Record<string, number>) =>
+  state("A1", { status: "waived", waiverReason: "Co-located pumps", relatedAssetVersions });
+
+describe("mergeIssueStates", () => {
+  it("reopens a resolved issue that is detected again", () => {
+    const merged = mergeIssueStates([issue("A1")], [state("A1", { status: "resolved" })], [asset("A1")], { includeWaived: false });
+    expect(merged.issues.map((item) => item.status)).toEqual(["open"]);
+    expect(merged.reopened).toEqual(["DUPLICATE_POINT:A1"]);
+  });
+
+  it("keeps assignments and leaves open states alone", () => {
+    const merged = mergeIssueStates(
+      [issue("A1"), issue("A2")],
+      [state("A1", { status: "assigned", assignee: "user" }), state("A2", {})],
+      [asset("A1"), asset("A2")],
+      { includeWaived: false }
+    );
+    expect(merged.issues.map((item) => [item.status, item.assignee])).toEqual([["assigned", "user"], ["open", null]]);
+    expect(merged.reopened).toEqual([]);
+  });
+
+  it("holds a duplicate waiver while the asset and the assets it was found with are unchanged", () => {
+    const records = [asset("A1"), asset("A2", 3)];
+    const hidden = mergeIssueStates([issue("A1", ["A2"])], [waived({ A2: 3 })], records, { includeWaived: false });
+    expect(hidden).toEqual({ issues: [], reopened: [] });
+    const listed = mergeIssueStates([issue("A1", ["A2"])], [waived({ A2: 3 })], records, { includeWaived: true });
+    expect(listed.issues[0]).toMatchObject({ status: "waived", waiverReason: "Co-located pumps" });
+  });
+
+  it("lapses a duplicate waiver when the other asset is edited or a new duplicate appears", () => {
+    const edited = mergeIssueStates([issue("A1", ["A2"])], [waived({ A2: 3 })], [asset("A1"), asset("A2", 4)], {
+      includeWaived: false
+    });
+    expect(edited.issues.map((item) => item.status)).toEqual(["open"]);
+    expect(edited.reopened).toEqual(["DUPLICATE_POINT:A1"]);
+
+    const joined = mergeIssueStates([issue("A1", ["A2", "A3"])], [waived({ A2: 3 })], [asset("A1"), asset("A2", 3), asset("A3")], {
+      includeWaived: false
+    });
+    expect(joined.reopened).toEqual(["DUPLICATE_POINT:A1"]);
+  });
+
+  it("lapses a waiver when its own asset is edited", () => {
+    const merged = mergeIssueStates([issue("A1")], [state("A1", { status: "waived", waiverReason: "ok" })], [asset("A1", 2)], {
+      includeWaived: true
+    });
+    expect(merged.issues[0].status).toBe("open");
+    expect(merged.reopened).toEqual(["DUPLICATE_POINT:A1"]);
+  });
+});
@@ -0,0 +1,149 @@
+import { getDb } from "./db";
+import { isQaRuleId, qaIssueId } from "./qa";
+import type { Asset, QaIssue, QaIssueState, QaIssueStatus, QaRuleId } from "./types";
+import { findUser } from "./users";
+
+export const QA_ISSUE_STATUSES: QaIssueStatus[] = ["open", "assigned", "resolved", "waived"];
+
+export class QaIssueError extends Error {}
+
+type QaIssueStateDocument = QaIssueState & { _id?: unknown };
+
+async function qaIssueStatesCollection() {
+  const db = await getDb();
+  return db.collection<QaIssueStateDocument>("qa_issue_states");
+}
+
+export async function ensureQaIssueIndexes(): Promise<void> {
+  const collection = await qaIssueStatesCollection();
+  await collection.createIndex({ id: 1 }, { unique: true });
+  await collection.createIndex({ status: 1, assignee: 1 });
+}
+
+/** Splits `<code>:<assetId>`; asset ids may themselves contain colons. */
+export function parseQaIssueId(id: string): { code: QaRuleId; assetId: string } | null {
+  const separator = id.indexOf(":");
+  if (separator < 0) return null;
+  const code = id.slice(0, separator);
+  const assetId = id.slice(separator + 1);
+  if (!isQaRuleId(code) || !assetId) return null;
+  return { code, assetId };
+}
+
+// A waiver covers the asset, and for the duplicate rules the assets it was found with, as they were when
+// it was given. A new duplicate lapses it; one left out of a filtered run does not.
+function waiverHolds(state: QaIssueState, issue: QaIssue, versionById: Map<string, number>): boolean {
+  if (state.assetVersion !== versionById.get(issue.assetId)) return false;
+  const waived = state.relatedAssetVersions ?? {};
+  return (issue.relatedAssetIds ?? []).every((id) => waived[id] === versionById.get(id));
+}
+
+/**
+ * Merges stored workflow state into freshly detected issues. `reopened` lists
+ * the states that no longer apply: resolved issues that are detected again and
+ * waivers that have lapsed.
+ */
+export function mergeIssueStates(
+  issues: QaIssue[],
+  states: QaIssueState[],
+  records: Asset[],
+  options: { includeWaived: boolean }
+): { issues: QaIssue[]; reopened: string[] } {
+  const stateById = new Map(states.map((state) => [state.id, state]));
+  const versionById = new Map(records.map((asset) => [asset.id, asset.version]));
+  const reopened: string[] = [];
+
+  const merged = issues.flatMap((issue) => {
+    const state = stateById.get(issue.id);
+    if (!state || state.status === "open") return [issue];
+    if (state.status === "assigned") return [{ ...issue, status: "assigned" as const, assignee: state.assignee }];
+    if (state.status === "waived" && waiverHolds(state, issue, versionById)) {
+      return options.includeWaived ? [{ ...issue, status: "waived" as const, waiverReason: state.waiverReason }] : [];
+    }
+    reopened.push(issue.id);
+    return [issue];
+  });
+  return { issues: merged, reopened };
+}
+
+/**
+ * Applies stored workflow state to detected issues (see mergeIssueStates) and
+ * writes the issues it reopens back as `open`, so the issue list agrees with QA results.
+ */
+export async function applyIssueStates(
+  issues: QaIssue[],
+  records: Asset[],
+  options: { includeWaived: boolean }
+): Promise<QaIssue[]> {
+  if (issues.length === 0) return issues;
+  const collection = await qaIssueStatesCollection();
+  const states = await collection.find({ id: { $in: issues.map((issue) => issue.id) } }, { projection: { _id: 0 } }).toArray();
+  const merged = mergeIssueStates(issues, states, records, options);
+  if (merged.reopened.length > 0) {
+    await collection.updateMany(
+      { id: { $in: merged.reopened }, status: { $in: ["resolved", "waived"] } },
+      {
+        $set: { status: "open", assignee: null, waiverReason: null, updatedBy: "system", updatedAt: new Date().toISOString() },
+        $unset: { relatedAssetVersions: "" }
+      }
+    );
+  }
+  return merged.issues;
+}
+
+export async function listIssueStates(filters: { status?: string; assignee?: string }): Promise<QaIssueState[]> {
+  const query: Partial<Pick<QaIssueState, "status" | "assignee">> = {};
+  if (filters.status) {
+    if (!QA_ISSUE_STATUSES.includes(filters.status as QaIssueStatus)) {
+      throw new QaIssueError(`status must be one of ${QA_ISSUE_STATUSES.join(", ")}`);
+    }
+    query.status = filters.status as QaIssueStatus;
+  }
+  if (filters.assignee) query.assignee = filters.assignee;
+  const collection = await qaIssueStatesCollection();
+  return collection.find(query, { projection: { _id: 0 } }).sort({ updatedAt: -1 }).toArray();
+}
+
+/** `related` is the other assets a duplicate issue was found with; their versions are kept with a waiver. */
+export async function updateIssueState(
+  issue: { code: QaRuleId; asset: Asset; related: Asset[] },
+  changes: { status?: unknown; assignee?: unknown; waiverReason?: unknown },
+  updatedBy: string
+): Promise<QaIssueState> {
+  if (!QA_ISSUE_STATUSES.includes(changes.status as QaIssueStatus)) {
+    throw new QaIssueError(`status must be one of ${QA_ISSUE_STATUSES.join(", ")}`);
+  }
+  const status = changes.status as QaIssueStatus;
+
+  let assignee: string | null = null;
+  if (status === "assigned") {
+    assignee = typeof changes.assignee === "string" ? changes.assignee.trim() : "";
+    if (!assignee) throw new QaIssueError("assignee is required when assigning an issue");
+    const account = await findUser(assignee);
+    if (!account || account.disabled) throw new QaIssueError(`${assignee} is not an active user`);
+  }
+
+  let waiverReason: string | null = null;
+  if (status === "waived") {
+    waiverReason = typeof changes.waiverReason === "string" ? changes.waiverReason.trim() : "";
+    if (!waiverReason) throw new QaIssueError("waiverReason is required when waiving an issue");
+  }
+
+  const state: QaIssueState = {
+    id: qaIssueId(issue.code, issue.asset.id),
+    code: issue.code,
+    assetId: issue.asset.id,
+    status,
+    assignee,
+    waiverReason,
+    assetVersion: issue.asset.version,
+    ...(status === "waived" && issue.related.length > 0
+      ? { relatedAssetVersions: Object.fromEntries(issue.related.map((asset) => [asset.id, asset.version])) }
+      : {}),
+    updatedBy,
+    updatedAt: new Date().toISOString()
+  };
+  const collection = await qaIssueStatesCollection();
+  await collection.replaceOne({ id: state.id }, { ...state }, { upsert: true });
+  return state;
+}
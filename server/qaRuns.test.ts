@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetMemoryDb } from "./fixtures/memoryDb";
+import { diffQaRuns, findQaRun, listQaRuns, saveQaRun } from "./qaRuns";
+import type { QaIssue, QaRuleId, QaSeverity } from "./types";
+
+vi.mock("./db", () => import("./fixtures/memoryDb"));
+
+beforeEach(() => resetMemoryDb());
+
+const issue = (code: QaRuleId, assetId: string, severity: QaSeverity = "error"): QaIssue => ({
+  id: `${code}:${assetId}`,
+  code,
+  severity,
+  assetId,
+  region: "NSW",
+  type: "Pump",
+  message: "Found.",
+  status: "open",
+  assignee: null,
+  waiverReason: null
+});
+
+const details = { ranBy: "admin", query: {}, within: false, assetCount: 10 };
+
+describe("saveQaRun", () => {
+  it("counts issues by severity and rule", async () => {
+    const run = await saveQaRun(
+      [issue("MISSING_COORDINATES", "A1"), issue("DUPLICATE_NAME", "A2", "warning"), issue("DUPLICATE_NAME", "A3", "warning")],
+      details
+    );
+    expect(run).toMatchObject({
+      ranBy: "admin",
+      assetCount: 10,
+      issueCount: 3,
+      counts: { error: 1, warning: 2, info: 0 },
+      ruleCounts: { MISSING_COORDINATES: 1, DUPLICATE_NAME: 2 }
+    });
+    expect(await findQaRun(run.id)).toEqual(run);
+  });
+
+  it("keeps only the filters that narrow what was checked", async () => {
+    const query = { region: " NSW ", search: "", sort: "name", limit: "50", "attr.material": "PVC", includeArchived: "true" };
+    const run = await saveQaRun([], { ...details, query, within: true });
+    expect(run.scope).toEqual({ region: "NSW", includeArchived: "true", "attr.material": "PVC", within: "polygon" });
+  });
+});
+
+describe("listQaRuns", () => {
+  it("lists runs newest first without their issues", async () => {
+    vi.useFakeTimers({ now: new Date("2024-05-01T00:00:00.000Z") });
+    await saveQaRun([issue("MISSING_FIELDS", "A1")], details);
+    vi.setSystemTime(new Date("2024-05-02T00:00:00.000Z"));
+    const latest = await saveQaRun([], details);
+    vi.useRealTimers();
+    const runs = await listQaRuns(10);
+    expect(runs.map((run) => run.id)[0]).toBe(latest.id);
+    expect(runs[1]).not.toHaveProperty("issues");
+    expect(await listQaRuns(1)).toHaveLength(1);
+  });
+});
+
+describe("diffQaRuns", () => {
+  it("splits issues into added, resolved and persisting by rule and asset", async () => {
+    const from = await saveQaRun([issue("MISSING_COORDINATES", "A1"), issue("DUPLICATE_NAME", "A2", "warning")], details);
+    const to = await saveQaRun([issue("DUPLICATE_NAME", "A2", "info"), issue("STALE_RECORD", "A1", "info")], details);
+    const diff = diffQaRuns(from, to);
+    expect(diff.added.map((item) => item.id)).toEqual(["STALE_RECORD:A1"]);
+    expect(diff.resolved.map((item) => item.id)).toEqual(["MISSING_COORDINATES:A1"]);
+    expect(diff.persisting).toEqual([issue("DUPLICATE_NAME", "A2", "info")]);
+    expect(diff.from).not.toHaveProperty("issues");
+  });
+});
@@ -0,0 +1,97 @@
+import { randomUUID } from "node:crypto";
+import { getDb } from "./db";
+import { ATTRIBUTE_FILTER_PREFIX } from "./filters";
+import type { AssetQuery } from "./filters";
+import { qaIssueId } from "./qa";
+import type { QaIssue, QaRun, QaRunDiff, QaRunSummary } from "./types";
+
+// Query parameters that narrow a QA run, along with every attr.<name> filter; paging and sort do not change what is checked.
+const SCOPE_KEYS = ["search", "region", "type", "status", "bbox", "near", "radius", "includeArchived"];
+
+export const MAX_RUNS_LISTED = 100;
+
+type QaRunDocument = QaRun & { _id?: unknown };
+
+async function qaRunsCollection() {
+  const db = await getDb();
+  return db.collection<QaRunDocument>("qa_runs");
+}
+
+// Issues match across runs by rule and asset; runs saved before issues had ids are matched the same way.
+function issueKey(issue: QaIssue): string {
+  return qaIssueId(issue.code, issue.assetId);
+}
+
+export async function ensureQaRunIndexes(): Promise<void> {
+  const collection = await qaRunsCollection();
+  await collection.createIndex({ id: 1 }, { unique: true });
+  await collection.createIndex({ ranAt: -1 });
+}
+
+export async function saveQaRun(
+  issues: QaIssue[],
+  details: { ranBy: string; query: AssetQuery; within: boolean; assetCount: number }
+): Promise<QaRun> {
+  const scope: Record<string, string> = {};
+  const attributeKeys = Object.keys(details.query).filter((key) => key.startsWith(ATTRIBUTE_FILTER_PREFIX));
+  [...SCOPE_KEYS, ...attributeKeys].forEach((key) => {
+    const value = details.query[key]?.trim();
+    if (value) scope[key] = value;
+  });
+  if (details.within) scope.within = "polygon";
+
+  const counts = { error: 0, warning: 0, info: 0 };
+  const ruleCounts: QaRun["ruleCounts"] = {};
+  issues.forEach((issue) => {
+    counts[issue.severity] += 1;
+    ruleCounts[issue.code] = (ruleCounts[issue.code] ?? 0) + 1;
+  });
+
+  const run: QaRun = {
+    id: randomUUID(),
+    ranAt: new Date().toISOString(),
+    ranBy: details.ranBy,
+    scope,
+    assetCount: details.assetCount,
+    issueCount: issues.length,
+    counts,
+    ruleCounts,
+    issues
+  };
+  const collection = await qaRunsCollection();
+  await collection.insertOne({ ...run });
+  return run;
+}
+
+/** Newest first, without the issue lists. */
+export async function listQaRuns(limit: number): Promise<QaRunSummary[]> {
+  const collection = await qaRunsCollection();
+  return collection
+    .find({}, { projection: { _id: 0, issues: 0 } })
+    .sort({ ranAt: -1 })
+    .limit(Math.min(Math.max(limit, 1), MAX_RUNS_LISTED))
+    .toArray() as Promise<QaRunSummary[]>;
+}
+
+export async function findQaRun(id: string): Promise<QaRun | null> {
+  const collection = await qaRunsCollection();
+  return collection.findOne({ id }, { projection: { _id: 0 } });
+}
+
+function summarizeRun(run: QaRun): QaRunSummary {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { issues, ...summary } = run;
+  return summary;
+}
+
+export function diffQaRuns(from: QaRun, to: QaRun): QaRunDiff {
+  const before = new Set(from.issues.map(issueKey));
+  const after = new Set(to.issues.map(issueKey));
+  return {
+    from: summarizeRun(from),
+    to: summarizeRun(to),
+    added: to.issues.filter((issue) => !before.has(issueKey(issue))),
+    resolved: from.issues.filter((issue) => !after.has(issueKey(issue))),
+    persisting: to.issues.filter((issue) => before.has(issueKey(issue)))
+  };
+}
@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { memoryDocuments, resetMemoryDb } from "./fixtures/memoryDb";
+import {
+  createSession,
+  isSessionActive,
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  rotateRefreshToken,
+  SessionError
+} from "./sessions";
+
+vi.mock("./db", () => import("./fixtures/memoryDb"));
+
+beforeEach(() => resetMemoryDb());
+
+describe("refresh tokens", () => {
+  it("stores only a hash of the refresh token", async () => {
+    const { session, refreshToken } = await createSession("admin", "test");
+    expect(refreshToken.startsWith(`${session.id}.`)).toBe(true);
+    const [stored] = memoryDocuments("sessions");
+    expect(stored.refreshTokenHash).not.toContain(refreshToken.split(".")[1]);
+    expect(session).not.toHaveProperty("refreshTokenHash");
+  });
+
+  it("rotates the token on every refresh", async () => {
+    const created = await createSession("admin", "test");
+    const first = await rotateRefreshToken(created.refreshToken);
+    expect(first.refreshToken).not.toBe(created.refreshToken);
+    const second = await rotateRefreshToken(first.refreshToken);
+    expect(second.session.id).toBe(created.session.id);
+    expect(await isSessionActive(created.session.id)).toBe(true);
+  });
+
+  it("signs the session out when a rotated-out token is presented again", async () => {
+    const created = await createSession("admin", "test");
+    const next = await rotateRefreshToken(created.refreshToken);
+    await expect(rotateRefreshToken(created.refreshToken)).rejects.toThrow("Refresh token was already used; the session has been signed out");
+    expect(await isSessionActive(created.session.id)).toBe(false);
+    await expect(rotateRefreshToken(next.refreshToken)).rejects.toBeInstanceOf(SessionError);
+  });
+
+  it("refuses expired sessions and unknown tokens", async () => {
+    const created = await createSession("admin", "test");
+    memoryDocuments("sessions")[0].expiresAt = "2000-01-01T00:00:00.000Z";
+    await expect(rotateRefreshToken(created.refreshToken)).rejects.toThrow("Session has expired or was signed out");
+    expect(await isSessionActive(created.session.id)).toBe(false);
+    await expect(rotateRefreshToken("missing.token")).rejects.toBeInstanceOf(SessionError);
+  });
+});
+
+describe("logout", () => {
+  it("revokes one session so its tokens stop working", async () => {
+    const created = await createSession("admin", "test");
+    expect(await revokeSession(created.session.id)).toBe(true);
+    expect(await revokeSession(created.session.id)).toBe(false);
+    expect(await isSessionActive(created.session.id)).toBe(false);
+    await expect(rotateRefreshToken(created.refreshToken)).rejects.toThrow("Session has expired or was signed out");
+  });
+
+  it("only lets a user revoke their own sessions", async () => {
+    const other = await createSession("user", "test");
+    expect(await revokeSession(other.session.id, "admin")).toBe(false);
+    expect(await isSessionActive(other.session.id)).toBe(true);
+  });
+
+  it("signs a user out everywhere except the current session", async () => {
+    const current = await createSession("admin", "laptop");
+    await createSession("admin", "phone");
+    await createSession("admin", "tablet");
+    const someoneElse = await createSession("user", "desktop");
+    expect(await revokeUserSessions("admin", current.session.id)).toBe(2);
+    expect((await listActiveSessions("admin")).map((session) => session.userAgent)).toEqual(["laptop"]);
+    expect(await isSessionActive(someoneElse.session.id)).toBe(true);
+  });
+});
@@ -0,0 +1,140 @@
+import { createHash, randomBytes, randomUUID } from "node:crypto";
+import { getDb } from "./db";
+
+const REFRESH_TOKEN_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * One signed-in device. Access tokens carry the session id, so revoking the
+ * session cuts off every token issued for it on the next request.
+ */
+export interface Session {
+  id: string;
+  username: string;
+  userAgent: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+  refreshTokenHash: string;
+}
+
+export type PublicSession = Omit<Session, "refreshTokenHash">;
+
+export class SessionError extends Error {}
+
+type SessionDocument = Session & { _id?: unknown };
+
+async function sessionsCollection() {
+  const db = await getDb();
+  return db.collection<SessionDocument>("sessions");
+}
+
+function hashToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// Refresh tokens are "<session id>.<secret>"; only the hash of the whole token is stored.
+function newRefreshToken(sessionId: string): string {
+  return `${sessionId}.${randomBytes(32).toString("base64url")}`;
+}
+
+function toPublicSession(session: Session): PublicSession {
+  return {
+    id: session.id,
+    username: session.username,
+    userAgent: session.userAgent,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    revokedAt: session.revokedAt
+  };
+}
+
+export async function ensureSessionIndexes(): Promise<void> {
+  const collection = await sessionsCollection();
+  await collection.createIndex({ id: 1 }, { unique: true });
+  await collection.createIndex({ username: 1 });
+}
+
+export async function createSession(username: string, userAgent: string): Promise<{ session: PublicSession; refreshToken: string }> {
+  const collection = await sessionsCollection();
+  const now = new Date();
+  // Drop sessions that can no longer be refreshed so the collection does not grow forever.
+  await collection.deleteMany({ expiresAt: { $lt: now.toISOString() } });
+
+  const id = randomUUID();
+  const refreshToken = newRefreshToken(id);
+  const session: Session = {
+    id,
+    username,
+    userAgent,
+    createdAt: now.toISOString(),
+    lastUsedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + REFRESH_TOKEN_TTL_MS).toISOString(),
+    revokedAt: null,
+    refreshTokenHash: hashToken(refreshToken)
+  };
+  await collection.insertOne({ ...session });
+  return { session: toPublicSession(session), refreshToken };
+}
+
+/**
+ * Swaps a refresh token for a new one. Presenting a token that was already
+ * rotated out means it leaked, so the whole session is revoked.
+ */
+export async function rotateRefreshToken(refreshToken: string): Promise<{ session: PublicSession; refreshToken: string }> {
+  const sessionId = refreshToken.split(".")[0];
+  const collection = await sessionsCollection();
+  const session = await collection.findOne({ id: sessionId }, { projection: { _id: 0 } });
+  const now = new Date().toISOString();
+  if (!session || session.revokedAt || session.expiresAt < now) {
+    throw new SessionError("Session has expired or was signed out");
+  }
+  if (session.refreshTokenHash !== hashToken(refreshToken)) {
+    await revokeSession(session.id);
+    throw new SessionError("Refresh token was already used; the session has been signed out");
+  }
+
+  const nextToken = newRefreshToken(session.id);
+  const result = await collection.updateOne(
+    { id: session.id, refreshTokenHash: session.refreshTokenHash },
+    { $set: { refreshTokenHash: hashToken(nextToken), lastUsedAt: now } }
+  );
+  if (result.matchedCount === 0) {
+    throw new SessionError("Refresh token was already used");
+  }
+  return { session: toPublicSession({ ...session, lastUsedAt: now }), refreshToken: nextToken };
+}
+
+export async function isSessionActive(sessionId: string): Promise<boolean> {
+  const collection = await sessionsCollection();
+  const session = await collection.findOne({ id: sessionId }, { projection: { revokedAt: 1, expiresAt: 1 } });
+  return Boolean(session && !session.revokedAt && session.expiresAt >= new Date().toISOString());
+}
+
+export async function listActiveSessions(username: string): Promise<PublicSession[]> {
+  const collection = await sessionsCollection();
+  const sessions = await collection
+    .find({ username, revokedAt: null, expiresAt: { $gte: new Date().toISOString() } }, { projection: { _id: 0 } })
+    .sort({ lastUsedAt: -1 })
+    .toArray();
+  return sessions.map(toPublicSession);
+}
+
+/** Returns false when there was no active session with that id. */
+export async function revokeSession(sessionId: string, username?: string): Promise<boolean> {
+  const collection = await sessionsCollection();
+  const filter = username ? { id: sessionId, username, revokedAt: null } : { id: sessionId, revokedAt: null };
+  const result = await collection.updateOne(filter, { $set: { revokedAt: new Date().toISOString() } });
+  return result.modifiedCount > 0;
+}
+
+/** Signs a user out everywhere, optionally keeping the session making the request. */
+export async function revokeUserSessions(username: string, exceptSessionId?: string): Promise<number> {
+  const collection = await sessionsCollection();
+  const filter = exceptSessionId
+    ? { username, revokedAt: null, id: { $ne: exceptSessionId } }
+    : { username, revokedAt: null };
+  const result = await collection.updateMany(filter, { $set: { revokedAt: new Date().toISOString() } });
+  return result.modifiedCount;
+}
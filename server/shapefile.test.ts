@@ -0,0 +1,209 @@
+import type { Position } from "geojson";
+import { describe, expect, it } from "vitest";
+import type { AttributeColumn } from "./assetTypes";
+import { readZip } from "./fixtures/readZip";
+import { ringArea } from "./geometry";
+import { toShapefileZip } from "./shapefile";
+import type { Asset } from "./types";
+
+const asset = (id: string, overrides: Partial<Asset> = {}): Asset => ({
+  id,
+  name: `Asset ${id}`,
+  region: "NSW",
+  type: "Pump",
+  status: "Active",
+  latitude: null,
+  longitude: null,
+  version: 1,
+  createdAt: "2024-01-01T00:00:00.000Z",
+  updatedAt: "2024-01-02T00:00:00.000Z",
+  ...overrides
+});
+
+type Box = number[];
+
+const readBox = (buffer: Buffer, offset: number): Box => [0, 1, 2, 3].map((i) => buffer.readDoubleLE(offset + i * 8));
+
+// Reads every record of a .shp, checking the main header against the file and each .shx entry
+// against the record it points at.
+function readShp(shp: Buffer, shx: Buffer) {
+  [shp, shx].forEach((file) => {
+    expect(file.readInt32BE(0)).toBe(9994);
+    expect(file.readInt32BE(24) * 2).toBe(file.length);
+    expect(file.readInt32LE(28)).toBe(1000);
+  });
+  expect(shx.subarray(32, 100)).toEqual(shp.subarray(32, 100));
+  const shapeType = shp.readInt32LE(32);
+  const records: { parts: Position[][]; box?: Box }[] = [];
+  let offset = 100;
+  for (let i = 0; offset < shp.length; i += 1) {
+    expect(shp.readInt32BE(offset)).toBe(i + 1);
+    const length = shp.readInt32BE(offset + 4) * 2;
+    expect(shx.readInt32BE(100 + i * 8) * 2).toBe(offset);
+    expect(shx.readInt32BE(100 + i * 8 + 4) * 2).toBe(length);
+    const content = shp.subarray(offset + 8, offset + 8 + length);
+    expect(content.readInt32LE(0)).toBe(shapeType);
+    if (shapeType === 1) {
+      records.push({ parts: [[[content.readDoubleLE(4), content.readDoubleLE(12)]]] });
+    } else {
+      const partCount = content.readInt32LE(36);
+      const pointCount = content.readInt32LE(40);
+      expect(content.length).toBe(44 + partCount * 4 + pointCount * 16);
+      const points = Array.from({ length: pointCount }, (_, p) => {
+        const at = 44 + partCount * 4 + p * 16;
+        return [content.readDoubleLE(at), content.readDoubleLE(at + 8)];
+      });
+      const starts = Array.from({ length: partCount }, (_, p) => content.readInt32LE(44 + p * 4));
+      const parts = starts.map((start, p) => points.slice(start, starts[p + 1] ?? pointCount));
+      records.push({ parts, box: readBox(content, 4) });
+    }
+    offset += 8 + length;
+  }
+  expect(shx.length).toBe(100 + records.length * 8);
+  return { shapeType, box: readBox(shp, 36), records };
+}
+
+function readDbf(dbf: Buffer) {
+  expect(dbf[0]).toBe(0x03);
+  const count = dbf.readUInt32LE(4);
+  const headerLength = dbf.readUInt16LE(8);
+  const recordLength = dbf.readUInt16LE(10);
+  expect(dbf[headerLength - 1]).toBe(0x0d);
+  expect(dbf.length).toBe(headerLength + count * recordLength + 1);
+  expect(dbf[dbf.length - 1]).toBe(0x1a);
+  const fields = Array.from({ length: (headerLength - 33) / 32 }, (_, i) => {
+    const at = 32 + i * 32;
+    return {
+      name: dbf.toString("ascii", at, at + 11).replace(/\0+$/, ""),
+      type: String.fromCharCode(dbf[at + 11]),
+      width: dbf[at + 16],
+      decimals: dbf[at + 17]
+    };
+  });
+  expect(fields.reduce((sum, field) => sum + field.width, 1)).toBe(recordLength);
+  const rows = Array.from({ length: count }, (_, r) => {
+    let offset = headerLength + r * recordLength;
+    expect(dbf[offset]).toBe(0x20);
+    offset += 1;
+    const row: Record<string, string> = {};
+    fields.forEach((field) => {
+      row[field.name] = dbf.toString("utf8", offset, offset + field.width).trim();
+      offset += field.width;
+    });
+    return row;
+  });
+  return { fields, rows };
+}
+
+function readShapefile(zip: Buffer) {
+  const files = new Map(readZip(zip).map((file) => [file.name, file.data]));
+  const layer = (suffix: string) => {
+    const base = `assets_${suffix}`;
+    if (!files.has(`${base}.shp`)) return null;
+    expect(files.get(`${base}.prj`)?.toString("ascii")).toMatch(/^GEOGCS\["GCS_WGS_1984"/);
+    expect(files.get(`${base}.cpg`)?.toString("ascii")).toBe("UTF-8");
+    return { ...readShp(files.get(`${base}.shp`)!, files.get(`${base}.shx`)!), dbf: readDbf(files.get(`${base}.dbf`)!) };
+  };
+  return { names: [...files.keys()], points: layer("points"), lines: layer("lines"), polygons: layer("polygons") };
+}
+
+describe("toShapefileZip", () => {
+  const exterior = [[150, -34], [151, -34], [151, -33], [150, -33], [150, -34]];
+  const hole = [[150.25, -33.75], [150.25, -33.25], [150.75, -33.25], [150.75, -33.75], [150.25, -33.75]];
+  const records = [
+    asset("p1", { latitude: -33.5, longitude: 151.25 }),
+    asset("p2", { latitude: -35, longitude: 149 }),
+    asset("l1", { geometry: { type: "LineString", coordinates: [[150, -34], [150.5, -33.5], [151, -33]] } }),
+    asset("g1", { geometry: { type: "Polygon", coordinates: [exterior, hole] } }),
+    asset("n1")
+  ];
+
+  it("splits assets into point, line and polygon layers with matching .shp, .shx and .dbf", () => {
+    const shapefile = readShapefile(toShapefileZip(records, []));
+    expect(shapefile.names).toEqual(
+      ["points", "lines", "polygons"].flatMap((suffix) => ["shp", "shx", "dbf", "prj", "cpg"].map((ext) => `assets_${suffix}.${ext}`))
+    );
+
+    const points = shapefile.points!;
+    expect(points.shapeType).toBe(1);
+    expect(points.records.map((record) => record.parts[0][0])).toEqual([[151.25, -33.5], [149, -35]]);
+    expect(points.box).toEqual([149, -35, 151.25, -33.5]);
+    expect(points.dbf.rows.map((row) => row.id)).toEqual(["p1", "p2"]);
+    expect(points.dbf.rows[0]).toMatchObject({ latitude: "-33.500000", longitude: "151.250000", status: "Active" });
+
+    const lines = shapefile.lines!;
+    expect(lines.shapeType).toBe(3);
+    expect(lines.records[0].parts).toEqual([[[150, -34], [150.5, -33.5], [151, -33]]]);
+    expect(lines.records[0].box).toEqual([150, -34, 151, -33]);
+    expect(lines.dbf.rows.map((row) => row.id)).toEqual(["l1"]);
+  });
+
+  it("writes polygon outer rings clockwise and holes counter-clockwise", () => {
+    const polygons = readShapefile(toShapefileZip(records, [])).polygons!;
+    expect(polygons.shapeType).toBe(5);
+    const [outer, inner] = polygons.records[0].parts;
+    expect(ringArea(outer)).toBeLessThan(0);
+    expect(ringArea(inner)).toBeGreaterThan(0);
+    expect(new Set(outer.map(String))).toEqual(new Set(exterior.map(String)));
+    expect(new Set(inner.map(String))).toEqual(new Set(hole.map(String)));
+    expect(polygons.box).toEqual([150, -34, 151, -33]);
+  });
+
+  it("writes an empty point layer when no asset has a location", () => {
+    const shapefile = readShapefile(toShapefileZip([asset("n1")], []));
+    expect(shapefile.lines).toBeNull();
+    expect(shapefile.points!.records).toEqual([]);
+    expect(shapefile.points!.box).toEqual([0, 0, 0, 0]);
+    expect(shapefile.points!.dbf.rows).toEqual([]);
+  });
+
+  it("types attribute fields and keeps field names unique within ten characters", () => {
+    const columns: AttributeColumn[] = [
+      { name: "flowRate", label: "Flow rate", dataType: "number" },
+      { name: "installed", label: "Installed", dataType: "date" },
+      { name: "potable", label: "Potable", dataType: "boolean" },
+      { name: "manufacturerName", label: "Manufacturer", dataType: "text" },
+      { name: "manufacturerCode", label: "Manufacturer code", dataType: "text" }
+    ];
+    const longName = "Ü".repeat(200);
+    const attributed = [
+      asset("p1", {
+        latitude: -33.5,
+        longitude: 151.25,
+        attributes: { flowRate: 12.125, installed: "2023-07-04", potable: true, manufacturerName: longName, manufacturerCode: "X1" }
+      }),
+      asset("p2", { latitude: -35, longitude: 149, attributes: { flowRate: 3 } })
+    ];
+    const { fields, rows } = readShapefile(toShapefileZip(attributed, columns)).points!.dbf;
+    expect(fields.slice(-5)).toEqual([
+      { name: "flowRate", type: "N", width: 18, decimals: 3 },
+      { name: "installed", type: "D", width: 8, decimals: 0 },
+      { name: "potable", type: "L", width: 1, decimals: 0 },
+      { name: "manufactur", type: "C", width: 254, decimals: 0 },
+      { name: "manufact_1", type: "C", width: 2, decimals: 0 }
+    ]);
+    expect(fields.find((field) => field.name === "createdAt")).toMatchObject({ type: "C", width: 24 });
+    expect(rows[0]).toMatchObject({ flowRate: "12.125", installed: "20230704", potable: "T", manufact_1: "X1" });
+    // 254 bytes holds 127 two-byte characters; the value is cut without splitting one.
+    expect(rows[0].manufactur).toBe("Ü".repeat(127));
+    expect(rows[1]).toMatchObject({ flowRate: "3.000", installed: "", potable: "?", manufactur: "" });
+  });
+
+  it("widens numeric fields to their longest value and stars out values past the DBF limit", () => {
+    const columns: AttributeColumn[] = [{ name: "volume", label: "Volume", dataType: "number" }];
+    const located = { latitude: -33.5, longitude: 151.25 };
+    const numbered = [
+      asset("p1", { ...located, attributes: { volume: 123456789012345 } }),
+      asset("p2", { ...located, attributes: { volume: -0.125 } }),
+      asset("p3", { ...located, attributes: { volume: 1e30 } }),
+      asset("p4", { ...located, attributes: { volume: 123456789012345678 } })
+    ];
+    const { fields, rows } = readShapefile(toShapefileZip(numbered, columns)).points!.dbf;
+    expect(fields.at(-1)).toEqual({ name: "volume", type: "N", width: 20, decimals: 3 });
+    expect(rows.map((row) => row.volume)).toEqual(["123456789012345.000", "-0.125", "*".repeat(20), "*".repeat(20)]);
+
+    const small = readShapefile(toShapefileZip([asset("p1", { ...located, attributes: { volume: 42 } })], columns)).points!.dbf;
+    expect(small.fields.at(-1)).toMatchObject({ width: 18, decimals: 0 });
+    expect(small.rows[0].volume).toBe("42");
+  });
+});
@@ -0,0 +1,289 @@
+import type { Position } from "geojson";
+import type { AttributeColumn } from "./assetTypes";
+import { assetGeometry, ringArea } from "./geometry";
+import type { Asset, AssetGeometry } from "./types";
+import { createZip } from "./zip";
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const SHAPE_POLYGON = 5;
+
+const DBF_MAX_NAME_LENGTH = 10;
+const DBF_MAX_CHARACTER_WIDTH = 254;
+const DBF_MAX_NUMERIC_WIDTH = 20;
+
+interface DbfColumn {
+  name: string;
+  numeric?: { width: number; decimals: number };
+  /** D fields hold YYYYMMDD, L fields T or F. */
+  type?: "D" | "L";
+  value(asset: Asset): string | number | boolean | null;
+}
+
+const DBF_COLUMNS: DbfColumn[] = [
+  { name: "id", value: (asset) => asset.id },
+  { name: "name", value: (asset) => asset.name },
+  { name: "region", value: (asset) => asset.region },
+  { name: "type", value: (asset) => asset.type },
+  { name: "status", value: (asset) => asset.status },
+  { name: "latitude", numeric: { width: 12, decimals: 6 }, value: (asset) => asset.latitude },
+  { name: "longitude", numeric: { width: 12, decimals: 6 }, value: (asset) => asset.longitude },
+  { name: "createdAt", value: (asset) => asset.createdAt },
+  { name: "updatedAt", value: (asset) => asset.updatedAt },
+  { name: "aliases", value: (asset) => (asset.aliases ?? []).join(",") }
+];
+
+// Attribute numbers keep as many decimals as the most precise value, up to six.
+function attributeDbfColumn(column: AttributeColumn, records: Asset[]): DbfColumn {
+  const value = (asset: Asset) => asset.attributes?.[column.name] ?? null;
+  if (column.dataType === "date") return { name: column.name, type: "D", value };
+  if (column.dataType === "boolean") return { name: column.name, type: "L", value };
+  if (column.dataType === "number") {
+    const decimals = Math.min(
+      6,
+      Math.max(0, ...records.map((asset) => (String(value(asset) ?? "").split(".")[1] ?? "").length))
+    );
+    return { name: column.name, numeric: { width: 18, decimals }, value };
+  }
+  return { name: column.name, value: (asset) => (value(asset) === null ? null : String(value(asset))) };
+}
+
+// Shapefiles hold a single shape type, so assets are split into one layer per kind.
+interface ShapeLayer {
+  suffix: "points" | "lines" | "polygons";
+  shapeType: number;
+  features: { asset: Asset; parts: Position[][] }[];
+}
+
+/**
+ * DBF field names are at most 10 ASCII characters. Longer names are cut and,
+ * when that makes two names equal, the later one ends in `_1`, `_2`, ...
+ */
+function dbfFieldNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map((name) => {
+    const base = name.replace(/[^A-Za-z0-9_]/g, "_").slice(0, DBF_MAX_NAME_LENGTH) || "field";
+    let candidate = base;
+    for (let n = 1; used.has(candidate.toUpperCase()); n += 1) {
+      const suffix = `_${n}`;
+      candidate = base.slice(0, DBF_MAX_NAME_LENGTH - suffix.length) + suffix;
+    }
+    used.add(candidate.toUpperCase());
+    return candidate;
+  });
+}
+
+// Cuts UTF-8 text to a byte length without splitting a character.
+function truncateUtf8(value: string, maxBytes: number): Buffer {
+  const bytes = Buffer.from(value, "utf8");
+  if (bytes.length <= maxBytes) return bytes;
+  let end = maxBytes;
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end -= 1;
+  return bytes.subarray(0, end);
+}
+
+// Shapefile polygons want clockwise outer rings and counter-clockwise holes, the reverse of GeoJSON.
+function orientRings(rings: Position[][]): Position[][] {
+  return rings.map((ring, index) => {
+    const clockwise = ringArea(ring) < 0;
+    return clockwise === (index === 0) ? ring : [...ring].reverse();
+  });
+}
+
+function shapeParts(geometry: AssetGeometry): Position[][] {
+  switch (geometry.type) {
+    case "Point":
+      return [[geometry.coordinates]];
+    case "LineString":
+      return [geometry.coordinates];
+    case "Polygon":
+      return orientRings(geometry.coordinates);
+    case "MultiPolygon":
+      return geometry.coordinates.flatMap(orientRings);
+  }
+}
+
+function buildLayers(records: Asset[]): ShapeLayer[] {
+  const layers: ShapeLayer[] = [
+    { suffix: "points", shapeType: SHAPE_POINT, features: [] },
+    { suffix: "lines", shapeType: SHAPE_POLYLINE, features: [] },
+    { suffix: "polygons", shapeType: SHAPE_POLYGON, features: [] }
+  ];
+  records.forEach((asset) => {
+    const geometry = assetGeometry(asset);
+    if (!geometry) return;
+    const layer = geometry.type === "Point" ? layers[0] : geometry.type === "LineString" ? layers[1] : layers[2];
+    layer.features.push({ asset, parts: shapeParts(geometry) });
+  });
+  const used = layers.filter((layer) => layer.features.length > 0);
+  return used.length > 0 ? used : [layers[0]];
+}
+
+type Box = [number, number, number, number];
+
+function boundingBox(points: Position[]): Box {
+  if (points.length === 0) return [0, 0, 0, 0];
+  const xs = points.map((point) => point[0]);
+  const ys = points.map((point) => point[1]);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+}
+
+function writeBox(buffer: Buffer, offset: number, box: Box): void {
+  box.forEach((value, index) => buffer.writeDoubleLE(value, offset + index * 8));
+}
+
+function shapeContent(shapeType: number, parts: Position[][]): Buffer {
+  if (shapeType === SHAPE_POINT) {
+    const content = Buffer.alloc(20);
+    content.writeInt32LE(SHAPE_POINT, 0);
+    content.writeDoubleLE(parts[0][0][0], 4);
+    content.writeDoubleLE(parts[0][0][1], 12);
+    return content;
+  }
+  const points = parts.flat();
+  const content = Buffer.alloc(44 + parts.length * 4 + points.length * 16);
+  content.writeInt32LE(shapeType, 0);
+  writeBox(content, 4, boundingBox(points));
+  content.writeInt32LE(parts.length, 36);
+  content.writeInt32LE(points.length, 40);
+  let start = 0;
+  parts.forEach((part, index) => {
+    content.writeInt32LE(start, 44 + index * 4);
+    start += part.length;
+  });
+  const pointsOffset = 44 + parts.length * 4;
+  points.forEach(([x, y], index) => {
+    content.writeDoubleLE(x, pointsOffset + index * 16);
+    content.writeDoubleLE(y, pointsOffset + index * 16 + 8);
+  });
+  return content;
+}
+
+// The 100-byte header shared by .shp and .shx; lengths are in 16-bit words.
+function mainHeader(shapeType: number, byteLength: number, box: Box): Buffer {
+  const header = Buffer.alloc(100);
+  header.writeInt32BE(9994, 0);
+  header.writeInt32BE(byteLength / 2, 24);
+  header.writeInt32LE(1000, 28);
+  header.writeInt32LE(shapeType, 32);
+  writeBox(header, 36, box);
+  return header;
+}
+
+function writeShpAndShx(layer: ShapeLayer): { shp: Buffer; shx: Buffer } {
+  const contents = layer.features.map((feature) => shapeContent(layer.shapeType, feature.parts));
+  const box = boundingBox(layer.features.flatMap((feature) => feature.parts.flat()));
+  const records: Buffer[] = [];
+  const index = Buffer.alloc(contents.length * 8);
+  let offset = 100;
+  contents.forEach((content, i) => {
+    const recordHeader = Buffer.alloc(8);
+    recordHeader.writeInt32BE(i + 1, 0);
+    recordHeader.writeInt32BE(content.length / 2, 4);
+    records.push(recordHeader, content);
+    index.writeInt32BE(offset / 2, i * 8);
+    index.writeInt32BE(content.length / 2, i * 8 + 4);
+    offset += 8 + content.length;
+  });
+  return {
+    shp: Buffer.concat([mainHeader(layer.shapeType, offset, box), ...records]),
+    shx: Buffer.concat([mainHeader(layer.shapeType, 100 + index.length, box), index])
+  };
+}
+
+// toFixed switches to exponent notation from 1e21, which a numeric field cannot hold.
+function numericText(value: number, decimals: number): string | null {
+  return Number.isFinite(value) && Math.abs(value) < 1e21 ? value.toFixed(decimals) : null;
+}
+
+function writeDbf(assets: Asset[], columns: DbfColumn[]): Buffer {
+  const names = dbfFieldNames(columns.map((column) => column.name));
+  const fields = columns.map((column, i) => {
+    if (column.numeric) {
+      // Numeric fields widen to the longest value, up to the DBF limit.
+      const { decimals } = column.numeric;
+      const longest = Math.max(
+        column.numeric.width,
+        ...assets.map((asset) => {
+          const value = column.value(asset);
+          return typeof value === "number" ? (numericText(value, decimals)?.length ?? 0) : 0;
+        })
+      );
+      return { column, name: names[i], type: "N", width: Math.min(longest, DBF_MAX_NUMERIC_WIDTH), decimals };
+    }
+    if (column.type) return { column, name: names[i], type: column.type, width: column.type === "D" ? 8 : 1, decimals: 0 };
+    // Character fields are as wide as the longest value, up to the DBF limit; longer values are cut.
+    const longest = Math.max(1, ...assets.map((asset) => Buffer.byteLength(String(column.value(asset) ?? ""), "utf8")));
+    return { column, name: names[i], type: "C", width: Math.min(longest, DBF_MAX_CHARACTER_WIDTH), decimals: 0 };
+  });
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.width, 0);
+
+  const header = Buffer.alloc(headerLength);
+  const today = new Date();
+  header.writeUInt8(0x03, 0);
+  header.writeUInt8(today.getFullYear() - 1900, 1);
+  header.writeUInt8(today.getMonth() + 1, 2);
+  header.writeUInt8(today.getDate(), 3);
+  header.writeUInt32LE(assets.length, 4);
+  header.writeUInt16LE(headerLength, 8);
+  header.writeUInt16LE(recordLength, 10);
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32;
+    header.write(field.name, offset, DBF_MAX_NAME_LENGTH, "ascii");
+    header.write(field.type, offset + 11, 1, "ascii");
+    header.writeUInt8(field.width, offset + 16);
+    header.writeUInt8(field.decimals, offset + 17);
+  });
+  header.writeUInt8(0x0d, headerLength - 1);
+
+  const body = Buffer.alloc(assets.length * recordLength + 1, 0x20);
+  assets.forEach((asset, row) => {
+    let offset = row * recordLength + 1;
+    fields.forEach((field) => {
+      const value = field.column.value(asset);
+      if (field.type === "N") {
+        // Numbers are right-aligned and an empty value stays blank. A value that does not fit
+        // fills the field with asterisks, as dBASE does, rather than being cut to another number.
+        if (typeof value === "number") {
+          const text = numericText(value, field.decimals);
+          if (text !== null && text.length <= field.width) body.write(text, offset + field.width - text.length, "ascii");
+          else body.write("*".repeat(field.width), offset, "ascii");
+        }
+      } else if (field.type === "D") {
+        if (typeof value === "string") body.write(value.replaceAll("-", ""), offset, 8, "ascii");
+      } else if (field.type === "L") {
+        body.write(typeof value === "boolean" ? (value ? "T" : "F") : "?", offset, 1, "ascii");
+      } else {
+        truncateUtf8(String(value ?? ""), field.width).copy(body, offset);
+      }
+      offset += field.width;
+    });
+  });
+  body.writeUInt8(0x1a, body.length - 1);
+  return Buffer.concat([header, body]);
+}
+
+/**
+ * A zipped ESRI shapefile in WGS 84 with `assets_points`, `assets_lines` and
+ * `assets_polygons` layers (each only when it has features). Attributes are
+ * UTF-8, as the .cpg says.
+ */
+export function toShapefileZip(records: Asset[], attributeColumns: AttributeColumn[]): Buffer {
+  const columns = [...DBF_COLUMNS, ...attributeColumns.map((column) => attributeDbfColumn(column, records))];
+  const entries = buildLayers(records).flatMap((layer) => {
+    const base = `assets_${layer.suffix}`;
+    const { shp, shx } = writeShpAndShx(layer);
+    return [
+      { name: `${base}.shp`, data: shp },
+      { name: `${base}.shx`, data: shx },
+      { name: `${base}.dbf`, data: writeDbf(layer.features.map((feature) => feature.asset), columns) },
+      { name: `${base}.prj`, data: Buffer.from(WGS84_PRJ, "ascii") },
+      { name: `${base}.cpg`, data: Buffer.from("UTF-8", "ascii") }
+    ];
+  });
+  return createZip(entries);
+}
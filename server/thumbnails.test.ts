@@ -0,0 +1,151 @@
+import { readFileSync } from "node:fs";
+import { crc32, inflateSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { createThumbnail } from "./thumbnails";
+
+// The fixtures are 64x48 (and one 1024x512) images in four quadrants: red top left, green top
+// right, blue bottom left and white bottom right, written by Go's image/jpeg and image/png.
+const fixture = (name: string) => readFileSync(new URL(`./fixtures/thumbnails/${name}`, import.meta.url));
+
+type Rgb = [number, number, number];
+
+// Reads back the thumbnail, which is always 8-bit RGB with unfiltered rows, after checking its chunk CRCs.
+function readPng(png: Buffer) {
+  expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+  const idat: Buffer[] = [];
+  let header: Buffer = Buffer.alloc(0);
+  for (let offset = 8; offset < png.length; ) {
+    const length = png.readUInt32BE(offset);
+    const typed = png.subarray(offset + 4, offset + 8 + length);
+    expect(png.readUInt32BE(offset + 8 + length)).toBe(crc32(typed));
+    const type = typed.toString("latin1", 0, 4);
+    if (type === "IHDR") header = typed.subarray(4);
+    if (type === "IDAT") idat.push(typed.subarray(4));
+    offset += 12 + length;
+  }
+  const width = header.readUInt32BE(0);
+  const height = header.readUInt32BE(4);
+  expect([header[8], header[9], header[12]]).toEqual([8, 2, 0]);
+  const rows = inflateSync(Buffer.concat(idat));
+  expect(rows.length).toBe((width * 3 + 1) * height);
+  const pixel = (x: number, y: number): Rgb => {
+    const start = y * (width * 3 + 1) + 1 + x * 3;
+    return [rows[start], rows[start + 1], rows[start + 2]];
+  };
+  return { width, height, pixel };
+}
+
+function expectColour(actual: Rgb, expected: Rgb, tolerance = 6) {
+  actual.forEach((channel, i) => expect(Math.abs(channel - expected[i])).toBeLessThanOrEqual(tolerance));
+}
+
+const RED: Rgb = [220, 30, 30];
+const GREEN: Rgb = [30, 200, 40];
+const BLUE: Rgb = [30, 40, 210];
+const WHITE: Rgb = [255, 255, 255];
+
+function expectQuadrants(png: Buffer | null, width: number, height: number, colours = [RED, GREEN, BLUE, WHITE], tolerance = 6) {
+  expect(png).not.toBeNull();
+  const image = readPng(png as Buffer);
+  expect([image.width, image.height]).toEqual([width, height]);
+  const corners = [image.pixel(0, 0), image.pixel(width - 1, 0), image.pixel(0, height - 1), image.pixel(width - 1, height - 1)];
+  corners.forEach((corner, i) => expectColour(corner, colours[i], tolerance));
+}
+
+// An APP1 Exif segment holding just the orientation tag, inserted after SOI.
+function withOrientation(jpeg: Buffer, orientation: number): Buffer {
+  const tiff = Buffer.from([0x4d, 0x4d, 0, 42, 0, 0, 0, 8, 0, 1, 0x01, 0x12, 0, 3, 0, 0, 0, 1, 0, orientation, 0, 0, 0, 0, 0, 0]);
+  const body = Buffer.concat([Buffer.from("Exif\0\0", "latin1"), tiff]);
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(body.length + 2);
+  return Buffer.concat([jpeg.subarray(0, 2), Buffer.from([0xff, 0xe1]), length, body, jpeg.subarray(2)]);
+}
+
+// Overwrites the frame size in a JPEG's SOF0 header.
+function withFrameSize(jpeg: Buffer, width: number, height: number): Buffer {
+  const copy = Buffer.from(jpeg);
+  const sof = copy.indexOf(Buffer.from([0xff, 0xc0]));
+  copy.writeUInt16BE(height, sof + 5);
+  copy.writeUInt16BE(width, sof + 7);
+  return copy;
+}
+
+describe("JPEG thumbnails", () => {
+  it("scales the photo down to fit the thumbnail size", async () => {
+    expectQuadrants(await createThumbnail(fixture("quadrants.jpg"), "image/jpeg"), 64, 48);
+    expectQuadrants(await createThumbnail(fixture("quadrants-1024x512.jpg"), "image/jpeg"), 256, 128);
+  });
+
+  it("turns the thumbnail upright from the Exif orientation", async () => {
+    // 6 is "rotate 90° clockwise to display": the top left corner moves to the top right.
+    expectQuadrants(await createThumbnail(withOrientation(fixture("quadrants.jpg"), 6), "image/jpeg"), 48, 64, [BLUE, RED, WHITE, GREEN]);
+  });
+
+  it("gives none for a file cut short, anywhere in it", async () => {
+    const jpeg = fixture("quadrants-1024x512.jpg");
+    for (const fraction of [0.02, 0.1, 0.3, 0.6, 0.9, 0.999]) {
+      expect(await createThumbnail(jpeg.subarray(0, Math.floor(jpeg.length * fraction)), "image/jpeg")).toBeNull();
+    }
+  });
+
+  it("gives none or a full-size thumbnail for corrupt scan data, without throwing", async () => {
+    for (const name of ["quadrants.jpg", "quadrants-1024x512.jpg"]) {
+      const jpeg = fixture(name);
+      const corrupt = Buffer.from(jpeg);
+      for (let i = Math.floor(jpeg.length / 2); i < jpeg.length - 2; i += 7) corrupt[i] ^= 0x5a;
+      const thumbnail = await createThumbnail(corrupt, "image/jpeg");
+      if (thumbnail) expect(readPng(thumbnail).width).toBe(name === "quadrants.jpg" ? 64 : 256);
+    }
+  });
+
+  it("refuses frames over the pixel limit before decoding them", async () => {
+    expect(await createThumbnail(withFrameSize(fixture("quadrants.jpg"), 5000, 4000), "image/jpeg")).toBeNull();
+  });
+});
+
+describe("PNG thumbnails", () => {
+  it("reads RGB, palette and 16-bit greyscale PNGs", async () => {
+    expectQuadrants(await createThumbnail(fixture("quadrants.png"), "image/png"), 64, 48, [RED, GREEN, BLUE, WHITE], 0);
+    // The web-safe palette rounds each channel to a multiple of 51.
+    expectQuadrants(await createThumbnail(fixture("quadrants-palette.png"), "image/png"), 64, 48, [RED, GREEN, BLUE, WHITE], 30);
+    expectQuadrants(await createThumbnail(fixture("grey16-gradient.png"), "image/png"), 64, 48, [[0, 0, 0], WHITE, [0, 0, 0], WHITE], 0);
+  });
+
+  it("flattens transparency onto white", async () => {
+    expectQuadrants(await createThumbnail(fixture("quadrants-transparent-right.png"), "image/png"), 64, 48, [RED, WHITE, BLUE, WHITE], 0);
+  });
+
+  it("gives none for truncated or corrupt files", async () => {
+    const png = fixture("quadrants.png");
+    expect(await createThumbnail(png.subarray(0, Math.floor(png.length * 0.7)), "image/png")).toBeNull();
+    const corrupt = Buffer.from(png);
+    for (let i = 60; i < png.length - 20; i += 5) corrupt[i] ^= 0x5a;
+    expect(await createThumbnail(corrupt, "image/png")).toBeNull();
+  });
+
+  it("refuses images over the pixel limit and interlaced ones from the header alone", async () => {
+    const header = (width: number, height: number, interlace: number) => {
+      const png = Buffer.from(fixture("quadrants.png"));
+      png.writeUInt32BE(width, 16);
+      png.writeUInt32BE(height, 20);
+      png[28] = interlace;
+      return png;
+    };
+    expect(await createThumbnail(header(5000, 4000, 0), "image/png")).toBeNull();
+    expect(await createThumbnail(header(64, 48, 1), "image/png")).toBeNull();
+  });
+});
+
+describe("createThumbnail", () => {
+  it("decodes several uploads at once on the shared worker and skips types without thumbnails", async () => {
+    const thumbnails = await Promise.all([
+      createThumbnail(fixture("quadrants.jpg"), "image/jpeg"),
+      createThumbnail(fixture("quadrants.png"), "image/png"),
+      createThumbnail(fixture("quadrants.png").subarray(0, 40), "image/png"),
+      createThumbnail(Buffer.from("%PDF-1.7"), "application/pdf")
+    ]);
+    expectQuadrants(thumbnails[0], 64, 48);
+    expectQuadrants(thumbnails[1], 64, 48, [RED, GREEN, BLUE, WHITE], 0);
+    expect(thumbnails.slice(2)).toEqual([null, null]);
+  });
+});
@@ -0,0 +1,227 @@
+import { createRequire } from "node:module";
+import { Worker } from "node:worker_threads";
+import { PNG } from "pngjs";
+
+// Photo thumbnails, written as PNG. Uploads are decoded by jpeg-js and pngjs on
+// a worker thread shared by all uploads, so a large photo does not hold up
+// other requests; only the downscaled copy is worked on here.
+
+/** Longest side of a thumbnail, in pixels. */
+export const THUMBNAIL_SIZE = 256;
+export const THUMBNAIL_CONTENT_TYPE = "image/png";
+
+// Decoding is refused above this so a small, highly compressed file cannot exhaust memory.
+// 16 megapixels takes a 12-megapixel phone photo and decodes to 64 MB of RGBA.
+const MAX_SOURCE_PIXELS = 16_000_000;
+// jpeg-js counts its working buffers against this as well as the decoded pixels.
+const MAX_DECODE_MEMORY_MB = 256;
+// A decode still running after this long stops the worker; the upload is stored without a thumbnail.
+const DECODE_TIMEOUT_MS = 30_000;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** Four bytes (RGBA) per pixel, row by row, as both decoders return it. */
+interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+/** Three bytes (RGB) per pixel, row by row. */
+interface RgbImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+// Box filter: each thumbnail pixel is the mean of the source pixels it covers, with
+// transparency flattened onto white.
+function downscale(source: RgbaImage): RgbImage {
+  const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(source.width, source.height));
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const sums = new Float64Array(width * height * 3);
+  const counts = new Uint32Array(width * height);
+  const columns = Array.from({ length: source.width }, (_, x) => Math.floor((x * width) / source.width));
+  for (let y = 0; y < source.height; y += 1) {
+    const offset = Math.floor((y * height) / source.height) * width;
+    for (let x = 0; x < source.width; x += 1) {
+      const pixel = (y * source.width + x) * 4;
+      const alpha = source.data[pixel + 3];
+      const target = offset + columns[x];
+      for (let channel = 0; channel < 3; channel += 1) {
+        sums[target * 3 + channel] += (source.data[pixel + channel] * alpha + 255 * (255 - alpha)) / 255;
+      }
+      counts[target] += 1;
+    }
+  }
+  const data = new Uint8Array(width * height * 3);
+  for (let i = 0; i < width * height * 3; i += 1) data[i] = Math.round(sums[i] / (counts[Math.floor(i / 3)] || 1));
+  return { width, height, data };
+}
+
+// Orientation tag (0x0112) from the first IFD of an APP1 Exif segment; 1 means upright.
+function exifOrientation(segment: Buffer): number {
+  if (segment.toString("latin1", 0, 6) !== "Exif\0\0") return 1;
+  try {
+    const tiff = segment.subarray(6);
+    const littleEndian = tiff.toString("latin1", 0, 2) === "II";
+    const u16 = (offset: number) => (littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+    const ifd = littleEndian ? tiff.readUInt32LE(4) : tiff.readUInt32BE(4);
+    for (let i = 0; i < u16(ifd); i += 1) {
+      const entry = ifd + 2 + i * 12;
+      if (u16(entry) === 0x0112) return u16(entry + 8);
+    }
+  } catch {
+    // a damaged Exif block leaves the photo as stored
+  }
+  return 1;
+}
+
+// Walks the JPEG header segments up to the first scan looking for Exif.
+function jpegOrientation(data: Buffer): number {
+  let offset = 2;
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = data.readUInt16BE(offset + 2);
+    if (marker === 0xe1) return exifOrientation(data.subarray(offset + 4, offset + 2 + length));
+    offset += 2 + length;
+  }
+  return 1;
+}
+
+// Applies an Exif orientation (2-8) so the thumbnail displays upright.
+function orient(image: RgbImage, orientation: number): RgbImage {
+  if (orientation < 2 || orientation > 8) return image;
+  const { width, height } = image;
+  const transposed = orientation >= 5;
+  const outputWidth = transposed ? height : width;
+  const outputHeight = transposed ? width : height;
+  const data = new Uint8Array(image.data.length);
+  for (let y = 0; y < outputHeight; y += 1) {
+    for (let x = 0; x < outputWidth; x += 1) {
+      const [sourceX, sourceY] = {
+        2: [width - 1 - x, y],
+        3: [width - 1 - x, height - 1 - y],
+        4: [x, height - 1 - y],
+        5: [y, x],
+        6: [y, height - 1 - x],
+        7: [width - 1 - y, height - 1 - x],
+        8: [width - 1 - y, x]
+      }[orientation] as [number, number];
+      const source = (sourceY * width + sourceX) * 3;
+      data.set(image.data.subarray(source, source + 3), (y * outputWidth + x) * 3);
+    }
+  }
+  return { width: outputWidth, height: outputHeight, data };
+}
+
+function encodePng(image: RgbImage): Buffer {
+  const options = { colorType: 2, inputColorType: 2, inputHasAlpha: false, filterType: 0 } as const;
+  const png = new PNG({ width: image.width, height: image.height, ...options });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  return PNG.sync.write(png, options);
+}
+
+// pngjs inflates interlaced images without a size bound, so only IHDRs it can bound are decoded.
+function pngWithinLimits(data: Buffer): boolean {
+  if (data.length < 33 || !data.subarray(0, 8).equals(PNG_SIGNATURE) || data.toString("latin1", 12, 16) !== "IHDR") return false;
+  const width = data.readUInt32BE(16);
+  const height = data.readUInt32BE(20);
+  return width > 0 && height > 0 && width * height <= MAX_SOURCE_PIXELS && data[28] === 0;
+}
+
+// The worker is plain JavaScript so it runs the same whether the server runs from source or built.
+const WORKER_SOURCE = `
+const { parentPort, workerData } = require("node:worker_threads");
+const jpeg = require(workerData.jpegJs);
+const { PNG } = require(workerData.pngjs);
+parentPort.on("message", ({ id, data, contentType }) => {
+  try {
+    const image =
+      contentType === "image/png"
+        ? PNG.sync.read(Buffer.from(data.buffer, data.byteOffset, data.byteLength))
+        : jpeg.decode(data, {
+            useTArray: true,
+            tolerantDecoding: false,
+            maxResolutionInMP: workerData.maxSourcePixels / 1e6,
+            maxMemoryUsageInMB: workerData.maxDecodeMemoryMb
+          });
+    parentPort.postMessage({ id, image: { width: image.width, height: image.height, data: image.data } });
+  } catch {
+    parentPort.postMessage({ id, image: null });
+  }
+});
+`;
+
+type PendingDecode = { resolve: (image: RgbaImage | null) => void; timer: NodeJS.Timeout };
+
+let decoder: { worker: Worker; pending: Map<number, PendingDecode> } | null = null;
+let nextDecodeId = 0;
+
+// Started on first use and kept for later uploads. It is stopped, failing whatever it was given,
+// when a decode runs too long or it crashes, and the next upload starts a new one.
+function decodeWorker() {
+  if (decoder) return decoder;
+  const require = createRequire(import.meta.url);
+  const worker = new Worker(WORKER_SOURCE, {
+    eval: true,
+    workerData: {
+      jpegJs: require.resolve("jpeg-js"),
+      pngjs: require.resolve("pngjs"),
+      maxSourcePixels: MAX_SOURCE_PIXELS,
+      maxDecodeMemoryMb: MAX_DECODE_MEMORY_MB
+    }
+  });
+  worker.unref();
+  const current = { worker, pending: new Map<number, PendingDecode>() };
+  const stop = () => {
+    if (decoder === current) decoder = null;
+    current.pending.forEach(({ resolve, timer }) => {
+      clearTimeout(timer);
+      resolve(null);
+    });
+    current.pending.clear();
+    void worker.terminate();
+  };
+  worker.on("message", ({ id, image }: { id: number; image: RgbaImage | null }) => {
+    const request = current.pending.get(id);
+    if (!request) return;
+    clearTimeout(request.timer);
+    current.pending.delete(id);
+    request.resolve(image);
+  });
+  worker.on("error", stop);
+  worker.on("exit", stop);
+  decoder = current;
+  return current;
+}
+
+function decodeImage(data: Buffer, contentType: string): Promise<RgbaImage | null> {
+  const { worker, pending } = decodeWorker();
+  const id = (nextDecodeId += 1);
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      pending.delete(id);
+      resolve(null);
+      void worker.terminate();
+    }, DECODE_TIMEOUT_MS);
+    pending.set(id, { resolve, timer });
+    worker.postMessage({ id, data, contentType });
+  });
+}
+
+/**
+ * A PNG thumbnail for a JPEG or PNG photo, or null when the file is another
+ * type, over the size limit, or does not decode (including cut short).
+ */
+export async function createThumbnail(data: Buffer, contentType: string): Promise<Buffer | null> {
+  const isPng = contentType === "image/png" && pngWithinLimits(data);
+  const isJpeg = contentType === "image/jpeg" && data[0] === 0xff && data[1] === 0xd8;
+  if (!isPng && !isJpeg) return null;
+  const image = await decodeImage(data, contentType);
+  if (!image || image.width === 0 || image.height === 0) return null;
+  const thumbnail = downscale(image);
+  return encodePng(isJpeg ? orient(thumbnail, jpegOrientation(data)) : thumbnail);
+}
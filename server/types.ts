@@ -1,5 +1,34 @@
+import type { LineString, MultiPolygon, Point, Polygon } from "geojson";
+
 export type AssetStatus = "Active" | "Inactive" | "Planned";
 
+export type AssetGeometry = Point | LineString | Polygon | MultiPolygon;
+
+export type AttributeDataType = "text" | "number" | "date" | "boolean";
+
+/** Dates are `YYYY-MM-DD` strings. */
+export type AttributeValue = string | number | boolean;
+
+/** One extra field that assets of a type carry. */
+export interface AttributeDefinition {
+  /** The key under Asset.attributes, also used as the column name in exports. */
+  name: string;
+  label: string;
+  dataType: AttributeDataType;
+  required: boolean;
+  /** When not empty, the value must be one of these. */
+  allowedValues: string[];
+}
+
+/** The custom attributes for one asset type, stored in `asset_types`. */
+export interface AssetTypeSchema {
+  /** Matched against Asset.type ignoring case. */
+  type: string;
+  attributes: AttributeDefinition[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
 export interface Asset {
   id: string;
   name: string;
@@ -8,12 +37,192 @@ export interface Asset {
   status: AssetStatus;
   latitude: number | null;
   longitude: number | null;
+  geometry?: AssetGeometry | null;
+  /** Incremented on every write; exposed as the ETag for If-Match checks. */
+  version: number;
   createdAt: string;
   updatedAt: string;
+  /** Set when the asset is in the recycle bin; archived assets are hidden by default. */
+  archivedAt?: string | null;
+  archivedBy?: string | null;
+  /** Ids of assets merged into this one; lookups by those ids resolve here. */
+  aliases?: string[];
+  /** On an archived duplicate, the asset it was merged into. Restoring it takes its id back from that asset. */
+  mergedInto?: string | null;
+  /** Values for the attributes the asset type's schema defines. */
+  attributes?: Record<string, AttributeValue>;
+}
+
+/** A photo or document stored against an asset in the `attachments` GridFS bucket. */
+export interface AssetAttachment {
+  id: string;
+  assetId: string;
+  filename: string;
+  contentType: string;
+  /** In bytes. */
+  size: number;
+  /** True for JPEG and PNG photos a thumbnail could be made from. */
+  hasThumbnail: boolean;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+/** 1 (very good) to 5 (very poor), the usual five-point asset condition scale. */
+export type ConditionRating = 1 | 2 | 3 | 4 | 5;
+
+/** One inspection or maintenance visit, stored in `inspections`. */
+export interface Inspection {
+  id: string;
+  assetId: string;
+  /** `YYYY-MM-DD`, as are the other inspection dates. */
+  inspectedOn: string;
+  inspector: string;
+  condition: ConditionRating;
+  notes: string;
+  /** Null when no follow-up inspection is scheduled. */
+  nextDueOn: string | null;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** An asset's most recent inspection, used to style the map. */
+export interface InspectionSummary {
+  assetId: string;
+  lastInspectedOn: string;
+  inspector: string;
+  condition: ConditionRating;
+  nextDueOn: string | null;
+  /** Days past nextDueOn, negative while not yet due, null when nothing is scheduled. */
+  daysOverdue: number | null;
+}
+
+export type OverdueInspection = InspectionSummary & Pick<Asset, "name" | "region" | "type" | "status"> & { daysOverdue: number };
+
+export type QaSeverity = "error" | "warning" | "info";
+
+export type QaRuleId =
+  | "MISSING_COORDINATES"
+  | "MISSING_FIELDS"
+  | "DUPLICATE_POINT"
+  | "NEAR_DUPLICATE"
+  | "OUTSIDE_EXTENT"
+  | "DUPLICATE_NAME"
+  | "STALE_RECORD"
+  | "TYPE_STATUS_NOT_ALLOWED";
+
+/** A QA check as stored in `qa_rules`; `params` depend on the rule. */
+export interface QaRule {
+  id: QaRuleId;
+  name: string;
+  description: string;
+  severity: QaSeverity;
+  enabled: boolean;
+  params: Record<string, unknown>;
+  updatedAt: string | null;
+  updatedBy: string | null;
 }
 
+export type QaIssueStatus = "open" | "assigned" | "resolved" | "waived";
+
 export interface QaIssue {
-  code: "MISSING_COORDINATES" | "DUPLICATE_POINT" | "MISSING_FIELDS";
+  /** Stable across runs: `<code>:<assetId>`. */
+  id: string;
+  /** The id of the rule that raised the issue. */
+  code: QaRuleId;
+  severity: QaSeverity;
   assetId: string;
+  /** The asset's region and type when the rules ran, for checking editing scope without loading it. */
+  region: string;
+  type: string;
   message: string;
+  /** The other assets involved, for the duplicate rules. */
+  relatedAssetIds?: string[];
+  status: QaIssueStatus;
+  assignee: string | null;
+  waiverReason: string | null;
+}
+
+/** Workflow state kept for an issue id in `qa_issue_states`. */
+export interface QaIssueState {
+  id: string;
+  code: QaRuleId;
+  assetId: string;
+  status: QaIssueStatus;
+  assignee: string | null;
+  waiverReason: string | null;
+  /** The asset version when the state was set; a waiver lapses once the asset changes. */
+  assetVersion: number;
+  /** For a waived duplicate, the other assets' versions; editing any of them lapses the waiver too. */
+  relatedAssetVersions?: Record<string, number>;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+/** A persisted QA run: who ran it, over which filters, and what it found. */
+export interface QaRun {
+  id: string;
+  ranAt: string;
+  ranBy: string;
+  /** The filters the run was limited to; empty means the whole register. */
+  scope: Record<string, string>;
+  assetCount: number;
+  issueCount: number;
+  counts: Record<QaSeverity, number>;
+  ruleCounts: Partial<Record<QaRuleId, number>>;
+  issues: QaIssue[];
+}
+
+export type QaRunSummary = Omit<QaRun, "issues">;
+
+export interface QaRunDiff {
+  from: QaRunSummary;
+  to: QaRunSummary;
+  /** In `to` but not `from`. */
+  added: QaIssue[];
+  /** In `from` but not `to`. */
+  resolved: QaIssue[];
+  persisting: QaIssue[];
+}
+
+export interface ImportRowResult {
+  row: number;
+  id: string | null;
+  name: string;
+  action: "create" | "update" | "reject";
+  reasons: string[];
+}
+
+export interface ImportReport {
+  format: "csv" | "geojson";
+  dryRun: boolean;
+  summary: { created: number; updated: number; rejected: number };
+  rows: ImportRowResult[];
+}
+
+export interface AssetChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export type AssetHistoryAction =
+  | "create"
+  | "update"
+  | "import"
+  | "revert"
+  | "archive"
+  | "restore"
+  | "purge"
+  | "merge";
+
+export interface AssetHistoryEntry {
+  id: string;
+  assetId: string;
+  action: AssetHistoryAction;
+  changedBy: string;
+  changedAt: string;
+  changes: AssetChange[];
+  /** The asset as it was after this change; null when the change removed it. */
+  snapshot: Asset | null;
 }
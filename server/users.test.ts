@@ -0,0 +1,56 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { resetMemoryDb } from "./fixtures/memoryDb";
+import { canEditAsset, createUser, updateUser, UserAccountError } from "./users";
+
+vi.mock("./db", () => import("./fixtures/memoryDb"));
+
+beforeEach(() => resetMemoryDb());
+
+describe("canEditAsset", () => {
+  const editor = { role: "editor" as const, regions: ["NSW", "ACT"], assetTypes: [] };
+
+  it("lets admins edit anything and plain users nothing", () => {
+    expect(canEditAsset({ role: "admin", regions: [], assetTypes: [] }, { region: "WA", type: "Dam" })).toBe(true);
+    expect(canEditAsset({ role: "user", regions: ["NSW"], assetTypes: [] }, { region: "NSW", type: "Dam" })).toBe(false);
+  });
+
+  it("limits editors to their regions, ignoring case and spacing", () => {
+    expect(canEditAsset(editor, { region: " nsw ", type: "Dam" })).toBe(true);
+    expect(canEditAsset(editor, { region: "VIC", type: "Dam" })).toBe(false);
+  });
+
+  it("also limits editors to their asset types when any are set", () => {
+    const pumps = { ...editor, assetTypes: ["Pump"] };
+    expect(canEditAsset(pumps, { region: "ACT", type: "pump" })).toBe(true);
+    expect(canEditAsset(pumps, { region: "ACT", type: "Dam" })).toBe(false);
+    expect(canEditAsset(pumps, { region: "VIC", type: "Pump" })).toBe(false);
+  });
+
+  it("treats accounts saved before editor scopes as having none", () => {
+    const legacy = { role: "editor" } as Parameters<typeof canEditAsset>[0];
+    expect(canEditAsset(legacy, { region: "NSW", type: "Dam" })).toBe(false);
+  });
+});
+
+describe("editor accounts", () => {
+  const input = { username: "editor1", displayName: "Ed", role: "editor", password: "correct horse" };
+
+  it("needs at least one region and cleans up the scope lists", async () => {
+    await expect(createUser(input)).rejects.toThrow("An editor needs at least one region");
+    const created = await createUser({ ...input, regions: [" NSW ", "NSW", ""], assetTypes: ["Pump"] });
+    expect(created).toMatchObject({ role: "editor", regions: ["NSW"], assetTypes: ["Pump"] });
+    expect(created).not.toHaveProperty("passwordHash");
+  });
+
+  it("rejects scope lists that are not lists of strings", async () => {
+    await expect(createUser({ ...input, regions: "NSW" })).rejects.toBeInstanceOf(UserAccountError);
+    await expect(createUser({ ...input, regions: ["NSW"], assetTypes: [1] })).rejects.toThrow("assetTypes must be a list of strings");
+  });
+
+  it("keeps the region requirement when a user is made an editor or loses regions", async () => {
+    await createUser({ ...input, role: "user" });
+    await expect(updateUser("editor1", { role: "editor" })).rejects.toThrow("An editor needs at least one region");
+    expect(await updateUser("editor1", { role: "editor", regions: ["VIC"] })).toMatchObject({ role: "editor", regions: ["VIC"] });
+    await expect(updateUser("editor1", { regions: [] })).rejects.toThrow("An editor needs at least one region");
+  });
+});
@@ -0,0 +1,266 @@
+import { randomBytes } from "node:crypto";
+import { chmod, writeFile } from "node:fs/promises";
+import bcrypt from "bcryptjs";
+import { getDb } from "./db";
+
+/** `editor` may create, update and delete assets within its `regions` (and `assetTypes`, if set). */
+export type UserRole = "admin" | "editor" | "user";
+
+export const USER_ROLES: UserRole[] = ["admin", "editor", "user"];
+
+const MIN_PASSWORD_LENGTH = 8;
+
+export interface UserAccount {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  /** Regions an editor may change; ignored for other roles. */
+  regions: string[];
+  /** Asset types an editor may change; empty means any type. */
+  assetTypes: string[];
+  disabled: boolean;
+  passwordHash: string;
+  createdAt: string;
+  updatedAt: string;
+  passwordChangedAt: string;
+}
+
+export type PublicUser = Omit<UserAccount, "passwordHash">;
+
+/** A user-management request that cannot be applied; `status` is the HTTP code to send. */
+export class UserAccountError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type UserDocument = UserAccount & { _id?: unknown };
+
+async function usersCollection() {
+  const db = await getDb();
+  return db.collection<UserDocument>("users");
+}
+
+export function toPublicUser(account: UserAccount): PublicUser {
+  return {
+    username: account.username,
+    displayName: account.displayName,
+    role: account.role,
+    // Accounts created before editor scopes existed have neither field.
+    regions: account.regions ?? [],
+    assetTypes: account.assetTypes ?? [],
+    disabled: account.disabled,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+    passwordChangedAt: account.passwordChangedAt
+  };
+}
+
+function assertPassword(password: unknown): asserts password is string {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserAccountError(`password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+}
+
+function assertRole(role: unknown): asserts role is UserRole {
+  if (!USER_ROLES.includes(role as UserRole)) {
+    throw new UserAccountError(`role must be one of ${USER_ROLES.join(", ")}`);
+  }
+}
+
+function readScopeList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string")) {
+    throw new UserAccountError(`${field} must be a list of strings`);
+  }
+  return [...new Set((value as string[]).map((item) => item.trim()).filter(Boolean))];
+}
+
+function assertEditorScope(role: UserRole, regions: string[]): void {
+  if (role === "editor" && regions.length === 0) {
+    throw new UserAccountError("An editor needs at least one region");
+  }
+}
+
+/** Whether the account may create, change or delete an asset with this region and type. */
+export function canEditAsset(
+  account: Pick<UserAccount, "role" | "regions" | "assetTypes">,
+  asset: { region: string; type: string }
+): boolean {
+  if (account.role === "admin") return true;
+  if (account.role !== "editor") return false;
+  const matches = (list: string[], value: string) =>
+    list.some((item) => item.toLowerCase() === value.trim().toLowerCase());
+  const regions = account.regions ?? [];
+  const assetTypes = account.assetTypes ?? [];
+  return matches(regions, asset.region) && (assetTypes.length === 0 || matches(assetTypes, asset.type));
+}
+
+// Generated seed passwords go here rather than to the log, readable only by the server's own user.
+const SEED_PASSWORD_FILE = process.env.SEED_PASSWORD_FILE || "seed-passwords.txt";
+
+/**
+ * Creates the demo accounts on first start. Their passwords come from
+ * SEED_ADMIN_PASSWORD / SEED_USER_PASSWORD and are hashed here, so no
+ * password or hash lives in the source. A missing variable gets a random
+ * one-time password, written once to SEED_PASSWORD_FILE with mode 0600.
+ */
+export async function ensureSeedUsers(): Promise<void> {
+  const collection = await usersCollection();
+  await collection.createIndex({ username: 1 }, { unique: true });
+  if ((await collection.countDocuments()) > 0) return;
+  const generated: string[] = [];
+  const seedPassword = (variable: string, username: string) => {
+    const configured = process.env[variable];
+    if (configured) return configured;
+    const password = randomBytes(12).toString("base64url");
+    generated.push(`${username}: ${password}`);
+    return password;
+  };
+  await createUser({
+    username: "admin",
+    displayName: "Maggie Huang",
+    role: "admin",
+    password: seedPassword("SEED_ADMIN_PASSWORD", "admin")
+  });
+  await createUser({
+    username: "user",
+    displayName: "Guest User",
+    role: "user",
+    password: seedPassword("SEED_USER_PASSWORD", "user")
+  });
+  if (generated.length === 0) return;
+  await writeFile(SEED_PASSWORD_FILE, `${generated.join("\n")}\n`, { mode: 0o600 });
+  // The mode only applies when the file is created, so an older file is tightened too.
+  await chmod(SEED_PASSWORD_FILE, 0o600);
+  // eslint-disable-next-line no-console
+  console.log(`Wrote one-time passwords for the seeded accounts to ${SEED_PASSWORD_FILE}. Sign in, change them and delete the file.`);
+}
+
+export async function findUser(username: string): Promise<UserAccount | null> {
+  const collection = await usersCollection();
+  return collection.findOne({ username }, { projection: { _id: 0 } });
+}
+
+export async function listUsers(): Promise<PublicUser[]> {
+  const collection = await usersCollection();
+  const accounts = await collection.find({}, { projection: { _id: 0 } }).sort({ username: 1 }).toArray();
+  return accounts.map(toPublicUser);
+}
+
+export async function createUser(input: {
+  username?: unknown;
+  displayName?: unknown;
+  role?: unknown;
+  regions?: unknown;
+  assetTypes?: unknown;
+  password?: unknown;
+}): Promise<PublicUser> {
+  const username = typeof input.username === "string" ? input.username.trim().toLowerCase() : "";
+  if (!/^[a-z0-9._-]{3,32}$/.test(username)) {
+    throw new UserAccountError("username must be 3-32 characters of a-z, 0-9, '.', '_' or '-'");
+  }
+  const displayName = typeof input.displayName === "string" ? input.displayName.trim() : "";
+  if (!displayName) throw new UserAccountError("displayName is required");
+  assertRole(input.role);
+  const regions = readScopeList(input.regions, "regions");
+  const assetTypes = readScopeList(input.assetTypes, "assetTypes");
+  assertEditorScope(input.role, regions);
+  assertPassword(input.password);
+
+  const collection = await usersCollection();
+  if (await collection.findOne({ username })) {
+    throw new UserAccountError(`User ${username} already exists`, 409);
+  }
+  const now = new Date().toISOString();
+  const account: UserAccount = {
+    username,
+    displayName,
+    role: input.role,
+    regions,
+    assetTypes,
+    disabled: false,
+    passwordHash: await bcrypt.hash(input.password, 10),
+    createdAt: now,
+    updatedAt: now,
+    passwordChangedAt: now
+  };
+  await collection.insertOne({ ...account });
+  return toPublicUser(account);
+}
+
+async function countActiveAdmins(): Promise<number> {
+  const collection = await usersCollection();
+  return collection.countDocuments({ role: "admin", disabled: false });
+}
+
+/** Changes display name, role, editor scope or disabled flag. The last active admin cannot be demoted or disabled. */
+export async function updateUser(
+  username: string,
+  changes: { displayName?: unknown; role?: unknown; regions?: unknown; assetTypes?: unknown; disabled?: unknown }
+): Promise<PublicUser> {
+  const account = await findUser(username);
+  if (!account) throw new UserAccountError("User not found", 404);
+
+  const update: Partial<UserAccount> = {};
+  if (changes.displayName !== undefined) {
+    if (typeof changes.displayName !== "string" || !changes.displayName.trim()) {
+      throw new UserAccountError("displayName is required");
+    }
+    update.displayName = changes.displayName.trim();
+  }
+  if (changes.role !== undefined) {
+    assertRole(changes.role);
+    update.role = changes.role;
+  }
+  if (changes.regions !== undefined) update.regions = readScopeList(changes.regions, "regions");
+  if (changes.assetTypes !== undefined) update.assetTypes = readScopeList(changes.assetTypes, "assetTypes");
+  if (changes.disabled !== undefined) {
+    if (typeof changes.disabled !== "boolean") throw new UserAccountError("disabled must be true or false");
+    update.disabled = changes.disabled;
+  }
+  assertEditorScope(update.role ?? account.role, update.regions ?? account.regions ?? []);
+
+  const losesAdmin =
+    account.role === "admin" && !account.disabled && ((update.role && update.role !== "admin") || update.disabled);
+  if (losesAdmin && (await countActiveAdmins()) <= 1) {
+    throw new UserAccountError("At least one active admin is required", 409);
+  }
+
+  const updated: UserAccount = { ...account, ...update, updatedAt: new Date().toISOString() };
+  const collection = await usersCollection();
+  await collection.updateOne({ username }, { $set: updated });
+  return toPublicUser(updated);
+}
+
+export async function deleteUser(username: string): Promise<void> {
+  const account = await findUser(username);
+  if (!account) throw new UserAccountError("User not found", 404);
+  if (account.role === "admin" && !account.disabled && (await countActiveAdmins()) <= 1) {
+    throw new UserAccountError("At least one active admin is required", 409);
+  }
+  const collection = await usersCollection();
+  await collection.deleteOne({ username });
+}
+
+export async function setPassword(username: string, password: unknown): Promise<void> {
+  assertPassword(password);
+  const collection = await usersCollection();
+  const now = new Date().toISOString();
+  const result = await collection.updateOne(
+    { username },
+    { $set: { passwordHash: await bcrypt.hash(password, 10), passwordChangedAt: now, updatedAt: now } }
+  );
+  if (result.matchedCount === 0) throw new UserAccountError("User not found", 404);
+}
+
+export async function changeOwnPassword(username: string, currentPassword: unknown, newPassword: unknown): Promise<void> {
+  const account = await findUser(username);
+  if (!account || typeof currentPassword !== "string" || !(await bcrypt.compare(currentPassword, account.passwordHash))) {
+    throw new UserAccountError("Current password is incorrect", 403);
+  }
+  await setPassword(username, newPassword);
+}
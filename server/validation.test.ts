@@ -0,0 +1,124 @@
+import { describe, expect, it } from "vitest";
+import type { AssetTypeSchema } from "./types";
+import { validateAssetPayload, validateAttributes } from "./validation";
+
+const valid = { name: " Pump 1 ", region: "NSW", type: "Pump", status: "Active", latitude: -33.5, longitude: 151.25 };
+
+describe("validateAssetPayload", () => {
+  it("accepts a complete create payload and trims text", () => {
+    expect(validateAssetPayload(valid, "create")).toEqual({ ok: true, value: { ...valid, name: "Pump 1" } });
+  });
+
+  it("rejects a body that is not an object", () => {
+    expect(validateAssetPayload([valid], "create")).toEqual({
+      ok: false,
+      errors: [{ field: "", message: "Request body must be a JSON object" }]
+    });
+  });
+
+  it("reports every bad field at once", () => {
+    const result = validateAssetPayload(
+      { id: "A1", createdAt: "2024-01-01", name: "  ", region: 3, status: "Broken", latitude: 91, longitude: "151" },
+      "create"
+    );
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        { field: "id", message: "is assigned by the server and cannot be set" },
+        { field: "createdAt", message: "is not a recognised field" },
+        { field: "type", message: "is required" },
+        { field: "name", message: "is required" },
+        { field: "region", message: "must be a string" },
+        { field: "status", message: "must be one of Active, Inactive, Planned" },
+        { field: "latitude", message: "must be between -90 and 90" },
+        { field: "longitude", message: "must be a number or null" }
+      ]
+    });
+  });
+
+  it("needs latitude and longitude to be set or cleared together", () => {
+    const result = validateAssetPayload({ ...valid, latitude: null }, "create");
+    expect(result.ok || result.errors).toEqual([{ field: "longitude", message: "must be set when latitude is set, and null when it is null" }]);
+    expect(validateAssetPayload({ ...valid, latitude: null, longitude: null }, "create").ok).toBe(true);
+  });
+
+  it("checks geometry and the shape of attribute values", () => {
+    const result = validateAssetPayload(
+      { geometry: { type: "LineString", coordinates: [[150, -34]] }, attributes: { flowRate: 3, tags: ["a"], note: null } },
+      "update"
+    );
+    expect(result.ok || result.errors.map((error) => error.field)).toEqual(["geometry", "attributes.tags"]);
+    expect(validateAssetPayload({ attributes: [] }, "update")).toEqual({
+      ok: false,
+      errors: [{ field: "attributes", message: "must be an object" }]
+    });
+  });
+
+  it("lets an update send any subset of fields", () => {
+    expect(validateAssetPayload({ status: "Planned" }, "update")).toEqual({ ok: true, value: { status: "Planned" } });
+    expect(validateAssetPayload({}, "update")).toEqual({ ok: true, value: {} });
+  });
+});
+
+describe("validateAttributes", () => {
+  const schema: AssetTypeSchema = {
+    type: "Pump",
+    attributes: [
+      { name: "flowRate", label: "Flow rate", dataType: "number", required: true, allowedValues: [] },
+      { name: "installed", label: "Installed", dataType: "date", required: false, allowedValues: [] },
+      { name: "potable", label: "Potable", dataType: "boolean", required: false, allowedValues: [] },
+      { name: "material", label: "Material", dataType: "text", required: false, allowedValues: ["PVC", "Steel"] },
+      { name: "pressure", label: "Pressure", dataType: "number", required: false, allowedValues: ["10", "16"] }
+    ],
+    updatedAt: "2024-01-01T00:00:00.000Z",
+    updatedBy: "admin"
+  };
+
+  it("converts values to the schema's types and spells allowed values as the schema does", () => {
+    const result = validateAttributes(schema, "Pump", {
+      flowRate: "42.5",
+      installed: "2024-02-29",
+      potable: "yes",
+      material: " pvc ",
+      pressure: "16.0"
+    });
+    expect(result).toEqual({ ok: true, value: { flowRate: 42.5, installed: "2024-02-29", potable: true, material: "PVC", pressure: 16 } });
+  });
+
+  it("drops empty values, so a required one counts as missing", () => {
+    expect(validateAttributes(schema, "Pump", { flowRate: " ", installed: null })).toEqual({
+      ok: false,
+      errors: [{ field: "attributes.flowRate", message: "is required for Pump" }]
+    });
+  });
+
+  it("reports each value the schema does not accept", () => {
+    const result = validateAttributes(schema, "pump", {
+      flowRate: true,
+      installed: "2023-02-29",
+      potable: "maybe",
+      material: "Brass",
+      pressure: 12,
+      colour: "red"
+    });
+    expect(result).toEqual({
+      ok: false,
+      errors: [
+        { field: "attributes.flowRate", message: "must be a number" },
+        { field: "attributes.installed", message: "must be a date (YYYY-MM-DD)" },
+        { field: "attributes.potable", message: "must be true or false" },
+        { field: "attributes.material", message: "must be one of PVC, Steel" },
+        { field: "attributes.pressure", message: "must be one of 10, 16" },
+        { field: "attributes.colour", message: "is not an attribute of Pump" }
+      ]
+    });
+  });
+
+  it("rejects attributes on a type without a schema", () => {
+    expect(validateAttributes(null, "Valve", { colour: "red" })).toEqual({
+      ok: false,
+      errors: [{ field: "attributes.colour", message: "cannot be set; Valve has no custom attributes" }]
+    });
+    expect(validateAttributes(null, "Valve", {})).toEqual({ ok: true, value: {} });
+  });
+});
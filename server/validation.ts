@@ -0,0 +1,206 @@
+import { isAssetGeometry } from "./geometry";
+import type { AssetGeometry, AssetStatus, AssetTypeSchema, AttributeDefinition, AttributeValue } from "./types";
+
+export const ASSET_STATUSES: AssetStatus[] = ["Active", "Inactive", "Planned"];
+
+// The only properties a client may send when creating or updating an asset.
+const EDITABLE_FIELDS = ["name", "region", "type", "status", "latitude", "longitude", "geometry", "attributes"];
+
+export const ATTRIBUTE_NAME_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+export interface AssetInput {
+  name: string;
+  region: string;
+  type: string;
+  status: AssetStatus;
+  latitude: number | null;
+  longitude: number | null;
+  geometry?: AssetGeometry | null;
+  /** Checked against the type's schema by validateAttributes; null or "" clears a value. */
+  attributes?: Record<string, AttributeValue | null>;
+}
+
+export type ValidationResult<T> = { ok: true; value: T } | { ok: false; errors: FieldError[] };
+
+function validateText(payload: Record<string, unknown>, field: string, errors: FieldError[]): void {
+  const value = payload[field];
+  if (typeof value !== "string") {
+    errors.push({ field, message: "must be a string" });
+  } else if (!value.trim()) {
+    errors.push({ field, message: "is required" });
+  }
+}
+
+function validateCoordinate(
+  payload: Record<string, unknown>,
+  field: "latitude" | "longitude",
+  limit: number,
+  errors: FieldError[]
+): void {
+  const value = payload[field];
+  if (value === null) return;
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    errors.push({ field, message: "must be a number or null" });
+  } else if (value < -limit || value > limit) {
+    errors.push({ field, message: `must be between -${limit} and ${limit}` });
+  }
+}
+
+/**
+ * Checks an asset create (all fields required) or update (any subset) payload.
+ * Unknown properties, including id and the server-managed timestamps, are
+ * rejected rather than ignored.
+ */
+export function validateAssetPayload(body: unknown, mode: "create"): ValidationResult<AssetInput>;
+export function validateAssetPayload(body: unknown, mode: "update"): ValidationResult<Partial<AssetInput>>;
+export function validateAssetPayload(
+  body: unknown,
+  mode: "create" | "update"
+): ValidationResult<AssetInput | Partial<AssetInput>> {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { ok: false, errors: [{ field: "", message: "Request body must be a JSON object" }] };
+  }
+  const payload = body as Record<string, unknown>;
+  const errors: FieldError[] = [];
+  const present = (field: string) => field in payload && payload[field] !== undefined;
+
+  Object.keys(payload)
+    .filter((field) => !EDITABLE_FIELDS.includes(field))
+    .forEach((field) => {
+      errors.push({ field, message: field === "id" ? "is assigned by the server and cannot be set" : "is not a recognised field" });
+    });
+
+  if (mode === "create") {
+    ["name", "region", "type", "status", "latitude", "longitude"]
+      .filter((field) => !present(field))
+      .forEach((field) => errors.push({ field, message: "is required" }));
+  }
+
+  ["name", "region", "type"].filter(present).forEach((field) => validateText(payload, field, errors));
+  if (present("status") && !ASSET_STATUSES.includes(payload.status as AssetStatus)) {
+    errors.push({ field: "status", message: `must be one of ${ASSET_STATUSES.join(", ")}` });
+  }
+  if (present("latitude")) validateCoordinate(payload, "latitude", 90, errors);
+  if (present("longitude")) validateCoordinate(payload, "longitude", 180, errors);
+  if (present("latitude") && present("longitude") && (payload.latitude === null) !== (payload.longitude === null)) {
+    errors.push({ field: "longitude", message: "must be set when latitude is set, and null when it is null" });
+  }
+  if (present("geometry") && payload.geometry !== null && !isAssetGeometry(payload.geometry)) {
+    errors.push({
+      field: "geometry",
+      message: "must be a valid GeoJSON Point, LineString, Polygon or MultiPolygon, with no repeated vertices or self-intersecting rings"
+    });
+  }
+
+  if (present("attributes")) {
+    const attributes = payload.attributes;
+    if (!attributes || typeof attributes !== "object" || Array.isArray(attributes)) {
+      errors.push({ field: "attributes", message: "must be an object" });
+    } else {
+      Object.entries(attributes)
+        .filter(([, item]) => item !== null && !["string", "number", "boolean"].includes(typeof item))
+        .forEach(([name]) => errors.push({ field: `attributes.${name}`, message: "must be text, a number, true/false or null" }));
+    }
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  const value: Partial<AssetInput> = {};
+  EDITABLE_FIELDS.filter(present).forEach((field) => {
+    const raw = payload[field];
+    (value as Record<string, unknown>)[field] = typeof raw === "string" ? raw.trim() : raw;
+  });
+  return { ok: true, value };
+}
+
+export function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+// Returns undefined when the value cannot be read as the attribute's data type.
+function coerceAttribute(definition: AttributeDefinition, raw: string | number | boolean): AttributeValue | undefined {
+  const text = String(raw).trim();
+  switch (definition.dataType) {
+    case "text":
+      return text;
+    case "number": {
+      const number = typeof raw === "number" ? raw : Number(text);
+      return typeof raw !== "boolean" && Number.isFinite(number) ? number : undefined;
+    }
+    case "date":
+      return typeof raw === "string" && isCalendarDate(text) ? text : undefined;
+    case "boolean":
+      if (typeof raw === "boolean") return raw;
+      if (["true", "yes", "y", "1"].includes(text.toLowerCase())) return true;
+      if (["false", "no", "n", "0"].includes(text.toLowerCase())) return false;
+      return undefined;
+  }
+}
+
+const DATA_TYPE_MESSAGES = {
+  text: "must be text",
+  number: "must be a number",
+  date: "must be a date (YYYY-MM-DD)",
+  boolean: "must be true or false"
+};
+
+/**
+ * Checks an asset's attribute values against the schema for its type and
+ * returns them converted to the schema's data types (so "42" from a form or
+ * CSV becomes 42). Empty values are dropped, and allowed values are matched
+ * ignoring case and stored as the schema spells them.
+ */
+export function validateAttributes(
+  schema: AssetTypeSchema | null,
+  type: string,
+  attributes: Record<string, unknown>
+): ValidationResult<Record<string, AttributeValue>> {
+  const errors: FieldError[] = [];
+  const value: Record<string, AttributeValue> = {};
+  const definitions = schema?.attributes ?? [];
+
+  Object.entries(attributes).forEach(([name, raw]) => {
+    if (raw === null || raw === undefined || (typeof raw === "string" && !raw.trim())) return;
+    const field = `attributes.${name}`;
+    const definition = definitions.find((item) => item.name === name);
+    if (!definition) {
+      errors.push({ field, message: schema ? `is not an attribute of ${schema.type}` : `cannot be set; ${type} has no custom attributes` });
+      return;
+    }
+    if (!["string", "number", "boolean"].includes(typeof raw)) {
+      errors.push({ field, message: DATA_TYPE_MESSAGES[definition.dataType] });
+      return;
+    }
+    const coerced = coerceAttribute(definition, raw as string | number | boolean);
+    if (coerced === undefined) {
+      errors.push({ field, message: DATA_TYPE_MESSAGES[definition.dataType] });
+      return;
+    }
+    if (definition.allowedValues.length > 0) {
+      const allowed = definition.allowedValues.find((item) =>
+        definition.dataType === "number" ? Number(item) === coerced : item.toLowerCase() === String(coerced).toLowerCase()
+      );
+      if (allowed === undefined) {
+        errors.push({ field, message: `must be one of ${definition.allowedValues.join(", ")}` });
+        return;
+      }
+      value[name] = definition.dataType === "number" ? coerced : allowed;
+      return;
+    }
+    value[name] = coerced;
+  });
+
+  definitions
+    .filter((definition) => definition.required && !(definition.name in value))
+    .filter((definition) => !errors.some((error) => error.field === `attributes.${definition.name}`))
+    .forEach((definition) => errors.push({ field: `attributes.${definition.name}`, message: `is required for ${schema?.type ?? type}` }));
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
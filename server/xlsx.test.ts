@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { readZip } from "./fixtures/readZip";
+import { createWorkbook } from "./xlsx";
+
+function workbookParts(sheets: Parameters<typeof createWorkbook>[0]) {
+  return new Map(readZip(createWorkbook(sheets)).map((file) => [file.name, file.data.toString("utf8")]));
+}
+
+describe("createWorkbook", () => {
+  it("packages the parts Excel needs, with a content type and relationship for every sheet", () => {
+    const parts = workbookParts([
+      { name: "Assets", columns: [{ header: "id" }], rows: [["a1"]] },
+      { name: "Inspections", columns: [{ header: "id" }], rows: [] }
+    ]);
+    expect([...parts.keys()]).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml"
+    ]);
+    const contentTypes = parts.get("[Content_Types].xml")!;
+    expect(contentTypes).toContain('<Override PartName="/xl/worksheets/sheet2.xml"');
+    const rels = parts.get("xl/_rels/workbook.xml.rels")!;
+    expect(rels).toContain('<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet2.xml"/>');
+    expect(rels).toContain('Id="rId3" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles"');
+    expect(parts.get("xl/workbook.xml")).toContain('<sheet name="Inspections" sheetId="2" r:id="rId2"/>');
+  });
+
+  it("writes each kind of cell value", () => {
+    const sheet = workbookParts([
+      {
+        name: "Assets",
+        columns: [{ header: "name", width: 30 }, { header: "count" }, { header: "active" }, { header: "updated" }, { header: "note" }],
+        rows: [
+          ["Pump <A> & \"B\"", 12.5, true, new Date(Date.UTC(2024, 0, 1, 12)), null],
+          ["bell\u0007", Number.NaN, false, null, ""]
+        ]
+      }
+    ]).get("xl/worksheets/sheet1.xml")!;
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">name</t></is></c>');
+    expect(sheet).toContain('<col min="1" max="1" width="30" customWidth="1"/><col min="2" max="2" width="14" customWidth="1"/>');
+    expect(sheet).toContain(
+      '<row r="2"><c r="A2" t="inlineStr"><is><t xml:space="preserve">Pump &lt;A&gt; &amp; &quot;B&quot;</t></is></c>' +
+        '<c r="B2"><v>12.5</v></c><c r="C2" t="b"><v>1</v></c><c r="D2" s="2"><v>45292.5</v></c></row>'
+    );
+    // Control characters are dropped, and NaN, null and empty strings leave the cell out.
+    expect(sheet).toContain('<row r="3"><c r="A3" t="inlineStr"><is><t xml:space="preserve">bell</t></is></c><c r="C3" t="b"><v>0</v></c></row>');
+    expect(sheet).toContain('<autoFilter ref="A1:E3"/>');
+  });
+
+  it("names columns past Z with two letters and quotes sheet names in the filter range", () => {
+    const columns = Array.from({ length: 28 }, (_, i) => ({ header: `c${i}` }));
+    const parts = workbookParts([{ name: "Owner's & <assets>", columns, rows: [columns.map((_, i) => i)] }]);
+    const sheet = parts.get("xl/worksheets/sheet1.xml")!;
+    expect(sheet).toContain('<c r="Z2"><v>25</v></c><c r="AA2"><v>26</v></c><c r="AB2"><v>27</v></c>');
+    expect(sheet).toContain('<autoFilter ref="A1:AB2"/>');
+    expect(parts.get("xl/workbook.xml")).toContain(
+      '<sheet name="Owner\'s &amp; &lt;assets&gt;" sheetId="1" r:id="rId1"/>' +
+        '</sheets><definedNames><definedName name="_xlnm._FilterDatabase" localSheetId="0" hidden="1">\'Owner\'\'s &amp; &lt;assets&gt;\'!$A$1:$AB$2</definedName>'
+    );
+  });
+});
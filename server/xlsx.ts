@@ -0,0 +1,138 @@
+import { escapeXml } from "./xml";
+import { createZip } from "./zip";
+
+export type CellValue = string | number | boolean | Date | null;
+
+export interface Worksheet {
+  /** At most 31 characters, without any of []:*?/\ */
+  name: string;
+  columns: { header: string; width?: number }[];
+  rows: CellValue[][];
+}
+
+// Style indexes into cellXfs in STYLES_XML.
+const STYLE_HEADER = 1;
+const STYLE_DATE = 2;
+
+const STYLES_XML = [
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+  '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+  '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm"/></numFmts>',
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="3">',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+  '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>',
+  "</cellXfs>",
+  "</styleSheet>"
+].join("");
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Excel day 25569 is 1970-01-01.
+const EXCEL_UNIX_EPOCH_DAYS = 25569;
+
+function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+function cellXml(value: CellValue, ref: string, style = 0): string {
+  const styleAttr = style ? ` s="${style}"` : "";
+  if (value === null || value === "") return "";
+  if (value instanceof Date) {
+    // Excel has no time zones; dates are written as UTC.
+    const serial = value.getTime() / MS_PER_DAY + EXCEL_UNIX_EPOCH_DAYS;
+    return `<c r="${ref}" s="${STYLE_DATE}"><v>${serial}</v></c>`;
+  }
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? `<c r="${ref}"${styleAttr}><v>${value}</v></c>` : "";
+  }
+  if (typeof value === "boolean") return `<c r="${ref}"${styleAttr} t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${styleAttr} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value)}</t></is></c>`;
+}
+
+function sheetXml(sheet: Worksheet): string {
+  const lastColumn = columnLetter(Math.max(sheet.columns.length, 1) - 1);
+  const header = `<row r="1">${sheet.columns
+    .map((column, i) => cellXml(column.header, `${columnLetter(i)}1`, STYLE_HEADER))
+    .join("")}</row>`;
+  const rows = sheet.rows.map(
+    (row, r) => `<row r="${r + 2}">${row.map((value, i) => cellXml(value, `${columnLetter(i)}${r + 2}`)).join("")}</row>`
+  );
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">',
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<cols>${sheet.columns
+      .map((column, i) => `<col min="${i + 1}" max="${i + 1}" width="${column.width ?? 14}" customWidth="1"/>`)
+      .join("")}</cols>`,
+    `<sheetData>${header}${rows.join("")}</sheetData>`,
+    `<autoFilter ref="A1:${lastColumn}${sheet.rows.length + 1}"/>`,
+    "</worksheet>"
+  ].join("");
+}
+
+/** An .xlsx workbook, one sheet per entry, with a bold frozen header row and filters on each sheet. */
+export function createWorkbook(sheets: Worksheet[]): Buffer {
+  const sheetEntries = sheets.map((sheet, i) => ({
+    name: `xl/worksheets/sheet${i + 1}.xml`,
+    data: Buffer.from(sheetXml(sheet), "utf8")
+  }));
+  const contentTypes = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>',
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>',
+    ...sheets.map(
+      (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+    ),
+    "</Types>"
+  ].join("");
+  const rootRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>',
+    "</Relationships>"
+  ].join("");
+  const workbook = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">',
+    `<sheets>${sheets.map((sheet, i) => `<sheet name="${escapeXml(sheet.name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join("")}</sheets>`,
+    // Filters need a hidden _FilterDatabase name per sheet for Excel to show them.
+    `<definedNames>${sheets
+      .map(
+        (sheet, i) =>
+          `<definedName name="_xlnm._FilterDatabase" localSheetId="${i}" hidden="1">'${escapeXml(sheet.name.replace(/'/g, "''"))}'!$A$1:$${columnLetter(Math.max(sheet.columns.length, 1) - 1)}$${sheet.rows.length + 1}</definedName>`
+      )
+      .join("")}</definedNames>`,
+    "</workbook>"
+  ].join("");
+  const workbookRels = [
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>',
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    ...sheets.map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`
+    ),
+    `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`,
+    "</Relationships>"
+  ].join("");
+
+  return createZip([
+    { name: "[Content_Types].xml", data: Buffer.from(contentTypes, "utf8") },
+    { name: "_rels/.rels", data: Buffer.from(rootRels, "utf8") },
+    { name: "xl/workbook.xml", data: Buffer.from(workbook, "utf8") },
+    { name: "xl/_rels/workbook.xml.rels", data: Buffer.from(workbookRels, "utf8") },
+    { name: "xl/styles.xml", data: Buffer.from(STYLES_XML, "utf8") },
+    ...sheetEntries
+  ]);
+}
@@ -0,0 +1,34 @@
+import { randomBytes } from "node:crypto";
+import { describe, expect, it } from "vitest";
+import { readZip } from "./fixtures/readZip";
+import { createZip } from "./zip";
+
+describe("createZip", () => {
+  it("round-trips entries in order with matching local and central headers", () => {
+    const binary = randomBytes(70_000);
+    const entries = [
+      { name: "readme.txt", data: Buffer.from("hello\n".repeat(1000), "utf8") },
+      { name: "empty.bin", data: Buffer.alloc(0) },
+      { name: "folder/random.bin", data: binary },
+      { name: "Café – plan.csv", data: Buffer.from("name\nÉcole\n", "utf8") }
+    ];
+    const files = readZip(createZip(entries));
+    expect(files.map((file) => file.name)).toEqual(entries.map((entry) => entry.name));
+    files.forEach((file, i) => expect(file.data.equals(entries[i].data)).toBe(true));
+  });
+
+  it("flags UTF-8 names and writes the modified time as a local DOS date", () => {
+    const zip = createZip([{ name: "Ünïcode.txt", data: Buffer.from("x") }], new Date(2024, 2, 9, 14, 35, 51));
+    expect(zip.readUInt16LE(6) & 0x0800).toBe(0x0800);
+    const [file] = readZip(zip);
+    expect(file.name).toBe("Ünïcode.txt");
+    expect(file.time).toBe((14 << 11) | (35 << 5) | 25);
+    expect(file.day).toBe(((2024 - 1980) << 9) | (3 << 5) | 9);
+  });
+
+  it("writes an empty archive as a bare end of central directory record", () => {
+    const zip = createZip([]);
+    expect(zip.length).toBe(22);
+    expect(readZip(zip)).toEqual([]);
+  });
+});
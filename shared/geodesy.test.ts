@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { fromMga, gda2020ToGda94, gda94ToGda2020, toMga } from "./geodesy";
+
+const degrees = (d: number, m: number, s: number) => Math.sign(d) * (Math.abs(d) + m / 60 + s / 3600);
+
+// Worked examples for the grid conversion in the ICSM GDA Technical Manual. Both datums use
+// GRS80, so the same figures hold for MGA94 and MGA2020.
+const CONTROL_POINTS = [
+  { name: "Flinders Peak", lon: degrees(144, 25, 29.5244), lat: degrees(-37, 57, 3.7203), zone: 55, easting: 273741.297, northing: 5796489.777 },
+  { name: "Buninyong", lon: degrees(143, 55, 35.3839), lat: degrees(-37, 39, 10.1561), zone: 55, easting: 228854.052, northing: 5828259.038 },
+  { name: "Buninyong", lon: degrees(143, 55, 35.3839), lat: degrees(-37, 39, 10.1561), zone: 54, easting: 758173.797, northing: 5828674.34 }
+];
+
+// A metre on the ground in degrees of latitude, near enough for tolerances.
+const METRE = 1 / 111000;
+
+describe("MGA grid conversion", () => {
+  for (const point of CONTROL_POINTS) {
+    it(`matches the published grid coordinates of ${point.name} in zone ${point.zone}`, () => {
+      const [easting, northing] = toMga([point.lon, point.lat], point.zone);
+      // Published to the millimetre.
+      expect(Math.abs(easting - point.easting)).toBeLessThan(0.001);
+      expect(Math.abs(northing - point.northing)).toBeLessThan(0.001);
+    });
+
+    it(`returns ${point.name} from zone ${point.zone} to the published latitude/longitude`, () => {
+      const [lon, lat] = fromMga([point.easting, point.northing], point.zone);
+      expect(Math.abs(lon - point.lon)).toBeLessThan(0.001 * METRE);
+      expect(Math.abs(lat - point.lat)).toBeLessThan(0.001 * METRE);
+    });
+  }
+});
+
+describe("GDA94 / GDA2020 transformation", () => {
+  const sydney = [151.2093, -33.8688];
+
+  it("moves east coast positions about 1.5 m north-north-east from GDA94 to GDA2020", () => {
+    const [lon, lat] = gda94ToGda2020(sydney);
+    const north = (lat - sydney[1]) / METRE;
+    const east = ((lon - sydney[0]) / METRE) * Math.cos((sydney[1] * Math.PI) / 180);
+    expect(Math.hypot(east, north)).toBeGreaterThan(1.4);
+    expect(Math.hypot(east, north)).toBeLessThan(1.7);
+    expect(north).toBeGreaterThan(east);
+    expect(east).toBeGreaterThan(0);
+  });
+
+  it("undoes itself in the other direction to well under a millimetre", () => {
+    for (const position of [sydney, [144.9631, -37.8136], [115.8605, -31.9505], [130.8456, -12.4634]]) {
+      const [lon, lat] = gda2020ToGda94(gda94ToGda2020(position));
+      expect(Math.abs(lon - position[0])).toBeLessThan(0.0001 * METRE);
+      expect(Math.abs(lat - position[1])).toBeLessThan(0.0001 * METRE);
+    }
+  });
+});
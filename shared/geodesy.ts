@@ -0,0 +1,132 @@
+// MGA grid and GDA94/GDA2020 datum maths, shared by the server exports and import
+// and the client's easting/northing entry so both sides convert identically.
+
+/** [longitude, latitude] in degrees, or [easting, northing] in metres. */
+export type Coordinates = [number, number];
+
+// GRS80, the ellipsoid of both GDA94 and GDA2020 (WGS 84 differs only in the 10th digit of f).
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257222101;
+const ECCENTRICITY_SQUARED = FLATTENING * (2 - FLATTENING);
+const ECCENTRICITY = Math.sqrt(ECCENTRICITY_SQUARED);
+
+// MGA: UTM zones on GRS80, southern hemisphere false northing.
+const MGA_SCALE = 0.9996;
+const MGA_FALSE_EASTING = 500000;
+const MGA_FALSE_NORTHING = 10000000;
+
+// Krüger series (Karney 2011) to fourth order in n, good to well under a millimetre across a zone.
+const N = FLATTENING / (2 - FLATTENING);
+const RECTIFYING_RADIUS = (SEMI_MAJOR_AXIS / (1 + N)) * (1 + N ** 2 / 4 + N ** 4 / 64);
+const ALPHA = [
+  N / 2 - (2 / 3) * N ** 2 + (5 / 16) * N ** 3 + (41 / 180) * N ** 4,
+  (13 / 48) * N ** 2 - (3 / 5) * N ** 3 + (557 / 1440) * N ** 4,
+  (61 / 240) * N ** 3 - (103 / 140) * N ** 4,
+  (49561 / 161280) * N ** 4
+];
+const BETA = [
+  N / 2 - (2 / 3) * N ** 2 + (37 / 96) * N ** 3 - (1 / 360) * N ** 4,
+  (1 / 48) * N ** 2 + (1 / 15) * N ** 3 - (437 / 1440) * N ** 4,
+  (17 / 480) * N ** 3 - (37 / 840) * N ** 4,
+  (4397 / 161280) * N ** 4
+];
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+function centralMeridian(zone: number): number {
+  return zone * 6 - 183;
+}
+
+/** Latitude/longitude (degrees) to MGA [easting, northing] in metres. */
+export function toMga([lon, lat]: readonly number[], zone: number): Coordinates {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon - centralMeridian(zone));
+  const t = Math.sinh(Math.atanh(Math.sin(phi)) - ECCENTRICITY * Math.atanh(ECCENTRICITY * Math.sin(phi)));
+  const xiPrime = Math.atan2(t, Math.cos(lambda));
+  const etaPrime = Math.atanh(Math.sin(lambda) / Math.sqrt(1 + t * t));
+  let xi = xiPrime;
+  let eta = etaPrime;
+  ALPHA.forEach((alpha, i) => {
+    const k = 2 * (i + 1);
+    xi += alpha * Math.sin(k * xiPrime) * Math.cosh(k * etaPrime);
+    eta += alpha * Math.cos(k * xiPrime) * Math.sinh(k * etaPrime);
+  });
+  return [
+    MGA_FALSE_EASTING + MGA_SCALE * RECTIFYING_RADIUS * eta,
+    MGA_FALSE_NORTHING + MGA_SCALE * RECTIFYING_RADIUS * xi
+  ];
+}
+
+/** MGA [easting, northing] in metres to [longitude, latitude] in degrees. */
+export function fromMga([easting, northing]: readonly number[], zone: number): Coordinates {
+  const xi = (northing - MGA_FALSE_NORTHING) / (MGA_SCALE * RECTIFYING_RADIUS);
+  const eta = (easting - MGA_FALSE_EASTING) / (MGA_SCALE * RECTIFYING_RADIUS);
+  let xiPrime = xi;
+  let etaPrime = eta;
+  BETA.forEach((beta, i) => {
+    const k = 2 * (i + 1);
+    xiPrime -= beta * Math.sin(k * xi) * Math.cosh(k * eta);
+    etaPrime -= beta * Math.cos(k * xi) * Math.sinh(k * eta);
+  });
+  const tauPrime = Math.sin(xiPrime) / Math.sqrt(Math.sinh(etaPrime) ** 2 + Math.cos(xiPrime) ** 2);
+  const lambda = Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime));
+  // Newton's method for tan(latitude) from the conformal latitude.
+  let tau = tauPrime;
+  for (let i = 0; i < 5; i += 1) {
+    const sigma = Math.sinh(ECCENTRICITY * Math.atanh((ECCENTRICITY * tau) / Math.sqrt(1 + tau * tau)));
+    const estimate = tau * Math.sqrt(1 + sigma * sigma) - sigma * Math.sqrt(1 + tau * tau);
+    const slope =
+      ((Math.sqrt((1 + sigma * sigma) * (1 + tau * tau)) - sigma * tau) * (1 - ECCENTRICITY_SQUARED) * Math.sqrt(1 + tau * tau)) /
+      (1 + (1 - ECCENTRICITY_SQUARED) * tau * tau);
+    tau -= (estimate - tauPrime) / slope;
+  }
+  return [centralMeridian(zone) + toDegrees(lambda), toDegrees(Math.atan(tau))];
+}
+
+// ICSM GDA94 to GDA2020 seven-parameter transformation (EPSG:8048), coordinate frame rotations.
+// On the east coast positions move about 1.5 metres, mostly north; direction -1 reverses it.
+const TRANSLATION = [0.06155, -0.01087, -0.04019];
+const ROTATION_ARCSEC = [-0.0394924, -0.0327221, -0.0328979];
+const SCALE_PPM = -0.009994;
+
+function toCartesian([lon, lat]: readonly number[]): number[] {
+  const phi = toRadians(lat);
+  const lambda = toRadians(lon);
+  const radius = SEMI_MAJOR_AXIS / Math.sqrt(1 - ECCENTRICITY_SQUARED * Math.sin(phi) ** 2);
+  return [
+    radius * Math.cos(phi) * Math.cos(lambda),
+    radius * Math.cos(phi) * Math.sin(lambda),
+    radius * (1 - ECCENTRICITY_SQUARED) * Math.sin(phi)
+  ];
+}
+
+function fromCartesian([x, y, z]: number[]): Coordinates {
+  const p = Math.hypot(x, y);
+  let phi = Math.atan2(z, p * (1 - ECCENTRICITY_SQUARED));
+  for (let i = 0; i < 5; i += 1) {
+    const radius = SEMI_MAJOR_AXIS / Math.sqrt(1 - ECCENTRICITY_SQUARED * Math.sin(phi) ** 2);
+    phi = Math.atan2(z + ECCENTRICITY_SQUARED * radius * Math.sin(phi), p);
+  }
+  return [toDegrees(Math.atan2(y, x)), toDegrees(phi)];
+}
+
+function shiftDatum(position: readonly number[], direction: 1 | -1): Coordinates {
+  const [x, y, z] = toCartesian(position);
+  const [tx, ty, tz] = TRANSLATION.map((value) => value * direction);
+  const [rx, ry, rz] = ROTATION_ARCSEC.map((arcsec) => toRadians((arcsec * direction) / 3600));
+  const scale = 1 + (SCALE_PPM * direction) / 1e6;
+  return fromCartesian([
+    tx + scale * (x + rz * y - ry * z),
+    ty + scale * (-rz * x + y + rx * z),
+    tz + scale * (ry * x - rx * y + z)
+  ]);
+}
+
+export function gda94ToGda2020(position: readonly number[]): Coordinates {
+  return shiftDatum(position, 1);
+}
+
+export function gda2020ToGda94(position: readonly number[]): Coordinates {
+  return shiftDatum(position, -1);
+}
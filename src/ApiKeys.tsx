@@ -0,0 +1,200 @@
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import { createApiKey, getApiKeys, revokeApiKey } from "./api";
+import type { ApiKey, ApiKeyScope } from "./types";
+
+const SCOPES: ApiKeyScope[] = ["read", "write", "export"];
+
+function formatDate(value: string | null, fallback: string): string {
+  return value ? new Date(value).toLocaleString() : fallback;
+}
+
+function keyStatus(apiKey: ApiKey): string {
+  if (apiKey.revokedAt) return "Revoked";
+  if (apiKey.expiresAt && new Date(apiKey.expiresAt) <= new Date()) {
+    return "Expired";
+  }
+  return "Active";
+}
+
+export default function ApiKeys({ onClose }: { onClose: () => void }) {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["read"]);
+  const [expiresOn, setExpiresOn] = useState("");
+  const [createdKey, setCreatedKey] = useState<{
+    name: string;
+    key: string;
+  } | null>(null);
+
+  async function loadApiKeys() {
+    setLoading(true);
+    setError("");
+    try {
+      setApiKeys(await getApiKeys());
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadApiKeys();
+  }, []);
+
+  function toggleScope(scope: ApiKeyScope) {
+    setScopes((current) =>
+      current.includes(scope)
+        ? current.filter((item) => item !== scope)
+        : [...current, scope],
+    );
+  }
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    setError("");
+    try {
+      const created = await createApiKey({
+        name,
+        scopes,
+        // A date-only expiry means the end of that day in local time.
+        expiresAt: expiresOn
+          ? new Date(`${expiresOn}T23:59:59`).toISOString()
+          : null,
+      });
+      setCreatedKey({ name: created.apiKey.name, key: created.key });
+      setName("");
+      setScopes(["read"]);
+      setExpiresOn("");
+      await loadApiKeys();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  async function revoke(apiKey: ApiKey) {
+    const confirmed = window.confirm(
+      `Revoke the API key "${apiKey.name}"? Scripts using it will stop working immediately.`,
+    );
+    if (!confirmed) return;
+    try {
+      await revokeApiKey(apiKey.id);
+      await loadApiKeys();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <section className="panel">
+      <h2>API Keys</h2>
+      {loading ? <p>Loading...</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      {createdKey ? (
+        <div className="api-key-created">
+          <p>
+            Copy the key for <strong>{createdKey.name}</strong> now. It will not
+            be shown again.
+          </p>
+          <code>{createdKey.key}</code>
+          <div className="actions">
+            <button
+              type="button"
+              onClick={() => navigator.clipboard.writeText(createdKey.key)}
+            >
+              Copy
+            </button>
+            <button type="button" onClick={() => setCreatedKey(null)}>
+              Done
+            </button>
+          </div>
+        </div>
+      ) : null}
+      {!loading && apiKeys.length === 0 ? (
+        <p className="history-empty">No API keys have been created.</p>
+      ) : null}
+      {apiKeys.length > 0 ? (
+        <div className="table-scroll">
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Key</th>
+                <th>Scopes</th>
+                <th>Status</th>
+                <th>Expires</th>
+                <th>Last Used</th>
+                <th>Created By</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {apiKeys.map((apiKey) => (
+                <tr key={apiKey.id}>
+                  <td>{apiKey.name}</td>
+                  <td>
+                    <code>{apiKey.prefix}...</code>
+                  </td>
+                  <td>{apiKey.scopes.join(", ")}</td>
+                  <td>{keyStatus(apiKey)}</td>
+                  <td>{formatDate(apiKey.expiresAt, "Never")}</td>
+                  <td>{formatDate(apiKey.lastUsedAt, "Never")}</td>
+                  <td>{apiKey.createdBy}</td>
+                  <td>
+                    {apiKey.revokedAt ? null : (
+                      <button
+                        type="button"
+                        className="danger-btn"
+                        onClick={() => revoke(apiKey)}
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+      <h3>New API Key</h3>
+      <form className="user-form" onSubmit={submit}>
+        <input
+          placeholder="Name, e.g. Nightly GIS sync"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          required
+        />
+        {SCOPES.map((scope) => (
+          <label key={scope} className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={scopes.includes(scope)}
+              onChange={() => toggleScope(scope)}
+            />
+            {scope}
+          </label>
+        ))}
+        <label className="checkbox-label">
+          Expires
+          <input
+            type="date"
+            value={expiresOn}
+            onChange={(e) => setExpiresOn(e.target.value)}
+          />
+        </label>
+        <button type="submit" disabled={scopes.length === 0}>
+          Create Key
+        </button>
+      </form>
+      <div className="actions recycle-actions">
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </section>
+  );
+}
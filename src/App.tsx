@@ -1,5 +1,15 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { CircleMarker, MapContainer, Popup, TileLayer } from "react-leaflet";
+import {
+  CircleMarker,
+  MapContainer,
+  Polygon,
+  Polyline,
+  Popup,
+  TileLayer,
+  useMapEvents,
+} from "react-leaflet";
+import type { LatLngBounds, LatLngTuple } from "leaflet";
+import type { Position } from "geojson";
 import {
   Box,
   Checkbox,
@@ -11,19 +21,72 @@ import {
   TextField,
 } from "@mui/material";
 import {
+  ApiValidationError,
+  AssetConflictError,
   createAsset,
   deleteAsset,
   exportCsv,
   exportGeoJson,
-  getAssets,
+  exportGpx,
+  exportKml,
+  exportShapefile,
+  exportXlsx,
+  getAsset,
+  getAssetPage,
+  getAssetValues,
+  getAssetTypes,
+  getInspectionSummaries,
+  createQaRun,
   getQaIssues,
   login,
   resetAssetsData,
-  setAuthToken,
+  logout,
+  onAuthTokensChange,
+  setAuthTokens,
   updateAsset,
 } from "./api";
 import type { AuthSession } from "./api";
-import type { Asset, AssetFilters, QaIssue } from "./types";
+import AssetAttachments from "./AssetAttachments";
+import AssetHistory from "./AssetHistory";
+import AssetInspections from "./AssetInspections";
+import OverdueInspections from "./OverdueInspections";
+import {
+  conditionColor,
+  conditionLegend,
+  conditionText,
+  dueColor,
+  dueLegend,
+  dueText,
+} from "./inspections";
+import ConflictDialog, { draftFromAsset, mergeDraft } from "./ConflictDialog";
+import ImportWizard from "./ImportWizard";
+import RecycleBin from "./RecycleBin";
+import UserAdmin from "./UserAdmin";
+import ApiKeys from "./ApiKeys";
+import AssetTileLayer from "./AssetTileLayer";
+import QaRules from "./QaRules";
+import AssetTypes from "./AssetTypes";
+import QaHistory from "./QaHistory";
+import QaIssueList from "./QaIssueList";
+import MergeDialog from "./MergeDialog";
+import ChangePasswordDialog from "./ChangePasswordDialog";
+import {
+  EXPORT_CRS_OPTIONS,
+  GRID_OPTIONS,
+  gridToLatLon,
+  latLonToGrid,
+} from "./crs";
+import type {
+  Asset,
+  AssetDraft,
+  AssetFilters,
+  AssetGeometry,
+  AssetSortField,
+  AssetTypeSchema,
+  AttributeDefinition,
+  InspectionSummary,
+  QaIssue,
+} from "./types";
 
 const defaultFilters: AssetFilters = {
   search: "",
@@ -32,30 +95,29 @@ const defaultFilters: AssetFilters = {
   status: [],
 };
 
-const emptyAsset: Omit<Asset, "id" | "createdAt" | "updatedAt"> = {
+const emptyAsset: AssetDraft = {
   name: "",
   region: "",
   type: "",
   status: "Active",
   latitude: -32.9283,
   longitude: 151.7817,
+  geometry: null,
+  attributes: {},
 };
 
-type SortKey =
-  | "name"
-  | "region"
-  | "type"
-  | "status"
-  | "latitude"
-  | "longitude"
-  | "createdAt"
-  | "updatedAt";
-type QaFilter =
-  | "ALL"
-  | "MISSING_COORDINATES"
-  | "DUPLICATE_POINT"
-  | "MISSING_FIELDS"
-  | "NO_ERRORS";
+type SortKey = Exclude<AssetSortField, "id">;
+const TABLE_PAGE_SIZE = 100;
+// Rows have a fixed height so the table body can be windowed.
+const TABLE_ROW_HEIGHT = 48;
+const TABLE_VIEWPORT_HEIGHT = 380;
+const TABLE_OVERSCAN_ROWS = 8;
+// With more matching assets than this the map draws vector tiles rather than one layer per asset,
+// except when zoomed in to MARKER_MIN_ZOOM, where the assets in view are drawn as clickable markers.
+const VECTOR_TILE_ASSET_THRESHOLD = 2000;
+const MARKER_MIN_ZOOM = 15;
+
+type QaFilter = "ALL" | QaIssue["code"] | "NO_ERRORS";
 
 function UserIcon() {
   return (
@@ -99,6 +161,17 @@ function BadgeIcon() {
   );
 }
 
+function KeyIcon() {
+  return (
+    <svg className="icon-svg" viewBox="0 0 24 24" aria-hidden="true">
+      <path
+        d="M7 14a2 2 0 1 1 0-4 2 2 0 0 1 0 4zm5.65-4A6 6 0 1 0 12.65 14H17v3h3v-3h2v-4h-9.35z"
+        fill="currentColor"
+      />
+    </svg>
+  );
+}
+
 function LogoutIcon() {
   return (
     <svg className="icon-svg" viewBox="0 0 24 24" aria-hidden="true">
@@ -110,10 +183,8 @@ function LogoutIcon() {
   );
 }
 
-function qaClassName(code: QaIssue["code"]): string {
-  if (code === "MISSING_COORDINATES") return "qa-badge qa-missing-coordinates";
-  if (code === "DUPLICATE_POINT") return "qa-badge qa-duplicate-point";
-  return "qa-badge qa-missing-fields";
+function qaClassName(severity: QaIssue["severity"]): string {
+  return `qa-badge qa-${severity}`;
 }
 
 function StatusDot({
@@ -143,91 +214,365 @@ function statusColor(status: Asset["status"]): string {
   return "#95a5a6";
 }
 
+// What the map colours assets by: their status, latest inspection condition, or next-due date.
+type MapColorMode = "status" | "condition" | "due";
+
+const STATUS_LEGEND = (["Active", "Planned", "Inactive"] as const).map(
+  (status) => ({ label: status, color: statusColor(status) }),
+);
+
+function toLatLng(position: Position): LatLngTuple {
+  return [position[1], position[0]];
+}
+
+function polygonLatLngs(geometry: AssetGeometry): LatLngTuple[][][] {
+  if (geometry.type === "Polygon") {
+    return [geometry.coordinates.map((ring) => ring.map(toLatLng))];
+  }
+  if (geometry.type === "MultiPolygon") {
+    return geometry.coordinates.map((polygon) =>
+      polygon.map((ring) => ring.map(toLatLng)),
+    );
+  }
+  return [];
+}
+
+function parseGeometryText(text: string): AssetGeometry | null {
+  if (!text.trim()) return null;
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("Geometry must be valid GeoJSON.");
+  }
+  const candidate = (parsed as { geometry?: unknown }).geometry ?? parsed;
+  const type = (candidate as { type?: unknown }).type;
+  if (
+    type !== "Point" &&
+    type !== "LineString" &&
+    type !== "Polygon" &&
+    type !== "MultiPolygon"
+  ) {
+    throw new Error(
+      "Geometry must be a Point, LineString, Polygon or MultiPolygon.",
+    );
+  }
+  return candidate as AssetGeometry;
+}
+
+function MapViewportWatcher({
+  onChange,
+}: {
+  onChange: (bounds: LatLngBounds, zoom: number) => void;
+}) {
+  const map = useMapEvents({
+    moveend: () => onChange(map.getBounds(), map.getZoom()),
+  });
+  useEffect(() => {
+    onChange(map.getBounds(), map.getZoom());
+  }, [map]);
+  return null;
+}
+
+function roundBoundsValue(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
+
+// The server only takes longitudes within ±180 and latitudes within ±90. Zoomed out, or panned
+// across the antimeridian, Leaflet's bounds run past those, so the view is shifted back a whole
+// turn and whatever still overhangs is clamped off.
+function viewportBbox(bounds: LatLngBounds): number[] {
+  const west = bounds.getWest();
+  const east = bounds.getEast();
+  const turns = east - west >= 360 ? 0 : Math.round((west + east) / 2 / 360);
+  return [
+    Math.max(west - turns * 360, -180),
+    Math.max(bounds.getSouth(), -90),
+    Math.min(east - turns * 360, 180),
+    Math.min(bounds.getNorth(), 90),
+  ].map(roundBoundsValue);
+}
+
+// Same precision the server stores latitude/longitude at.
+function roundCoordinate(value: number): number {
+  return Math.round(value * 1e6) / 1e6;
+}
+
+function attributeText(value: unknown): string {
+  return value === undefined || value === null ? "" : String(value);
+}
+
+// Selects for allowed values and true/false; a blank choice leaves the attribute unset.
+function AttributeInput({
+  attribute,
+  value,
+  emptyLabel,
+  onChange,
+}: {
+  attribute: AttributeDefinition;
+  value: string;
+  emptyLabel: string;
+  onChange: (value: string) => void;
+}) {
+  const choices =
+    attribute.dataType === "boolean"
+      ? ["true", "false"]
+      : attribute.allowedValues;
+  if (choices.length > 0) {
+    return (
+      <select
+        aria-label={attribute.label}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        <option value="">{emptyLabel}</option>
+        {choices.map((choice) => (
+          <option key={choice} value={choice}>
+            {attribute.dataType === "boolean"
+              ? `${attribute.label}: ${choice === "true" ? "Yes" : "No"}`
+              : choice}
+          </option>
+        ))}
+      </select>
+    );
+  }
+  return (
+    <input
+      aria-label={attribute.label}
+      type={
+        attribute.dataType === "number"
+          ? "number"
+          : attribute.dataType === "date"
+            ? "date"
+            : "text"
+      }
+      step="any"
+      value={value}
+      placeholder={attribute.label}
+      onChange={(e) => onChange(e.target.value)}
+    />
+  );
+}
+
+function FieldMessage({ message }: { message?: string }) {
+  return message ? <small className="field-error">{message}</small> : null;
+}
+
 export default function App() {
   const accountMenuRef = useRef<HTMLDivElement | null>(null);
   const [accountMenuOpen, setAccountMenuOpen] = useState(false);
   const [session, setSession] = useState<AuthSession | null>(null);
   const [loginUsername, setLoginUsername] = useState("admin");
-  const [loginPassword, setLoginPassword] = useState("adminPassword");
+  const [loginPassword, setLoginPassword] = useState("");
   const [authError, setAuthError] = useState("");
 
+  // The assets drawn one by one on the map; assetTotal is how many match the filters.
   const [assets, setAssets] = useState<Asset[]>([]);
-  const [allAssets, setAllAssets] = useState<Asset[]>([]);
+  const [assetTotal, setAssetTotal] = useState(0);
+  const [regions, setRegions] = useState<string[]>([]);
+  const [types, setTypes] = useState<string[]>([]);
   const [filters, setFilters] = useState<AssetFilters>(defaultFilters);
   const [qaIssues, setQaIssues] = useState<QaIssue[]>([]);
   const [form, setForm] = useState(emptyAsset);
+  const [geometryText, setGeometryText] = useState("");
+  // "" for latitude/longitude entry, otherwise the EPSG code of an MGA grid.
+  const [gridCode, setGridCode] = useState("");
+  const [gridText, setGridText] = useState({ easting: "", northing: "" });
+  const [exportCrs, setExportCrs] = useState(EXPORT_CRS_OPTIONS[0].code);
+  const [formError, setFormError] = useState("");
+  const [fieldErrors, setFieldErrors] = useState<Record<string, string>>({});
   const [editingId, setEditingId] = useState<string | null>(null);
+  // The record as it was when opened, for If-Match and three-way merges.
+  const [editingOriginal, setEditingOriginal] = useState<Asset | null>(null);
+  const [conflict, setConflict] = useState<{
+    current: Asset;
+    mine: AssetDraft;
+  } | null>(null);
+  const [editTab, setEditTab] = useState<
+    "details" | "history" | "attachments" | "inspections"
+  >("details");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [qaRan, setQaRan] = useState(false);
   const [qaFilter, setQaFilter] = useState<QaFilter>("ALL");
+  const [qaShowWaived, setQaShowWaived] = useState(false);
+  const [mergeAssets, setMergeAssets] = useState<Asset[] | null>(null);
   const [sortKey, setSortKey] = useState<SortKey>("name");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
+  const [tableRows, setTableRows] = useState<Asset[]>([]);
+  const [tableTotal, setTableTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [tableLoading, setTableLoading] = useState(false);
+  const [tableScrollTop, setTableScrollTop] = useState(0);
+  const tableScrollRef = useRef<HTMLDivElement | null>(null);
+  const tableRequestRef = useRef(0);
+  const mapRequestRef = useRef(0);
+  const [importOpen, setImportOpen] = useState(false);
+  const [recycleBinOpen, setRecycleBinOpen] = useState(false);
+  const [userAdminOpen, setUserAdminOpen] = useState(false);
+  const [apiKeysOpen, setApiKeysOpen] = useState(false);
+  const [qaRulesOpen, setQaRulesOpen] = useState(false);
+  const [assetTypesOpen, setAssetTypesOpen] = useState(false);
+  const [assetTypes, setAssetTypes] = useState<AssetTypeSchema[]>([]);
+  const [qaHistoryOpen, setQaHistoryOpen] = useState(false);
+  const [latestQaRunId, setLatestQaRunId] = useState<string | null>(null);
+  const [changePasswordOpen, setChangePasswordOpen] = useState(false);
+  const [viewportOnly, setViewportOnly] = useState(false);
+  const [mapBbox, setMapBbox] = useState<number[]>([]);
+  const [mapZoom, setMapZoom] = useState(10);
+  const [mapColorMode, setMapColorMode] = useState<MapColorMode>("status");
+  const [inspectionSummaries, setInspectionSummaries] = useState<
+    InspectionSummary[]
+  >([]);
+  const [overdueOpen, setOverdueOpen] = useState(false);
 
   const isAdmin = session?.role === "admin";
+  const canEdit = isAdmin || session?.role === "editor";
   const roleDescription = isAdmin
     ? "Manage, update, quality-check and export Crown land style spatial records."
-    : "View, search and export Crown land style spatial records (read-only access).";
+    : canEdit
+      ? `Update, quality-check and export Crown land style spatial records for ${session?.regions.join(", ")}.`
+      : "View, search and export Crown land style spatial records (read-only access).";
+
+  // Mirrors the server's scope check so out-of-scope rows are disabled rather than failing on save.
+  function canEditAsset(asset: Pick<Asset, "region" | "type">): boolean {
+    if (!session || !canEdit) return false;
+    if (isAdmin) return true;
+    const matches = (list: string[], value: string) =>
+      list.some((item) => item.toLowerCase() === value.trim().toLowerCase());
+    return (
+      matches(session.regions, asset.region) &&
+      (session.assetTypes.length === 0 ||
+        matches(session.assetTypes, asset.type))
+    );
+  }
+
+  function schemaFor(type: string): AssetTypeSchema | undefined {
+    return assetTypes.find(
+      (schema) => schema.type.toLowerCase() === type.trim().toLowerCase(),
+    );
+  }
+
+  const formSchema = schemaFor(form.type);
+  // Attribute filters are offered once the list is narrowed to a single type.
+  const filterSchema =
+    filters.type.length === 1 ? schemaFor(filters.type[0]) : undefined;
 
-  const regions = useMemo(
-    () => [...new Set(allAssets.map((a) => a.region))],
-    [allAssets],
+  const queryFilters = useMemo<AssetFilters>(
+    () =>
+      viewportOnly && mapBbox.length === 4
+        ? { ...filters, bbox: mapBbox }
+        : filters,
+    [filters, mapBbox, viewportOnly],
   );
-  const types = useMemo(
-    () => [...new Set(allAssets.map((a) => a.type))],
-    [allAssets],
+
+  const summaryById = useMemo(
+    () =>
+      new Map(inspectionSummaries.map((summary) => [summary.assetId, summary])),
+    [inspectionSummaries],
+  );
+
+  // Memoized so the vector tiles are only redrawn when the colours change.
+  const assetColor = useMemo(() => {
+    if (mapColorMode === "condition") {
+      return (id: string) => conditionColor(summaryById.get(id));
+    }
+    if (mapColorMode === "due") {
+      return (id: string) => dueColor(summaryById.get(id));
+    }
+    return (_id: string, status: Asset["status"]) => statusColor(status);
+  }, [mapColorMode, summaryById]);
+
+  const mapLegend =
+    mapColorMode === "condition"
+      ? conditionLegend()
+      : mapColorMode === "due"
+        ? dueLegend()
+        : STATUS_LEGEND;
+
+  const manyAssets = assetTotal > VECTOR_TILE_ASSET_THRESHOLD;
+  const showVectorTiles = manyAssets && mapZoom < MARKER_MIN_ZOOM;
+  const mapAssets = showVectorTiles ? [] : assets;
+
+  // Waived issues are listed when asked for but never count against an asset.
+  const activeQaIssues = useMemo(
+    () => qaIssues.filter((issue) => issue.status !== "waived"),
+    [qaIssues],
   );
 
   const qaByAssetId = useMemo(() => {
-    const grouped = new Map<string, string[]>();
-    qaIssues.forEach((issue) => {
+    const grouped = new Map<string, QaIssue[]>();
+    activeQaIssues.forEach((issue) => {
       const list = grouped.get(issue.assetId) ?? [];
-      list.push(issue.code);
+      list.push(issue);
       grouped.set(issue.assetId, list);
     });
     return grouped;
-  }, [qaIssues]);
-
-  const sortedAssets = useMemo(() => {
-    const list = [...assets];
-    list.sort((a, b) => {
-      const aValue = a[sortKey];
-      const bValue = b[sortKey];
-      if (typeof aValue === "number" || aValue === null) {
-        const left = aValue ?? Number.NEGATIVE_INFINITY;
-        const right = (bValue as number | null) ?? Number.NEGATIVE_INFINITY;
-        return sortDirection === "asc" ? left - right : right - left;
-      }
-      const left = String(aValue).toLowerCase();
-      const right = String(bValue).toLowerCase();
-      if (left < right) return sortDirection === "asc" ? -1 : 1;
-      if (left > right) return sortDirection === "asc" ? 1 : -1;
-      return 0;
+  }, [activeQaIssues]);
+
+  const qaSeverityCounts = useMemo(() => {
+    const counts = { error: 0, warning: 0, info: 0 };
+    activeQaIssues.forEach((issue) => {
+      counts[issue.severity] += 1;
     });
-    return list;
-  }, [assets, sortDirection, sortKey]);
+    return counts;
+  }, [activeQaIssues]);
 
   const visibleAssets = useMemo(() => {
-    if (!qaRan || qaFilter === "ALL") return sortedAssets;
-    return sortedAssets.filter((asset) => {
-      const codes = qaByAssetId.get(asset.id) ?? [];
-      if (qaFilter === "NO_ERRORS") return codes.length === 0;
-      return codes.includes(qaFilter);
+    if (!qaRan || qaFilter === "ALL") return tableRows;
+    return tableRows.filter((asset) => {
+      const issues = qaByAssetId.get(asset.id) ?? [];
+      if (qaFilter === "NO_ERRORS") return issues.length === 0;
+      return issues.some((issue) => issue.code === qaFilter);
     });
-  }, [qaByAssetId, qaFilter, qaRan, sortedAssets]);
+  }, [qaByAssetId, qaFilter, qaRan, tableRows]);
+
+  const firstRenderedRow = Math.max(
+    0,
+    Math.floor(tableScrollTop / TABLE_ROW_HEIGHT) - TABLE_OVERSCAN_ROWS,
+  );
+  const lastRenderedRow = Math.min(
+    visibleAssets.length,
+    Math.ceil((tableScrollTop + TABLE_VIEWPORT_HEIGHT) / TABLE_ROW_HEIGHT) +
+      TABLE_OVERSCAN_ROWS,
+  );
+  const renderedAssets = visibleAssets.slice(firstRenderedRow, lastRenderedRow);
 
   useEffect(() => {
     const raw = localStorage.getItem("spatial-auth");
     if (!raw) return;
     try {
       const saved = JSON.parse(raw) as AuthSession;
-      setSession(saved);
-      setAuthToken(saved.token);
+      // Sessions saved before refresh tokens existed cannot be renewed.
+      if (!saved.refreshToken) throw new Error("Outdated session");
+      setSession({
+        ...saved,
+        regions: saved.regions ?? [],
+        assetTypes: saved.assetTypes ?? [],
+      });
+      setAuthTokens(saved);
     } catch {
       localStorage.removeItem("spatial-auth");
     }
   }, []);
 
+  useEffect(() => {
+    onAuthTokensChange((tokens) => {
+      if (!tokens) {
+        clearSession();
+        setAuthError("Your session has ended. Please sign in again.");
+        return;
+      }
+      setSession((current) => {
+        if (!current) return current;
+        const next = { ...current, ...tokens };
+        localStorage.setItem("spatial-auth", JSON.stringify(next));
+        return next;
+      });
+    });
+    return () => onAuthTokensChange(null);
+  }, []);
+
   useEffect(() => {
     function handleOutsideClick(event: MouseEvent) {
       const target = event.target as Node | null;
@@ -243,16 +588,73 @@ export default function App() {
     };
   }, []);
 
+  async function loadTablePage(cursor: string | null) {
+    const requestId = ++tableRequestRef.current;
+    setTableLoading(true);
+    try {
+      const page = await getAssetPage(queryFilters, {
+        limit: TABLE_PAGE_SIZE,
+        cursor,
+        sort: { field: sortKey, direction: sortDirection },
+      });
+      if (requestId !== tableRequestRef.current) return;
+      if (!cursor) {
+        tableScrollRef.current?.scrollTo({ top: 0 });
+        setTableScrollTop(0);
+      }
+      setTableRows((current) =>
+        cursor ? [...current, ...page.items] : page.items,
+      );
+      setTableTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      if (requestId === tableRequestRef.current) setTableLoading(false);
+    }
+  }
+
+  function handleTableScroll(event: React.UIEvent<HTMLDivElement>) {
+    const target = event.currentTarget;
+    setTableScrollTop(target.scrollTop);
+    const nearBottom =
+      target.scrollTop + target.clientHeight >=
+      target.scrollHeight - TABLE_ROW_HEIGHT * 10;
+    if (nearBottom && nextCursor && !tableLoading) {
+      loadTablePage(nextCursor);
+    }
+  }
+
+  // Every matching asset when there are few enough to draw one by one. With more, the map draws
+  // vector tiles and only loads the assets in view once zoomed in to MARKER_MIN_ZOOM.
+  async function loadMapAssets(total: number) {
+    const requestId = ++mapRequestRef.current;
+    const many = total > VECTOR_TILE_ASSET_THRESHOLD;
+    if (many && (mapZoom < MARKER_MIN_ZOOM || mapBbox.length !== 4)) {
+      setAssets([]);
+      return;
+    }
+    const page = await getAssetPage(
+      many ? { ...queryFilters, bbox: mapBbox } : queryFilters,
+      { limit: VECTOR_TILE_ASSET_THRESHOLD },
+    );
+    if (requestId === mapRequestRef.current) setAssets(page.items);
+  }
+
   async function loadAssets() {
     setLoading(true);
     setError("");
     try {
-      const [data, full] = await Promise.all([
-        getAssets(filters),
-        getAssets(defaultFilters),
+      // A one-row page is enough for the total, which decides between markers and vector tiles.
+      const [count, regionValues, typeValues] = await Promise.all([
+        getAssetPage(queryFilters, { limit: 1 }),
+        getAssetValues("region"),
+        getAssetValues("type"),
       ]);
-      setAssets(data);
-      setAllAssets(full);
+      setAssetTotal(count.total);
+      setRegions(regionValues);
+      setTypes(typeValues);
+      await Promise.all([loadMapAssets(count.total), loadTablePage(null)]);
     } catch (e) {
       setError((e as Error).message);
     } finally {
@@ -260,17 +662,79 @@ export default function App() {
     }
   }
 
+  // Only fetched while the map is coloured by inspection results, for the same page of assets
+  // that loadMapAssets drew as markers.
+  async function loadInspectionSummaries() {
+    if (mapColorMode === "status") return;
+    if (assets.length === 0) {
+      setInspectionSummaries([]);
+      return;
+    }
+    try {
+      setInspectionSummaries(
+        await getInspectionSummaries(
+          manyAssets ? { ...queryFilters, bbox: mapBbox } : queryFilters,
+          { limit: VECTOR_TILE_ASSET_THRESHOLD },
+        ),
+      );
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function loadAssetTypes() {
+    try {
+      setAssetTypes(await getAssetTypes());
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
   useEffect(() => {
     if (!session) return;
     loadAssets();
-  }, [filters.search, filters.region, filters.type, filters.status, session]);
+  }, [
+    filters.search,
+    filters.region,
+    filters.type,
+    filters.status,
+    JSON.stringify(filters.attributes ?? {}),
+    queryFilters.bbox?.join(","),
+    session,
+  ]);
+
+  useEffect(() => {
+    if (!session) return;
+    loadAssetTypes();
+  }, [session?.username]);
+
+  // With many assets the markers follow the view, so panning or zooming reloads them.
+  useEffect(() => {
+    if (!session || !manyAssets) return;
+    loadMapAssets(assetTotal).catch((e) => setError((e as Error).message));
+  }, [mapBbox.join(","), mapZoom >= MARKER_MIN_ZOOM]);
+
+  useEffect(() => {
+    if (!session) return;
+    loadInspectionSummaries();
+  }, [mapColorMode, assets]);
+
+  useEffect(() => {
+    if (!session) return;
+    loadTablePage(null);
+  }, [sortKey, sortDirection]);
+
+  function handleViewportChange(bounds: LatLngBounds, zoom: number) {
+    setMapZoom(zoom);
+    setMapBbox(viewportBbox(bounds));
+  }
 
   async function handleLogin(event: React.FormEvent) {
     event.preventDefault();
     setAuthError("");
     try {
       const nextSession = await login(loginUsername, loginPassword);
-      setAuthToken(nextSession.token);
+      setAuthTokens(nextSession);
       setSession(nextSession);
       setAccountMenuOpen(false);
       localStorage.setItem("spatial-auth", JSON.stringify(nextSession));
@@ -279,23 +743,89 @@ export default function App() {
     }
   }
 
-  function handleLogout() {
+  async function handleLogout() {
+    try {
+      await logout();
+    } catch {
+      // Already signed out on the server, or unreachable; clear locally anyway.
+    }
+    clearSession();
+  }
+
+  function clearSession() {
     setSession(null);
     setAccountMenuOpen(false);
+    setUserAdminOpen(false);
+    setApiKeysOpen(false);
+    setChangePasswordOpen(false);
     setAuthError("");
     setError("");
-    setAuthToken("");
+    setAuthTokens(null);
     localStorage.removeItem("spatial-auth");
     sessionStorage.removeItem("spatial-auth");
     setAssets([]);
+    setAssetTotal(0);
+    setTableRows([]);
+    setTableTotal(0);
+    setNextCursor(null);
     setQaIssues([]);
     setQaRan(false);
+    setInspectionSummaries([]);
+    setOverdueOpen(false);
   }
 
+  // Saved to the QA history, so only the Run QA Checks button records a run.
   async function runQa() {
-    const issues = await getQaIssues();
-    setQaIssues(issues);
-    setQaRan(true);
+    try {
+      const run = await createQaRun(queryFilters);
+      // Saved runs leave waived issues out, so fetch them separately when they are shown.
+      setQaIssues(
+        qaShowWaived ? await getQaIssues(queryFilters, true) : run.issues,
+      );
+      setLatestQaRunId(run.id);
+      setQaRan(true);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  // Re-checks after an edit without adding another run to the history.
+  async function refreshQa(includeWaived = qaShowWaived) {
+    setQaIssues(await getQaIssues(queryFilters, includeWaived));
+  }
+
+  async function toggleShowWaived(includeWaived: boolean) {
+    setQaShowWaived(includeWaived);
+    try {
+      await refreshQa(includeWaived);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function openMerge(issue: QaIssue) {
+    try {
+      const found = await Promise.all(
+        [issue.assetId, ...(issue.relatedAssetIds ?? [])].map(getAsset),
+      );
+      // An id merged away since the run resolves to its survivor, which may already be listed.
+      setMergeAssets(
+        found.filter(
+          (asset, index) =>
+            found.findIndex((other) => other.id === asset.id) === index,
+        ),
+      );
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function finishMerge(merged: Asset) {
+    setMergeAssets(null);
+    await loadAssets();
+    if (qaRan) await refreshQa();
+    if (editingId === merged.id) startEdit(merged);
+    else if (editingId && merged.aliases?.includes(editingId)) clearForm();
   }
 
   function hideQa() {
@@ -323,21 +853,84 @@ export default function App() {
     await loadAssets();
   }
 
-  function startEdit(asset: Asset) {
-    setEditingId(asset.id);
+  function showGridCoordinates(
+    code: string,
+    draft: Pick<AssetDraft, "latitude" | "longitude">,
+  ) {
+    const grid = GRID_OPTIONS.find((option) => option.code === code);
+    if (!grid || draft.latitude === null || draft.longitude === null) {
+      setGridText({ easting: "", northing: "" });
+      return;
+    }
+    const [easting, northing] = latLonToGrid(
+      grid,
+      draft.latitude,
+      draft.longitude,
+    );
+    setGridText({ easting: easting.toFixed(3), northing: northing.toFixed(3) });
+  }
+
+  // Converts as the user types; until both values are numbers the position is left empty.
+  function changeGridCoordinates(next: { easting: string; northing: string }) {
+    setGridText(next);
+    const grid = GRID_OPTIONS.find((option) => option.code === gridCode);
+    const easting = Number(next.easting);
+    const northing = Number(next.northing);
+    if (
+      !grid ||
+      !next.easting.trim() ||
+      !next.northing.trim() ||
+      !Number.isFinite(easting) ||
+      !Number.isFinite(northing)
+    ) {
+      setForm({ ...form, latitude: null, longitude: null });
+      return;
+    }
+    const { latitude, longitude } = gridToLatLon(grid, easting, northing);
     setForm({
-      name: asset.name,
-      region: asset.region,
-      type: asset.type,
-      status: asset.status,
-      latitude: asset.latitude,
-      longitude: asset.longitude,
+      ...form,
+      latitude: roundCoordinate(latitude),
+      longitude: roundCoordinate(longitude),
     });
   }
 
+  function loadDraft(draft: AssetDraft) {
+    setForm(draft);
+    showGridCoordinates(gridCode, draft);
+    setGeometryText(
+      draft.geometry && draft.geometry.type !== "Point"
+        ? JSON.stringify(draft.geometry)
+        : "",
+    );
+  }
+
+  function startEdit(asset: Asset) {
+    setEditingId(asset.id);
+    setEditingOriginal(asset);
+    loadDraft(draftFromAsset(asset));
+    setFormError("");
+    setFieldErrors({});
+    setEditTab("details");
+  }
+
+  async function openInspections(assetId: string) {
+    try {
+      startEdit(await getAsset(assetId));
+      setEditTab("inspections");
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
   function clearForm() {
     setEditingId(null);
+    setEditingOriginal(null);
+    setEditTab("details");
     setForm(emptyAsset);
+    showGridCoordinates(gridCode, emptyAsset);
+    setGeometryText("");
+    setFormError("");
+    setFieldErrors({});
   }
 
   function toggleSort(key: SortKey) {
@@ -362,32 +955,166 @@ export default function App() {
     filters.search.trim().length > 0 ||
     filters.region.length > 0 ||
     filters.type.length > 0 ||
-    filters.status.length > 0;
+    filters.status.length > 0 ||
+    Object.values(filters.attributes ?? {}).some((value) => value.trim());
 
   async function submitForm(event: React.FormEvent) {
     event.preventDefault();
-    if (!isAdmin) return;
+    if (!canEdit) return;
     const isCreate = editingId === null;
-    if (editingId) {
-      await updateAsset(editingId, form);
-    } else {
-      await createAsset(form);
+    setFormError("");
+    setFieldErrors({});
+    let payload: typeof form;
+    // Only the current type's attributes are sent, so values typed in before a type change are dropped.
+    const attributes = Object.fromEntries(
+      (formSchema?.attributes ?? []).map((attribute) => [
+        attribute.name,
+        form.attributes?.[attribute.name] ?? "",
+      ]),
+    );
+    try {
+      payload = {
+        ...form,
+        attributes,
+        geometry: parseGeometryText(geometryText),
+      };
+    } catch (e) {
+      setFieldErrors({ geometry: (e as Error).message });
+      return;
+    }
+    try {
+      if (editingOriginal) {
+        await updateAsset(editingOriginal.id, payload, editingOriginal.version);
+      } else {
+        await createAsset(payload);
+      }
+    } catch (e) {
+      if (e instanceof AssetConflictError) {
+        setConflict({ current: e.current, mine: payload });
+        return;
+      }
+      showSaveError(e);
+      return;
+    }
+    clearForm();
+    await loadAssets();
+    if (isCreate && qaRan) await refreshQa();
+  }
+
+  function showSaveError(e: unknown) {
+    if (e instanceof ApiValidationError) {
+      setFieldErrors(
+        Object.fromEntries(
+          e.errors.map((fieldError) => [fieldError.field, fieldError.message]),
+        ),
+      );
+    }
+    setFormError((e as Error).message);
+  }
+
+  async function overwriteConflict() {
+    if (!conflict) return;
+    const { current, mine } = conflict;
+    setConflict(null);
+    try {
+      await updateAsset(current.id, mine, current.version);
+    } catch (e) {
+      if (e instanceof AssetConflictError) {
+        setConflict({ current: e.current, mine });
+        return;
+      }
+      showSaveError(e);
+      return;
     }
     clearForm();
     await loadAssets();
-    if (isCreate && qaRan) await runQa();
+  }
+
+  function mergeConflict() {
+    if (!conflict || !editingOriginal) return;
+    const merged = mergeDraft(editingOriginal, conflict.current, conflict.mine);
+    setEditingOriginal(conflict.current);
+    loadDraft(merged);
+    setConflict(null);
+    setFormError(
+      "Merged with the latest server copy. Review and update again.",
+    );
+  }
+
+  function discardConflict() {
+    if (!conflict) return;
+    startEdit(conflict.current);
+    setConflict(null);
   }
 
   async function removeAsset(asset: Asset) {
-    if (!isAdmin) return;
+    if (!canEditAsset(asset)) return;
     const confirmed = window.confirm(
-      `Delete asset ${asset.id} (${asset.name || "Unnamed"})?`,
+      `Move asset ${asset.id} (${asset.name || "Unnamed"}) to the recycle bin?`,
     );
     if (!confirmed) return;
-    await deleteAsset(asset.id);
+    try {
+      await deleteAsset(asset.id, asset.version);
+    } catch (e) {
+      if (!(e instanceof AssetConflictError)) throw e;
+      const stillDelete = window.confirm(
+        `${asset.id} changed since it was loaded. Move it to the recycle bin anyway?`,
+      );
+      if (!stillDelete) {
+        await loadAssets();
+        return;
+      }
+      await deleteAsset(asset.id, e.current.version);
+    }
     if (editingId === asset.id) clearForm();
     await loadAssets();
-    if (qaRan) await runQa();
+    if (qaRan) await refreshQa();
+  }
+
+  function renderPopup(asset: Asset) {
+    const inspection = summaryById.get(asset.id);
+    return (
+      <Popup>
+        <strong>{asset.name}</strong>
+        <br />
+        {asset.type} | {asset.region}
+        <br />
+        Status: {asset.status}
+        <br />
+        {(schemaFor(asset.type)?.attributes ?? [])
+          .filter(
+            (attribute) => asset.attributes?.[attribute.name] !== undefined,
+          )
+          .map((attribute) => (
+            <span key={attribute.name}>
+              {attribute.label}:{" "}
+              {attributeText(asset.attributes?.[attribute.name])}
+              <br />
+            </span>
+          ))}
+        {inspection ? (
+          <>
+            Condition: {conditionText(inspection.condition)}, inspected{" "}
+            {inspection.lastInspectedOn}
+            <br />
+            {dueText(inspection)}
+            <br />
+          </>
+        ) : null}
+        <AssetAttachments assetId={asset.id} />
+        {canEditAsset(asset) ? (
+          <button
+            type="button"
+            className="icon-btn"
+            data-label="Edit"
+            aria-label={`Edit ${asset.id}`}
+            onClick={() => startEdit(asset)}
+          >
+            <EditIcon />
+          </button>
+        ) : null}
+      </Popup>
+    );
   }
 
   if (!session) {
@@ -444,26 +1171,26 @@ export default function App() {
                   className="demo-card"
                   onClick={() => {
                     setLoginUsername("admin");
-                    setLoginPassword("adminPassword");
+                    setLoginPassword("");
                   }}
                 >
                   <span className="demo-role">
                     <BadgeIcon /> Admin
                   </span>
-                  <small className="demo-creds">admin / adminPassword</small>
+                  <small className="demo-creds">admin</small>
                 </button>
                 <button
                   type="button"
                   className="demo-card"
                   onClick={() => {
                     setLoginUsername("user");
-                    setLoginPassword("userPassword");
+                    setLoginPassword("");
                   }}
                 >
                   <span className="demo-role">
                     <UserIcon /> User
                   </span>
-                  <small className="demo-creds">user / userPassword</small>
+                  <small className="demo-creds">user</small>
                 </button>
               </div>
             </div>
@@ -497,16 +1224,52 @@ export default function App() {
               </button>
               {accountMenuOpen ? (
                 <div className="account-dropdown" role="menu">
-                  {/* <button
+                  {isAdmin ? (
+                    <button
+                      type="button"
+                      className="account-item"
+                      role="menuitem"
+                      onClick={() => {
+                        setUserAdminOpen(true);
+                        setAccountMenuOpen(false);
+                      }}
+                    >
+                      <span className="account-item-icon" aria-hidden="true">
+                        <BadgeIcon />
+                      </span>
+                      Manage users
+                    </button>
+                  ) : null}
+                  {isAdmin ? (
+                    <button
+                      type="button"
+                      className="account-item"
+                      role="menuitem"
+                      onClick={() => {
+                        setApiKeysOpen(true);
+                        setAccountMenuOpen(false);
+                      }}
+                    >
+                      <span className="account-item-icon" aria-hidden="true">
+                        <KeyIcon />
+                      </span>
+                      API keys
+                    </button>
+                  ) : null}
+                  <button
                     type="button"
                     className="account-item"
                     role="menuitem"
+                    onClick={() => {
+                      setChangePasswordOpen(true);
+                      setAccountMenuOpen(false);
+                    }}
                   >
                     <span className="account-item-icon" aria-hidden="true">
-                      <BadgeIcon />
+                      <KeyIcon />
                     </span>
-                    View account
-                  </button> */}
+                    Change password
+                  </button>
                   <button
                     type="button"
                     className="account-item"
@@ -578,6 +1341,7 @@ export default function App() {
                 setFilters({
                   ...filters,
                   type: typeof value === "string" ? value.split(",") : value,
+                  attributes: undefined,
                 });
               }}
             >
@@ -630,6 +1394,28 @@ export default function App() {
               </MenuItem>
             </Select>
           </FormControl>
+          {(filterSchema?.attributes ?? []).map((attribute) => (
+            <FormControl
+              key={attribute.name}
+              size="small"
+              className="attribute-filter"
+            >
+              <AttributeInput
+                attribute={attribute}
+                value={filters.attributes?.[attribute.name] ?? ""}
+                emptyLabel={`Any ${attribute.label}`}
+                onChange={(value) =>
+                  setFilters({
+                    ...filters,
+                    attributes: {
+                      ...filters.attributes,
+                      [attribute.name]: value,
+                    },
+                  })
+                }
+              />
+            </FormControl>
+          ))}
           <button
             type="button"
             className="filter-clear-btn"
@@ -641,6 +1427,14 @@ export default function App() {
             Clear
           </button>
         </Box>
+        <label className="viewport-toggle">
+          <input
+            type="checkbox"
+            checked={viewportOnly}
+            onChange={(e) => setViewportOnly(e.target.checked)}
+          />
+          Only load assets in the current map view
+        </label>
       </section>
 
       <section className="map-panel">
@@ -654,109 +1448,317 @@ export default function App() {
             attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
             url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
           />
-          {assets
-            .filter(
-              (asset) => asset.latitude !== null && asset.longitude !== null,
-            )
-            .map((asset) => (
+          <MapViewportWatcher onChange={handleViewportChange} />
+          {showVectorTiles ? (
+            <AssetTileLayer filters={filters} colorFor={assetColor} />
+          ) : null}
+          {mapAssets.map((asset) => {
+            const geometry = asset.geometry;
+            const pathOptions = { color: assetColor(asset.id, asset.status) };
+            if (geometry?.type === "LineString") {
+              return (
+                <Polyline
+                  key={asset.id}
+                  positions={geometry.coordinates.map(toLatLng)}
+                  pathOptions={{ ...pathOptions, weight: 4 }}
+                >
+                  {renderPopup(asset)}
+                </Polyline>
+              );
+            }
+            if (
+              geometry?.type === "Polygon" ||
+              geometry?.type === "MultiPolygon"
+            ) {
+              return (
+                <Polygon
+                  key={asset.id}
+                  positions={polygonLatLngs(geometry)}
+                  pathOptions={pathOptions}
+                >
+                  {renderPopup(asset)}
+                </Polygon>
+              );
+            }
+            if (asset.latitude === null || asset.longitude === null) {
+              return null;
+            }
+            return (
               <CircleMarker
                 key={asset.id}
-                center={[asset.latitude as number, asset.longitude as number]}
+                center={[asset.latitude, asset.longitude]}
                 radius={8}
-                pathOptions={{
-                  color:
-                    asset.status === "Active"
-                      ? "#0a7"
-                      : asset.status === "Planned"
-                        ? "#f39c12"
-                        : "#95a5a6",
-                }}
+                pathOptions={pathOptions}
               >
-                <Popup>
-                  <strong>{asset.name}</strong>
-                  <br />
-                  {asset.type} | {asset.region}
-                  <br />
-                  Status: {asset.status}
-                  <br />
-                  {isAdmin ? (
-                    <button
-                      type="button"
-                      className="icon-btn"
-                      data-label="Edit"
-                      aria-label={`Edit ${asset.id}`}
-                      onClick={() => startEdit(asset)}
-                    >
-                      <EditIcon />
-                    </button>
-                  ) : null}
-                </Popup>
+                {renderPopup(asset)}
               </CircleMarker>
-            ))}
+            );
+          })}
         </MapContainer>
-      </section>
-
-      {isAdmin ? (
-        <section className="panel">
-          <h2>{editingId ? "Update Asset" : "Add Asset"}</h2>
-          <form className="grid add-asset-grid" onSubmit={submitForm}>
-            <input
-              required
-              value={form.name}
-              placeholder="Asset name"
-              onChange={(e) => setForm({ ...form, name: e.target.value })}
-            />
-            <input
-              required
-              value={form.region}
-              placeholder="Region"
-              onChange={(e) => setForm({ ...form, region: e.target.value })}
-            />
-            <input
-              required
-              value={form.type}
-              placeholder="Type"
-              onChange={(e) => setForm({ ...form, type: e.target.value })}
-            />
+        <div className="status-legend map-legend">
+          <label>
+            Colour by{" "}
             <select
-              value={form.status}
-              onChange={(e) =>
-                setForm({ ...form, status: e.target.value as Asset["status"] })
-              }
+              value={mapColorMode}
+              onChange={(e) => setMapColorMode(e.target.value as MapColorMode)}
             >
-              <option value="Active">Active</option>
-              <option value="Inactive">Inactive</option>
-              <option value="Planned">Planned</option>
+              <option value="status">Status</option>
+              <option value="condition">Condition</option>
+              <option value="due">Inspection due</option>
             </select>
-            <input
-              type="number"
-              placeholder="Latitude"
-              value={form.latitude ?? ""}
-              onChange={(e) =>
-                setForm({
-                  ...form,
-                  latitude: e.target.value ? Number(e.target.value) : null,
-                })
-              }
-            />
-            <input
-              type="number"
-              placeholder="Longitude"
-              value={form.longitude ?? ""}
-              onChange={(e) =>
-                setForm({
-                  ...form,
-                  longitude: e.target.value ? Number(e.target.value) : null,
-                })
-              }
-            />
-            <div className="actions">
-              <button type="submit">{editingId ? "Update" : "Create"}</button>
-              <button type="button" onClick={clearForm}>
-                Clear
+          </label>
+          {mapLegend.map((entry) => (
+            <span key={entry.label}>
+              <StatusDot color={entry.color} />
+              {entry.label}
+            </span>
+          ))}
+        </div>
+      </section>
+
+      {canEdit ? (
+        <section className="panel">
+          <h2>{editingId ? `Update Asset ${editingId}` : "Add Asset"}</h2>
+          {editingId ? (
+            <div className="edit-tabs" role="tablist">
+              <button
+                type="button"
+                role="tab"
+                aria-selected={editTab === "details"}
+                className={
+                  editTab === "details" ? "edit-tab active" : "edit-tab"
+                }
+                onClick={() => setEditTab("details")}
+              >
+                Details
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={editTab === "history"}
+                className={
+                  editTab === "history" ? "edit-tab active" : "edit-tab"
+                }
+                onClick={() => setEditTab("history")}
+              >
+                History
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={editTab === "attachments"}
+                className={
+                  editTab === "attachments" ? "edit-tab active" : "edit-tab"
+                }
+                onClick={() => setEditTab("attachments")}
+              >
+                Attachments
+              </button>
+              <button
+                type="button"
+                role="tab"
+                aria-selected={editTab === "inspections"}
+                className={
+                  editTab === "inspections" ? "edit-tab active" : "edit-tab"
+                }
+                onClick={() => setEditTab("inspections")}
+              >
+                Inspections
               </button>
             </div>
-          </form>
+          ) : null}
+          {editingId && editTab === "inspections" ? (
+            <AssetInspections
+              assetId={editingId}
+              inspector={session.username}
+              onChanged={loadInspectionSummaries}
+            />
+          ) : editingId && editTab === "attachments" ? (
+            <AssetAttachments assetId={editingId} canManage />
+          ) : editingId && editTab === "history" ? (
+            <AssetHistory
+              assetId={editingId}
+              version={editingOriginal?.version ?? 0}
+              canRevert={isAdmin}
+              onReverted={async (asset) => {
+                startEdit(asset);
+                setEditTab("history");
+                await loadAssets();
+              }}
+            />
+          ) : (
+            <form className="grid add-asset-grid" onSubmit={submitForm}>
+              <div className="form-field">
+                <input
+                  required
+                  value={form.name}
+                  placeholder="Asset name"
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+                <FieldMessage message={fieldErrors.name} />
+              </div>
+              <div className="form-field">
+                <input
+                  required
+                  value={form.region}
+                  placeholder="Region"
+                  onChange={(e) => setForm({ ...form, region: e.target.value })}
+                />
+                <FieldMessage message={fieldErrors.region} />
+              </div>
+              <div className="form-field">
+                <input
+                  required
+                  value={form.type}
+                  placeholder="Type"
+                  onChange={(e) => setForm({ ...form, type: e.target.value })}
+                />
+                <FieldMessage message={fieldErrors.type} />
+              </div>
+              <div className="form-field">
+                <select
+                  value={form.status}
+                  onChange={(e) =>
+                    setForm({
+                      ...form,
+                      status: e.target.value as Asset["status"],
+                    })
+                  }
+                >
+                  <option value="Active">Active</option>
+                  <option value="Inactive">Inactive</option>
+                  <option value="Planned">Planned</option>
+                </select>
+                <FieldMessage message={fieldErrors.status} />
+              </div>
+              {(formSchema?.attributes ?? []).map((attribute) => (
+                <div className="form-field" key={attribute.name}>
+                  <AttributeInput
+                    attribute={attribute}
+                    value={attributeText(form.attributes?.[attribute.name])}
+                    emptyLabel={`${attribute.label}${attribute.required ? " (required)" : ""}`}
+                    onChange={(value) =>
+                      setForm({
+                        ...form,
+                        attributes: {
+                          ...form.attributes,
+                          [attribute.name]: value,
+                        },
+                      })
+                    }
+                  />
+                  <FieldMessage
+                    message={fieldErrors[`attributes.${attribute.name}`]}
+                  />
+                </div>
+              ))}
+              <div className="form-field">
+                <select
+                  aria-label="Coordinate entry"
+                  value={gridCode}
+                  onChange={(e) => {
+                    setGridCode(e.target.value);
+                    showGridCoordinates(e.target.value, form);
+                  }}
+                >
+                  <option value="">Latitude / longitude</option>
+                  {GRID_OPTIONS.map((option) => (
+                    <option key={option.code} value={option.code}>
+                      {option.label} E/N
+                    </option>
+                  ))}
+                </select>
+              </div>
+              {gridCode ? (
+                <>
+                  <div className="form-field">
+                    <input
+                      type="number"
+                      placeholder="Easting"
+                      value={gridText.easting}
+                      onChange={(e) =>
+                        changeGridCoordinates({
+                          ...gridText,
+                          easting: e.target.value,
+                        })
+                      }
+                    />
+                    <FieldMessage message={fieldErrors.longitude} />
+                  </div>
+                  <div className="form-field">
+                    <input
+                      type="number"
+                      placeholder="Northing"
+                      value={gridText.northing}
+                      onChange={(e) =>
+                        changeGridCoordinates({
+                          ...gridText,
+                          northing: e.target.value,
+                        })
+                      }
+                    />
+                    <FieldMessage message={fieldErrors.latitude} />
+                    {form.latitude !== null && form.longitude !== null ? (
+                      <small className="field-hint">
+                        {form.latitude.toFixed(6)}, {form.longitude.toFixed(6)}
+                      </small>
+                    ) : null}
+                  </div>
+                </>
+              ) : (
+                <>
+                  <div className="form-field">
+                    <input
+                      type="number"
+                      placeholder="Latitude"
+                      value={form.latitude ?? ""}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          latitude: e.target.value
+                            ? Number(e.target.value)
+                            : null,
+                        })
+                      }
+                    />
+                    <FieldMessage message={fieldErrors.latitude} />
+                  </div>
+                  <div className="form-field">
+                    <input
+                      type="number"
+                      placeholder="Longitude"
+                      value={form.longitude ?? ""}
+                      onChange={(e) =>
+                        setForm({
+                          ...form,
+                          longitude: e.target.value
+                            ? Number(e.target.value)
+                            : null,
+                        })
+                      }
+                    />
+                    <FieldMessage message={fieldErrors.longitude} />
+                  </div>
+                </>
+              )}
+              <div className="form-field geometry-field">
+                <textarea
+                  className="geometry-input"
+                  value={geometryText}
+                  placeholder="Boundary or centreline as GeoJSON (optional, replaces latitude/longitude)"
+                  onChange={(e) => setGeometryText(e.target.value)}
+                />
+                <FieldMessage message={fieldErrors.geometry} />
+              </div>
+              <div className="actions">
+                <button type="submit">{editingId ? "Update" : "Create"}</button>
+                <button type="button" onClick={clearForm}>
+                  Clear
+                </button>
+              </div>
+            </form>
+          )}
+          {formError ? <p className="error">{formError}</p> : null}
         </section>
       ) : null}
 
@@ -764,7 +1766,15 @@ export default function App() {
         <h2>Data Table</h2>
         {loading ? <p>Loading...</p> : null}
         {error ? <p className="error">{error}</p> : null}
-        <div className="table-scroll">
+        <p className="table-summary">
+          Showing {tableRows.length} of {tableTotal} records
+          {tableLoading ? " (loading...)" : ""}
+        </p>
+        <div
+          className="table-scroll"
+          ref={tableScrollRef}
+          onScroll={handleTableScroll}
+        >
           <table>
             <thead>
               <tr>
@@ -805,13 +1815,20 @@ export default function App() {
                 >
                   Longitude{sortLabel("longitude")}
                 </th>
-                {isAdmin ? <th>Action</th> : null}
-                {isAdmin && qaRan ? <th>QA Errors</th> : null}
+                {canEdit ? <th>Action</th> : null}
+                {canEdit && qaRan ? <th>QA Issues</th> : null}
               </tr>
             </thead>
             <tbody>
-              {visibleAssets.map((asset) => (
-                <tr key={asset.id}>
+              {firstRenderedRow > 0 ? (
+                <tr
+                  className="virtual-spacer"
+                  aria-hidden="true"
+                  style={{ height: firstRenderedRow * TABLE_ROW_HEIGHT }}
+                />
+              ) : null}
+              {renderedAssets.map((asset) => (
+                <tr key={asset.id} className="virtual-row">
                   <td>{asset.id}</td>
                   <td>{asset.name}</td>
                   <td>{asset.region}</td>
@@ -824,14 +1841,19 @@ export default function App() {
                   </td>
                   <td>{asset.latitude ?? "N/A"}</td>
                   <td>{asset.longitude ?? "N/A"}</td>
-                  {isAdmin ? (
+                  {canEdit ? (
                     <td>
                       <div className="icon-actions">
                         <button
                           type="button"
                           className="icon-btn"
-                          data-label="Edit"
+                          data-label={
+                            canEditAsset(asset)
+                              ? "Edit"
+                              : "Outside your regions"
+                          }
                           aria-label={`Edit ${asset.id}`}
+                          disabled={!canEditAsset(asset)}
                           onClick={() => startEdit(asset)}
                         >
                           <EditIcon />
@@ -839,8 +1861,13 @@ export default function App() {
                         <button
                           type="button"
                           className="icon-btn icon-btn-delete"
-                          data-label="Delete"
+                          data-label={
+                            canEditAsset(asset)
+                              ? "Delete"
+                              : "Outside your regions"
+                          }
                           aria-label={`Delete ${asset.id}`}
+                          disabled={!canEditAsset(asset)}
                           onClick={() => removeAsset(asset)}
                         >
                           <DeleteIcon />
@@ -848,17 +1875,18 @@ export default function App() {
                       </div>
                     </td>
                   ) : null}
-                  {isAdmin && qaRan ? (
+                  {canEdit && qaRan ? (
                     <td>
                       {(qaByAssetId.get(asset.id) ?? []).length === 0 ? (
                         <span className="qa-badge qa-none">None</span>
                       ) : (
-                        (qaByAssetId.get(asset.id) ?? []).map((code) => (
+                        (qaByAssetId.get(asset.id) ?? []).map((issue) => (
                           <span
-                            key={`${asset.id}-${code}`}
-                            className={qaClassName(code as QaIssue["code"])}
+                            key={`${asset.id}-${issue.code}`}
+                            className={qaClassName(issue.severity)}
+                            title={issue.message}
                           >
-                            {code}
+                            {issue.code}
                           </span>
                         ))
                       )}
@@ -866,12 +1894,23 @@ export default function App() {
                   ) : null}
                 </tr>
               ))}
+              {lastRenderedRow < visibleAssets.length ? (
+                <tr
+                  className="virtual-spacer"
+                  aria-hidden="true"
+                  style={{
+                    height:
+                      (visibleAssets.length - lastRenderedRow) *
+                      TABLE_ROW_HEIGHT,
+                  }}
+                />
+              ) : null}
             </tbody>
           </table>
         </div>
       </section>
 
-      {isAdmin ? (
+      {canEdit ? (
         <section className="panel">
           <h2>QA + Export</h2>
           <div className="actions">
@@ -880,10 +1919,61 @@ export default function App() {
             ) : (
               <button onClick={hideQa}>Hide QA Checks</button>
             )}
-            <button onClick={() => exportCsv(filters)}>Export CSV</button>
-            <button onClick={() => exportGeoJson(filters)}>
+            <select
+              aria-label="Coordinate system for CSV and GeoJSON exports"
+              title="Coordinate system for CSV and GeoJSON exports"
+              value={exportCrs}
+              onChange={(e) => setExportCrs(e.target.value)}
+            >
+              {EXPORT_CRS_OPTIONS.map((option) => (
+                <option key={option.code} value={option.code}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+            <button onClick={() => exportCsv(queryFilters, exportCrs)}>
+              Export CSV
+            </button>
+            <button onClick={() => exportXlsx(queryFilters)}>
+              Export Excel
+            </button>
+            <button onClick={() => exportGeoJson(queryFilters, exportCrs)}>
               Export GeoJSON
             </button>
+            <button onClick={() => exportKml(queryFilters)}>Export KML</button>
+            <button onClick={() => exportGpx(queryFilters)}>Export GPX</button>
+            <button onClick={() => exportShapefile(queryFilters)}>
+              Export Shapefile
+            </button>
+            {isAdmin ? (
+              <button type="button" onClick={() => setImportOpen(true)}>
+                Import Assets
+              </button>
+            ) : null}
+            {isAdmin ? (
+              <button type="button" onClick={() => setRecycleBinOpen(true)}>
+                Recycle Bin
+              </button>
+            ) : null}
+            <button
+              type="button"
+              onClick={() => setQaHistoryOpen((open) => !open)}
+            >
+              {qaHistoryOpen ? "Hide QA History" : "QA History"}
+            </button>
+            <button type="button" onClick={() => setOverdueOpen(true)}>
+              Overdue Inspections
+            </button>
+            {isAdmin ? (
+              <button type="button" onClick={() => setQaRulesOpen(true)}>
+                QA Rules
+              </button>
+            ) : null}
+            {isAdmin ? (
+              <button type="button" onClick={() => setAssetTypesOpen(true)}>
+                Asset Types
+              </button>
+            ) : null}
             {isAdmin ? (
               <button type="button" onClick={resetDataToSeed}>
                 Reset Dataset
@@ -891,17 +1981,110 @@ export default function App() {
             ) : null}
           </div>
           {qaRan ? (
-            <ul className="qa-list">
-              {qaIssues.map((issue) => (
-                <li key={`${issue.assetId}-${issue.code}`}>
-                  [{issue.code}] {issue.assetId}: {issue.message}
-                </li>
-              ))}
-            </ul>
+            <>
+              <p className="table-summary">
+                {qaSeverityCounts.error} errors, {qaSeverityCounts.warning}{" "}
+                warnings, {qaSeverityCounts.info} info
+                <label className="checkbox-label">
+                  <input
+                    type="checkbox"
+                    checked={qaShowWaived}
+                    onChange={(e) => toggleShowWaived(e.target.checked)}
+                  />
+                  Show waived
+                </label>
+              </p>
+              <QaIssueList
+                issues={qaIssues}
+                currentUsername={session.username}
+                canActOn={canEditAsset}
+                onChanged={() => refreshQa()}
+                onMerge={openMerge}
+              />
+            </>
           ) : null}
+          {qaHistoryOpen ? <QaHistory latestRunId={latestQaRunId} /> : null}
         </section>
       ) : null}
 
+      {isAdmin && importOpen ? (
+        <ImportWizard
+          onClose={() => setImportOpen(false)}
+          onImported={async () => {
+            await loadAssets();
+            if (qaRan) await refreshQa();
+          }}
+        />
+      ) : null}
+
+      {isAdmin && qaRulesOpen ? (
+        <QaRules
+          onClose={() => setQaRulesOpen(false)}
+          onChanged={async () => {
+            if (qaRan) await refreshQa();
+          }}
+        />
+      ) : null}
+
+      {isAdmin && assetTypesOpen ? (
+        <AssetTypes
+          onClose={() => setAssetTypesOpen(false)}
+          onChanged={loadAssetTypes}
+        />
+      ) : null}
+
+      {canEdit && overdueOpen ? (
+        <OverdueInspections
+          filters={queryFilters}
+          onOpen={openInspections}
+          onClose={() => setOverdueOpen(false)}
+        />
+      ) : null}
+
+      {isAdmin && recycleBinOpen ? (
+        <RecycleBin
+          onClose={() => setRecycleBinOpen(false)}
+          onChanged={async () => {
+            await loadAssets();
+            if (qaRan) await refreshQa();
+          }}
+        />
+      ) : null}
+
+      {isAdmin && userAdminOpen ? (
+        <UserAdmin
+          currentUsername={session.username}
+          onClose={() => setUserAdminOpen(false)}
+        />
+      ) : null}
+
+      {isAdmin && apiKeysOpen ? (
+        <ApiKeys onClose={() => setApiKeysOpen(false)} />
+      ) : null}
+
+      {changePasswordOpen ? (
+        <ChangePasswordDialog onClose={() => setChangePasswordOpen(false)} />
+      ) : null}
+
+      {conflict && editingOriginal ? (
+        <ConflictDialog
+          original={editingOriginal}
+          current={conflict.current}
+          mine={conflict.mine}
+          onOverwrite={overwriteConflict}
+          onMerge={mergeConflict}
+          onDiscard={discardConflict}
+        />
+      ) : null}
+
+      {mergeAssets ? (
+        <MergeDialog
+          assets={mergeAssets}
+          onClose={() => setMergeAssets(null)}
+          onMerged={finishMerge}
+        />
+      ) : null}
+
       <footer className="footer">
         &copy; 2026 Maggie Huang. All rights reserved.
       </footer>
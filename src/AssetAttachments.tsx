@@ -0,0 +1,142 @@
+import { useEffect, useState } from "react";
+import {
+  attachmentThumbnailUrl,
+  attachmentUrl,
+  deleteAttachment,
+  getAttachments,
+  uploadAttachment,
+} from "./api";
+import type { AssetAttachment } from "./types";
+
+// Matches the server's upload limits, so the picker only offers files it will accept.
+const ACCEPTED_FILES =
+  "image/jpeg,image/png,image/gif,image/webp,application/pdf,text/plain,text/csv,.doc,.docx,.xls,.xlsx";
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Photos and documents of one asset. Read-only in map popups; the edit
+ * panel passes `canManage` to add uploads and removal.
+ */
+export default function AssetAttachments({
+  assetId,
+  canManage = false,
+}: {
+  assetId: string;
+  canManage?: boolean;
+}) {
+  const [attachments, setAttachments] = useState<AssetAttachment[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadAttachments() {
+    setLoading(true);
+    setError("");
+    try {
+      setAttachments(await getAttachments(assetId));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadAttachments();
+  }, [assetId]);
+
+  async function upload(files: FileList | null) {
+    if (!files || files.length === 0) return;
+    setUploading(true);
+    setError("");
+    const failures: string[] = [];
+    for (const file of Array.from(files)) {
+      try {
+        await uploadAttachment(assetId, file);
+      } catch (e) {
+        failures.push((e as Error).message);
+      }
+    }
+    setUploading(false);
+    await loadAttachments();
+    if (failures.length > 0) setError(failures.join(" "));
+  }
+
+  async function remove(attachment: AssetAttachment) {
+    const confirmed = window.confirm(
+      `Delete ${attachment.filename} from ${assetId}?`,
+    );
+    if (!confirmed) return;
+    try {
+      await deleteAttachment(attachment);
+      await loadAttachments();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  if (!canManage && !loading && !error && attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={canManage ? "asset-attachments" : "popup-attachments"}>
+      {loading && attachments.length === 0 ? <p>Loading...</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      {canManage ? (
+        <label className="attachment-upload">
+          {uploading ? "Uploading..." : "Add photos or documents"}
+          <input
+            type="file"
+            multiple
+            accept={ACCEPTED_FILES}
+            disabled={uploading}
+            onChange={(e) => {
+              upload(e.target.files);
+              e.target.value = "";
+            }}
+          />
+        </label>
+      ) : null}
+      {canManage && !loading && attachments.length === 0 ? (
+        <p className="history-empty">No attachments yet.</p>
+      ) : null}
+      <ul className="attachment-list">
+        {attachments.map((attachment) => (
+          <li key={attachment.id}>
+            <a
+              href={attachmentUrl(attachment)}
+              title={`${attachment.filename} (${formatSize(attachment.size)})`}
+            >
+              {attachment.hasThumbnail ? (
+                <img
+                  className="attachment-thumbnail"
+                  src={attachmentThumbnailUrl(attachment)}
+                  alt={attachment.filename}
+                  loading="lazy"
+                />
+              ) : null}
+              <span>{attachment.filename}</span>
+            </a>
+            {canManage ? (
+              <>
+                <span className="attachment-meta">
+                  {formatSize(attachment.size)}, {attachment.uploadedBy},{" "}
+                  {new Date(attachment.uploadedAt).toLocaleString()}
+                </span>
+                <button type="button" onClick={() => remove(attachment)}>
+                  Delete
+                </button>
+              </>
+            ) : null}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
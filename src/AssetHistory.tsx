@@ -0,0 +1,111 @@
+import { useEffect, useState } from "react";
+import { AssetConflictError, getAssetHistory, revertAssetVersion } from "./api";
+import type { Asset, AssetHistoryEntry } from "./types";
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (field === "geometry") {
+    return (value as { type?: string }).type ?? "geometry";
+  }
+  if (field === "attributes") {
+    const entries = Object.entries(value as Record<string, unknown>);
+    return entries.length > 0
+      ? entries.map(([name, item]) => `${name}: ${item}`).join(", ")
+      : "(empty)";
+  }
+  return String(value);
+}
+
+export default function AssetHistory({
+  assetId,
+  version,
+  canRevert,
+  onReverted,
+}: {
+  assetId: string;
+  /** The version the edit panel loaded; a revert is refused if the asset has moved on since. */
+  version: number;
+  canRevert: boolean;
+  onReverted: (asset: Asset) => Promise<void>;
+}) {
+  const [entries, setEntries] = useState<AssetHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadHistory() {
+    setLoading(true);
+    setError("");
+    try {
+      setEntries(await getAssetHistory(assetId));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadHistory();
+  }, [assetId]);
+
+  async function revert(entry: AssetHistoryEntry) {
+    const confirmed = window.confirm(
+      `Revert ${assetId} to the version saved by ${entry.changedBy} on ${new Date(entry.changedAt).toLocaleString()}?`,
+    );
+    if (!confirmed) return;
+    try {
+      const asset = await revertAssetVersion(assetId, entry.id, version);
+      await onReverted(asset);
+      await loadHistory();
+    } catch (e) {
+      setError(
+        e instanceof AssetConflictError
+          ? `${assetId} changed since it was loaded. Reopen it and try again.`
+          : (e as Error).message,
+      );
+    }
+  }
+
+  return (
+    <div className="asset-history">
+      {loading ? <p>Loading...</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      {!loading && entries.length === 0 ? (
+        <p className="history-empty">No recorded changes yet.</p>
+      ) : null}
+      <ol className="history-list">
+        {entries.map((entry, index) => (
+          <li key={entry.id}>
+            <div className="history-head">
+              <span>
+                <strong>{entry.action}</strong>
+                {entry.assetId !== assetId
+                  ? ` of ${entry.assetId}`
+                  : null} by {entry.changedBy},{" "}
+                {new Date(entry.changedAt).toLocaleString()}
+              </span>
+              {/* Entries of merged-away assets are shown for reference only. */}
+              {canRevert &&
+              entry.snapshot &&
+              entry.assetId === assetId &&
+              index > 0 ? (
+                <button type="button" onClick={() => revert(entry)}>
+                  Revert to this version
+                </button>
+              ) : null}
+            </div>
+            <ul className="history-changes">
+              {entry.changes.map((change) => (
+                <li key={change.field}>
+                  <code>{change.field}</code>:{" "}
+                  {formatValue(change.field, change.from)} →{" "}
+                  {formatValue(change.field, change.to)}
+                </li>
+              ))}
+            </ul>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+import { useEffect, useState } from "react";
+import { deleteInspection, getInspections, saveInspection } from "./api";
+import { CONDITION_RATINGS, conditionText, todayIso } from "./inspections";
+import type { ConditionRating, Inspection, InspectionDraft } from "./types";
+
+function emptyDraft(inspector: string): InspectionDraft {
+  return {
+    inspectedOn: todayIso(),
+    inspector,
+    condition: 3,
+    notes: "",
+    nextDueOn: null,
+  };
+}
+
+/** Inspection and maintenance records of one asset, newest first. */
+export default function AssetInspections({
+  assetId,
+  inspector,
+  onChanged,
+}: {
+  assetId: string;
+  /** Pre-fills the inspector of a new record. */
+  inspector: string;
+  onChanged: () => Promise<void>;
+}) {
+  const [inspections, setInspections] = useState<Inspection[]>([]);
+  const [draft, setDraft] = useState<InspectionDraft>(emptyDraft(inspector));
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadInspections() {
+    setLoading(true);
+    setError("");
+    try {
+      setInspections(await getInspections(assetId));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadInspections();
+    setDraft(emptyDraft(inspector));
+    setEditingId(null);
+  }, [assetId]);
+
+  function startEdit(inspection: Inspection) {
+    setEditingId(inspection.id);
+    setDraft({
+      inspectedOn: inspection.inspectedOn,
+      inspector: inspection.inspector,
+      condition: inspection.condition,
+      notes: inspection.notes,
+      nextDueOn: inspection.nextDueOn,
+    });
+  }
+
+  function cancelEdit() {
+    setEditingId(null);
+    setDraft(emptyDraft(inspector));
+  }
+
+  async function save(event: React.FormEvent) {
+    event.preventDefault();
+    setSaving(true);
+    setError("");
+    try {
+      await saveInspection(assetId, draft, editingId ?? undefined);
+      cancelEdit();
+      await loadInspections();
+      await onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  async function remove(inspection: Inspection) {
+    const confirmed = window.confirm(
+      `Delete the ${inspection.inspectedOn} inspection by ${inspection.inspector}?`,
+    );
+    if (!confirmed) return;
+    try {
+      await deleteInspection(inspection);
+      if (editingId === inspection.id) cancelEdit();
+      await loadInspections();
+      await onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <div className="asset-inspections">
+      {error ? <p className="error">{error}</p> : null}
+      <form className="grid inspection-form" onSubmit={save}>
+        <label>
+          Inspected on
+          <input
+            type="date"
+            required
+            value={draft.inspectedOn}
+            onChange={(e) =>
+              setDraft({ ...draft, inspectedOn: e.target.value })
+            }
+          />
+        </label>
+        <label>
+          Inspector
+          <input
+            required
+            value={draft.inspector}
+            onChange={(e) => setDraft({ ...draft, inspector: e.target.value })}
+          />
+        </label>
+        <label>
+          Condition
+          <select
+            value={draft.condition}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                condition: Number(e.target.value) as ConditionRating,
+              })
+            }
+          >
+            {CONDITION_RATINGS.map((rating) => (
+              <option key={rating} value={rating}>
+                {conditionText(rating)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Next inspection due
+          <input
+            type="date"
+            value={draft.nextDueOn ?? ""}
+            onChange={(e) =>
+              setDraft({ ...draft, nextDueOn: e.target.value || null })
+            }
+          />
+        </label>
+        <label className="inspection-notes">
+          Notes
+          <textarea
+            rows={3}
+            value={draft.notes}
+            placeholder="Findings, maintenance done or needed"
+            onChange={(e) => setDraft({ ...draft, notes: e.target.value })}
+          />
+        </label>
+        <div className="actions">
+          <button type="submit" disabled={saving}>
+            {editingId ? "Update Inspection" : "Record Inspection"}
+          </button>
+          {editingId ? (
+            <button type="button" onClick={cancelEdit}>
+              Cancel
+            </button>
+          ) : null}
+        </div>
+      </form>
+      {loading ? <p>Loading...</p> : null}
+      {!loading && inspections.length === 0 ? (
+        <p className="history-empty">No inspections recorded yet.</p>
+      ) : null}
+      <ol className="history-list">
+        {inspections.map((inspection) => (
+          <li key={inspection.id}>
+            <div className="history-head">
+              <span>
+                <strong>{inspection.inspectedOn}</strong> by{" "}
+                {inspection.inspector}: {conditionText(inspection.condition)}
+              </span>
+              <div className="actions">
+                <button type="button" onClick={() => startEdit(inspection)}>
+                  Edit
+                </button>
+                <button type="button" onClick={() => remove(inspection)}>
+                  Delete
+                </button>
+              </div>
+            </div>
+            <div className="history-changes">
+              {inspection.notes ? <p>{inspection.notes}</p> : null}
+              {inspection.nextDueOn
+                ? `Next due ${inspection.nextDueOn}`
+                : "No follow-up scheduled"}
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
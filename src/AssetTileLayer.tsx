@@ -0,0 +1,116 @@
+import { useEffect } from "react";
+import { useMap } from "react-leaflet";
+import { GridLayer } from "leaflet";
+import type { Coords, DoneCallback } from "leaflet";
+import { getAssetTile } from "./api";
+import type { Asset, AssetFilters } from "./types";
+import { decodeTileLayer } from "./vectorTiles";
+import type { TileFeature } from "./vectorTiles";
+
+type ColorFor = (id: string, status: Asset["status"]) => string;
+
+function drawFeature(
+  context: CanvasRenderingContext2D,
+  feature: TileFeature,
+  scale: number,
+  color: string,
+) {
+  context.strokeStyle = color;
+  context.fillStyle = color;
+  if (feature.type === 1) {
+    feature.parts.forEach(([[x, y]]) => {
+      context.beginPath();
+      context.arc(x * scale, y * scale, 4, 0, Math.PI * 2);
+      context.globalAlpha = 0.6;
+      context.fill();
+      context.globalAlpha = 1;
+      context.lineWidth = 1.5;
+      context.stroke();
+    });
+    return;
+  }
+  context.beginPath();
+  feature.parts.forEach((part) => {
+    part.forEach(([x, y], i) => {
+      if (i === 0) context.moveTo(x * scale, y * scale);
+      else context.lineTo(x * scale, y * scale);
+    });
+    if (feature.type === 3) context.closePath();
+  });
+  if (feature.type === 3) {
+    context.globalAlpha = 0.2;
+    context.fill("evenodd");
+    context.globalAlpha = 1;
+  }
+  context.lineWidth = feature.type === 2 ? 4 : 2;
+  context.stroke();
+}
+
+// Draws each vector tile onto a canvas in the same colours as the markers.
+class AssetGridLayer extends GridLayer {
+  constructor(
+    private readonly filters: AssetFilters,
+    private readonly colorFor: ColorFor,
+  ) {
+    super({ pane: "overlayPane" });
+  }
+
+  createTile(coords: Coords, done: DoneCallback): HTMLElement {
+    const size = this.getTileSize();
+    const canvas = document.createElement("canvas");
+    canvas.width = size.x;
+    canvas.height = size.y;
+    getAssetTile(this.filters, coords.z, coords.x, coords.y)
+      .then((buffer) => {
+        const layer = decodeTileLayer(buffer, "assets");
+        const context = canvas.getContext("2d");
+        if (context) {
+          layer.features.forEach((feature) =>
+            drawFeature(
+              context,
+              feature,
+              size.x / layer.extent,
+              this.colorFor(
+                feature.properties.id,
+                feature.properties.status as Asset["status"],
+              ),
+            ),
+          );
+        }
+        done(undefined, canvas);
+      })
+      .catch((error: Error) => done(error, canvas));
+    return canvas;
+  }
+}
+
+/**
+ * Renders the filtered assets from /api/tiles instead of one Leaflet layer
+ * per asset. Tiles are redrawn when `colorFor` changes, so keep it memoized.
+ */
+export default function AssetTileLayer({
+  filters,
+  colorFor,
+}: {
+  filters: AssetFilters;
+  colorFor: ColorFor;
+}) {
+  const map = useMap();
+
+  useEffect(() => {
+    const layer = new AssetGridLayer(filters, colorFor).addTo(map);
+    return () => {
+      layer.remove();
+    };
+  }, [
+    map,
+    colorFor,
+    filters.search,
+    filters.region.join(","),
+    filters.type.join(","),
+    filters.status.join(","),
+    JSON.stringify(filters.attributes ?? {}),
+  ]);
+
+  return null;
+}
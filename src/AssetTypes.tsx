@@ -0,0 +1,291 @@
+import { useEffect, useState } from "react";
+import { deleteAssetType, getAssetTypes, saveAssetType } from "./api";
+import type {
+  AssetTypeSchema,
+  AttributeDataType,
+  AttributeDefinition,
+} from "./types";
+
+const DATA_TYPES: AttributeDataType[] = ["text", "number", "date", "boolean"];
+
+// Allowed values are edited as one comma separated line.
+type AttributeDraft = Omit<AttributeDefinition, "allowedValues"> & {
+  allowedValues: string;
+};
+
+function toDrafts(schema: AssetTypeSchema | undefined): AttributeDraft[] {
+  return (schema?.attributes ?? []).map((attribute) => ({
+    ...attribute,
+    allowedValues: attribute.allowedValues.join(", "),
+  }));
+}
+
+function fromDrafts(drafts: AttributeDraft[]): AttributeDefinition[] {
+  return drafts.map((draft) => ({
+    ...draft,
+    name: draft.name.trim(),
+    label: draft.label.trim(),
+    allowedValues: draft.allowedValues
+      .split(",")
+      .map((value) => value.trim())
+      .filter(Boolean),
+  }));
+}
+
+export default function AssetTypes({
+  onClose,
+  onChanged,
+}: {
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}) {
+  const [schemas, setSchemas] = useState<AssetTypeSchema[]>([]);
+  const [selectedType, setSelectedType] = useState("");
+  const [drafts, setDrafts] = useState<AttributeDraft[]>([]);
+  const [newType, setNewType] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  async function loadSchemas(select?: string) {
+    setLoading(true);
+    setError("");
+    try {
+      const loaded = await getAssetTypes();
+      setSchemas(loaded);
+      const type = select ?? loaded[0]?.type ?? "";
+      setSelectedType(type);
+      setDrafts(toDrafts(loaded.find((schema) => schema.type === type)));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadSchemas();
+  }, []);
+
+  function selectType(type: string) {
+    setSelectedType(type);
+    setDrafts(toDrafts(schemas.find((schema) => schema.type === type)));
+    setNotice("");
+  }
+
+  function addType() {
+    const type = newType.trim();
+    if (!type) return;
+    const existing = schemas.find(
+      (schema) => schema.type.toLowerCase() === type.toLowerCase(),
+    );
+    setNewType("");
+    if (existing) {
+      selectType(existing.type);
+      return;
+    }
+    setSelectedType(type);
+    setDrafts([]);
+    setNotice(`Add attributes for ${type}, then save.`);
+  }
+
+  function updateDraft(index: number, changes: Partial<AttributeDraft>) {
+    setDrafts((current) =>
+      current.map((draft, i) =>
+        i === index ? { ...draft, ...changes } : draft,
+      ),
+    );
+  }
+
+  async function save() {
+    setError("");
+    setNotice("");
+    try {
+      const saved = await saveAssetType(selectedType, fromDrafts(drafts));
+      await loadSchemas(saved.type);
+      setNotice(`${saved.type} saved.`);
+      await onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function remove() {
+    const confirmed = window.confirm(
+      `Remove the attribute schema for ${selectedType}? Values already on assets are kept but no longer checked.`,
+    );
+    if (!confirmed) return;
+    setError("");
+    try {
+      await deleteAssetType(selectedType);
+      await loadSchemas();
+      setNotice(`${selectedType} removed.`);
+      await onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  const saved = schemas.some((schema) => schema.type === selectedType);
+
+  return (
+    <section className="panel">
+      <h2>Asset Types</h2>
+      {loading ? <p>Loading...</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      {notice ? <p className="notice">{notice}</p> : null}
+      <div className="actions">
+        <select
+          aria-label="Asset type"
+          value={selectedType}
+          onChange={(e) => selectType(e.target.value)}
+        >
+          {schemas.map((schema) => (
+            <option key={schema.type} value={schema.type}>
+              {schema.type}
+            </option>
+          ))}
+          {selectedType && !saved ? (
+            <option value={selectedType}>{selectedType} (new)</option>
+          ) : null}
+        </select>
+        <input
+          value={newType}
+          placeholder="New asset type"
+          onChange={(e) => setNewType(e.target.value)}
+        />
+        <button type="button" onClick={addType} disabled={!newType.trim()}>
+          Add Type
+        </button>
+      </div>
+      {selectedType ? (
+        <div className="table-scroll">
+          <table>
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>Label</th>
+                <th>Data Type</th>
+                <th>Required</th>
+                <th>Allowed Values</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {drafts.map((draft, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      value={draft.name}
+                      aria-label="Attribute name"
+                      placeholder="e.g. reserveNumber"
+                      onChange={(e) =>
+                        updateDraft(index, { name: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <input
+                      value={draft.label}
+                      aria-label="Attribute label"
+                      onChange={(e) =>
+                        updateDraft(index, { label: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <select
+                      value={draft.dataType}
+                      aria-label="Data type"
+                      onChange={(e) =>
+                        updateDraft(index, {
+                          dataType: e.target.value as AttributeDataType,
+                        })
+                      }
+                    >
+                      {DATA_TYPES.map((dataType) => (
+                        <option key={dataType} value={dataType}>
+                          {dataType}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={draft.required}
+                      aria-label={`${draft.name || "Attribute"} is required`}
+                      onChange={(e) =>
+                        updateDraft(index, { required: e.target.checked })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <input
+                      value={draft.allowedValues}
+                      aria-label="Allowed values"
+                      placeholder="Any value"
+                      disabled={
+                        draft.dataType === "date" ||
+                        draft.dataType === "boolean"
+                      }
+                      onChange={(e) =>
+                        updateDraft(index, { allowedValues: e.target.value })
+                      }
+                    />
+                  </td>
+                  <td>
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setDrafts((current) =>
+                          current.filter((_, i) => i !== index),
+                        )
+                      }
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+      <div className="actions recycle-actions">
+        {selectedType ? (
+          <>
+            <button
+              type="button"
+              onClick={() =>
+                setDrafts((current) => [
+                  ...current,
+                  {
+                    name: "",
+                    label: "",
+                    dataType: "text",
+                    required: false,
+                    allowedValues: "",
+                  },
+                ])
+              }
+            >
+              Add Attribute
+            </button>
+            <button type="button" onClick={save}>
+              Save {selectedType}
+            </button>
+            {saved ? (
+              <button type="button" onClick={remove}>
+                Remove Schema
+              </button>
+            ) : null}
+          </>
+        ) : null}
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </section>
+  );
+}
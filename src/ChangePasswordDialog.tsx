@@ -0,0 +1,83 @@
+import { useState } from "react";
+import type { FormEvent } from "react";
+import {
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from "@mui/material";
+import { changePassword } from "./api";
+
+export default function ChangePasswordDialog({
+  onClose,
+}: {
+  onClose: () => void;
+}) {
+  const [currentPassword, setCurrentPassword] = useState("");
+  const [newPassword, setNewPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [error, setError] = useState("");
+  const [saved, setSaved] = useState(false);
+
+  async function submit(e: FormEvent) {
+    e.preventDefault();
+    setError("");
+    if (newPassword !== confirmPassword) {
+      setError("The new passwords do not match.");
+      return;
+    }
+    try {
+      await changePassword(currentPassword, newPassword);
+      setSaved(true);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="xs" fullWidth>
+      <DialogTitle>Change password</DialogTitle>
+      <form onSubmit={submit}>
+        <DialogContent>
+          {saved ? (
+            <p>Your password has been changed.</p>
+          ) : (
+            <div className="password-form">
+              <input
+                type="password"
+                placeholder="Current password"
+                autoComplete="current-password"
+                value={currentPassword}
+                onChange={(e) => setCurrentPassword(e.target.value)}
+                required
+              />
+              <input
+                type="password"
+                placeholder="New password (at least 8 characters)"
+                autoComplete="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                required
+              />
+              <input
+                type="password"
+                placeholder="Confirm new password"
+                autoComplete="new-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                required
+              />
+              {error ? <p className="error">{error}</p> : null}
+            </div>
+          )}
+        </DialogContent>
+        <DialogActions>
+          {saved ? null : <button type="submit">Change password</button>}
+          <button type="button" onClick={onClose}>
+            {saved ? "Close" : "Cancel"}
+          </button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
@@ -0,0 +1,149 @@
+import {
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from "@mui/material";
+import type { Asset, AssetDraft } from "./types";
+
+const DRAFT_FIELDS: (keyof AssetDraft)[] = [
+  "name",
+  "region",
+  "type",
+  "status",
+  "latitude",
+  "longitude",
+  "geometry",
+  "attributes",
+];
+
+function sameValue(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left ?? null) === JSON.stringify(right ?? null);
+}
+
+function attributesText(attributes: Asset["attributes"]): string {
+  const entries = Object.entries(attributes ?? {});
+  return entries.length > 0
+    ? entries.map(([name, value]) => `${name}: ${value}`).join(", ")
+    : "(empty)";
+}
+
+function displayValue(field: keyof AssetDraft, value: unknown): string {
+  if (field === "attributes")
+    return attributesText(value as Asset["attributes"]);
+  if (value === null || value === undefined || value === "") return "(empty)";
+  if (field === "geometry") return (value as { type: string }).type;
+  return String(value);
+}
+
+export function draftFromAsset(asset: Asset): AssetDraft {
+  return {
+    name: asset.name,
+    region: asset.region,
+    type: asset.type,
+    status: asset.status,
+    latitude: asset.latitude,
+    longitude: asset.longitude,
+    geometry: asset.geometry ?? null,
+    attributes: asset.attributes ?? {},
+  };
+}
+
+/**
+ * Three-way merge: keeps every field the user changed since opening the
+ * record and takes the server value for everything else.
+ */
+export function mergeDraft(
+  original: Asset,
+  current: Asset,
+  mine: AssetDraft,
+): AssetDraft {
+  const merged = draftFromAsset(current);
+  DRAFT_FIELDS.forEach((field) => {
+    if (!sameValue(mine[field], original[field])) {
+      (merged as Record<string, unknown>)[field] = mine[field];
+    }
+  });
+  return merged;
+}
+
+export default function ConflictDialog({
+  original,
+  current,
+  mine,
+  onOverwrite,
+  onMerge,
+  onDiscard,
+}: {
+  original: Asset;
+  current: Asset;
+  mine: AssetDraft;
+  onOverwrite: () => void;
+  onMerge: () => void;
+  onDiscard: () => void;
+}) {
+  const changedFields = DRAFT_FIELDS.filter(
+    (field) =>
+      !sameValue(current[field], original[field]) ||
+      !sameValue(mine[field], original[field]),
+  );
+
+  return (
+    <Dialog open onClose={onDiscard} maxWidth="md">
+      <DialogTitle>This record changed since you opened it</DialogTitle>
+      <DialogContent>
+        <p>
+          {current.id} was saved by someone else while you were editing it.
+          Choose how to continue.
+        </p>
+        <table className="conflict-table">
+          <thead>
+            <tr>
+              <th>Field</th>
+              <th>When opened</th>
+              <th>Server now</th>
+              <th>Your edit</th>
+            </tr>
+          </thead>
+          <tbody>
+            {changedFields.map((field) => (
+              <tr key={field}>
+                <td>{field}</td>
+                <td>{displayValue(field, original[field])}</td>
+                <td
+                  className={
+                    sameValue(current[field], original[field])
+                      ? ""
+                      : "conflict-changed"
+                  }
+                >
+                  {displayValue(field, current[field])}
+                </td>
+                <td
+                  className={
+                    sameValue(mine[field], original[field])
+                      ? ""
+                      : "conflict-changed"
+                  }
+                >
+                  {displayValue(field, mine[field])}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </DialogContent>
+      <DialogActions>
+        <button type="button" onClick={onMerge}>
+          Merge and review
+        </button>
+        <button type="button" className="danger-btn" onClick={onOverwrite}>
+          Overwrite with mine
+        </button>
+        <button type="button" onClick={onDiscard}>
+          Discard my edits
+        </button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { importAssets } from "./api";
+import type { ImportReport } from "./types";
+
+type ImportStep = "choose" | "review" | "done";
+
+function detectFormat(filename: string): ImportReport["format"] | null {
+  const lower = filename.toLowerCase();
+  if (lower.endsWith(".csv")) return "csv";
+  if (lower.endsWith(".geojson") || lower.endsWith(".json")) return "geojson";
+  return null;
+}
+
+export default function ImportWizard({
+  onClose,
+  onImported,
+}: {
+  onClose: () => void;
+  onImported: () => Promise<void>;
+}) {
+  const [step, setStep] = useState<ImportStep>("choose");
+  const [filename, setFilename] = useState("");
+  const [format, setFormat] = useState<ImportReport["format"]>("csv");
+  const [content, setContent] = useState("");
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  async function handleFile(event: React.ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setFilename(file.name);
+    setFormat(detectFormat(file.name) ?? "csv");
+    setContent(await file.text());
+    setReport(null);
+    setError("");
+  }
+
+  async function runImport(dryRun: boolean) {
+    setBusy(true);
+    setError("");
+    try {
+      const result = await importAssets(format, content, dryRun);
+      setReport(result);
+      setStep(dryRun ? "review" : "done");
+      if (!dryRun) await onImported();
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const importable = report
+    ? report.summary.created + report.summary.updated
+    : 0;
+
+  return (
+    <section className="panel import-wizard">
+      <h2>Import Assets</h2>
+      {step === "choose" ? (
+        <div className="import-step">
+          <p>
+            Choose a CSV in the same layout as the CSV export, or a GeoJSON
+            FeatureCollection. Nothing is saved until you confirm the validation
+            report.
+          </p>
+          <div className="actions">
+            <input
+              type="file"
+              accept=".csv,.geojson,.json"
+              onChange={handleFile}
+            />
+            <select
+              value={format}
+              onChange={(e) =>
+                setFormat(e.target.value as ImportReport["format"])
+              }
+              aria-label="File format"
+            >
+              <option value="csv">CSV</option>
+              <option value="geojson">GeoJSON</option>
+            </select>
+            <button
+              type="button"
+              disabled={!content || busy}
+              onClick={() => runImport(true)}
+            >
+              Validate
+            </button>
+            <button type="button" onClick={onClose}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : null}
+
+      {report ? (
+        <div className="import-step">
+          <p>
+            {step === "done" ? "Imported" : "Dry run of"} {filename}:{" "}
+            <strong>{report.summary.created}</strong>{" "}
+            {step === "done" ? "created" : "to create"},{" "}
+            <strong>{report.summary.updated}</strong>{" "}
+            {step === "done" ? "updated" : "to update"},{" "}
+            <strong>{report.summary.rejected}</strong> rejected.
+          </p>
+          <div className="table-scroll">
+            <table>
+              <thead>
+                <tr>
+                  <th>Row</th>
+                  <th>Asset ID</th>
+                  <th>Name</th>
+                  <th>Result</th>
+                  <th>Reasons</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.rows.map((row) => (
+                  <tr key={row.row} className={`import-${row.action}`}>
+                    <td>{row.row}</td>
+                    <td>{row.id ?? "(new)"}</td>
+                    <td>{row.name}</td>
+                    <td>{row.action}</td>
+                    <td className="import-reasons">{row.reasons.join("; ")}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <div className="actions">
+            {step === "review" ? (
+              <>
+                <button
+                  type="button"
+                  disabled={importable === 0 || busy}
+                  onClick={() => runImport(false)}
+                >
+                  Import {importable} record{importable === 1 ? "" : "s"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setStep("choose");
+                    setReport(null);
+                  }}
+                >
+                  Back
+                </button>
+              </>
+            ) : null}
+            <button type="button" onClick={onClose}>
+              {step === "done" ? "Close" : "Cancel"}
+            </button>
+          </div>
+        </div>
+      ) : null}
+      {error ? <p className="error">{error}</p> : null}
+    </section>
+  );
+}
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import {
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+} from "@mui/material";
+import { AssetConflictError, mergeAssets } from "./api";
+import type { MergeField } from "./api";
+import type { Asset } from "./types";
+
+const MERGE_FIELDS: MergeField[] = [
+  "name",
+  "region",
+  "type",
+  "status",
+  "location",
+  "attributes",
+];
+
+function attributesText(attributes: Asset["attributes"]): string {
+  const entries = Object.entries(attributes ?? {});
+  return entries.length > 0
+    ? entries.map(([name, value]) => `${name}: ${value}`).join(", ")
+    : "(empty)";
+}
+
+function displayValue(asset: Asset, field: MergeField): string {
+  if (field === "attributes") return attributesText(asset.attributes);
+  if (field === "location") {
+    if (asset.geometry && asset.geometry.type !== "Point") {
+      return `${asset.geometry.type} near ${asset.latitude}, ${asset.longitude}`;
+    }
+    return asset.latitude === null || asset.longitude === null
+      ? "(empty)"
+      : `${asset.latitude}, ${asset.longitude}`;
+  }
+  return asset[field] || "(empty)";
+}
+
+/**
+ * Side-by-side merge of duplicate assets: pick the record to keep, then
+ * which record each field should come from. The others go to the recycle
+ * bin and their ids are kept as aliases of the survivor.
+ */
+export default function MergeDialog({
+  assets,
+  onClose,
+  onMerged,
+}: {
+  assets: Asset[];
+  onClose: () => void;
+  onMerged: (asset: Asset) => Promise<void>;
+}) {
+  const [survivorId, setSurvivorId] = useState(assets[0]?.id ?? "");
+  const [choices, setChoices] = useState<Partial<Record<MergeField, string>>>(
+    {},
+  );
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const survivor = assets.find((asset) => asset.id === survivorId);
+  const duplicates = assets.filter((asset) => asset.id !== survivorId);
+  const duplicateIds = duplicates.map((asset) => asset.id);
+
+  function sourceFor(field: MergeField): string {
+    return choices[field] ?? survivorId;
+  }
+
+  async function merge() {
+    if (!survivor) return;
+    const confirmed = window.confirm(
+      `Merge ${duplicateIds.join(", ")} into ${survivor.id}? The merged records move to the recycle bin and their ids will open ${survivor.id}.`,
+    );
+    if (!confirmed) return;
+    setSaving(true);
+    setError("");
+    try {
+      const fields = Object.fromEntries(
+        MERGE_FIELDS.map((field) => [field, sourceFor(field)]),
+      );
+      await onMerged(await mergeAssets(survivor, duplicates, fields));
+    } catch (e) {
+      setError(
+        e instanceof AssetConflictError
+          ? `${e.current.id} changed since it was loaded. Close this dialog and try again.`
+          : (e as Error).message,
+      );
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="lg">
+      <DialogTitle>Merge duplicate assets</DialogTitle>
+      <DialogContent>
+        <p>
+          Choose the record to keep, then pick which record each field should
+          come from.
+        </p>
+        {error ? <p className="error">{error}</p> : null}
+        <table className="conflict-table merge-table">
+          <thead>
+            <tr>
+              <th>Field</th>
+              {assets.map((asset) => (
+                <th key={asset.id}>
+                  <label className="checkbox-label">
+                    <input
+                      type="radio"
+                      name="merge-survivor"
+                      checked={asset.id === survivorId}
+                      onChange={() => setSurvivorId(asset.id)}
+                    />
+                    Keep {asset.id}
+                  </label>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {MERGE_FIELDS.map((field) => (
+              <tr key={field}>
+                <td>{field}</td>
+                {assets.map((asset) => (
+                  <td
+                    key={asset.id}
+                    className={
+                      sourceFor(field) === asset.id ? "conflict-changed" : ""
+                    }
+                  >
+                    <label className="checkbox-label">
+                      <input
+                        type="radio"
+                        name={`merge-${field}`}
+                        checked={sourceFor(field) === asset.id}
+                        onChange={() =>
+                          setChoices((current) => ({
+                            ...current,
+                            [field]: asset.id,
+                          }))
+                        }
+                      />
+                      {displayValue(asset, field)}
+                    </label>
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </DialogContent>
+      <DialogActions>
+        <button
+          type="button"
+          className="danger-btn"
+          disabled={saving || !survivor || duplicateIds.length === 0}
+          onClick={merge}
+        >
+          Merge into {survivorId}
+        </button>
+        <button type="button" onClick={onClose}>
+          Cancel
+        </button>
+      </DialogActions>
+    </Dialog>
+  );
+}
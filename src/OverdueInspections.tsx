@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { getOverdueInspections } from "./api";
+import { conditionText } from "./inspections";
+import type { AssetFilters, OverdueInspection } from "./types";
+
+/** Assets in the current filters whose next inspection date has passed, most overdue first. */
+export default function OverdueInspections({
+  filters,
+  onOpen,
+  onClose,
+}: {
+  filters: AssetFilters;
+  onOpen: (assetId: string) => void;
+  onClose: () => void;
+}) {
+  const [rows, setRows] = useState<OverdueInspection[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadOverdue() {
+    setLoading(true);
+    setError("");
+    try {
+      setRows(await getOverdueInspections(filters));
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadOverdue();
+  }, [JSON.stringify(filters)]);
+
+  return (
+    <section className="panel">
+      <h2>Overdue Inspections</h2>
+      {loading ? <p>Loading...</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      {!loading && rows.length === 0 ? (
+        <p className="history-empty">
+          No inspections are overdue for the current filters.
+        </p>
+      ) : null}
+      {rows.length > 0 ? (
+        <div className="table-scroll">
+          <table>
+            <thead>
+              <tr>
+                <th>Asset ID</th>
+                <th>Name</th>
+                <th>Region</th>
+                <th>Type</th>
+                <th>Last Inspected</th>
+                <th>Condition</th>
+                <th>Due</th>
+                <th>Days Overdue</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row) => (
+                <tr key={row.assetId}>
+                  <td>{row.assetId}</td>
+                  <td>{row.name}</td>
+                  <td>{row.region}</td>
+                  <td>{row.type}</td>
+                  <td>
+                    {row.lastInspectedOn} ({row.inspector})
+                  </td>
+                  <td>{conditionText(row.condition)}</td>
+                  <td>{row.nextDueOn}</td>
+                  <td>{row.daysOverdue}</td>
+                  <td>
+                    <button type="button" onClick={() => onOpen(row.assetId)}>
+                      Inspections
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+      <div className="actions recycle-actions">
+        <button type="button" onClick={loadOverdue}>
+          Refresh
+        </button>
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,234 @@
+import { useEffect, useState } from "react";
+import { getQaRunDiff, getQaRuns } from "./api";
+import type { QaIssue, QaRunDiff, QaRunSummary, QaSeverity } from "./types";
+
+const CHART_WIDTH = 480;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = 24;
+
+const SEVERITY_COLOURS: Record<QaSeverity, string> = {
+  error: "#a03131",
+  warning: "#975f11",
+  info: "#2f3f96",
+};
+
+function scopeLabel(run: QaRunSummary): string {
+  const entries = Object.entries(run.scope);
+  if (entries.length === 0) return "All assets";
+  return entries.map(([key, value]) => `${key}: ${value}`).join("; ");
+}
+
+function runLabel(run: QaRunSummary): string {
+  return `${new Date(run.ranAt).toLocaleString()} (${run.issueCount} issues)`;
+}
+
+/** Issue counts per severity over time, oldest run on the left. */
+function QaTrendChart({ runs }: { runs: QaRunSummary[] }) {
+  const ordered = [...runs].reverse();
+  const maxCount = Math.max(
+    1,
+    ...ordered.flatMap((run) => Object.values(run.counts)),
+  );
+  const x = (index: number) =>
+    ordered.length === 1
+      ? CHART_WIDTH / 2
+      : CHART_PADDING +
+        (index * (CHART_WIDTH - CHART_PADDING * 2)) / (ordered.length - 1);
+  const y = (count: number) =>
+    CHART_HEIGHT -
+    CHART_PADDING -
+    (count * (CHART_HEIGHT - CHART_PADDING * 2)) / maxCount;
+
+  return (
+    <svg
+      className="qa-trend"
+      viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+      role="img"
+      aria-label="QA issues per run"
+    >
+      <line
+        x1={CHART_PADDING}
+        x2={CHART_WIDTH - CHART_PADDING}
+        y1={y(0)}
+        y2={y(0)}
+        className="qa-trend-axis"
+      />
+      <text x={4} y={y(maxCount) + 4} className="qa-trend-label">
+        {maxCount}
+      </text>
+      <text x={4} y={y(0) + 4} className="qa-trend-label">
+        0
+      </text>
+      {(Object.keys(SEVERITY_COLOURS) as QaSeverity[]).map((severity) => (
+        <g key={severity}>
+          <polyline
+            fill="none"
+            stroke={SEVERITY_COLOURS[severity]}
+            strokeWidth={2}
+            points={ordered
+              .map((run, index) => `${x(index)},${y(run.counts[severity])}`)
+              .join(" ")}
+          />
+          {ordered.map((run, index) => (
+            <circle
+              key={run.id}
+              cx={x(index)}
+              cy={y(run.counts[severity])}
+              r={3}
+              fill={SEVERITY_COLOURS[severity]}
+            >
+              <title>
+                {`${runLabel(run)}: ${run.counts[severity]} ${severity}`}
+              </title>
+            </circle>
+          ))}
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+function IssueList({ title, issues }: { title: string; issues: QaIssue[] }) {
+  if (issues.length === 0) return null;
+  return (
+    <>
+      <h4>{title}</h4>
+      <ul className="qa-list">
+        {issues.map((issue) => (
+          <li key={`${issue.code}-${issue.assetId}`}>
+            [{issue.code}] {issue.assetId}: {issue.message}
+          </li>
+        ))}
+      </ul>
+    </>
+  );
+}
+
+export default function QaHistory({
+  latestRunId,
+}: {
+  latestRunId: string | null;
+}) {
+  const [runs, setRuns] = useState<QaRunSummary[]>([]);
+  const [fromId, setFromId] = useState("");
+  const [toId, setToId] = useState("");
+  const [diff, setDiff] = useState<QaRunDiff | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    getQaRuns()
+      .then((loaded) => {
+        setRuns(loaded);
+        setToId(loaded[0]?.id ?? "");
+        setFromId(loaded[1]?.id ?? "");
+        setDiff(null);
+      })
+      .catch((e: Error) => setError(e.message));
+  }, [latestRunId]);
+
+  async function compare() {
+    setError("");
+    try {
+      setDiff(await getQaRunDiff(fromId, toId));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  if (runs.length === 0) {
+    return (
+      <div className="qa-history">
+        <h3>QA History</h3>
+        {error ? <p className="error">{error}</p> : null}
+        <p className="history-empty">No QA runs have been saved yet.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="qa-history">
+      <h3>QA History</h3>
+      {error ? <p className="error">{error}</p> : null}
+      <QaTrendChart runs={runs} />
+      <p className="table-summary">
+        {(Object.keys(SEVERITY_COLOURS) as QaSeverity[]).map((severity) => (
+          <span key={severity} className={`qa-badge qa-${severity}`}>
+            {severity}
+          </span>
+        ))}
+        Last {runs.length} runs. Runs with different filters are not directly
+        comparable.
+      </p>
+      <div className="table-scroll">
+        <table>
+          <thead>
+            <tr>
+              <th>Ran At</th>
+              <th>Ran By</th>
+              <th>Scope</th>
+              <th>Assets</th>
+              <th>Errors</th>
+              <th>Warnings</th>
+              <th>Info</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map((run) => (
+              <tr key={run.id}>
+                <td>{new Date(run.ranAt).toLocaleString()}</td>
+                <td>{run.ranBy}</td>
+                <td>{scopeLabel(run)}</td>
+                <td>{run.assetCount}</td>
+                <td>{run.counts.error}</td>
+                <td>{run.counts.warning}</td>
+                <td>{run.counts.info}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="actions qa-compare">
+        <label className="checkbox-label">
+          From
+          <select value={fromId} onChange={(e) => setFromId(e.target.value)}>
+            <option value="">Choose a run</option>
+            {runs.map((run) => (
+              <option key={run.id} value={run.id}>
+                {runLabel(run)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="checkbox-label">
+          To
+          <select value={toId} onChange={(e) => setToId(e.target.value)}>
+            <option value="">Choose a run</option>
+            {runs.map((run) => (
+              <option key={run.id} value={run.id}>
+                {runLabel(run)}
+              </option>
+            ))}
+          </select>
+        </label>
+        <button
+          type="button"
+          disabled={!fromId || !toId || fromId === toId}
+          onClick={compare}
+        >
+          Compare Runs
+        </button>
+      </div>
+      {diff ? (
+        <div className="qa-diff">
+          <p>
+            {diff.added.length} new, {diff.resolved.length} resolved,{" "}
+            {diff.persisting.length} persisting.
+          </p>
+          <IssueList title="New" issues={diff.added} />
+          <IssueList title="Resolved" issues={diff.resolved} />
+          <IssueList title="Persisting" issues={diff.persisting} />
+        </div>
+      ) : null}
+    </div>
+  );
+}
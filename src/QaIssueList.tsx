@@ -0,0 +1,133 @@
+import { useState } from "react";
+import { updateQaIssue } from "./api";
+import type { QaIssue } from "./types";
+
+type IssueChange = Parameters<typeof updateQaIssue>[1];
+
+export default function QaIssueList({
+  issues,
+  currentUsername,
+  canActOn,
+  onChanged,
+  onMerge,
+}: {
+  issues: QaIssue[];
+  currentUsername: string;
+  canActOn: (issue: QaIssue) => boolean;
+  onChanged: () => Promise<void>;
+  onMerge: (issue: QaIssue) => void;
+}) {
+  const [error, setError] = useState("");
+
+  async function change(issue: QaIssue, changes: IssueChange) {
+    setError("");
+    try {
+      await updateQaIssue(issue.id, changes);
+      await onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function assign(issue: QaIssue) {
+    const assignee = window.prompt(
+      `Assign ${issue.code} on ${issue.assetId} to which user?`,
+      issue.assignee ?? "",
+    );
+    if (!assignee?.trim()) return;
+    change(issue, { status: "assigned", assignee: assignee.trim() });
+  }
+
+  function waive(issue: QaIssue) {
+    const waiverReason = window.prompt(
+      `Why is ${issue.code} on ${issue.assetId} acceptable? The waiver lapses when the asset is next edited.`,
+    );
+    if (!waiverReason?.trim()) return;
+    change(issue, { status: "waived", waiverReason: waiverReason.trim() });
+  }
+
+  return (
+    <>
+      {error ? <p className="error">{error}</p> : null}
+      <ul className="qa-list">
+        {issues.map((issue) => {
+          const disabled = !canActOn(issue);
+          return (
+            <li key={issue.id} className="qa-issue">
+              <span className={`qa-badge qa-${issue.severity}`}>
+                {issue.severity}
+              </span>
+              <span className={`qa-status qa-status-${issue.status}`}>
+                {issue.status === "assigned"
+                  ? `assigned to ${issue.assignee}`
+                  : issue.status}
+              </span>
+              [{issue.code}] {issue.assetId}: {issue.message}
+              {issue.waiverReason ? (
+                <em className="qa-waiver"> Waived: {issue.waiverReason}</em>
+              ) : null}
+              <span className="qa-issue-actions">
+                {issue.status === "waived" ? (
+                  <button
+                    type="button"
+                    disabled={disabled}
+                    onClick={() => change(issue, { status: "open" })}
+                  >
+                    Reopen
+                  </button>
+                ) : (
+                  <>
+                    {issue.assignee !== currentUsername ? (
+                      <button
+                        type="button"
+                        disabled={disabled}
+                        onClick={() =>
+                          change(issue, {
+                            status: "assigned",
+                            assignee: currentUsername,
+                          })
+                        }
+                      >
+                        Assign to Me
+                      </button>
+                    ) : null}
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => assign(issue)}
+                    >
+                      Assign...
+                    </button>
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => change(issue, { status: "resolved" })}
+                    >
+                      Resolve
+                    </button>
+                    <button
+                      type="button"
+                      disabled={disabled}
+                      onClick={() => waive(issue)}
+                    >
+                      Waive...
+                    </button>
+                    {issue.relatedAssetIds?.length ? (
+                      <button
+                        type="button"
+                        disabled={disabled}
+                        onClick={() => onMerge(issue)}
+                      >
+                        Merge...
+                      </button>
+                    ) : null}
+                  </>
+                )}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+    </>
+  );
+}
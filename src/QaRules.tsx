@@ -0,0 +1,169 @@
+import { useEffect, useState } from "react";
+import { getQaRules, updateQaRule } from "./api";
+import type { QaRule, QaSeverity } from "./types";
+
+const SEVERITIES: QaSeverity[] = ["error", "warning", "info"];
+
+function paramsText(rule: QaRule): string {
+  return Object.keys(rule.params).length > 0
+    ? JSON.stringify(rule.params, null, 2)
+    : "";
+}
+
+export default function QaRules({
+  onClose,
+  onChanged,
+}: {
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}) {
+  const [rules, setRules] = useState<QaRule[]>([]);
+  const [paramDrafts, setParamDrafts] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+
+  async function loadRules() {
+    setLoading(true);
+    setError("");
+    try {
+      const loaded = await getQaRules();
+      setRules(loaded);
+      setParamDrafts(
+        Object.fromEntries(loaded.map((rule) => [rule.id, paramsText(rule)])),
+      );
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadRules();
+  }, []);
+
+  async function save(
+    rule: QaRule,
+    changes: Parameters<typeof updateQaRule>[1],
+  ) {
+    setError("");
+    setNotice("");
+    try {
+      const updated = await updateQaRule(rule.id, changes);
+      setRules((current) =>
+        current.map((item) => (item.id === updated.id ? updated : item)),
+      );
+      setParamDrafts((current) => ({
+        ...current,
+        [updated.id]: paramsText(updated),
+      }));
+      setNotice(`${updated.name} saved.`);
+      await onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function saveParams(rule: QaRule) {
+    let params: Record<string, unknown>;
+    try {
+      params = JSON.parse(paramDrafts[rule.id] || "{}");
+    } catch {
+      setError(`${rule.name}: parameters must be valid JSON.`);
+      return;
+    }
+    save(rule, { params });
+  }
+
+  return (
+    <section className="panel">
+      <h2>QA Rules</h2>
+      {loading ? <p>Loading...</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      {notice ? <p className="notice">{notice}</p> : null}
+      <div className="table-scroll">
+        <table>
+          <thead>
+            <tr>
+              <th>On</th>
+              <th>Rule</th>
+              <th>Severity</th>
+              <th>Parameters</th>
+              <th>Last Changed</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((rule) => (
+              <tr key={rule.id}>
+                <td>
+                  <input
+                    type="checkbox"
+                    checked={rule.enabled}
+                    aria-label={`Enable ${rule.name}`}
+                    onChange={(e) => save(rule, { enabled: e.target.checked })}
+                  />
+                </td>
+                <td>
+                  <strong>{rule.name}</strong>
+                  <br />
+                  <small className="qa-rule-description">
+                    {rule.id}: {rule.description}
+                  </small>
+                </td>
+                <td>
+                  <select
+                    value={rule.severity}
+                    onChange={(e) =>
+                      save(rule, { severity: e.target.value as QaSeverity })
+                    }
+                  >
+                    {SEVERITIES.map((severity) => (
+                      <option key={severity} value={severity}>
+                        {severity}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  {Object.keys(rule.params).length > 0 ? (
+                    <div className="qa-rule-params">
+                      <textarea
+                        value={paramDrafts[rule.id] ?? ""}
+                        onChange={(e) =>
+                          setParamDrafts((current) => ({
+                            ...current,
+                            [rule.id]: e.target.value,
+                          }))
+                        }
+                      />
+                      <button
+                        type="button"
+                        disabled={paramDrafts[rule.id] === paramsText(rule)}
+                        onClick={() => saveParams(rule)}
+                      >
+                        Save
+                      </button>
+                    </div>
+                  ) : (
+                    "None"
+                  )}
+                </td>
+                <td>
+                  {rule.updatedAt
+                    ? `${new Date(rule.updatedAt).toLocaleString()} by ${rule.updatedBy}`
+                    : "Default"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <div className="actions recycle-actions">
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { getAssetPage, purgeAsset, restoreAsset } from "./api";
+import type { Asset, AssetFilters } from "./types";
+
+const ARCHIVED_PAGE_SIZE = 100;
+
+const archivedFilters: AssetFilters = {
+  search: "",
+  region: [],
+  type: [],
+  status: [],
+  includeArchived: "only",
+};
+
+export default function RecycleBin({
+  onClose,
+  onChanged,
+}: {
+  onClose: () => void;
+  onChanged: () => Promise<void>;
+}) {
+  const [archived, setArchived] = useState<Asset[]>([]);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  async function loadArchived(cursor: string | null = null) {
+    setLoading(true);
+    setError("");
+    try {
+      const page = await getAssetPage(archivedFilters, {
+        limit: ARCHIVED_PAGE_SIZE,
+        cursor,
+      });
+      setArchived((current) =>
+        cursor ? [...current, ...page.items] : page.items,
+      );
+      setTotal(page.total);
+      setNextCursor(page.nextCursor);
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadArchived();
+  }, []);
+
+  async function restore(asset: Asset) {
+    try {
+      await restoreAsset(asset.id);
+      await loadArchived();
+      await onChanged();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function purge(asset: Asset) {
+    const confirmed = window.confirm(
+      `Permanently delete ${asset.id} (${asset.name || "Unnamed"})? This cannot be undone.`,
+    );
+    if (!confirmed) return;
+    try {
+      await purgeAsset(asset.id);
+      await loadArchived();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <section className="panel">
+      <h2>Recycle Bin</h2>
+      {loading ? <p>Loading...</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      {!loading && archived.length === 0 ? (
+        <p className="history-empty">The recycle bin is empty.</p>
+      ) : null}
+      {archived.length > 0 ? (
+        <div className="table-scroll">
+          <table>
+            <thead>
+              <tr>
+                <th>Asset ID</th>
+                <th>Name</th>
+                <th>Region</th>
+                <th>Type</th>
+                <th>Deleted</th>
+                <th>Deleted By</th>
+                <th>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {archived.map((asset) => (
+                <tr key={asset.id}>
+                  <td>{asset.id}</td>
+                  <td>{asset.name}</td>
+                  <td>{asset.region}</td>
+                  <td>{asset.type}</td>
+                  <td>
+                    {asset.archivedAt
+                      ? new Date(asset.archivedAt).toLocaleString()
+                      : ""}
+                  </td>
+                  <td>
+                    {asset.archivedBy}
+                    {asset.mergedInto
+                      ? ` (merged into ${asset.mergedInto})`
+                      : null}
+                  </td>
+                  <td>
+                    <div className="actions">
+                      <button type="button" onClick={() => restore(asset)}>
+                        Restore
+                      </button>
+                      <button
+                        type="button"
+                        className="danger-btn"
+                        onClick={() => purge(asset)}
+                      >
+                        Purge
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      ) : null}
+      <div className="actions recycle-actions">
+        {nextCursor ? (
+          <button
+            type="button"
+            disabled={loading}
+            onClick={() => loadArchived(nextCursor)}
+          >
+            Show more ({archived.length} of {total})
+          </button>
+        ) : null}
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,386 @@
+import { useEffect, useState } from "react";
+import type { FormEvent } from "react";
+import {
+  createUser,
+  deleteUser,
+  getUserSessions,
+  getUsers,
+  resetUserPassword,
+  revokeAllUserSessions,
+  revokeUserSession,
+  updateUser,
+} from "./api";
+import type { UserAccount, UserRole, UserSession } from "./types";
+
+const emptyNewUser = {
+  username: "",
+  displayName: "",
+  role: "user" as UserRole,
+  regions: "",
+  assetTypes: "",
+  password: "",
+};
+
+function splitList(value: string): string[] {
+  return value
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+export default function UserAdmin({
+  currentUsername,
+  onClose,
+}: {
+  currentUsername: string;
+  onClose: () => void;
+}) {
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [notice, setNotice] = useState("");
+  const [newUser, setNewUser] = useState(emptyNewUser);
+  const [sessionsUser, setSessionsUser] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+
+  async function loadUsers() {
+    setLoading(true);
+    setError("");
+    try {
+      setUsers(await getUsers());
+    } catch (e) {
+      setError((e as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  async function run(action: () => Promise<unknown>, message: string) {
+    setError("");
+    setNotice("");
+    try {
+      await action();
+      setNotice(message);
+      await loadUsers();
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function changeRole(user: UserAccount, role: UserRole) {
+    let regions = user.regions;
+    if (role === "editor" && regions.length === 0) {
+      const answer = window.prompt(
+        `Regions ${user.username} may edit (comma separated)`,
+      );
+      if (!answer) return;
+      regions = splitList(answer);
+    }
+    run(
+      () => updateUser(user.username, { role, regions }),
+      `${user.username} is now ${role}.`,
+    );
+  }
+
+  function changeScope(
+    user: UserAccount,
+    field: "regions" | "assetTypes",
+    value: string,
+  ) {
+    const next = splitList(value);
+    if (next.join(",") === user[field].join(",")) return;
+    run(
+      () => updateUser(user.username, { [field]: next }),
+      `Editing scope updated for ${user.username}.`,
+    );
+  }
+
+  function toggleDisabled(user: UserAccount) {
+    run(
+      () => updateUser(user.username, { disabled: !user.disabled }),
+      `${user.username} ${user.disabled ? "enabled" : "disabled"}.`,
+    );
+  }
+
+  function resetPassword(user: UserAccount) {
+    const password = window.prompt(
+      `New password for ${user.username} (at least 8 characters)`,
+    );
+    if (!password) return;
+    run(
+      () => resetUserPassword(user.username, password),
+      `Password reset for ${user.username}.`,
+    );
+  }
+
+  function remove(user: UserAccount) {
+    const confirmed = window.confirm(
+      `Delete the account ${user.username}? This cannot be undone.`,
+    );
+    if (!confirmed) return;
+    run(() => deleteUser(user.username), `${user.username} deleted.`);
+  }
+
+  async function showSessions(username: string) {
+    setError("");
+    try {
+      setSessions(await getUserSessions(username));
+      setSessionsUser(username);
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  function endSession(session: UserSession) {
+    run(async () => {
+      await revokeUserSession(session.username, session.id);
+      await showSessions(session.username);
+    }, "Session ended.");
+  }
+
+  function endAllSessions(username: string) {
+    run(async () => {
+      await revokeAllUserSessions(username);
+      await showSessions(username);
+    }, `${username} signed out everywhere.`);
+  }
+
+  async function submitNewUser(e: FormEvent) {
+    e.preventDefault();
+    await run(async () => {
+      await createUser({
+        ...newUser,
+        regions: splitList(newUser.regions),
+        assetTypes: splitList(newUser.assetTypes),
+      });
+      setNewUser(emptyNewUser);
+    }, `${newUser.username} created.`);
+  }
+
+  return (
+    <section className="panel">
+      <h2>User Management</h2>
+      {loading ? <p>Loading...</p> : null}
+      {error ? <p className="error">{error}</p> : null}
+      {notice ? <p className="notice">{notice}</p> : null}
+      <div className="table-scroll">
+        <table>
+          <thead>
+            <tr>
+              <th>Username</th>
+              <th>Display Name</th>
+              <th>Role</th>
+              <th>Editing Scope</th>
+              <th>Status</th>
+              <th>Password Changed</th>
+              <th>Action</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map((user) => {
+              const isSelf = user.username === currentUsername;
+              return (
+                <tr key={user.username}>
+                  <td>{user.username}</td>
+                  <td>{user.displayName}</td>
+                  <td>
+                    <select
+                      value={user.role}
+                      disabled={isSelf}
+                      onChange={(e) =>
+                        changeRole(user, e.target.value as UserRole)
+                      }
+                    >
+                      <option value="admin">admin</option>
+                      <option value="editor">editor</option>
+                      <option value="user">user</option>
+                    </select>
+                  </td>
+                  <td>
+                    {user.role === "editor" ? (
+                      <div className="actions">
+                        <input
+                          key={`${user.username}-regions-${user.regions.join()}`}
+                          className="scope-input"
+                          placeholder="Regions"
+                          defaultValue={user.regions.join(", ")}
+                          onBlur={(e) =>
+                            changeScope(user, "regions", e.target.value)
+                          }
+                        />
+                        <input
+                          key={`${user.username}-types-${user.assetTypes.join()}`}
+                          className="scope-input"
+                          placeholder="Asset types (any)"
+                          defaultValue={user.assetTypes.join(", ")}
+                          onBlur={(e) =>
+                            changeScope(user, "assetTypes", e.target.value)
+                          }
+                        />
+                      </div>
+                    ) : user.role === "admin" ? (
+                      "All assets"
+                    ) : (
+                      "Read-only"
+                    )}
+                  </td>
+                  <td>{user.disabled ? "Disabled" : "Active"}</td>
+                  <td>{new Date(user.passwordChangedAt).toLocaleString()}</td>
+                  <td>
+                    <div className="actions">
+                      <button
+                        type="button"
+                        disabled={isSelf}
+                        onClick={() => toggleDisabled(user)}
+                      >
+                        {user.disabled ? "Enable" : "Disable"}
+                      </button>
+                      <button type="button" onClick={() => resetPassword(user)}>
+                        Reset Password
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => showSessions(user.username)}
+                      >
+                        Sessions
+                      </button>
+                      <button
+                        type="button"
+                        className="danger-btn"
+                        disabled={isSelf}
+                        onClick={() => remove(user)}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      {sessionsUser ? (
+        <>
+          <h3>Active sessions for {sessionsUser}</h3>
+          {sessions.length === 0 ? (
+            <p className="history-empty">No active sessions.</p>
+          ) : (
+            <div className="table-scroll">
+              <table>
+                <thead>
+                  <tr>
+                    <th>Device</th>
+                    <th>Signed In</th>
+                    <th>Last Used</th>
+                    <th>Expires</th>
+                    <th>Action</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {sessions.map((session) => (
+                    <tr key={session.id}>
+                      <td className="session-agent">
+                        {session.userAgent || "Unknown"}
+                      </td>
+                      <td>{new Date(session.createdAt).toLocaleString()}</td>
+                      <td>{new Date(session.lastUsedAt).toLocaleString()}</td>
+                      <td>{new Date(session.expiresAt).toLocaleString()}</td>
+                      <td>
+                        <button
+                          type="button"
+                          className="danger-btn"
+                          onClick={() => endSession(session)}
+                        >
+                          End Session
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <div className="actions recycle-actions">
+            {sessions.length > 0 ? (
+              <button
+                type="button"
+                className="danger-btn"
+                onClick={() => endAllSessions(sessionsUser)}
+              >
+                Sign Out Everywhere
+              </button>
+            ) : null}
+            <button type="button" onClick={() => setSessionsUser(null)}>
+              Hide Sessions
+            </button>
+          </div>
+        </>
+      ) : null}
+      <h3>Add User</h3>
+      <form className="user-form" onSubmit={submitNewUser}>
+        <input
+          placeholder="Username"
+          value={newUser.username}
+          onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+          required
+        />
+        <input
+          placeholder="Display name"
+          value={newUser.displayName}
+          onChange={(e) =>
+            setNewUser({ ...newUser, displayName: e.target.value })
+          }
+          required
+        />
+        <select
+          value={newUser.role}
+          onChange={(e) =>
+            setNewUser({ ...newUser, role: e.target.value as UserRole })
+          }
+        >
+          <option value="user">user</option>
+          <option value="editor">editor</option>
+          <option value="admin">admin</option>
+        </select>
+        {newUser.role === "editor" ? (
+          <>
+            <input
+              placeholder="Regions (comma separated)"
+              value={newUser.regions}
+              onChange={(e) =>
+                setNewUser({ ...newUser, regions: e.target.value })
+              }
+              required
+            />
+            <input
+              placeholder="Asset types (blank for any)"
+              value={newUser.assetTypes}
+              onChange={(e) =>
+                setNewUser({ ...newUser, assetTypes: e.target.value })
+              }
+            />
+          </>
+        ) : null}
+        <input
+          type="password"
+          placeholder="Initial password"
+          autoComplete="new-password"
+          value={newUser.password}
+          onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+          required
+        />
+        <button type="submit">Create User</button>
+      </form>
+      <div className="actions recycle-actions">
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+    </section>
+  );
+}
@@ -1,24 +1,117 @@
-import type { Asset, AssetFilters, QaIssue } from "./types";
+import type {
+  ApiKey,
+  ApiKeyScope,
+  Asset,
+  AssetAttachment,
+  AssetDraft,
+  AssetFilters,
+  AssetHistoryEntry,
+  AssetPage,
+  AssetSortField,
+  AssetTypeSchema,
+  AttributeDefinition,
+  ImportReport,
+  Inspection,
+  InspectionDraft,
+  InspectionSummary,
+  OverdueInspection,
+  QaIssue,
+  QaIssueState,
+  QaIssueStatus,
+  QaRule,
+  QaRun,
+  QaRunDiff,
+  QaRunSummary,
+  UserAccount,
+  UserRole,
+  UserSession,
+} from "./types";
 
 const API_BASE =
   import.meta.env.VITE_API_BASE?.trim() || "http://localhost:4000/api";
 let authToken = "";
+let refreshToken = "";
+let tokensListener: ((tokens: AuthTokens | null) => void) | null = null;
+let pendingRefresh: Promise<boolean> | null = null;
 
-export interface AuthSession {
+export interface AuthTokens {
   token: string;
+  refreshToken: string;
+}
+
+export interface AuthSession extends AuthTokens {
   username: string;
   displayName: string;
-  role: "admin" | "user";
+  role: UserRole;
+  /** Editor scope; empty for admins and read-only users. */
+  regions: string[];
+  assetTypes: string[];
 }
 
-export function setAuthToken(token: string): void {
-  authToken = token;
+export function setAuthTokens(tokens: AuthTokens | null): void {
+  authToken = tokens?.token ?? "";
+  refreshToken = tokens?.refreshToken ?? "";
+}
+
+/**
+ * Called after every refresh with the new token pair, or with null once the
+ * session can no longer be renewed and the user has to sign in again.
+ */
+export function onAuthTokensChange(
+  listener: ((tokens: AuthTokens | null) => void) | null,
+): void {
+  tokensListener = listener;
 }
 
 function authHeaders(): HeadersInit {
   return authToken ? { Authorization: `Bearer ${authToken}` } : {};
 }
 
+async function refreshAccessToken(): Promise<boolean> {
+  const response = await fetch(`${API_BASE}/auth/refresh`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ refreshToken }),
+  });
+  if (!response.ok) {
+    setAuthTokens(null);
+    tokensListener?.(null);
+    return false;
+  }
+  const tokens = (await response.json()) as AuthTokens;
+  setAuthTokens(tokens);
+  tokensListener?.(tokens);
+  return true;
+}
+
+// Sends the access token and, if it has expired, refreshes it once and retries.
+// Concurrent requests share a single refresh so the refresh token is only rotated once.
+async function authFetch(
+  url: string,
+  init: RequestInit & { headers?: Record<string, string> } = {},
+): Promise<Response> {
+  const send = () =>
+    fetch(url, { ...init, headers: { ...init.headers, ...authHeaders() } });
+  const response = await send();
+  if (response.status !== 401 || !refreshToken) return response;
+  pendingRefresh ??= refreshAccessToken().finally(() => {
+    pendingRefresh = null;
+  });
+  return (await pendingRefresh) ? send() : response;
+}
+
+async function readErrorMessage(
+  response: Response,
+  fallback: string,
+): Promise<string> {
+  try {
+    const body = (await response.json()) as { message?: string };
+    return body.message || fallback;
+  } catch {
+    return fallback;
+  }
+}
+
 export async function login(
   username: string,
   password: string,
@@ -34,9 +127,27 @@ export async function login(
   return response.json() as Promise<AuthSession>;
 }
 
+export async function logout(): Promise<void> {
+  // The local tokens are dropped even when the server call fails.
+  try {
+    await authFetch(`${API_BASE}/auth/logout`, { method: "POST" });
+  } finally {
+    setAuthTokens(null);
+  }
+}
+
 function toQuery(filters: AssetFilters): string {
   const query = new URLSearchParams();
   Object.entries(filters).forEach(([key, value]) => {
+    if (value === undefined) return;
+    if (key === "attributes") {
+      Object.entries(value as Record<string, string>).forEach(
+        ([name, text]) => {
+          if (text.trim()) query.set(`attr.${name}`, text.trim());
+        },
+      );
+      return;
+    }
     if (Array.isArray(value)) {
       if (value.length > 0) query.set(key, value.join(","));
       return;
@@ -48,97 +159,600 @@ function toQuery(filters: AssetFilters): string {
   return query.toString();
 }
 
-export async function getAssets(filters: AssetFilters): Promise<Asset[]> {
-  const query = toQuery(filters);
-  const response = await fetch(`${API_BASE}/assets${query ? `?${query}` : ""}`);
+export interface AssetPageRequest {
+  limit?: number;
+  cursor?: string | null;
+  sort?: { field: AssetSortField; direction: "asc" | "desc" };
+}
+
+export async function getAssetPage(
+  filters: AssetFilters,
+  { limit, cursor, sort }: AssetPageRequest = {},
+): Promise<AssetPage> {
+  const query = new URLSearchParams(toQuery(filters));
+  if (limit) query.set("limit", String(limit));
+  if (cursor) query.set("cursor", cursor);
+  if (sort) query.set("sort", `${sort.field}:${sort.direction}`);
+  const queryString = query.toString();
+  const response = await fetch(
+    `${API_BASE}/assets${queryString ? `?${queryString}` : ""}`,
+  );
   if (!response.ok) {
     throw new Error("Failed to load assets");
   }
-  return response.json() as Promise<Asset[]>;
+  return response.json() as Promise<AssetPage>;
 }
 
-export async function createAsset(
-  payload: Omit<Asset, "id" | "createdAt" | "updatedAt">,
-): Promise<Asset> {
-  const response = await fetch(`${API_BASE}/assets`, {
+/** One asset by id; an id that was merged away returns the surviving asset. */
+export async function getAsset(id: string): Promise<Asset> {
+  const response = await fetch(`${API_BASE}/assets/${encodeURIComponent(id)}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load asset ${id}`);
+  }
+  return response.json() as Promise<Asset>;
+}
+
+/** The distinct regions or types of the live assets, for the filter lists. */
+export async function getAssetValues(
+  field: "region" | "type",
+): Promise<string[]> {
+  const response = await fetch(`${API_BASE}/assets/values/${field}`);
+  if (!response.ok) {
+    throw new Error(`Failed to load ${field} options`);
+  }
+  return response.json() as Promise<string[]>;
+}
+
+/** One vector tile (Mapbox Vector Tile) of the assets matching the filters; any bbox is ignored. */
+export async function getAssetTile(
+  filters: AssetFilters,
+  z: number,
+  x: number,
+  y: number,
+): Promise<ArrayBuffer> {
+  const queryString = toQuery({ ...filters, bbox: undefined });
+  const response = await fetch(
+    `${API_BASE}/tiles/assets/${z}/${x}/${y}.mvt${queryString ? `?${queryString}` : ""}`,
+  );
+  if (!response.ok) {
+    throw new Error("Failed to load map tile");
+  }
+  return response.arrayBuffer();
+}
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/** Thrown for a 400 response that lists what is wrong with each field. */
+export class ApiValidationError extends Error {
+  readonly errors: FieldError[];
+
+  constructor(message: string, errors: FieldError[]) {
+    super(message);
+    this.errors = errors;
+  }
+}
+
+async function throwIfInvalid(response: Response): Promise<void> {
+  if (response.status !== 400) return;
+  const body = (await response.json()) as {
+    message?: string;
+    errors?: FieldError[];
+  };
+  throw new ApiValidationError(
+    body.message || "Validation failed",
+    body.errors ?? [],
+  );
+}
+
+/** Thrown when a PUT or DELETE is rejected because the asset changed on the server. */
+export class AssetConflictError extends Error {
+  readonly current: Asset;
+
+  constructor(current: Asset) {
+    super("This record changed since you opened it");
+    this.current = current;
+  }
+}
+
+function ifMatch(version: number): Record<string, string> {
+  return { "If-Match": `"${version}"` };
+}
+
+export async function createAsset(payload: AssetDraft): Promise<Asset> {
+  const response = await authFetch(`${API_BASE}/assets`, {
     method: "POST",
-    headers: { "Content-Type": "application/json", ...authHeaders() },
+    headers: { "Content-Type": "application/json" },
     body: JSON.stringify(payload),
   });
+  await throwIfInvalid(response);
   if (!response.ok) {
-    throw new Error("Failed to create asset");
+    throw new Error(await readErrorMessage(response, "Failed to create asset"));
   }
   return response.json() as Promise<Asset>;
 }
 
 export async function updateAsset(
   id: string,
-  payload: Partial<Asset>,
+  payload: AssetDraft,
+  version: number,
 ): Promise<Asset> {
-  const response = await fetch(`${API_BASE}/assets/${id}`, {
+  const response = await authFetch(`${API_BASE}/assets/${id}`, {
     method: "PUT",
-    headers: { "Content-Type": "application/json", ...authHeaders() },
+    headers: {
+      "Content-Type": "application/json",
+      ...ifMatch(version),
+    },
     body: JSON.stringify(payload),
   });
+  if (response.status === 412) {
+    const body = (await response.json()) as { current: Asset };
+    throw new AssetConflictError(body.current);
+  }
+  await throwIfInvalid(response);
   if (!response.ok) {
-    throw new Error("Failed to update asset");
+    throw new Error(await readErrorMessage(response, "Failed to update asset"));
   }
   return response.json() as Promise<Asset>;
 }
 
-export async function deleteAsset(id: string): Promise<void> {
-  const response = await fetch(`${API_BASE}/assets/${id}`, {
+export async function deleteAsset(id: string, version: number): Promise<void> {
+  const response = await authFetch(`${API_BASE}/assets/${id}`, {
     method: "DELETE",
-    headers: authHeaders(),
+    headers: ifMatch(version),
   });
+  if (response.status === 412) {
+    const body = (await response.json()) as { current: Asset };
+    throw new AssetConflictError(body.current);
+  }
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, "Failed to delete asset"));
+  }
+}
+
+export type MergeField =
+  "name" | "region" | "type" | "status" | "location" | "attributes";
+
+/** Folds the duplicates into `survivor`, taking each field from the asset id given in `fields`. */
+/** A 412 carries whichever asset changed since it was loaded, the survivor or a duplicate. */
+export async function mergeAssets(
+  survivor: Asset,
+  duplicates: Asset[],
+  fields: Partial<Record<MergeField, string>>,
+): Promise<Asset> {
+  const response = await authFetch(`${API_BASE}/assets/${survivor.id}/merge`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      ...ifMatch(survivor.version),
+    },
+    body: JSON.stringify({
+      duplicateIds: duplicates.map((duplicate) => duplicate.id),
+      duplicateVersions: Object.fromEntries(
+        duplicates.map((duplicate) => [duplicate.id, duplicate.version]),
+      ),
+      fields,
+    }),
+  });
+  if (response.status === 412) {
+    const body = (await response.json()) as { current: Asset };
+    throw new AssetConflictError(body.current);
+  }
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, "Failed to merge assets"));
+  }
+  return response.json() as Promise<Asset>;
+}
+
+export async function getAssetHistory(
+  id: string,
+): Promise<AssetHistoryEntry[]> {
+  const response = await authFetch(`${API_BASE}/assets/${id}/history`);
+  if (!response.ok) {
+    throw new Error("Failed to load asset history");
+  }
+  return response.json() as Promise<AssetHistoryEntry[]>;
+}
+
+export async function revertAssetVersion(
+  id: string,
+  entryId: string,
+  version: number,
+): Promise<Asset> {
+  const response = await authFetch(
+    `${API_BASE}/assets/${id}/history/${entryId}/revert`,
+    { method: "POST", headers: ifMatch(version) },
+  );
+  if (response.status === 412) {
+    const body = (await response.json()) as { current: Asset };
+    throw new AssetConflictError(body.current);
+  }
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, "Failed to revert asset"));
+  }
+  return response.json() as Promise<Asset>;
+}
+
+export async function restoreAsset(id: string): Promise<Asset> {
+  const response = await authFetch(`${API_BASE}/assets/${id}/restore`, {
+    method: "POST",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to restore asset");
+  }
+  return response.json() as Promise<Asset>;
+}
+
+export async function purgeAsset(id: string): Promise<void> {
+  const response = await authFetch(`${API_BASE}/assets/${id}/purge`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, "Failed to purge asset"));
+  }
+}
+
+export async function getAttachments(
+  assetId: string,
+): Promise<AssetAttachment[]> {
+  const response = await fetch(`${API_BASE}/assets/${assetId}/attachments`);
+  if (!response.ok) {
+    throw new Error("Failed to load attachments");
+  }
+  return response.json() as Promise<AssetAttachment[]>;
+}
+
+/** Sends the file as the request body; the server checks its size and type. */
+export async function uploadAttachment(
+  assetId: string,
+  file: File,
+): Promise<AssetAttachment> {
+  const response = await authFetch(
+    `${API_BASE}/assets/${assetId}/attachments?filename=${encodeURIComponent(file.name)}`,
+    {
+      method: "POST",
+      headers: { "Content-Type": file.type || "application/octet-stream" },
+      body: file,
+    },
+  );
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, `Failed to upload ${file.name}`),
+    );
+  }
+  return response.json() as Promise<AssetAttachment>;
+}
+
+export async function deleteAttachment(
+  attachment: AssetAttachment,
+): Promise<void> {
+  const response = await authFetch(attachmentUrl(attachment), {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to delete attachment"),
+    );
+  }
+}
+
+// Attachments are readable without signing in, like the assets, so plain links and <img> work.
+export function attachmentUrl(attachment: AssetAttachment): string {
+  return `${API_BASE}/assets/${attachment.assetId}/attachments/${attachment.id}`;
+}
+
+export function attachmentThumbnailUrl(attachment: AssetAttachment): string {
+  return `${attachmentUrl(attachment)}/thumbnail`;
+}
+
+export async function getInspections(assetId: string): Promise<Inspection[]> {
+  const response = await fetch(`${API_BASE}/assets/${assetId}/inspections`);
+  if (!response.ok) {
+    throw new Error("Failed to load inspections");
+  }
+  return response.json() as Promise<Inspection[]>;
+}
+
+/** Records a new inspection, or replaces the values of `inspectionId`. */
+export async function saveInspection(
+  assetId: string,
+  draft: InspectionDraft,
+  inspectionId?: string,
+): Promise<Inspection> {
+  const response = await authFetch(
+    `${API_BASE}/assets/${assetId}/inspections${inspectionId ? `/${inspectionId}` : ""}`,
+    {
+      method: inspectionId ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(draft),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to save inspection"),
+    );
+  }
+  return response.json() as Promise<Inspection>;
+}
+
+export async function deleteInspection(inspection: Inspection): Promise<void> {
+  const response = await authFetch(
+    `${API_BASE}/assets/${inspection.assetId}/inspections/${inspection.id}`,
+    { method: "DELETE" },
+  );
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to delete inspection"),
+    );
+  }
+}
+
+/** The latest inspection of each filtered asset that has one. */
+/** Latest inspections for one page of the filtered assets, paged like getAssetPage. */
+export async function getInspectionSummaries(
+  filters: AssetFilters,
+  { limit }: AssetPageRequest = {},
+): Promise<InspectionSummary[]> {
+  const query = new URLSearchParams(toQuery(filters));
+  if (limit) query.set("limit", String(limit));
+  const queryString = query.toString();
+  const response = await fetch(
+    `${API_BASE}/inspections/latest${queryString ? `?${queryString}` : ""}`,
+  );
+  if (!response.ok) {
+    throw new Error("Failed to load inspection status");
+  }
+  return response.json() as Promise<InspectionSummary[]>;
+}
+
+export async function getOverdueInspections(
+  filters: AssetFilters,
+): Promise<OverdueInspection[]> {
+  const queryString = toQuery(filters);
+  const response = await fetch(
+    `${API_BASE}/inspections/overdue${queryString ? `?${queryString}` : ""}`,
+  );
   if (!response.ok) {
-    throw new Error("Failed to delete asset");
+    throw new Error("Failed to load overdue inspections");
   }
+  return response.json() as Promise<OverdueInspection[]>;
 }
 
 export async function resetAssetsData(): Promise<void> {
-  const response = await fetch(`${API_BASE}/assets/reset`, {
+  const response = await authFetch(`${API_BASE}/assets/reset`, {
     method: "POST",
-    headers: authHeaders(),
   });
   if (!response.ok) {
     throw new Error("Failed to reset asset data");
   }
 }
 
-export async function getQaIssues(): Promise<QaIssue[]> {
-  const response = await fetch(`${API_BASE}/assets/qa`);
+export async function importAssets(
+  format: ImportReport["format"],
+  content: string,
+  dryRun: boolean,
+): Promise<ImportReport> {
+  const response = await authFetch(`${API_BASE}/assets/import`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ format, content, dryRun }),
+  });
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to import assets"),
+    );
+  }
+  return response.json() as Promise<ImportReport>;
+}
+
+/** Checks the filtered assets without recording a run. */
+export async function getQaIssues(
+  filters: AssetFilters,
+  includeWaived = false,
+): Promise<QaIssue[]> {
+  const query = new URLSearchParams(toQuery(filters));
+  if (includeWaived) query.set("includeWaived", "true");
+  const queryString = query.toString();
+  const response = await fetch(
+    `${API_BASE}/assets/qa${queryString ? `?${queryString}` : ""}`,
+  );
   if (!response.ok) {
     throw new Error("Failed to run QA checks");
   }
   return response.json() as Promise<QaIssue[]>;
 }
 
-export async function exportCsv(filters: AssetFilters): Promise<void> {
+/** Checks the filtered assets and saves the result to the QA run history. */
+export async function createQaRun(filters: AssetFilters): Promise<QaRun> {
   const query = toQuery(filters);
-  const response = await fetch(
-    `${API_BASE}/assets/export/csv${query ? `?${query}` : ""}`,
+  const response = await authFetch(
+    `${API_BASE}/qa/runs${query ? `?${query}` : ""}`,
+    { method: "POST" },
   );
   if (!response.ok) {
-    throw new Error("Failed to export CSV");
+    throw new Error(
+      await readErrorMessage(response, "Failed to run QA checks"),
+    );
   }
-  const blob = await response.blob();
-  downloadBlob(blob, buildExportFilename("csv"));
+  return response.json() as Promise<QaRun>;
 }
 
-export async function exportGeoJson(filters: AssetFilters): Promise<void> {
-  const query = toQuery(filters);
+export async function getQaRuns(limit = 20): Promise<QaRunSummary[]> {
+  const response = await authFetch(`${API_BASE}/qa/runs?limit=${limit}`);
+  if (!response.ok) {
+    throw new Error("Failed to load QA run history");
+  }
+  return response.json() as Promise<QaRunSummary[]>;
+}
+
+export async function getQaRunDiff(
+  fromId: string,
+  toId: string,
+): Promise<QaRunDiff> {
+  const query = new URLSearchParams({ from: fromId, to: toId });
+  const response = await authFetch(`${API_BASE}/qa/runs/diff?${query}`);
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to compare QA runs"),
+    );
+  }
+  return response.json() as Promise<QaRunDiff>;
+}
+
+export async function getQaRules(): Promise<QaRule[]> {
+  const response = await authFetch(`${API_BASE}/qa/rules`);
+  if (!response.ok) {
+    throw new Error("Failed to load QA rules");
+  }
+  return response.json() as Promise<QaRule[]>;
+}
+
+export async function updateQaRule(
+  id: QaRule["id"],
+  changes: Partial<Pick<QaRule, "severity" | "enabled" | "params">>,
+): Promise<QaRule> {
+  const response = await authFetch(`${API_BASE}/qa/rules/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to update QA rule"),
+    );
+  }
+  return response.json() as Promise<QaRule>;
+}
+
+export async function getAssetTypes(): Promise<AssetTypeSchema[]> {
+  const response = await fetch(`${API_BASE}/asset-types`);
+  if (!response.ok) {
+    throw new Error("Failed to load asset types");
+  }
+  return response.json() as Promise<AssetTypeSchema[]>;
+}
+
+/** Creates or replaces the attribute schema for a type. */
+export async function saveAssetType(
+  type: string,
+  attributes: AttributeDefinition[],
+): Promise<AssetTypeSchema> {
+  const response = await authFetch(
+    `${API_BASE}/asset-types/${encodeURIComponent(type)}`,
+    {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ attributes }),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to save asset type"),
+    );
+  }
+  return response.json() as Promise<AssetTypeSchema>;
+}
+
+export async function deleteAssetType(type: string): Promise<void> {
+  const response = await authFetch(
+    `${API_BASE}/asset-types/${encodeURIComponent(type)}`,
+    { method: "DELETE" },
+  );
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to delete asset type"),
+    );
+  }
+}
+
+export async function updateQaIssue(
+  id: QaIssue["id"],
+  changes: {
+    status: QaIssueStatus;
+    assignee?: string;
+    waiverReason?: string;
+  },
+): Promise<QaIssueState> {
+  const response = await authFetch(
+    `${API_BASE}/qa/issues/${encodeURIComponent(id)}`,
+    {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(changes),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to update QA issue"),
+    );
+  }
+  return response.json() as Promise<QaIssueState>;
+}
+
+type ExportFormat = "csv" | "geojson" | "kml" | "gpx" | "shapefile" | "xlsx";
+
+const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+  csv: "csv",
+  geojson: "geojson",
+  kml: "kml",
+  gpx: "gpx",
+  shapefile: "zip",
+  xlsx: "xlsx",
+};
+
+async function downloadExport(
+  filters: AssetFilters,
+  format: ExportFormat,
+  label: string,
+  crs?: string,
+): Promise<void> {
+  const query = new URLSearchParams(toQuery(filters));
+  if (crs) query.set("crs", crs);
+  const queryString = query.toString();
   const response = await fetch(
-    `${API_BASE}/assets/export/geojson${query ? `?${query}` : ""}`,
+    `${API_BASE}/assets/export/${format}${queryString ? `?${queryString}` : ""}`,
   );
   if (!response.ok) {
-    throw new Error("Failed to export GeoJSON");
+    throw new Error(`Failed to export ${label}`);
   }
   const blob = await response.blob();
-  downloadBlob(blob, buildExportFilename("geojson"));
+  downloadBlob(blob, buildExportFilename(EXPORT_EXTENSIONS[format]));
 }
 
-function buildExportFilename(ext: "csv" | "geojson"): string {
+/** `crs` is an EPSG code such as `EPSG:7856`; coordinates are WGS 84 without it. */
+export async function exportCsv(
+  filters: AssetFilters,
+  crs?: string,
+): Promise<void> {
+  await downloadExport(filters, "csv", "CSV", crs);
+}
+
+export async function exportGeoJson(
+  filters: AssetFilters,
+  crs?: string,
+): Promise<void> {
+  await downloadExport(filters, "geojson", "GeoJSON", crs);
+}
+
+export async function exportKml(filters: AssetFilters): Promise<void> {
+  await downloadExport(filters, "kml", "KML");
+}
+
+export async function exportGpx(filters: AssetFilters): Promise<void> {
+  await downloadExport(filters, "gpx", "GPX");
+}
+
+export async function exportShapefile(filters: AssetFilters): Promise<void> {
+  await downloadExport(filters, "shapefile", "shapefile");
+}
+
+export async function exportXlsx(filters: AssetFilters): Promise<void> {
+  await downloadExport(filters, "xlsx", "Excel workbook");
+}
+
+function buildExportFilename(ext: string): string {
   const now = new Date();
   const yyyy = now.getFullYear();
   const mm = String(now.getMonth() + 1).padStart(2, "0");
@@ -157,3 +771,164 @@ function downloadBlob(blob: Blob, filename: string): void {
   anchor.click();
   URL.revokeObjectURL(url);
 }
+
+export async function changePassword(
+  currentPassword: string,
+  newPassword: string,
+): Promise<void> {
+  const response = await authFetch(`${API_BASE}/auth/change-password`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ currentPassword, newPassword }),
+  });
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to change password"),
+    );
+  }
+}
+
+export async function getUsers(): Promise<UserAccount[]> {
+  const response = await authFetch(`${API_BASE}/users`);
+  if (!response.ok) {
+    throw new Error("Failed to load users");
+  }
+  return response.json() as Promise<UserAccount[]>;
+}
+
+export async function createUser(payload: {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  regions: string[];
+  assetTypes: string[];
+  password: string;
+}): Promise<UserAccount> {
+  const response = await authFetch(`${API_BASE}/users`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, "Failed to create user"));
+  }
+  return response.json() as Promise<UserAccount>;
+}
+
+export async function updateUser(
+  username: string,
+  changes: Partial<
+    Pick<
+      UserAccount,
+      "displayName" | "role" | "regions" | "assetTypes" | "disabled"
+    >
+  >,
+): Promise<UserAccount> {
+  const response = await authFetch(`${API_BASE}/users/${username}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(changes),
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, "Failed to update user"));
+  }
+  return response.json() as Promise<UserAccount>;
+}
+
+export async function deleteUser(username: string): Promise<void> {
+  const response = await authFetch(`${API_BASE}/users/${username}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, "Failed to delete user"));
+  }
+}
+
+export async function resetUserPassword(
+  username: string,
+  password: string,
+): Promise<void> {
+  const response = await authFetch(
+    `${API_BASE}/users/${username}/reset-password`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ password }),
+    },
+  );
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to reset password"),
+    );
+  }
+}
+
+export async function getUserSessions(
+  username: string,
+): Promise<UserSession[]> {
+  const response = await authFetch(`${API_BASE}/users/${username}/sessions`);
+  if (!response.ok) {
+    throw new Error("Failed to load sessions");
+  }
+  return response.json() as Promise<UserSession[]>;
+}
+
+export async function revokeUserSession(
+  username: string,
+  sessionId: string,
+): Promise<void> {
+  const response = await authFetch(
+    `${API_BASE}/users/${username}/sessions/${sessionId}`,
+    { method: "DELETE" },
+  );
+  if (!response.ok) {
+    throw new Error(await readErrorMessage(response, "Failed to end session"));
+  }
+}
+
+export async function revokeAllUserSessions(username: string): Promise<void> {
+  const response = await authFetch(`${API_BASE}/users/${username}/sessions`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error("Failed to end sessions");
+  }
+}
+
+export async function getApiKeys(): Promise<ApiKey[]> {
+  const response = await authFetch(`${API_BASE}/api-keys`);
+  if (!response.ok) {
+    throw new Error("Failed to load API keys");
+  }
+  return response.json() as Promise<ApiKey[]>;
+}
+
+/** Resolves with the new key in full; the server never returns it again. */
+export async function createApiKey(payload: {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt: string | null;
+}): Promise<{ apiKey: ApiKey; key: string }> {
+  const response = await authFetch(`${API_BASE}/api-keys`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(payload),
+  });
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to create API key"),
+    );
+  }
+  return response.json() as Promise<{ apiKey: ApiKey; key: string }>;
+}
+
+export async function revokeApiKey(id: string): Promise<void> {
+  const response = await authFetch(`${API_BASE}/api-keys/${id}`, {
+    method: "DELETE",
+  });
+  if (!response.ok) {
+    throw new Error(
+      await readErrorMessage(response, "Failed to revoke API key"),
+    );
+  }
+}
@@ -0,0 +1,64 @@
+// Coordinate system options for the exports and the edit form. The grid and datum
+// maths is shared with the server, so typed eastings and northings convert the same way.
+
+import {
+  fromMga,
+  gda2020ToGda94,
+  gda94ToGda2020,
+  toMga,
+} from "../shared/geodesy";
+import type { Coordinates } from "../shared/geodesy";
+
+export interface CrsOption {
+  code: string;
+  label: string;
+}
+
+/** Coordinate systems the CSV and GeoJSON exports can be written in. */
+export const EXPORT_CRS_OPTIONS: CrsOption[] = [
+  { code: "EPSG:4326", label: "WGS 84 (lat/lon)" },
+  { code: "EPSG:7844", label: "GDA2020 (lat/lon)" },
+  { code: "EPSG:7855", label: "GDA2020 / MGA zone 55" },
+  { code: "EPSG:7856", label: "GDA2020 / MGA zone 56" },
+  { code: "EPSG:4283", label: "GDA94 (lat/lon)" },
+  { code: "EPSG:28355", label: "GDA94 / MGA zone 55" },
+  { code: "EPSG:28356", label: "GDA94 / MGA zone 56" },
+];
+
+export interface GridOption extends CrsOption {
+  zone: number;
+  datum: "GDA2020" | "GDA94";
+}
+
+/** Grids the edit form accepts eastings and northings in. */
+export const GRID_OPTIONS: GridOption[] = [
+  { code: "EPSG:7856", label: "MGA2020 zone 56", zone: 56, datum: "GDA2020" },
+  { code: "EPSG:7855", label: "MGA2020 zone 55", zone: 55, datum: "GDA2020" },
+  { code: "EPSG:28356", label: "MGA94 zone 56", zone: 56, datum: "GDA94" },
+  { code: "EPSG:28355", label: "MGA94 zone 55", zone: 55, datum: "GDA94" },
+];
+
+/** Easting/northing on the grid to the WGS 84 (GDA2020) latitude/longitude the register stores. */
+export function gridToLatLon(
+  grid: GridOption,
+  easting: number,
+  northing: number,
+): { latitude: number; longitude: number } {
+  const position = fromMga([easting, northing], grid.zone);
+  const [longitude, latitude] =
+    grid.datum === "GDA94" ? gda94ToGda2020(position) : position;
+  return { latitude, longitude };
+}
+
+/** A stored latitude/longitude as [easting, northing] on the grid. */
+export function latLonToGrid(
+  grid: GridOption,
+  latitude: number,
+  longitude: number,
+): [number, number] {
+  const position: Coordinates = [longitude, latitude];
+  return toMga(
+    grid.datum === "GDA94" ? gda2020ToGda94(position) : position,
+    grid.zone,
+  );
+}
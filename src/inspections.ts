@@ -0,0 +1,96 @@
+// Condition and next-due colours for the map, its legend and the inspection lists.
+import type { ConditionRating, InspectionSummary } from "./types";
+
+export const CONDITION_RATINGS: ConditionRating[] = [1, 2, 3, 4, 5];
+
+export const CONDITION_LABELS: Record<ConditionRating, string> = {
+  1: "Very good",
+  2: "Good",
+  3: "Fair",
+  4: "Poor",
+  5: "Very poor",
+};
+
+const CONDITION_COLORS: Record<ConditionRating, string> = {
+  1: "#1a9850",
+  2: "#7bbf3a",
+  3: "#e6b800",
+  4: "#e67e22",
+  5: "#d73027",
+};
+
+export const NOT_INSPECTED_COLOR = "#95a5a6";
+
+// Inspections due within this many days are flagged before they fall overdue.
+export const DUE_SOON_DAYS = 30;
+
+export type DueState = "overdue" | "dueSoon" | "current" | "unscheduled";
+
+export const DUE_STATE_LABELS: Record<DueState, string> = {
+  overdue: "Overdue",
+  dueSoon: `Due within ${DUE_SOON_DAYS} days`,
+  current: "Up to date",
+  unscheduled: "Not inspected / none scheduled",
+};
+
+const DUE_STATE_COLORS: Record<DueState, string> = {
+  overdue: "#d73027",
+  dueSoon: "#e67e22",
+  current: "#1a9850",
+  unscheduled: NOT_INSPECTED_COLOR,
+};
+
+export function conditionText(rating: ConditionRating): string {
+  return `${rating} - ${CONDITION_LABELS[rating]}`;
+}
+
+export function conditionColor(summary: InspectionSummary | undefined): string {
+  return summary ? CONDITION_COLORS[summary.condition] : NOT_INSPECTED_COLOR;
+}
+
+export function dueState(summary: InspectionSummary | undefined): DueState {
+  if (!summary || summary.daysOverdue === null) return "unscheduled";
+  if (summary.daysOverdue > 0) return "overdue";
+  return summary.daysOverdue > -DUE_SOON_DAYS ? "dueSoon" : "current";
+}
+
+export function dueColor(summary: InspectionSummary | undefined): string {
+  return DUE_STATE_COLORS[dueState(summary)];
+}
+
+export function dueText(summary: InspectionSummary): string {
+  if (summary.daysOverdue === null || !summary.nextDueOn) {
+    return "No inspection scheduled";
+  }
+  if (summary.daysOverdue > 0) {
+    return `Inspection overdue by ${summary.daysOverdue} days (due ${summary.nextDueOn})`;
+  }
+  return `Next inspection due ${summary.nextDueOn}`;
+}
+
+export function conditionLegend(): { label: string; color: string }[] {
+  return [
+    ...CONDITION_RATINGS.map((rating) => ({
+      label: conditionText(rating),
+      color: CONDITION_COLORS[rating],
+    })),
+    { label: "Not inspected", color: NOT_INSPECTED_COLOR },
+  ];
+}
+
+export function dueLegend(): { label: string; color: string }[] {
+  return (Object.keys(DUE_STATE_LABELS) as DueState[]).map((state) => ({
+    label: DUE_STATE_LABELS[state],
+    color: DUE_STATE_COLORS[state],
+  }));
+}
+
+/** Today's date as `YYYY-MM-DD` in local time, for the inspection form. */
+export function todayIso(): string {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, "0"),
+    String(now.getDate()).padStart(2, "0"),
+  ].join("-");
+}
@@ -1,5 +1,31 @@
+import type { LineString, MultiPolygon, Point, Polygon } from "geojson";
+
 export type AssetStatus = "Active" | "Inactive" | "Planned";
 
+export type AssetGeometry = Point | LineString | Polygon | MultiPolygon;
+
+export type AttributeDataType = "text" | "number" | "date" | "boolean";
+
+/** Dates are `YYYY-MM-DD` strings. */
+export type AttributeValue = string | number | boolean;
+
+export interface AttributeDefinition {
+  name: string;
+  label: string;
+  dataType: AttributeDataType;
+  required: boolean;
+  /** When not empty, the value must be one of these. */
+  allowedValues: string[];
+}
+
+/** The custom attributes assets of one type carry; matched to Asset.type ignoring case. */
+export interface AssetTypeSchema {
+  type: string;
+  attributes: AttributeDefinition[];
+  updatedAt: string;
+  updatedBy: string;
+}
+
 export interface Asset {
   id: string;
   name: string;
@@ -8,19 +34,255 @@ export interface Asset {
   status: AssetStatus;
   latitude: number | null;
   longitude: number | null;
+  geometry?: AssetGeometry | null;
+  version: number;
   createdAt: string;
   updatedAt: string;
+  archivedAt?: string | null;
+  archivedBy?: string | null;
+  /** Ids of assets merged into this one. */
+  aliases?: string[];
+  /** On an archived duplicate, the asset it was merged into. */
+  mergedInto?: string | null;
+  attributes?: Record<string, AttributeValue>;
 }
 
+export type AssetDraft = Omit<
+  Asset,
+  | "id"
+  | "version"
+  | "createdAt"
+  | "updatedAt"
+  | "archivedAt"
+  | "archivedBy"
+  | "aliases"
+  | "mergedInto"
+>;
+
 export interface AssetFilters {
   search: string;
   region: string[];
   type: string[];
   status: string[];
+  /** minLon,minLat,maxLon,maxLat; only set when loading the current map view. */
+  bbox?: number[];
+  includeArchived?: "true" | "only";
+  /** Attribute name to comma separated values; sent as `attr.<name>`. */
+  attributes?: Record<string, string>;
+}
+
+export type AssetSortField =
+  | "id"
+  | "name"
+  | "region"
+  | "type"
+  | "status"
+  | "latitude"
+  | "longitude"
+  | "createdAt"
+  | "updatedAt";
+
+export interface AssetPage {
+  items: Asset[];
+  total: number;
+  nextCursor: string | null;
+}
+
+export type QaSeverity = "error" | "warning" | "info";
+
+export type QaRuleId =
+  | "MISSING_COORDINATES"
+  | "MISSING_FIELDS"
+  | "DUPLICATE_POINT"
+  | "NEAR_DUPLICATE"
+  | "OUTSIDE_EXTENT"
+  | "DUPLICATE_NAME"
+  | "STALE_RECORD"
+  | "TYPE_STATUS_NOT_ALLOWED";
+
+export interface QaRule {
+  id: QaRuleId;
+  name: string;
+  description: string;
+  severity: QaSeverity;
+  enabled: boolean;
+  params: Record<string, unknown>;
+  updatedAt: string | null;
+  updatedBy: string | null;
 }
 
+export type QaIssueStatus = "open" | "assigned" | "resolved" | "waived";
+
 export interface QaIssue {
-  code: "MISSING_COORDINATES" | "DUPLICATE_POINT" | "MISSING_FIELDS";
+  /** Stable across runs: `<code>:<assetId>`. */
+  id: string;
+  code: QaRuleId;
+  severity: QaSeverity;
   assetId: string;
+  /** The asset's region and type when the rules ran, for checking editing scope without loading it. */
+  region: string;
+  type: string;
   message: string;
+  /** The other assets involved, for the duplicate rules. */
+  relatedAssetIds?: string[];
+  status: QaIssueStatus;
+  assignee: string | null;
+  waiverReason: string | null;
+}
+
+export interface QaIssueState {
+  id: string;
+  code: QaRuleId;
+  assetId: string;
+  status: QaIssueStatus;
+  assignee: string | null;
+  waiverReason: string | null;
+  assetVersion: number;
+  updatedBy: string;
+  updatedAt: string;
+}
+
+export interface QaRunSummary {
+  id: string;
+  ranAt: string;
+  ranBy: string;
+  scope: Record<string, string>;
+  assetCount: number;
+  issueCount: number;
+  counts: Record<QaSeverity, number>;
+  ruleCounts: Partial<Record<QaRuleId, number>>;
+}
+
+export interface QaRun extends QaRunSummary {
+  issues: QaIssue[];
+}
+
+export interface QaRunDiff {
+  from: QaRunSummary;
+  to: QaRunSummary;
+  added: QaIssue[];
+  resolved: QaIssue[];
+  persisting: QaIssue[];
+}
+
+export interface ImportRowResult {
+  row: number;
+  id: string | null;
+  name: string;
+  action: "create" | "update" | "reject";
+  reasons: string[];
+}
+
+export interface ImportReport {
+  format: "csv" | "geojson";
+  dryRun: boolean;
+  summary: { created: number; updated: number; rejected: number };
+  rows: ImportRowResult[];
+}
+
+export interface AssetChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface AssetAttachment {
+  id: string;
+  assetId: string;
+  filename: string;
+  contentType: string;
+  size: number;
+  hasThumbnail: boolean;
+  uploadedBy: string;
+  uploadedAt: string;
+}
+
+/** 1 (very good) to 5 (very poor). */
+export type ConditionRating = 1 | 2 | 3 | 4 | 5;
+
+export interface Inspection {
+  id: string;
+  assetId: string;
+  inspectedOn: string;
+  inspector: string;
+  condition: ConditionRating;
+  notes: string;
+  nextDueOn: string | null;
+  recordedBy: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type InspectionDraft = Pick<
+  Inspection,
+  "inspectedOn" | "inspector" | "condition" | "notes" | "nextDueOn"
+>;
+
+export interface InspectionSummary {
+  assetId: string;
+  lastInspectedOn: string;
+  inspector: string;
+  condition: ConditionRating;
+  nextDueOn: string | null;
+  /** Negative while not yet due; null when nothing is scheduled. */
+  daysOverdue: number | null;
+}
+
+export type OverdueInspection = InspectionSummary &
+  Pick<Asset, "name" | "region" | "type" | "status"> & { daysOverdue: number };
+
+export interface AssetHistoryEntry {
+  id: string;
+  assetId: string;
+  action:
+    | "create"
+    | "update"
+    | "import"
+    | "revert"
+    | "archive"
+    | "restore"
+    | "purge"
+    | "merge";
+  changedBy: string;
+  changedAt: string;
+  changes: AssetChange[];
+  snapshot: Asset | null;
+}
+
+export type UserRole = "admin" | "editor" | "user";
+
+export interface UserAccount {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  regions: string[];
+  assetTypes: string[];
+  disabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+  passwordChangedAt: string;
+}
+
+export interface UserSession {
+  id: string;
+  username: string;
+  userAgent: string;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+export type ApiKeyScope = "read" | "write" | "export";
+
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string | null;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
 }
@@ -0,0 +1,174 @@
+// Just enough of a Mapbox Vector Tile reader for the tiles served by /api/tiles.
+
+export type TilePoint = [number, number];
+
+export interface TileFeature {
+  /** 1 point, 2 line, 3 polygon. */
+  type: number;
+  /** Points, line vertices or rings, in tile units from 0 to `extent`. */
+  parts: TilePoint[][];
+  properties: Record<string, string>;
+}
+
+export interface TileLayer {
+  extent: number;
+  features: TileFeature[];
+}
+
+class ProtobufReader {
+  private pos: number;
+
+  constructor(
+    private readonly bytes: Uint8Array,
+    start = 0,
+    private readonly end = bytes.length,
+  ) {
+    this.pos = start;
+  }
+
+  get done(): boolean {
+    return this.pos >= this.end;
+  }
+
+  varint(): number {
+    let value = 0;
+    let scale = 1;
+    for (;;) {
+      const byte = this.bytes[this.pos++];
+      value += (byte & 0x7f) * scale;
+      if (byte < 0x80) return value;
+      scale *= 0x80;
+    }
+  }
+
+  // Reads the tag and returns [field, wire type].
+  tag(): [number, number] {
+    const tag = this.varint();
+    return [Math.floor(tag / 8), tag % 8];
+  }
+
+  message(): ProtobufReader {
+    const length = this.varint();
+    const reader = new ProtobufReader(this.bytes, this.pos, this.pos + length);
+    this.pos += length;
+    return reader;
+  }
+
+  string(): string {
+    const length = this.varint();
+    const text = new TextDecoder().decode(
+      this.bytes.subarray(this.pos, this.pos + length),
+    );
+    this.pos += length;
+    return text;
+  }
+
+  packed(): number[] {
+    const reader = this.message();
+    const values: number[] = [];
+    while (!reader.done) values.push(reader.varint());
+    return values;
+  }
+
+  skip(wireType: number): void {
+    if (wireType === 0) this.varint();
+    else if (wireType === 1) this.pos += 8;
+    else if (wireType === 2) this.pos += this.varint();
+    else if (wireType === 5) this.pos += 4;
+    else throw new Error(`Unsupported protobuf wire type ${wireType}`);
+  }
+}
+
+function unzigzag(value: number): number {
+  return value % 2 === 0 ? value / 2 : -(value + 1) / 2;
+}
+
+function decodeGeometry(commands: number[]): TilePoint[][] {
+  const parts: TilePoint[][] = [];
+  let x = 0;
+  let y = 0;
+  let i = 0;
+  while (i < commands.length) {
+    const id = commands[i] % 8;
+    const count = Math.floor(commands[i] / 8);
+    i += 1;
+    if (id === 7) continue; // ClosePath: rings are drawn closed anyway.
+    for (let n = 0; n < count; n += 1) {
+      x += unzigzag(commands[i]);
+      y += unzigzag(commands[i + 1]);
+      i += 2;
+      if (id === 1) parts.push([[x, y]]);
+      else parts[parts.length - 1].push([x, y]);
+    }
+  }
+  return parts;
+}
+
+function readFeature(
+  reader: ProtobufReader,
+  keys: string[],
+  values: string[],
+): TileFeature {
+  let tags: number[] = [];
+  let type = 0;
+  let geometry: number[] = [];
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    if (field === 2) tags = reader.packed();
+    else if (field === 3) type = reader.varint();
+    else if (field === 4) geometry = reader.packed();
+    else reader.skip(wireType);
+  }
+  const properties: Record<string, string> = {};
+  for (let i = 0; i + 1 < tags.length; i += 2) {
+    properties[keys[tags[i]]] = values[tags[i + 1]];
+  }
+  return { type, parts: decodeGeometry(geometry), properties };
+}
+
+function readValue(reader: ProtobufReader): string {
+  let value = "";
+  while (!reader.done) {
+    const [field, wireType] = reader.tag();
+    // Only string values are written; numbers and booleans are not needed.
+    if (field === 1) value = reader.string();
+    else reader.skip(wireType);
+  }
+  return value;
+}
+
+/** The named layer from an encoded tile, or an empty layer if the tile does not have it. */
+export function decodeTileLayer(buffer: ArrayBuffer, name: string): TileLayer {
+  const tile = new ProtobufReader(new Uint8Array(buffer));
+  while (!tile.done) {
+    const [field, wireType] = tile.tag();
+    if (field !== 3) {
+      tile.skip(wireType);
+      continue;
+    }
+    const layer = tile.message();
+    let layerName = "";
+    let extent = 4096;
+    const keys: string[] = [];
+    const values: string[] = [];
+    const featureReaders: ProtobufReader[] = [];
+    while (!layer.done) {
+      const [layerField, layerWireType] = layer.tag();
+      if (layerField === 1) layerName = layer.string();
+      else if (layerField === 2) featureReaders.push(layer.message());
+      else if (layerField === 3) keys.push(layer.string());
+      else if (layerField === 4) values.push(readValue(layer.message()));
+      else if (layerField === 5) extent = layer.varint();
+      else layer.skip(layerWireType);
+    }
+    if (layerName !== name) continue;
+    // Keys and values follow the features, so features are read last.
+    return {
+      extent,
+      features: featureReaders.map((reader) =>
+        readFeature(reader, keys, values),
+      ),
+    };
+  }
+  return { extent: 4096, features: [] };
+}